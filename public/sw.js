@@ -0,0 +1,32 @@
+/* Push notifications service worker. Payloads come from src/workers/processors/push.processor.ts */
+
+self.addEventListener('push', (event) => {
+  let message = { title: 'Kenmei', url: '/notifications' }
+  try {
+    message = { ...message, ...event.data.json() }
+  } catch {
+    // Pushes without a JSON payload still show something
+  }
+
+  event.waitUntil(
+    self.registration.showNotification(message.title, {
+      body: message.body,
+      tag: message.tag,
+      data: { url: message.url },
+      icon: '/favicon.ico',
+    })
+  )
+})
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close()
+  const url = new URL(event.notification.data?.url || '/notifications', self.location.origin).href
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((windows) => {
+      const open = windows.find((w) => w.url === url)
+      if (open) return open.focus()
+      return self.clients.openWindow(url)
+    })
+  )
+})
@@ -0,0 +1,49 @@
+/**
+ * @jest-environment node
+ */
+
+const mockGetUser = jest.fn()
+const mockFindUnique = jest.fn()
+
+jest.mock('@/lib/supabase/server', () => ({
+  createClient: jest.fn(async () => ({ auth: { getUser: mockGetUser } })),
+}))
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: { user: { findUnique: (...args: unknown[]) => mockFindUnique(...args) } },
+}))
+
+import { requireAdmin } from '@/lib/admin-auth'
+import { ApiError } from '@/lib/api-utils'
+
+describe('requireAdmin', () => {
+  beforeEach(() => {
+    mockGetUser.mockReset()
+    mockFindUnique.mockReset()
+  })
+
+  it('should reject anonymous requests with 401', async () => {
+    mockGetUser.mockResolvedValue({ data: { user: null } })
+
+    await expect(requireAdmin()).rejects.toMatchObject({ statusCode: 401 })
+    expect(mockFindUnique).not.toHaveBeenCalled()
+  })
+
+  it('should reject users without the admin role with 403', async () => {
+    mockGetUser.mockResolvedValue({ data: { user: { id: 'user-1' } } })
+    mockFindUnique.mockResolvedValue({ role: 'user' })
+
+    const error = await requireAdmin().catch((e) => e)
+
+    expect(error).toBeInstanceOf(ApiError)
+    expect(error.statusCode).toBe(403)
+  })
+
+  it('should return the user when their role is admin', async () => {
+    mockGetUser.mockResolvedValue({ data: { user: { id: 'admin-1' } } })
+    mockFindUnique.mockResolvedValue({ role: 'admin' })
+
+    await expect(requireAdmin()).resolves.toEqual({ id: 'admin-1' })
+    expect(mockFindUnique).toHaveBeenCalledWith({ where: { id: 'admin-1' }, select: { role: true } })
+  })
+})
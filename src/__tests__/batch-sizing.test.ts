@@ -0,0 +1,49 @@
+/**
+ * @jest-environment node
+ */
+
+import { computeBatchSize, DEFAULT_BATCH_SIZE, MAX_BATCH_SIZE, perMinuteRate } from '@/lib/sync/batch-sizing'
+
+const TICK = 5 * 60 * 1000
+
+function backlog(overrides = {}) {
+  return { dueCount: 10000, queueDepth: 0, throughputPerMinute: 100, ...overrides }
+}
+
+describe('computeBatchSize', () => {
+  it('should queue what the workers can finish before the next tick, with headroom', () => {
+    expect(computeBatchSize(backlog(), TICK)).toBe(600)
+  })
+
+  it('should subtract jobs still queued from earlier ticks', () => {
+    expect(computeBatchSize(backlog({ queueDepth: 450 }), TICK)).toBe(150)
+    expect(computeBatchSize(backlog({ queueDepth: 5000 }), TICK)).toBe(0)
+  })
+
+  it('should never queue more than is due', () => {
+    expect(computeBatchSize(backlog({ dueCount: 42 }), TICK)).toBe(42)
+    expect(computeBatchSize(backlog({ dueCount: 0 }), TICK)).toBe(0)
+  })
+
+  it('should fall back to the default batch before throughput is known', () => {
+    expect(computeBatchSize(backlog({ throughputPerMinute: 0 }), TICK)).toBe(DEFAULT_BATCH_SIZE)
+  })
+
+  it('should not shrink below the default batch after a quiet period', () => {
+    // 0.1 checks/min would otherwise queue a single source per tick
+    expect(computeBatchSize(backlog({ throughputPerMinute: 0.1 }), TICK)).toBe(DEFAULT_BATCH_SIZE)
+    expect(computeBatchSize(backlog({ throughputPerMinute: 0.1, queueDepth: 30 }), TICK)).toBe(DEFAULT_BATCH_SIZE - 30)
+    expect(computeBatchSize(backlog({ throughputPerMinute: 0.1, dueCount: 7 }), TICK)).toBe(7)
+  })
+
+  it('should cap very large batches', () => {
+    expect(computeBatchSize(backlog({ throughputPerMinute: 10000 }), TICK)).toBe(MAX_BATCH_SIZE)
+  })
+})
+
+describe('perMinuteRate', () => {
+  it('should average the reported minutes', () => {
+    expect(perMinuteRate([30, 10, 20])).toBe(20)
+    expect(perMinuteRate([])).toBe(0)
+  })
+})
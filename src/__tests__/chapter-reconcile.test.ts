@@ -0,0 +1,148 @@
+/**
+ * @jest-environment node
+ */
+
+import { changeData, reconcileChapters, StoredChapter } from '@/lib/sync/reconcile'
+
+function stored(overrides: Partial<StoredChapter> & { chapter_number: number }): StoredChapter {
+  return {
+    id: `chapter-${overrides.chapter_number}`,
+    chapter_title: null,
+    chapter_url: `https://source.example/ch/${overrides.chapter_number}`,
+    volume_number: null,
+    is_available: true,
+    ...overrides,
+  }
+}
+
+function scraped(chapterNumber: number, overrides = {}) {
+  return { chapterNumber, chapterUrl: `https://source.example/ch/${chapterNumber}`, ...overrides }
+}
+
+describe('reconcileChapters', () => {
+  it('should create chapters the source added', () => {
+    const plan = reconcileChapters([stored({ chapter_number: 1 })], [scraped(1), scraped(2)])
+
+    expect(plan.create.map((c) => c.chapterNumber)).toEqual([2])
+    expect(plan.changes).toEqual([])
+  })
+
+  it('should match stored decimals to scraped numbers', () => {
+    const plan = reconcileChapters(
+      [stored({ chapter_number: { toString: () => '10.50' } as unknown as number, chapter_url: 'https://source.example/ch/10.5' })],
+      [scraped(10.5)]
+    )
+
+    expect(plan.create).toEqual([])
+    expect(plan.changes).toEqual([])
+  })
+
+  it('should mark chapters missing from the source as removed', () => {
+    const plan = reconcileChapters([stored({ chapter_number: 1 }), stored({ chapter_number: 2 })], [scraped(1)])
+
+    expect(plan.changes).toEqual([
+      {
+        chapterId: 'chapter-2',
+        chapterNumber: 2,
+        type: 'removed',
+        fields: { is_available: { from: true, to: false } },
+      },
+    ])
+  })
+
+  it('should not repeat removals for chapters already unavailable', () => {
+    const plan = reconcileChapters([stored({ chapter_number: 1 }), stored({ chapter_number: 2, is_available: false })], [scraped(1)])
+
+    expect(plan.changes).toEqual([])
+  })
+
+  it('should restore chapters that come back', () => {
+    const plan = reconcileChapters([stored({ chapter_number: 2, is_available: false })], [scraped(2)])
+
+    expect(plan.changes[0]).toMatchObject({ type: 'restored', fields: { is_available: { from: false, to: true } } })
+  })
+
+  it('should treat chapters the source flags unavailable as removed', () => {
+    const plan = reconcileChapters([stored({ chapter_number: 3 })], [scraped(3, { isAvailable: false })])
+
+    expect(plan.changes[0].type).toBe('removed')
+  })
+
+  it('should record title, URL and volume changes', () => {
+    const plan = reconcileChapters(
+      [stored({ chapter_number: 4, chapter_title: 'Old', volume_number: 1 })],
+      [scraped(4, { chapterTitle: 'New', chapterUrl: 'https://source.example/v2/4', volumeNumber: 2 })]
+    )
+
+    expect(plan.changes[0]).toEqual({
+      chapterId: 'chapter-4',
+      chapterNumber: 4,
+      type: 'updated',
+      fields: {
+        chapter_title: { from: 'Old', to: 'New' },
+        chapter_url: { from: 'https://source.example/ch/4', to: 'https://source.example/v2/4' },
+        volume_number: { from: 1, to: 2 },
+      },
+    })
+    expect(changeData(plan.changes[0])).toEqual({
+      chapter_title: 'New',
+      chapter_url: 'https://source.example/v2/4',
+      volume_number: 2,
+    })
+  })
+
+  it('should renumber a chapter still at the same URL instead of recreating it', () => {
+    const plan = reconcileChapters(
+      [stored({ chapter_number: 1 }), stored({ chapter_number: 2, chapter_url: 'https://source.example/ch/extra' })],
+      [scraped(1), scraped(1.5, { chapterUrl: 'https://source.example/ch/extra' })]
+    )
+
+    expect(plan.create).toEqual([])
+    expect(plan.changes).toEqual([
+      {
+        chapterId: 'chapter-2',
+        chapterNumber: 1.5,
+        type: 'renumbered',
+        fields: { chapter_number: { from: 2, to: 1.5 } },
+      },
+    ])
+    expect(changeData(plan.changes[0])).toEqual({ chapter_number: 1.5 })
+  })
+
+  it('should create a new chapter at a number freed by a renumber', () => {
+    const plan = reconcileChapters(
+      [stored({ chapter_number: 9, chapter_url: 'https://source.example/ch/x' })],
+      [scraped(9), scraped(10, { chapterUrl: 'https://source.example/ch/x' })]
+    )
+
+    expect(plan.create.map((c) => c.chapterNumber)).toEqual([9])
+    expect(plan.changes).toEqual([expect.objectContaining({ chapterId: 'chapter-9', type: 'renumbered' })])
+  })
+
+  it('should match by number when the new number is still taken', () => {
+    // Swapped URLs: renumbering either would collide with the other
+    const plan = reconcileChapters(
+      [stored({ chapter_number: 1 }), stored({ chapter_number: 2 })],
+      [scraped(1, { chapterUrl: 'https://source.example/ch/2' }), scraped(2, { chapterUrl: 'https://source.example/ch/1' })]
+    )
+
+    expect(plan.create).toEqual([])
+    expect(plan.changes.map((c) => [c.chapterId, c.type])).toEqual([
+      ['chapter-1', 'updated'],
+      ['chapter-2', 'updated'],
+    ])
+  })
+
+  it('should keep stored values the scrape does not provide', () => {
+    const plan = reconcileChapters([stored({ chapter_number: 5, chapter_title: 'Kept', volume_number: 3 })], [scraped(5)])
+
+    expect(plan.changes).toEqual([])
+  })
+
+  it('should not remove anything when the scrape is partial or empty', () => {
+    const chapters = [stored({ chapter_number: 1 }), stored({ chapter_number: 2 })]
+
+    expect(reconcileChapters(chapters, [scraped(1)], { partial: true })).toMatchObject({ changes: [], removalsSkipped: true })
+    expect(reconcileChapters(chapters, [])).toMatchObject({ changes: [], removalsSkipped: true })
+  })
+})
@@ -0,0 +1,99 @@
+/**
+ * @jest-environment node
+ */
+
+import {
+  afterFailure,
+  AUTO_DISABLE_AFTER_DAYS,
+  beforeCheck,
+  CircuitBreaker,
+  CLOSED_CIRCUIT,
+  cooldownMs,
+  FAILURE_THRESHOLD,
+  readCircuit,
+} from '@/lib/sync/circuit-breaker'
+
+const HOUR = 60 * 60 * 1000
+const DAY = 24 * HOUR
+const now = new Date('2024-06-01T00:00:00Z')
+const at = (offset: number) => new Date(now.getTime() + offset)
+
+function breaker(overrides: Partial<CircuitBreaker> = {}): CircuitBreaker {
+  return { ...CLOSED_CIRCUIT, ...overrides }
+}
+
+describe('beforeCheck', () => {
+  it('should check normally while closed', () => {
+    expect(beforeCheck(breaker(), now)).toEqual({ action: 'check' })
+  })
+
+  it('should skip while an open circuit cools down', () => {
+    expect(beforeCheck(breaker({ state: 'open', retryAt: at(HOUR) }), now)).toEqual({ action: 'skip', retryAt: at(HOUR) })
+  })
+
+  it('should let a probe through once the cooldown is over', () => {
+    const decision = beforeCheck(breaker({ state: 'open', retryAt: at(-1) }), now)
+
+    expect(decision).toEqual({ action: 'probe', leaseUntil: at(15 * 60 * 1000) })
+  })
+
+  it('should skip while a probe holds its lease and retry when the lease expires', () => {
+    expect(beforeCheck(breaker({ state: 'half-open', retryAt: at(60 * 1000) }), now).action).toBe('skip')
+    expect(beforeCheck(breaker({ state: 'half-open', retryAt: at(-1) }), now).action).toBe('probe')
+  })
+})
+
+describe('afterFailure', () => {
+  it('should stay closed below the failure threshold', () => {
+    const { breaker: next, disable } = afterFailure(breaker(), now)
+
+    expect(next).toEqual(breaker({ failureCount: 1, failingSince: now }))
+    expect(disable).toBe(false)
+  })
+
+  it('should open once the threshold is reached', () => {
+    const { breaker: next } = afterFailure(breaker({ failureCount: FAILURE_THRESHOLD - 1, failingSince: at(-HOUR) }), now)
+
+    expect(next.state).toBe('open')
+    expect(next.openCount).toBe(1)
+    expect(next.retryAt).toEqual(at(HOUR))
+    expect(next.failingSince).toEqual(at(-HOUR))
+  })
+
+  it('should reopen with a doubled cooldown when a probe fails', () => {
+    const { breaker: next } = afterFailure(breaker({ state: 'half-open', failureCount: 6, openCount: 3, failingSince: at(-DAY) }), now)
+
+    expect(next.state).toBe('open')
+    expect(next.openCount).toBe(4)
+    expect(next.retryAt).toEqual(at(8 * HOUR))
+  })
+
+  it('should ask to disable sources that keep failing', () => {
+    const failingSince = at(-AUTO_DISABLE_AFTER_DAYS * DAY)
+
+    expect(afterFailure(breaker({ state: 'half-open', openCount: 9, failingSince }), now).disable).toBe(true)
+  })
+})
+
+describe('cooldownMs', () => {
+  it('should grow exponentially up to a week', () => {
+    expect(cooldownMs(1)).toBe(HOUR)
+    expect(cooldownMs(2)).toBe(2 * HOUR)
+    expect(cooldownMs(20)).toBe(7 * DAY)
+  })
+})
+
+describe('readCircuit', () => {
+  it('should treat unknown states as closed', () => {
+    const circuit = readCircuit({
+      circuit_state: 'broken',
+      failure_count: 2,
+      circuit_open_count: 0,
+      circuit_retry_at: null,
+      failing_since: null,
+    })
+
+    expect(circuit.state).toBe('closed')
+    expect(circuit.failureCount).toBe(2)
+  })
+})
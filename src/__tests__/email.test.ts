@@ -0,0 +1,281 @@
+/**
+ * @jest-environment node
+ */
+
+import { AddressInfo, createServer, Socket } from 'net'
+
+const mockUserFindUnique = jest.fn()
+const mockUserUpdate = jest.fn()
+const mockSeriesFindUnique = jest.fn()
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    user: {
+      findUnique: (...args: unknown[]) => mockUserFindUnique(...args),
+      update: (...args: unknown[]) => mockUserUpdate(...args),
+    },
+    series: { findUnique: (...args: unknown[]) => mockSeriesFindUnique(...args) },
+  },
+}))
+
+jest.mock('@/lib/queues', () => ({}))
+
+import { SmtpCatcher } from '@/lib/email/smtp-catcher'
+import { SmtpError, SmtpTransport } from '@/lib/email/smtp'
+import { renderEmail } from '@/lib/email/templates'
+import { applyUnsubscribe, createUnsubscribeToken, unsubscribeUrl, verifyUnsubscribeToken } from '@/lib/email/unsubscribe'
+import { processEmail } from '@/workers/processors/email.processor'
+import { DEFAULT_NOTIFICATION_SETTINGS } from '@/lib/notifications/settings'
+
+const USER_ID = '0b8e1c52-7f3a-4d9e-9c1b-2a3f4e5d6c7b'
+const SERIES_ID = '4f6c2a8e-1b3d-4e5f-8a7b-9c0d1e2f3a4b'
+
+function emailJob(notification = {}) {
+  return {
+    id: 'email-1',
+    data: {
+      userId: USER_ID,
+      notification: {
+        type: 'new_chapter',
+        title: 'New Chapter Available',
+        series_id: SERIES_ID,
+        metadata: { chapter_count: 2, chapter_numbers: [11, 12] },
+        ...notification,
+      },
+    },
+  } as any
+}
+
+describe('Email', () => {
+  const catcher = new SmtpCatcher({ rejectRecipient: (address) => address.endsWith('@bounce.test') })
+
+  beforeAll(async () => {
+    process.env.SMTP_PORT = String(await catcher.listen(0))
+    process.env.EMAIL_UNSUBSCRIBE_SECRET = 'test-unsubscribe-secret'
+  })
+
+  afterAll(async () => {
+    delete process.env.EMAIL_UNSUBSCRIBE_SECRET
+    await catcher.close()
+  })
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    catcher.messages.length = 0
+    mockSeriesFindUnique.mockResolvedValue({ title: 'Solo <Leveling>' })
+    mockUserFindUnique.mockResolvedValue({
+      email: 'reader@example.com',
+      username: 'reader',
+      notification_settings: {},
+      email_bounced_at: null,
+    })
+  })
+
+  describe('unsubscribe tokens', () => {
+    it('should round-trip and reject tampering', () => {
+      const token = createUnsubscribeToken({ userId: USER_ID, setting: 'email_follows' })
+
+      expect(verifyUnsubscribeToken(token)).toEqual({ userId: USER_ID, setting: 'email_follows' })
+      expect(verifyUnsubscribeToken(token.replace(/.$/, (c) => (c === 'A' ? 'B' : 'A')))).toBeNull()
+
+      const [, signature] = token.split('.')
+      const forged = Buffer.from(`${USER_ID}:push_enabled`).toString('base64url')
+      expect(verifyUnsubscribeToken(`${forged}.${signature}`)).toBeNull()
+    })
+
+    it('should turn unsubscribe links off without a secret', () => {
+      const token = createUnsubscribeToken({ userId: USER_ID, setting: 'email_follows' })
+      jest.spyOn(console, 'warn').mockImplementation(() => {})
+      delete process.env.EMAIL_UNSUBSCRIBE_SECRET
+
+      try {
+        expect(verifyUnsubscribeToken(token)).toBeNull()
+        expect(unsubscribeUrl(USER_ID, 'new_follower')).toBeNull()
+        expect(() => createUnsubscribeToken({ userId: USER_ID, setting: 'email_follows' })).toThrow()
+      } finally {
+        process.env.EMAIL_UNSUBSCRIBE_SECRET = 'test-unsubscribe-secret'
+        jest.mocked(console.warn).mockRestore()
+      }
+    })
+
+    it('should turn off only the email setting it names', async () => {
+      mockUserFindUnique.mockResolvedValue({ notification_settings: { email: true, push: true } })
+
+      await applyUnsubscribe({ userId: USER_ID, setting: 'email_new_chapters' })
+
+      expect(mockUserUpdate).toHaveBeenCalledWith({
+        where: { id: USER_ID },
+        data: {
+          notification_settings: {
+            ...DEFAULT_NOTIFICATION_SETTINGS,
+            email_new_chapters: false,
+            email_follows: true,
+            email_achievements: true,
+            push_enabled: true,
+          },
+        },
+      })
+    })
+  })
+
+  describe('renderEmail', () => {
+    it('should escape user content in the HTML part only', () => {
+      const email = renderEmail(
+        { type: 'new_follower', followerUsername: '<b>mallory</b>' },
+        { username: 'reader', unsubscribeUrl: 'https://app.test/unsub?token=a&b' }
+      )
+
+      expect(email.subject).toBe('<b>mallory</b> started following you')
+      expect(email.text).toContain('<b>mallory</b> is now following')
+      expect(email.html).toContain('&lt;b&gt;mallory&lt;/b&gt;')
+      expect(email.html).toContain('href="https://app.test/unsub?token=a&amp;b"')
+    })
+
+    it('should list each series in a digest', () => {
+      const email = renderEmail(
+        {
+          type: 'chapter_digest',
+          frequency: 'weekly',
+          series: [
+            { seriesId: 's-1', seriesTitle: 'Alpha', chapterCount: 2, chapterNumbers: [11, 12] },
+            { seriesId: 's-2', seriesTitle: 'Beta', chapterCount: 1 },
+          ],
+        },
+        { username: 'reader', unsubscribeUrl: null }
+      )
+
+      expect(email.subject).toBe('3 new chapters in 2 series')
+      expect(email.text).toContain('This week, 3 new chapters came out')
+      expect(email.text).toContain('Alpha: Chapters 11, 12')
+      expect(email.html).toContain('>Beta: 1 new chapter</a>')
+    })
+  })
+
+  describe('processEmail', () => {
+    it('should send a new-chapter email with one-click unsubscribe headers', async () => {
+      await processEmail(emailJob())
+
+      expect(catcher.messages).toHaveLength(1)
+      const [message] = catcher.messages
+      expect(message.to).toEqual(['reader@example.com'])
+      expect(message.headers.subject).toBe('2 new chapters of Solo <Leveling>')
+      expect(message.headers['list-unsubscribe']).toMatch(/^<http.*\/api\/email\/unsubscribe\?token=.+>$/)
+      expect(message.headers['list-unsubscribe-post']).toBe('List-Unsubscribe=One-Click')
+      expect(message.text).toContain('Chapters 11, 12 of Solo <Leveling> just came out.')
+      expect(message.html).toContain('Solo &lt;Leveling&gt;')
+    })
+
+    it('should not email users who turned the type off', async () => {
+      mockUserFindUnique.mockResolvedValue({
+        email: 'reader@example.com',
+        username: 'reader',
+        notification_settings: { email_new_chapters: false },
+        email_bounced_at: null,
+      })
+
+      await processEmail(emailJob())
+
+      expect(catcher.messages).toHaveLength(0)
+    })
+
+    it('should record a bounce instead of retrying', async () => {
+      mockUserFindUnique.mockResolvedValue({
+        email: 'gone@bounce.test',
+        username: 'reader',
+        notification_settings: {},
+        email_bounced_at: null,
+      })
+
+      await expect(processEmail(emailJob())).resolves.toBeUndefined()
+
+      expect(mockUserUpdate).toHaveBeenCalledWith({
+        where: { id: USER_ID },
+        data: { email_bounced_at: expect.any(Date), email_bounce_reason: expect.stringContaining('550') },
+      })
+    })
+
+    it('should skip addresses that bounced before', async () => {
+      mockUserFindUnique.mockResolvedValue({
+        email: 'gone@bounce.test',
+        username: 'reader',
+        notification_settings: {},
+        email_bounced_at: new Date(),
+      })
+
+      await processEmail(emailJob())
+
+      expect(catcher.messages).toHaveLength(0)
+      expect(mockUserUpdate).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('SmtpTransport', () => {
+    it('should reject so the job is retried when the server is unreachable', async () => {
+      const down = new SmtpCatcher()
+      const port = await down.listen(0)
+      await down.close()
+
+      const transport = new SmtpTransport({ host: '127.0.0.1', port, secure: false, timeoutMs: 1000 })
+      await expect(transport.send({
+        from: 'a@example.com', to: 'b@example.com', subject: 's', text: 't', html: 'h',
+      })).rejects.toThrow()
+    })
+
+    it('should give up on a host that never completes the connection', async () => {
+      // Accepts TCP but never answers the TLS handshake
+      const sockets: Socket[] = []
+      const silent = createServer((socket) => sockets.push(socket))
+      await new Promise<void>((resolve) => silent.listen(0, '127.0.0.1', resolve))
+      const { port } = silent.address() as AddressInfo
+
+      try {
+        const transport = new SmtpTransport({ host: '127.0.0.1', port, secure: true, timeoutMs: 200 })
+        const error = await transport.send({
+          from: 'a@example.com', to: 'b@example.com', subject: 's', text: 't', html: 'h',
+        }).catch((e) => e)
+
+        expect(error).toBeInstanceOf(SmtpError)
+        expect(error.command).toBe('CONNECT')
+      } finally {
+        sockets.forEach((socket) => socket.destroy())
+        await new Promise((resolve) => silent.close(resolve))
+      }
+    })
+
+    it('should not send credentials over a connection it could not encrypt', async () => {
+      const config = { host: '127.0.0.1', port: Number(process.env.SMTP_PORT), secure: false, user: 'app', pass: 'secret', timeoutMs: 1000 }
+      const message = { from: 'a@example.com', to: 'b@example.com', subject: 's', text: 't', html: 'h' }
+
+      // The catcher offers AUTH but not STARTTLS
+      const error = await new SmtpTransport(config).send(message).catch((e) => e)
+      expect(error).toBeInstanceOf(SmtpError)
+      expect(error.command).toBe('STARTTLS')
+      expect(catcher.messages).toHaveLength(0)
+
+      await new SmtpTransport({ ...config, allowInsecureAuth: true }).send(message)
+      expect(catcher.messages).toHaveLength(1)
+    })
+
+    it('should refuse envelope addresses that could inject SMTP commands', async () => {
+      const transport = new SmtpTransport({ host: '127.0.0.1', port: Number(process.env.SMTP_PORT), secure: false, timeoutMs: 1000 })
+
+      for (const to of ['b@example.com>\r\nRCPT TO:<c@example.com', 'b@example.com\r\nDATA', 'b <c>@example.com']) {
+        const error = await transport.send({ from: 'a@example.com', to, subject: 's', text: 't', html: 'h' }).catch((e) => e)
+        expect(error).toBeInstanceOf(SmtpError)
+        expect(error.command).toBe('ENVELOPE')
+      }
+      expect(catcher.messages).toHaveLength(0)
+    })
+
+    it('should report refused recipients as bounces', async () => {
+      const transport = new SmtpTransport({ host: '127.0.0.1', port: Number(process.env.SMTP_PORT), secure: false, timeoutMs: 1000 })
+
+      const error = await transport.send({
+        from: 'a@example.com', to: 'x@bounce.test', subject: 's', text: 't', html: 'h',
+      }).catch((e) => e)
+
+      expect(error).toBeInstanceOf(SmtpError)
+      expect(error.isBounce).toBe(true)
+    })
+  })
+})
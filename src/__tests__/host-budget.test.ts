@@ -0,0 +1,83 @@
+/**
+ * @jest-environment node
+ */
+
+import RedisMock from 'ioredis-mock'
+
+jest.mock('@/lib/redis', () => ({ redis: {} }))
+jest.mock('@/lib/queue', () => ({ QUEUE_DRIVER: 'memory' }))
+
+import { BudgetDecision, HostBudget, MemoryHostBudget } from '@/lib/scrapers/politeness'
+
+const START = Date.UTC(2026, 0, 1)
+const client = new RedisMock()
+
+describe.each([
+  // ioredis-mock runs the real Lua script
+  ['HostBudget', () => new HostBudget(client)],
+  ['MemoryHostBudget', () => new MemoryHostBudget()],
+])('%s', (_name, createBudget) => {
+  let now: number
+  let budget: ReturnType<typeof createBudget>
+
+  const acquire = (leaseId: string, limit = { requestsPerMinute: 100, maxConcurrent: 2 }) =>
+    budget.acquire('mangadex', limit, leaseId)
+
+  function release(decision: BudgetDecision) {
+    if (!decision.allowed) throw new Error('Expected the budget to allow the check')
+    return decision.release()
+  }
+
+  beforeEach(async () => {
+    now = START
+    jest.spyOn(Date, 'now').mockImplementation(() => now)
+    jest.spyOn(Math, 'random').mockReturnValue(0)
+    await client.flushall()
+    budget = createBudget()
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  it('should refuse checks beyond the concurrency limit until a lease is released', async () => {
+    const first = await acquire('check-1')
+    expect((await acquire('check-2')).allowed).toBe(true)
+
+    expect(await acquire('check-3')).toEqual({ allowed: false, reason: 'concurrency', retryAfterMs: 5000 })
+
+    await release(first)
+    expect((await acquire('check-3')).allowed).toBe(true)
+  })
+
+  it('should not count a lease twice when the same check asks again', async () => {
+    await acquire('check-1')
+
+    expect((await acquire('check-1')).allowed).toBe(true)
+    expect((await acquire('check-2')).allowed).toBe(true)
+  })
+
+  it('should reclaim leases of checks that never released them', async () => {
+    await acquire('check-1', { requestsPerMinute: 100, maxConcurrent: 1 })
+    expect((await acquire('check-2', { requestsPerMinute: 100, maxConcurrent: 1 })).allowed).toBe(false)
+
+    now += 5 * 60 * 1000 + 1
+    expect((await acquire('check-2', { requestsPerMinute: 100, maxConcurrent: 1 })).allowed).toBe(true)
+  })
+
+  it('should refuse checks over the per-minute rate and refill as the window moves', async () => {
+    const limit = { requestsPerMinute: 3, maxConcurrent: 10 }
+
+    for (const leaseId of ['check-1', 'check-2', 'check-3']) {
+      await release(await acquire(leaseId, limit))
+      now += 10_000
+    }
+
+    // The oldest request leaves the window 60s after it started, 30s from now
+    expect(await acquire('check-4', limit)).toEqual({ allowed: false, reason: 'rate', retryAfterMs: 30_000 })
+
+    now += 30_000
+    expect((await acquire('check-4', limit)).allowed).toBe(true)
+    expect((await acquire('check-5', limit)).allowed).toBe(false)
+  })
+})
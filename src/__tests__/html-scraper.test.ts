@@ -0,0 +1,253 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * HTML scraper framework tests
+ * Covers chapter label normalization and the MangaPark site config against a recorded page
+ */
+
+import http from 'http'
+import path from 'path'
+import fs from 'fs'
+import { AddressInfo } from 'net'
+import {
+  HtmlScraper,
+  ScrapedSeries,
+  parseChapterLabel,
+  parsePublishedDate,
+  parseSourceUrl,
+  registerHtmlSite,
+  scraperRegistry,
+  validateSourceUrl,
+} from '@/lib/scrapers'
+import { mangaParkConfig } from '@/lib/scrapers/sites/mangapark'
+
+// jest.setup.js replaces global.fetch with a mock, so use a real implementation here
+const { fetch: realFetch } = require('next/dist/compiled/@edge-runtime/primitives')
+
+describe('parseChapterLabel', () => {
+  it('should parse chapter numbers with decimals', () => {
+    expect(parseChapterLabel('Ch. 12.5')).toMatchObject({ chapterNumber: 12.5, isExtra: false })
+    expect(parseChapterLabel('Chapter 7')).toMatchObject({ chapterNumber: 7 })
+    expect(parseChapterLabel('Episode 3')).toMatchObject({ chapterNumber: 3 })
+  })
+
+  it('should parse volume and chapter together', () => {
+    expect(parseChapterLabel('Vol.3 Ch.20')).toMatchObject({ volumeNumber: 3, chapterNumber: 20 })
+    expect(parseChapterLabel('Volume 2 Chapter 11')).toMatchObject({ volumeNumber: 2, chapterNumber: 11 })
+  })
+
+  it('should split off the chapter title', () => {
+    expect(parseChapterLabel('Vol.3 Ch.20: The Storm').title).toBe('The Storm')
+    expect(parseChapterLabel('Chapter 7 - Homecoming').title).toBe('Homecoming')
+    expect(parseChapterLabel('Ch. 5').title).toBeUndefined()
+  })
+
+  it('should flag unnumbered extras', () => {
+    expect(parseChapterLabel('Extra')).toEqual({ chapterNumber: null, volumeNumber: undefined, title: 'Extra', isExtra: true })
+    expect(parseChapterLabel('Side Story')).toMatchObject({ chapterNumber: null, isExtra: true })
+  })
+
+  it('should not treat unrelated text as a chapter', () => {
+    expect(parseChapterLabel('Scanlator notice')).toMatchObject({ chapterNumber: null, isExtra: false })
+  })
+})
+
+describe('parsePublishedDate', () => {
+  const now = new Date('2024-01-12T00:00:00Z')
+
+  it('should parse relative dates', () => {
+    expect(parsePublishedDate('3 days ago', now)).toEqual(new Date('2024-01-09T00:00:00Z'))
+    expect(parsePublishedDate('an hour ago', now)).toEqual(new Date('2024-01-11T23:00:00Z'))
+    expect(parsePublishedDate('yesterday', now)).toEqual(new Date('2024-01-11T00:00:00Z'))
+  })
+
+  it('should parse absolute dates and millisecond timestamps', () => {
+    expect(parsePublishedDate('2024-01-01T00:00:00Z', now)).toEqual(new Date('2024-01-01T00:00:00Z'))
+    expect(parsePublishedDate('1704067200000', now)).toEqual(new Date('2024-01-01T00:00:00Z'))
+  })
+
+  it('should return undefined for unparseable input', () => {
+    expect(parsePublishedDate('sometime', now)).toBeUndefined()
+    expect(parsePublishedDate('', now)).toBeUndefined()
+    expect(parsePublishedDate(undefined, now)).toBeUndefined()
+  })
+})
+
+describe('HtmlScraper with the MangaPark config', () => {
+  let server: http.Server
+  let baseUrl: string
+  let page: string
+  let requestHeaders: http.IncomingHttpHeaders[]
+
+  const ETAG = '"solo-leveling-v1"'
+
+  beforeAll(async () => {
+    page = fs.readFileSync(path.join(__dirname, 'fixtures', 'mangapark', 'title.html'), 'utf8')
+    server = http.createServer((req, res) => {
+      requestHeaders.push(req.headers)
+      if (req.url === '/title/75577-en-solo-leveling' && req.headers['if-none-match'] === ETAG) {
+        res.writeHead(304, { ETag: ETAG })
+        res.end()
+      } else if (req.url === '/title/75577-en-solo-leveling') {
+        res.writeHead(200, { 'Content-Type': 'text/html', ETag: ETAG })
+        res.end(page)
+      } else if (req.url === '/title/2-en-trickle') {
+        // Headers and the start of the page, then nothing
+        res.writeHead(200, { 'Content-Type': 'text/html' })
+        res.write('<html><body>')
+      } else if (req.url === '/title/1-en-redesigned') {
+        res.writeHead(200, { 'Content-Type': 'text/html' })
+        res.end('<html><body><h1>New layout</h1></body></html>')
+      } else {
+        res.writeHead(404)
+        res.end()
+      }
+    })
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+  })
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve))
+  })
+
+  beforeEach(() => {
+    requestHeaders = []
+    jest.spyOn(console, 'log').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  function createScraper() {
+    return new HtmlScraper(mangaParkConfig, { baseUrl, fetch: realFetch })
+  }
+
+  async function scrape() {
+    return (await createScraper().scrapeSeries('75577-en-solo-leveling')) as ScrapedSeries
+  }
+
+  it('should scrape the title and normalize chapters in reading order', async () => {
+    const result = await scrape()
+
+    expect(result.title).toBe('Solo Leveling')
+    expect(result.chapters.map((c) => c.chapterNumber)).toEqual([12.5, 20, 20.01, 21])
+  })
+
+  it('should resolve chapter URLs, titles, volumes and dates', async () => {
+    const result = await scrape()
+    const chapter20 = result.chapters.find((c) => c.chapterNumber === 20)!
+
+    expect(chapter20).toEqual({
+      chapterNumber: 20,
+      chapterTitle: 'The Storm',
+      chapterUrl: `${baseUrl}/title/75577-en-solo-leveling/9000002-ch-20`,
+      volumeNumber: 3,
+      publishedAt: new Date(1704672000000),
+    })
+  })
+
+  it('should number extras right after the chapter they follow', async () => {
+    const result = await scrape()
+    const extra = result.chapters.find((c) => c.chapterUrl.endsWith('9000003-extra'))!
+
+    expect(extra.chapterNumber).toBe(20.01)
+    expect(extra.chapterTitle).toBe('Extra')
+  })
+
+  it('should read series metadata from the configured selectors', async () => {
+    const metadata = await createScraper().scrapeMetadata('75577-en-solo-leveling')
+
+    expect(metadata).toEqual({
+      title: 'Solo Leveling',
+      alternativeTitles: ['Only I Level Up', 'Na Honjaman Level Up'],
+      description: expect.stringMatching(/^10 years ago, after "the Gate" connected .* to hunt monsters\.$/),
+      coverUrl: `${baseUrl}/thumb/W600/ampi/c12/solo-leveling.jpg`,
+      status: 'completed',
+      genres: ['Action', 'Fantasy'],
+      tags: undefined,
+    })
+  })
+
+  it('should record the ETag and a content hash', async () => {
+    const result = await scrape()
+
+    expect(result.fingerprint).toEqual({ etag: ETAG, lastModified: null, contentHash: expect.stringMatching(/^[0-9a-f]{64}$/) })
+    expect(result.responseBytes).toBe(Buffer.byteLength(page))
+  })
+
+  it('should send If-None-Match and short-circuit on 304', async () => {
+    const first = await scrape()
+    const result = await createScraper().scrapeSeries('75577-en-solo-leveling', { previous: first.fingerprint })
+
+    expect(requestHeaders[1]['if-none-match']).toBe(ETAG)
+    expect(result).toEqual({
+      sourceId: '75577-en-solo-leveling',
+      unchanged: true,
+      reason: 'not-modified',
+      fingerprint: first.fingerprint,
+      responseBytes: 0,
+    })
+  })
+
+  it('should short-circuit when the parsed content hash matches', async () => {
+    const first = await scrape()
+    const result = await createScraper().scrapeSeries('75577-en-solo-leveling', {
+      previous: { contentHash: first.fingerprint!.contentHash },
+    })
+
+    expect(result).toMatchObject({ unchanged: true, reason: 'content-hash' })
+  })
+
+  it('should fail without retrying when the page layout is not recognised', async () => {
+    await expect(createScraper().scrapeSeries('1-en-redesigned')).rejects.toMatchObject({
+      name: 'ScraperError',
+      isRetryable: false,
+    })
+  })
+
+  it('should time out a page whose body never finishes', async () => {
+    const scraper = new HtmlScraper({ ...mangaParkConfig, timeoutMs: 200 }, { baseUrl, fetch: realFetch })
+
+    const error = await scraper.scrapeSeries('2-en-trickle').catch((e) => e)
+
+    expect(error.message).toContain('Timeout after 200ms')
+    expect(error.isRetryable).toBe(true)
+  })
+
+  it('should reject source ids that do not match the site pattern', async () => {
+    await expect(createScraper().scrapeSeries('../admin')).rejects.toMatchObject({ isRetryable: false })
+  })
+})
+
+describe('registerHtmlSite', () => {
+  it('should register MangaPark from the site configs', () => {
+    expect(scraperRegistry.get('mangapark')?.scraper).toBeInstanceOf(HtmlScraper)
+    expect(scraperRegistry.get('mangapark')?.capabilities).toEqual(['chapters', 'metadata'])
+    expect(validateSourceUrl('https://mangapark.io/title/75577-en-solo-leveling')).toBe(true)
+    expect(validateSourceUrl('https://www.mangapark.io/title/75577-en-solo-leveling')).toBe(true)
+  })
+
+  it('should make new sites available to the worker by config alone', () => {
+    expect(validateSourceUrl('https://example-manga.net/series/abc')).toBe(false)
+
+    registerHtmlSite({
+      name: 'examplemanga',
+      displayName: 'Example Manga',
+      baseUrl: 'https://example-manga.net',
+      seriesPath: '/series/{sourceId}',
+      urlPatterns: [/^\/series\/([a-z]+)/],
+      rateLimit: { requestsPerMinute: 10, maxConcurrent: 1 },
+      selectors: { title: 'h1', chapterItem: 'li.chapter', chapterLink: 'a' },
+    })
+
+    expect(scraperRegistry.get('examplemanga')?.scraper).toBeInstanceOf(HtmlScraper)
+    expect(validateSourceUrl('https://example-manga.net/series/abc')).toBe(true)
+    expect(parseSourceUrl('https://example-manga.net/series/abc')).toEqual({ sourceName: 'examplemanga', sourceId: 'abc' })
+
+    scraperRegistry.unregister('examplemanga')
+  })
+})
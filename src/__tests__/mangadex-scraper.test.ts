@@ -0,0 +1,207 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * MangaDex scraper tests
+ * Runs the scraper against recorded API responses served by a local stub server
+ */
+
+import http from 'http'
+import path from 'path'
+import fs from 'fs'
+import { AddressInfo } from 'net'
+import { MangaDexScraper, ScrapedSeries, ScraperError } from '@/lib/scrapers'
+
+// jest.setup.js replaces global.fetch with a mock, so use a real implementation here
+const { fetch: realFetch } = require('next/dist/compiled/@edge-runtime/primitives')
+
+const MANGA_ID = 'a1c7c817-4e59-43b7-9365-09675a149a6f'
+const FIXTURES = path.join(__dirname, 'fixtures', 'mangadex')
+
+function fixture(name: string): string {
+  return fs.readFileSync(path.join(FIXTURES, name), 'utf8')
+}
+
+describe('MangaDexScraper', () => {
+  let server: http.Server
+  let baseUrl: string
+  let requests: URL[]
+  let statusOverride: number | null
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      const url = new URL(req.url || '/', 'http://stub')
+      requests.push(url)
+
+      if (statusOverride) {
+        res.writeHead(statusOverride, { 'Content-Type': 'application/json' })
+        res.end(JSON.stringify({ result: 'error', errors: [] }))
+        return
+      }
+
+      let body: string | null = null
+      if (url.pathname === `/manga/${MANGA_ID}`) {
+        body = fixture('manga.json')
+      } else if (url.pathname === `/manga/${MANGA_ID}/feed` && url.searchParams.has('order[updatedAt]')) {
+        body = fixture('feed-latest.json')
+      } else if (url.pathname === `/manga/${MANGA_ID}/feed`) {
+        body = url.searchParams.get('offset') === '0' ? fixture('feed-page-1.json') : fixture('feed-page-2.json')
+      }
+
+      res.writeHead(body ? 200 : 404, { 'Content-Type': 'application/json' })
+      res.end(body ?? JSON.stringify({ result: 'error', errors: [] }))
+    })
+
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+  })
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve))
+  })
+
+  beforeEach(() => {
+    requests = []
+    statusOverride = null
+    jest.spyOn(console, 'log').mockImplementation(() => {})
+    jest.spyOn(console, 'warn').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  function createScraper() {
+    return new MangaDexScraper({ baseUrl, pageSize: 3, languages: ['en'], fetch: realFetch })
+  }
+
+  async function scrape() {
+    return (await createScraper().scrapeSeries(MANGA_ID)) as ScrapedSeries
+  }
+
+  const isPageRequest = (r: URL) => r.pathname.endsWith('/feed') && !r.searchParams.has('order[updatedAt]')
+
+  it('should page through the feed until total is reached', async () => {
+    await createScraper().scrapeSeries(MANGA_ID)
+
+    const feedRequests = requests.filter(isPageRequest)
+    expect(feedRequests.map((r) => r.searchParams.get('offset'))).toEqual(['0', '3'])
+    expect(feedRequests[0].searchParams.get('limit')).toBe('3')
+  })
+
+  it('should filter the feed by the configured languages', async () => {
+    await createScraper().scrapeSeries(MANGA_ID)
+
+    const feedRequest = requests.find(isPageRequest)!
+    expect(feedRequest.searchParams.getAll('translatedLanguage[]')).toEqual(['en'])
+  })
+
+  it('should map the series title and chapters', async () => {
+    const result = await scrape()
+
+    expect(result.sourceId).toBe(MANGA_ID)
+    expect(result.title).toBe('One Piece')
+    expect(result.chapters.map((c) => c.chapterNumber)).toEqual([1, 1.5, 2, 3])
+  })
+
+  it('should keep the earliest upload when groups publish the same chapter', async () => {
+    const result = await scrape()
+    const chapterOne = result.chapters.find((c) => c.chapterNumber === 1)!
+
+    expect(chapterOne.chapterTitle).toBe('Romance Dawn')
+    expect(chapterOne.chapterUrl).toBe('https://mangadex.org/chapter/0b1c2d3e-0000-4000-8000-000000000001')
+    expect(chapterOne.volumeNumber).toBe(1)
+    expect(chapterOne.publishedAt).toEqual(new Date('2023-01-01T00:00:00Z'))
+  })
+
+  it('should link external chapters to their external URL', async () => {
+    const result = await scrape()
+    const chapterTwo = result.chapters.find((c) => c.chapterNumber === 2)!
+
+    expect(chapterTwo.chapterUrl).toBe('https://mangaplus.shueisha.co.jp/viewer/1000002')
+    expect(chapterTwo.volumeNumber).toBeUndefined()
+    expect(chapterTwo.chapterTitle).toBeUndefined()
+    expect(chapterTwo.isAvailable).toBe(true)
+  })
+
+  it('should mark unavailable chapters and skip non-numeric ones', async () => {
+    const result = await scrape()
+
+    expect(result.chapters.find((c) => c.chapterNumber === 3)!.isAvailable).toBe(false)
+    expect(result.chapters.some((c) => c.chapterTitle === 'Omake')).toBe(false)
+  })
+
+  it('should map series metadata with the cover and split genres from tags', async () => {
+    const result = await scrape()
+
+    expect(result.metadata).toEqual({
+      title: 'One Piece',
+      alternativeTitles: ['Wan Pīsu', 'OP'],
+      description: 'Gol D. Roger was known as the Pirate King.',
+      coverUrl: `https://uploads.mangadex.org/covers/${MANGA_ID}/cover-one-piece.jpg`,
+      status: 'ongoing',
+      genres: ['Action', 'Adventure'],
+      tags: ['Award Winning', 'Pirates'],
+      contentRating: 'safe',
+    })
+  })
+
+  it('should fetch metadata on its own with a single request', async () => {
+    const metadata = await createScraper().scrapeMetadata(MANGA_ID)
+
+    expect(metadata.title).toBe('One Piece')
+    expect(requests).toHaveLength(1)
+    expect(requests[0].searchParams.getAll('includes[]')).toEqual(['cover_art'])
+  })
+
+  it('should return a fingerprint and the bytes downloaded', async () => {
+    const result = await scrape()
+
+    expect(result.fingerprint?.contentHash).toMatch(/^[0-9a-f]{64}$/)
+    expect(result.responseBytes).toBeGreaterThan(0)
+  })
+
+  it('should stop after the probe when the feed fingerprint is unchanged', async () => {
+    const first = await scrape()
+    requests = []
+
+    const second = await createScraper().scrapeSeries(MANGA_ID, { previous: first.fingerprint })
+
+    expect(second).toMatchObject({ unchanged: true, reason: 'content-hash', fingerprint: first.fingerprint })
+    expect(requests).toHaveLength(1)
+    expect(requests[0].searchParams.get('limit')).toBe('1')
+  })
+
+  it('should fetch the full feed when the fingerprint differs', async () => {
+    const result = await createScraper().scrapeSeries(MANGA_ID, { previous: { contentHash: 'stale' } })
+
+    expect(result.unchanged).toBeFalsy()
+    expect(requests.filter(isPageRequest)).toHaveLength(2)
+  })
+
+  it('should reject malformed manga ids without a request', async () => {
+    await expect(createScraper().scrapeSeries('not-a-uuid')).rejects.toMatchObject({
+      name: 'ScraperError',
+      isRetryable: false,
+    })
+    expect(requests).toHaveLength(0)
+  })
+
+  it('should treat 404 responses as permanent failures', async () => {
+    statusOverride = 404
+
+    const error = await createScraper().scrapeSeries(MANGA_ID).catch((e) => e)
+    expect(error).toBeInstanceOf(ScraperError)
+    expect(error.isRetryable).toBe(false)
+    expect(error.statusCode).toBe(404)
+  })
+
+  it('should treat 429 and 5xx responses as retryable', async () => {
+    statusOverride = 429
+    await expect(createScraper().scrapeSeries(MANGA_ID)).rejects.toMatchObject({ isRetryable: true, statusCode: 429 })
+
+    statusOverride = 503
+    await expect(createScraper().scrapeSeries(MANGA_ID)).rejects.toMatchObject({ isRetryable: true, statusCode: 503 })
+  })
+})
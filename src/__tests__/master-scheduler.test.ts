@@ -0,0 +1,144 @@
+/**
+ * @jest-environment node
+ */
+
+const mockAddBulk = jest.fn()
+
+interface SourceRow {
+  id: string
+  sync_priority: string
+  next_check_at: Date | null
+  disabled_at: Date | null
+}
+
+// Committed rows, and what an open transaction has written but not committed.
+// Row locking (FOR UPDATE SKIP LOCKED) is left to Postgres and not modelled here.
+const rows = new Map<string, SourceRow>()
+const events: string[] = []
+let failCommit = false
+
+function isDue(row: SourceRow, now: Date) {
+  return row.disabled_at === null && (row.next_check_at === null || row.next_check_at <= now)
+}
+
+function updateMany(target: Map<string, SourceRow>) {
+  return async ({ where, data }: { where: { id: { in: string[] } }; data: { next_check_at: Date | null } }) => {
+    where.id.in.forEach((id) => target.set(id, { ...target.get(id)!, next_check_at: data.next_check_at }))
+    return { count: where.id.in.length }
+  }
+}
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    seriesSource: {
+      count: async () => Array.from(rows.values()).filter((r) => isDue(r, new Date())).length,
+      aggregate: async () => ({ _min: { next_check_at: null } }),
+      updateMany: (args: never) => updateMany(rows)(args),
+    },
+    $transaction: async (fn: (tx: unknown) => Promise<unknown>) => {
+      const written = new Map(rows)
+      const tx = {
+        $queryRaw: async (strings: TemplateStringsArray, ...values: unknown[]) => {
+          const now = values[0] as Date
+          const limit = values[strings.findIndex((s) => /LIMIT\s*$/.test(s))] as number
+          return Array.from(written.values())
+            .filter((r) => isDue(r, now))
+            .slice(0, limit)
+            .map((r) => ({ ...r, next_release_at: null, release_confidence: null }))
+        },
+        seriesSource: { updateMany: updateMany(written) },
+      }
+
+      events.push('begin')
+      const result = await fn(tx)
+      if (failCommit) {
+        events.push('rollback')
+        throw new Error('could not serialize access')
+      }
+      written.forEach((row, id) => rows.set(id, row))
+      events.push('commit')
+      return result
+    },
+  },
+}))
+
+jest.mock('@/lib/queues', () => ({
+  schedulerQueue: {},
+  checkSourceQueue: {
+    // A quiet queue: 46 queued jobs leave room for 4 of the 50-job minimum batch
+    getJobCounts: async () => ({ waiting: 46 }),
+    getMetrics: async () => ({ data: [1], count: 1 }),
+    addBulk: (...args: unknown[]) => {
+      events.push('enqueue')
+      return mockAddBulk(...args)
+    },
+  },
+}))
+
+import { runMasterScheduler } from '@/workers/schedulers/master.scheduler'
+
+function queuedJobIds(): string[] {
+  return mockAddBulk.mock.calls.flatMap(([jobs]) => jobs.map((job: { opts: { jobId: string } }) => job.opts.jobId))
+}
+
+describe('runMasterScheduler', () => {
+  const lastCheck = new Date(Date.now() - 60 * 60 * 1000)
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    jest.spyOn(console, 'log').mockImplementation(() => {})
+    mockAddBulk.mockResolvedValue([])
+    events.length = 0
+    failCommit = false
+    rows.clear()
+    for (let i = 1; i <= 6; i++) {
+      rows.set(`source-${i}`, {
+        id: `source-${i}`,
+        sync_priority: 'WARM',
+        next_check_at: i === 1 ? null : lastCheck,
+        disabled_at: null,
+      })
+    }
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  it('should queue claimed sources only after the claim commits', async () => {
+    await runMasterScheduler()
+
+    expect(events).toEqual(['begin', 'commit', 'enqueue'])
+    expect(queuedJobIds()).toEqual([
+      'check-source-1-new',
+      ...[2, 3, 4].map((i) => `check-source-${i}-${lastCheck.getTime()}`),
+    ])
+    for (const id of ['source-1', 'source-2', 'source-3', 'source-4']) {
+      expect(rows.get(id)!.next_check_at!.getTime()).toBeGreaterThan(Date.now())
+    }
+    expect(rows.get('source-5')!.next_check_at).toEqual(lastCheck)
+  })
+
+  it('should queue nothing when the claim fails to commit', async () => {
+    failCommit = true
+
+    await expect(runMasterScheduler()).rejects.toThrow('could not serialize access')
+
+    expect(events).toEqual(['begin', 'rollback'])
+    expect(mockAddBulk).not.toHaveBeenCalled()
+    expect(rows.get('source-2')!.next_check_at).toEqual(lastCheck)
+  })
+
+  it('should make sources due again with the same job ids when queueing fails', async () => {
+    mockAddBulk.mockRejectedValueOnce(new Error('Redis unavailable'))
+
+    await expect(runMasterScheduler()).rejects.toThrow('Redis unavailable')
+    expect(rows.get('source-1')!.next_check_at).toBeNull()
+    expect(rows.get('source-2')!.next_check_at).toEqual(lastCheck)
+
+    await runMasterScheduler()
+
+    const [failed, retried] = mockAddBulk.mock.calls.map(([jobs]) => jobs.map((job: { opts: { jobId: string } }) => job.opts.jobId))
+    expect(retried).toEqual(failed)
+  })
+})
@@ -0,0 +1,279 @@
+/**
+ * @jest-environment node
+ */
+
+const mockDb = {
+  sources: new Map<string, Record<string, unknown>>(),
+  chapters: [] as Array<Record<string, unknown>>,
+  notifications: [] as Array<Record<string, unknown>>,
+  sourceUpdates: [] as Array<Record<string, unknown>>,
+}
+
+jest.mock('@/lib/prisma', () => {
+  const prisma: Record<string, any> = {
+    seriesSource: {
+      findUnique: jest.fn(async ({ where }) => mockDb.sources.get(where.id) ?? null),
+      update: jest.fn(async ({ where, data }) => {
+        mockDb.sourceUpdates.push({ id: where.id, ...data })
+        return mockDb.sources.get(where.id)
+      }),
+    },
+    chapter: {
+      findMany: jest.fn(async ({ where }) => mockDb.chapters.filter((c) => where.series_id
+        ? c.series_id === where.series_id
+        : c.series_source_id === where.series_source_id)),
+      createMany: jest.fn(async ({ data }) => {
+        mockDb.chapters.push(...data)
+        return { count: data.length }
+      }),
+      update: jest.fn(),
+    },
+    chapterChange: { createMany: jest.fn() },
+    series: { findUnique: jest.fn(async () => ({ title: 'Test Series' })) },
+    libraryEntry: { findMany: jest.fn(async () => [{ user_id: 'user-1' }, { user_id: 'user-2' }]) },
+    user: {
+      findMany: jest.fn(async ({ where }) => where.id.in.map((id: string) => ({ id, notification_settings: {} }))),
+    },
+    notification: {
+      findMany: jest.fn(async ({ where }) => mockDb.notifications.filter((n) => n.series_id === where.series_id)),
+      createMany: jest.fn(async ({ data }) => {
+        mockDb.notifications.push(...data)
+        return { count: data.length }
+      }),
+    },
+  }
+  prisma.$transaction = jest.fn(async (fn: (tx: unknown) => unknown) => fn(prisma))
+  return { prisma }
+})
+
+jest.mock('@/lib/release-forecast', () => ({ refreshReleaseForecasts: jest.fn() }))
+
+// The driver is chosen when @/lib/queue is first loaded
+process.env.QUEUE_DRIVER = 'memory'
+
+const { createMemoryDriver, DelayedError, QUEUE_DRIVER, queueDriver } = require('@/lib/queue') as typeof import('@/lib/queue')
+const { CHECK_SOURCE_QUEUE, NOTIFICATION_QUEUE, checkSourceQueue, notificationQueue } =
+  require('@/lib/queues') as typeof import('@/lib/queues')
+const { scraperRegistry } = require('@/lib/scrapers') as typeof import('@/lib/scrapers')
+const { processCheckSource } = require('@/workers/processors/check-source.processor') as
+  typeof import('@/workers/processors/check-source.processor')
+const { processNotification } = require('@/workers/processors/notification.processor') as
+  typeof import('@/workers/processors/notification.processor')
+
+type MemoryQueue = import('@/lib/queue').MemoryQueue
+type JobWorker = import('@/lib/queue').JobWorker
+
+describe('Memory queue driver', () => {
+  const workers: JobWorker[] = []
+
+  afterEach(async () => {
+    await Promise.all(workers.splice(0).map((w) => w.close()))
+  })
+
+  it('should run unprioritized jobs first, then by priority', async () => {
+    const driver = createMemoryDriver()
+    const queue = driver.createQueue('order') as MemoryQueue
+    const seen: string[] = []
+
+    await queue.add('low', {}, { priority: 5 })
+    await queue.add('plain', {})
+    await queue.add('high', {}, { priority: 1 })
+    await queue.add('low-2', {}, { priority: 5 })
+
+    workers.push(driver.createWorker('order', async (job) => { seen.push(job.name) }, { concurrency: 1 }))
+    await queue.onIdle()
+
+    expect(seen).toEqual(['plain', 'high', 'low', 'low-2'])
+  })
+
+  it('should not add a job whose id already exists', async () => {
+    const queue = createMemoryDriver().createQueue('dedupe') as MemoryQueue
+
+    const first = await queue.add('a', { n: 1 }, { jobId: 'same' })
+    const second = await queue.add('a', { n: 2 }, { jobId: 'same' })
+
+    expect(second).toBe(first)
+    expect(second.data).toEqual({ n: 1 })
+    expect(await queue.getJobCounts('waiting')).toEqual({ waiting: 1 })
+  })
+
+  it('should retry failed jobs with exponential backoff', async () => {
+    const driver = createMemoryDriver()
+    const queue = driver.createQueue('retry', { attempts: 3, backoff: { type: 'exponential', delay: 20 } }) as MemoryQueue
+    const startedAt: number[] = []
+    const failures: number[] = []
+
+    const worker = driver.createWorker('retry', async () => {
+      startedAt.push(Date.now())
+      if (startedAt.length < 3) throw new Error('flaky')
+      return 'done'
+    }, { concurrency: 1 })
+    worker.on('failed', (job) => failures.push(job!.attemptsMade))
+    workers.push(worker)
+
+    const job = await queue.add('flaky', {})
+    await queue.onIdle()
+
+    expect(failures).toEqual([1, 2])
+    expect(await job.getState()).toBe('completed')
+    expect(job.returnvalue).toBe('done')
+    expect(startedAt[1] - startedAt[0]).toBeGreaterThanOrEqual(15)
+    expect(startedAt[2] - startedAt[1]).toBeGreaterThanOrEqual(35)
+  })
+
+  it('should fail jobs that exhaust their attempts', async () => {
+    const driver = createMemoryDriver()
+    const queue = driver.createQueue('exhaust') as MemoryQueue
+
+    workers.push(driver.createWorker('exhaust', async () => { throw new Error('boom') }, { concurrency: 1 }))
+    const job = await queue.add('always-fails', {}, { attempts: 2, backoff: { type: 'fixed', delay: 5 } })
+    await queue.onIdle()
+
+    expect(await job.getState()).toBe('failed')
+    expect(job.attemptsMade).toBe(2)
+    expect(job.failedReason).toBe('boom')
+  })
+
+  it('should hold delayed jobs until they are due', async () => {
+    const driver = createMemoryDriver()
+    const queue = driver.createQueue('delayed') as MemoryQueue
+    let ranAt = 0
+
+    workers.push(driver.createWorker('delayed', async () => { ranAt = Date.now() }, { concurrency: 1 }))
+    const job = await queue.add('later', {}, { delay: 40 })
+
+    expect(await job.getState()).toBe('delayed')
+    await queue.onIdle()
+    expect(ranAt - job.timestamp).toBeGreaterThanOrEqual(35)
+  })
+
+  it('should re-run jobs moved to delayed without counting a failure', async () => {
+    const driver = createMemoryDriver()
+    const queue = driver.createQueue('park') as MemoryQueue
+    const failed = jest.fn()
+    let runs = 0
+
+    const worker = driver.createWorker('park', async (job, token) => {
+      if (++runs === 1) {
+        await job.moveToDelayed(Date.now() + 10, token)
+        throw new DelayedError()
+      }
+    }, { concurrency: 1 })
+    worker.on('failed', failed)
+    workers.push(worker)
+
+    const job = await queue.add('budgeted', {})
+    await queue.onIdle()
+
+    expect(runs).toBe(2)
+    expect(failed).not.toHaveBeenCalled()
+    expect(job.attemptsMade).toBe(0)
+  })
+})
+
+describe('Check source to notification, in process', () => {
+  const SERIES_ID = '7b0c3a52-9a35-4f44-8d0e-4c9a2f6a1b10'
+  const SOURCE_ID = '0d6f2c1e-3b8a-4c57-9e42-5a1d7f3b8c21'
+  const MIRROR_ID = '5c3e9b7a-2d4f-4e61-8a90-1b2c3d4e5f60'
+  const scrapeSeries = jest.fn()
+  const workers: JobWorker[] = []
+
+  beforeAll(() => {
+    scraperRegistry.register({
+      name: 'e2e-stub',
+      displayName: 'E2E Stub',
+      hosts: ['e2e.example'],
+      urlPatterns: [/^\/manga\/(\d+)/],
+      rateLimit: { requestsPerMinute: 60, maxConcurrent: 2 },
+      capabilities: ['chapters'],
+      scraper: { scrapeSeries },
+    })
+
+    for (const [id, sourceId] of [[SOURCE_ID, '1'], [MIRROR_ID, '2']]) {
+      mockDb.sources.set(id, {
+        id,
+        series_id: SERIES_ID,
+        source_name: 'e2e-stub',
+        source_id: sourceId,
+        source_url: `https://e2e.example/manga/${sourceId}`,
+        disabled_at: null,
+        circuit_state: 'closed',
+        failure_count: 0,
+        circuit_open_count: 0,
+        circuit_retry_at: null,
+        failing_since: null,
+        series: { id: SERIES_ID, title: 'Test Series' },
+      })
+    }
+  })
+
+  afterAll(async () => {
+    scraperRegistry.unregister('e2e-stub')
+    await Promise.all(workers.map((w) => w.close()))
+  })
+
+  it('should use the memory driver for the app queues', () => {
+    expect(QUEUE_DRIVER).toBe('memory')
+    expect(checkSourceQueue.name).toBe(CHECK_SOURCE_QUEUE)
+  })
+
+  it('should retry a failed check and notify subscribers of the new chapters', async () => {
+    scrapeSeries
+      .mockRejectedValueOnce(new Error('socket hang up'))
+      .mockResolvedValueOnce({
+        sourceId: '1',
+        title: 'Test Series',
+        chapters: [
+          { chapterNumber: 1, chapterUrl: 'https://e2e.example/manga/1/1' },
+          { chapterNumber: 2, chapterUrl: 'https://e2e.example/manga/1/2' },
+        ],
+      })
+
+    workers.push(
+      queueDriver.createWorker(CHECK_SOURCE_QUEUE, processCheckSource, { concurrency: 2 }),
+      queueDriver.createWorker(NOTIFICATION_QUEUE, processNotification, { concurrency: 2 })
+    )
+
+    const job = await checkSourceQueue.add(
+      'check',
+      { seriesSourceId: SOURCE_ID },
+      { backoff: { type: 'fixed', delay: 5 } }
+    )
+    await (checkSourceQueue as MemoryQueue).onIdle()
+    await (notificationQueue as MemoryQueue).onIdle()
+
+    expect(scrapeSeries).toHaveBeenCalledTimes(2)
+    expect(job.attemptsMade).toBe(1)
+    expect(mockDb.sourceUpdates[0].failures).toEqual({
+      create: expect.objectContaining({ attempt: 1, error_message: 'socket hang up', is_retryable: true }),
+    })
+    expect(mockDb.chapters).toHaveLength(2)
+    expect(mockDb.notifications).toEqual([
+      expect.objectContaining({ user_id: 'user-1', series_id: SERIES_ID, message: '2 new chapters for "Test Series"!' }),
+      expect.objectContaining({ user_id: 'user-2', series_id: SERIES_ID }),
+    ])
+  })
+
+  it('should not announce chapters again when another source mirrors them', async () => {
+    scrapeSeries.mockResolvedValueOnce({
+      sourceId: '2',
+      title: 'Test Series',
+      chapters: [
+        { chapterNumber: 1, chapterUrl: 'https://e2e.example/manga/2/1' },
+        { chapterNumber: 2, chapterUrl: 'https://e2e.example/manga/2/2' },
+      ],
+    })
+
+    const { prisma } = require('@/lib/prisma')
+    prisma.libraryEntry.findMany.mockClear()
+
+    await checkSourceQueue.add('check', { seriesSourceId: MIRROR_ID })
+    await (checkSourceQueue as MemoryQueue).onIdle()
+    await (notificationQueue as MemoryQueue).onIdle()
+
+    expect(mockDb.chapters).toHaveLength(4)
+    // Skipped before looking up subscribers, not just by the 5 minute duplicate window
+    expect(prisma.libraryEntry.findMany).not.toHaveBeenCalled()
+    expect(mockDb.notifications).toHaveLength(2)
+  })
+})
@@ -0,0 +1,104 @@
+/**
+ * @jest-environment node
+ */
+
+import { mergeSeriesMetadata, SeriesMetadataValues } from '@/lib/sync/metadata-merge'
+
+const current: SeriesMetadataValues = {
+  title: 'Solo Leveling',
+  alternative_titles: ['Only I Level Up'],
+  description: null,
+  cover_url: null,
+  status: 'ongoing',
+  genres: ['Action'],
+  tags: [],
+  content_rating: null,
+}
+
+function source(sourceName: string, trustScore: number, metadata = {}) {
+  return { sourceName, trustScore, metadata }
+}
+
+describe('mergeSeriesMetadata', () => {
+  it('should fill in fields the series is missing', () => {
+    const updates = mergeSeriesMetadata(current, [
+      source('mangadex', 8, {
+        description: 'A weak hunter becomes strong.',
+        coverUrl: 'https://uploads.mangadex.org/covers/1/cover.jpg',
+        contentRating: 'safe',
+      }),
+    ])
+
+    expect(updates).toEqual({
+      description: 'A weak hunter becomes strong.',
+      cover_url: 'https://uploads.mangadex.org/covers/1/cover.jpg',
+      content_rating: 'safe',
+    })
+  })
+
+  it('should let the most trusted value win', () => {
+    const updates = mergeSeriesMetadata(current, [
+      source('mangadex', 9, { status: 'completed' }),
+      source('mangapark', 4, { status: 'ongoing' }),
+    ])
+
+    expect(updates.status).toBe('completed')
+  })
+
+  it('should let agreeing sources outvote a single more trusted one', () => {
+    const updates = mergeSeriesMetadata(current, [
+      source('a', 6, { status: 'hiatus' }),
+      source('b', 4, { status: 'hiatus' }),
+      source('c', 8, { status: 'completed' }),
+    ])
+
+    expect(updates.status).toBe('hiatus')
+  })
+
+  it('should ignore sources with no trust', () => {
+    expect(mergeSeriesMetadata(current, [source('spam', 0, { status: 'cancelled' })])).toEqual({})
+  })
+
+  it('should never overwrite locked fields', () => {
+    const updates = mergeSeriesMetadata(
+      { ...current, description: 'Edited by hand' },
+      [source('mangadex', 9, { description: 'Scraped', status: 'completed' })],
+      ['description']
+    )
+
+    expect(updates).toEqual({ status: 'completed' })
+  })
+
+  it('should keep genres backed by at least half the trust', () => {
+    const updates = mergeSeriesMetadata(current, [
+      source('mangadex', 6, { genres: ['Action', 'Fantasy'] }),
+      source('mangapark', 4, { genres: ['action', 'Adventure'] }),
+    ])
+
+    expect(updates.genres).toEqual(['Action', 'Fantasy'])
+  })
+
+  it('should not report genres that only differ in order or case', () => {
+    const updates = mergeSeriesMetadata({ ...current, genres: ['Fantasy', 'Action'] }, [
+      source('mangadex', 6, { genres: ['action', 'fantasy'] }),
+    ])
+
+    expect(updates.genres).toBeUndefined()
+  })
+
+  it('should merge alternative titles from every source', () => {
+    const updates = mergeSeriesMetadata(current, [
+      source('mangadex', 8, { title: 'Solo Leveling', alternativeTitles: ['Na Honjaman Level Up', 'only i level up'] }),
+      source('mangapark', 4, { title: 'Solo Leveling (Official)' }),
+    ])
+
+    expect(updates.title).toBeUndefined()
+    expect(updates.alternative_titles).toEqual(['Only I Level Up', 'Na Honjaman Level Up', 'Solo Leveling (Official)'])
+  })
+
+  it('should only accept covers from whitelisted image hosts', () => {
+    const updates = mergeSeriesMetadata(current, [source('mangapark', 9, { coverUrl: 'https://evil.example/cover.jpg' })])
+
+    expect(updates.cover_url).toBeUndefined()
+  })
+})
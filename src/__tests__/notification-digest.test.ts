@@ -0,0 +1,186 @@
+/**
+ * @jest-environment node
+ */
+
+const mockDigestItemFindMany = jest.fn()
+const mockDigestItemDeleteMany = jest.fn()
+const mockDigestItemGroupBy = jest.fn()
+const mockUserFindMany = jest.fn()
+const mockDispatchNotification = jest.fn()
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    digestItem: {
+      findMany: (...args: unknown[]) => mockDigestItemFindMany(...args),
+      deleteMany: (...args: unknown[]) => mockDigestItemDeleteMany(...args),
+      groupBy: (...args: unknown[]) => mockDigestItemGroupBy(...args),
+    },
+    user: { findMany: (...args: unknown[]) => mockUserFindMany(...args) },
+  },
+}))
+
+jest.mock('@/lib/notifications/dispatcher', () => ({
+  dispatchNotification: (...args: unknown[]) => mockDispatchNotification(...args),
+}))
+
+import { groupDigestItems, nextDigestAt, sendDigest } from '@/lib/notifications/digest'
+import { DEFAULT_NOTIFICATION_SETTINGS, NotificationSettings } from '@/lib/notifications/settings'
+import { processDigests } from '@/workers/processors/digest.processor'
+
+function settings(overrides: Partial<NotificationSettings>): NotificationSettings {
+  return { ...DEFAULT_NOTIFICATION_SETTINGS, ...overrides }
+}
+
+describe('nextDigestAt', () => {
+  it('should send hourly digests at the next full hour', () => {
+    const at = nextDigestAt(settings({ digest_frequency: 'hourly' }), new Date('2026-03-02T10:15:00Z'))
+    expect(at.toISOString()).toBe('2026-03-02T11:00:00.000Z')
+  })
+
+  it('should send daily digests at the chosen hour in the user time zone', () => {
+    const daily = settings({ digest_frequency: 'daily', digest_hour: 9, timezone: 'America/New_York' })
+
+    // 08:00 in New York (EST) is still before 09:00 the same day
+    expect(nextDigestAt(daily, new Date('2026-01-15T13:00:00Z')).toISOString()).toBe('2026-01-15T14:00:00.000Z')
+    // 10:00 in New York rolls over to the next morning, now in EDT
+    expect(nextDigestAt(daily, new Date('2026-07-15T14:00:00Z')).toISOString()).toBe('2026-07-16T13:00:00.000Z')
+  })
+
+  it('should send weekly digests on the chosen weekday', () => {
+    const weekly = settings({ digest_frequency: 'weekly', digest_day: 1, digest_hour: 9, timezone: 'UTC' })
+
+    // Wednesday 4 March 2026 -> Monday 9 March
+    expect(nextDigestAt(weekly, new Date('2026-03-04T12:00:00Z')).toISOString()).toBe('2026-03-09T09:00:00.000Z')
+    // Monday after the digest hour -> the following Monday
+    expect(nextDigestAt(weekly, new Date('2026-03-09T09:30:00Z')).toISOString()).toBe('2026-03-16T09:00:00.000Z')
+  })
+
+  it('should not hold anything for instant delivery', () => {
+    const now = new Date('2026-03-04T12:00:00Z')
+    expect(nextDigestAt(DEFAULT_NOTIFICATION_SETTINGS, now)).toBe(now)
+  })
+})
+
+describe('groupDigestItems', () => {
+  it('should merge entries per series and order them by title', () => {
+    const grouped = groupDigestItems([
+      { series_id: 's-2', chapter_count: 1, chapter_numbers: [5], series: { title: 'Zeta' } },
+      { series_id: 's-1', chapter_count: 2, chapter_numbers: [11, 12], series: { title: 'Alpha' } },
+      { series_id: 's-2', chapter_count: 2, chapter_numbers: [5, 6], series: { title: 'Zeta' } },
+    ])
+
+    expect(grouped).toEqual([
+      { series_id: 's-1', title: 'Alpha', chapter_count: 2, chapter_numbers: [11, 12] },
+      { series_id: 's-2', title: 'Zeta', chapter_count: 3, chapter_numbers: [5, 6] },
+    ])
+  })
+})
+
+describe('sendDigest', () => {
+  const now = new Date('2026-03-09T09:00:00Z')
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockDispatchNotification.mockResolvedValue({})
+    mockDigestItemDeleteMany.mockResolvedValue({ count: 0 })
+  })
+
+  it('should dispatch one grouped notification and clear what it sent', async () => {
+    mockDigestItemFindMany.mockResolvedValue([
+      { id: 'item-1', series_id: 's-1', chapter_count: 1, chapter_numbers: [3], series: { title: 'Alpha' } },
+      { id: 'item-2', series_id: 's-2', chapter_count: 2, chapter_numbers: [7, 8], series: { title: 'Beta' } },
+    ])
+
+    const sent = await sendDigest('user-1', settings({ digest_frequency: 'weekly' }), now)
+
+    expect(sent).toBe(2)
+    expect(mockDispatchNotification).toHaveBeenCalledWith(['user-1'], expect.objectContaining({
+      type: 'new_chapter',
+      message: '3 new chapters across 2 series',
+      metadata: expect.objectContaining({ digest: 'weekly', chapter_count: 3 }),
+    }), { digest: false })
+    expect(mockDigestItemDeleteMany).toHaveBeenCalledWith({ where: { id: { in: ['item-1', 'item-2'] } } })
+  })
+
+  it('should keep entries when dispatching fails', async () => {
+    mockDigestItemFindMany.mockResolvedValue([
+      { id: 'item-1', series_id: 's-1', chapter_count: 1, chapter_numbers: [], series: { title: 'Alpha' } },
+    ])
+    mockDispatchNotification.mockRejectedValue(new Error('db down'))
+
+    await expect(sendDigest('user-1', settings({ digest_frequency: 'daily' }), now)).rejects.toThrow('db down')
+    expect(mockDigestItemDeleteMany).not.toHaveBeenCalled()
+  })
+
+  it('should do nothing when nothing is held', async () => {
+    mockDigestItemFindMany.mockResolvedValue([])
+
+    expect(await sendDigest('user-1', settings({ digest_frequency: 'daily' }), now)).toBe(0)
+    expect(mockDispatchNotification).not.toHaveBeenCalled()
+  })
+})
+
+describe('processDigests', () => {
+  const now = new Date('2026-03-09T11:00:00Z')
+
+  // Oldest held entry per user
+  const held: Record<string, { settings: Partial<NotificationSettings>; since: string }> = {
+    'user-failing': { settings: { digest_frequency: 'hourly' }, since: '2026-03-09T09:00:00Z' },
+    'user-hourly': { settings: { digest_frequency: 'hourly' }, since: '2026-03-09T10:15:00Z' },
+    'user-daily': { settings: { digest_frequency: 'daily', digest_hour: 9 }, since: '2026-03-09T10:00:00Z' },
+    'user-instant': { settings: { digest_frequency: 'instant' }, since: '2026-03-09T10:59:00Z' },
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    jest.useFakeTimers({ now })
+    jest.spyOn(console, 'log').mockImplementation(() => {})
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+
+    mockDigestItemGroupBy.mockResolvedValue(Object.entries(held).map(([userId, { since }]) => ({
+      user_id: userId,
+      _min: { created_at: new Date(since) },
+    })))
+    mockUserFindMany.mockResolvedValue(Object.entries(held).map(([userId, { settings: overrides }]) => ({
+      id: userId,
+      notification_settings: settings(overrides),
+    })))
+    mockDigestItemFindMany.mockImplementation(async ({ where }) => [
+      { id: `${where.user_id}-item`, series_id: 's-1', chapter_count: 1, chapter_numbers: [4], series: { title: 'Alpha' } },
+    ])
+    mockDispatchNotification.mockImplementation(async ([userId]: string[]) => {
+      if (userId === 'user-failing') throw new Error('db down')
+      return {}
+    })
+    mockDigestItemDeleteMany.mockResolvedValue({ count: 1 })
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+    jest.restoreAllMocks()
+  })
+
+  it('should only send digests whose time has come', async () => {
+    await processDigests({ id: 'digest-1' } as any)
+
+    const recipients = mockDispatchNotification.mock.calls.map(([userIds]) => userIds[0])
+    expect(recipients).toEqual(['user-failing', 'user-hourly', 'user-instant'])
+    expect(mockDigestItemFindMany).not.toHaveBeenCalledWith(expect.objectContaining({
+      where: expect.objectContaining({ user_id: 'user-daily' }),
+    }))
+  })
+
+  it('should keep a failed user\'s entries without holding up the others', async () => {
+    expect(await processDigests({ id: 'digest-1' } as any)).toEqual({ sent: 2 })
+
+    const cleared = mockDigestItemDeleteMany.mock.calls.flatMap(([{ where }]) => where.id.in)
+    expect(cleared).toEqual(['user-hourly-item', 'user-instant-item'])
+  })
+
+  it('should not look up users when nothing is held', async () => {
+    mockDigestItemGroupBy.mockResolvedValue([])
+
+    expect(await processDigests({ id: 'digest-1' } as any)).toEqual({ sent: 0 })
+    expect(mockUserFindMany).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,207 @@
+/**
+ * @jest-environment node
+ */
+
+const mockUserFindMany = jest.fn()
+const mockNotificationCreateMany = jest.fn()
+const mockEmailAddBulk = jest.fn()
+const mockPushAddBulk = jest.fn()
+const mockDigestItemCreateMany = jest.fn()
+const mockEnqueueWebhookDeliveries = jest.fn()
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    user: { findMany: (...args: unknown[]) => mockUserFindMany(...args) },
+    notification: { createMany: (...args: unknown[]) => mockNotificationCreateMany(...args) },
+    digestItem: { createMany: (...args: unknown[]) => mockDigestItemCreateMany(...args) },
+  },
+}))
+
+jest.mock('@/lib/queues', () => ({
+  emailQueue: { addBulk: (...args: unknown[]) => mockEmailAddBulk(...args) },
+  pushQueue: { addBulk: (...args: unknown[]) => mockPushAddBulk(...args) },
+}))
+
+jest.mock('@/lib/webhooks/webhooks', () => ({
+  enqueueWebhookDeliveries: (...args: unknown[]) => mockEnqueueWebhookDeliveries(...args),
+}))
+
+import { dispatchNotification } from '@/lib/notifications/dispatcher'
+import {
+  DEFAULT_NOTIFICATION_SETTINGS,
+  notificationChannels,
+  NotificationSettingsUpdateSchema,
+  parseNotificationSettings,
+} from '@/lib/notifications/settings'
+
+describe('Notification settings', () => {
+  describe('parseNotificationSettings', () => {
+    it('should fill in defaults for missing or malformed settings', () => {
+      expect(parseNotificationSettings(null)).toEqual(DEFAULT_NOTIFICATION_SETTINGS)
+      expect(parseNotificationSettings({ email_follows: false, push_enabled: 'yes' })).toEqual({
+        ...DEFAULT_NOTIFICATION_SETTINGS,
+        email_follows: false,
+      })
+    })
+
+    it('should apply legacy email and push flags to every type', () => {
+      expect(parseNotificationSettings({ email: false, push: true })).toEqual({
+        ...DEFAULT_NOTIFICATION_SETTINGS,
+        email_new_chapters: false,
+        email_follows: false,
+        email_achievements: false,
+        push_enabled: true,
+      })
+      expect(parseNotificationSettings({ email: false, email_follows: true }).email_follows).toBe(true)
+    })
+  })
+
+  describe('NotificationSettingsUpdateSchema', () => {
+    it('should reject unknown keys and non-boolean values', () => {
+      expect(NotificationSettingsUpdateSchema.safeParse({ push_enabled: true }).success).toBe(true)
+      expect(NotificationSettingsUpdateSchema.safeParse({ sms: true }).success).toBe(false)
+      expect(NotificationSettingsUpdateSchema.safeParse({ email_follows: 'no' }).success).toBe(false)
+    })
+
+    it('should validate digest schedules and time zones', () => {
+      expect(NotificationSettingsUpdateSchema.safeParse({
+        digest_frequency: 'weekly', digest_day: 0, digest_hour: 23, timezone: 'Asia/Tokyo',
+      }).success).toBe(true)
+      expect(NotificationSettingsUpdateSchema.safeParse({ digest_frequency: 'monthly' }).success).toBe(false)
+      expect(NotificationSettingsUpdateSchema.safeParse({ digest_hour: 24 }).success).toBe(false)
+      expect(NotificationSettingsUpdateSchema.safeParse({ timezone: 'Mars/Olympus' }).success).toBe(false)
+    })
+  })
+
+  describe('notificationChannels', () => {
+    it('should route by the per-type email setting and the push setting', () => {
+      const settings = { ...DEFAULT_NOTIFICATION_SETTINGS, email_follows: false, push_enabled: true }
+
+      expect(notificationChannels(settings, 'new_chapter')).toEqual(['in_app', 'email', 'push', 'webhook'])
+      expect(notificationChannels(settings, 'new_follower')).toEqual(['in_app', 'push', 'webhook'])
+      expect(notificationChannels(DEFAULT_NOTIFICATION_SETTINGS, 'system')).toEqual(['in_app', 'webhook'])
+    })
+
+    it('should hold new chapters for digest users but keep webhooks instant', () => {
+      const settings = { ...DEFAULT_NOTIFICATION_SETTINGS, digest_frequency: 'daily' as const, push_enabled: true }
+
+      expect(notificationChannels(settings, 'new_chapter')).toEqual(['digest', 'webhook'])
+      expect(notificationChannels(settings, 'new_chapter', { digest: false })).toEqual(['in_app', 'email', 'push', 'webhook'])
+      expect(notificationChannels(settings, 'new_follower')).toEqual(['in_app', 'email', 'push', 'webhook'])
+    })
+  })
+})
+
+describe('dispatchNotification', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockNotificationCreateMany.mockResolvedValue({ count: 0 })
+    mockEmailAddBulk.mockResolvedValue([])
+    mockPushAddBulk.mockResolvedValue([])
+    mockEnqueueWebhookDeliveries.mockResolvedValue(undefined)
+  })
+
+  it('should write an in-app notification for each known recipient once', async () => {
+    mockUserFindMany.mockResolvedValue([
+      { id: 'user-1', notification_settings: {} },
+      { id: 'user-2', notification_settings: { email: false } },
+    ])
+
+    const result = await dispatchNotification(['user-1', 'user-2', 'user-1', 'deleted-user'], {
+      type: 'new_follower',
+      title: 'New Follower',
+      actor_user_id: 'user-3',
+    })
+
+    expect(mockUserFindMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { id: { in: ['user-1', 'user-2', 'deleted-user'] } },
+    }))
+    expect(mockNotificationCreateMany).toHaveBeenCalledWith({
+      data: [
+        { type: 'new_follower', title: 'New Follower', actor_user_id: 'user-3', user_id: 'user-1' },
+        { type: 'new_follower', title: 'New Follower', actor_user_id: 'user-3', user_id: 'user-2' },
+      ],
+    })
+    expect(result.in_app).toBe(2)
+  })
+
+  it('should queue emails only for users whose settings allow them', async () => {
+    mockUserFindMany.mockResolvedValue([
+      { id: 'user-1', notification_settings: {} },
+      { id: 'user-2', notification_settings: { email_follows: false } },
+    ])
+
+    const result = await dispatchNotification(['user-1', 'user-2'], { type: 'new_follower', title: 'New Follower' })
+
+    expect(mockEmailAddBulk).toHaveBeenCalledWith([
+      { name: 'email-new_follower', data: { userId: 'user-1', notification: { type: 'new_follower', title: 'New Follower' } } },
+    ])
+    expect(result).toMatchObject({ in_app: 2, email: 1 })
+  })
+
+  it('should queue pushes only for users who enabled them', async () => {
+    mockUserFindMany.mockResolvedValue([
+      { id: 'user-1', notification_settings: { push_enabled: true } },
+      { id: 'user-2', notification_settings: {} },
+    ])
+
+    const result = await dispatchNotification(['user-1', 'user-2'], { type: 'achievement', title: 'Bookworm' })
+
+    expect(mockPushAddBulk).toHaveBeenCalledWith([
+      { name: 'push-achievement', data: { userId: 'user-1', notification: { type: 'achievement', title: 'Bookworm' } } },
+    ])
+    expect(result).toMatchObject({ in_app: 2, push: 1 })
+  })
+
+  it('should still deliver in-app when queueing emails fails', async () => {
+    mockUserFindMany.mockResolvedValue([{ id: 'user-1', notification_settings: {} }])
+    mockEmailAddBulk.mockRejectedValue(new Error('redis down'))
+
+    const result = await dispatchNotification(['user-1'], { type: 'new_follower', title: 'New Follower' })
+
+    expect(mockNotificationCreateMany).toHaveBeenCalled()
+    expect(result).toMatchObject({ in_app: 1, email: 0 })
+  })
+
+  it('should not query anything without recipients', async () => {
+    const result = await dispatchNotification([], { type: 'system', title: 'Maintenance' })
+
+    expect(mockUserFindMany).not.toHaveBeenCalled()
+    expect(result).toEqual({ in_app: 0, email: 0, push: 0, webhook: 0, digest: 0 })
+  })
+
+  it('should hold new chapters for digest users instead of notifying them', async () => {
+    mockUserFindMany.mockResolvedValue([
+      { id: 'user-1', notification_settings: {} },
+      { id: 'user-2', notification_settings: { digest_frequency: 'weekly' } },
+    ])
+    mockDigestItemCreateMany.mockResolvedValue({ count: 1 })
+
+    const result = await dispatchNotification(['user-1', 'user-2'], {
+      type: 'new_chapter',
+      title: 'New chapters',
+      series_id: 'series-1',
+      metadata: { chapter_count: 2, chapter_numbers: [11, 12] },
+    })
+
+    expect(mockDigestItemCreateMany).toHaveBeenCalledWith({
+      data: [{ user_id: 'user-2', series_id: 'series-1', chapter_count: 2, chapter_numbers: [11, 12] }],
+    })
+    expect(mockNotificationCreateMany).toHaveBeenCalledWith({
+      data: [expect.objectContaining({ user_id: 'user-1' })],
+    })
+    expect(result).toMatchObject({ in_app: 1, email: 1, digest: 1 })
+    // Webhooks stay instant for digest users
+    expect(mockEnqueueWebhookDeliveries).toHaveBeenCalledWith([
+      expect.objectContaining({ user_id: 'user-1' }),
+      expect.objectContaining({ user_id: 'user-2' }),
+    ])
+  })
+
+  it('should let in-app failures reach the caller', async () => {
+    mockUserFindMany.mockResolvedValue([{ id: 'user-1', notification_settings: {} }])
+    mockNotificationCreateMany.mockRejectedValue(new Error('db down'))
+
+    await expect(dispatchNotification(['user-1'], { type: 'system', title: 'Maintenance' })).rejects.toThrow('db down')
+  })
+})
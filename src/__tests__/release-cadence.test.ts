@@ -0,0 +1,102 @@
+/**
+ * @jest-environment node
+ */
+
+import { forecastRelease, nextCheckAt } from '@/lib/sync/release-cadence'
+import { SYNC_INTERVALS } from '@/lib/sync/sync-priority'
+
+const HOUR = 60 * 60 * 1000
+const DAY = 24 * HOUR
+const now = new Date('2024-06-01T00:00:00Z')
+const daysAgo = (n: number) => new Date(now.getTime() - n * DAY)
+
+function every(days: number, count: number, lastDaysAgo = 1) {
+  return Array.from({ length: count }, (_, i) => daysAgo(lastDaysAgo + i * days))
+}
+
+describe('forecastRelease', () => {
+  it('should detect a weekly schedule and predict the next drop', () => {
+    const forecast = forecastRelease(every(7, 6), now)
+
+    expect(forecast.pattern).toBe('weekly')
+    expect(forecast.intervalHours).toBe(168)
+    expect(forecast.confidence).toBe(1)
+    expect(forecast.nextReleaseAt).toEqual(new Date(daysAgo(1).getTime() + 7 * DAY))
+  })
+
+  it('should detect biweekly and monthly schedules', () => {
+    expect(forecastRelease(every(14, 5), now).pattern).toBe('biweekly')
+    expect(forecastRelease(every(30, 4), now).pattern).toBe('monthly')
+  })
+
+  it('should treat chapters released together as one drop', () => {
+    const batch = every(7, 4).flatMap((date) => [date, new Date(date.getTime() + 2 * HOUR)])
+
+    expect(forecastRelease(batch, now).pattern).toBe('weekly')
+  })
+
+  it('should lower confidence when gaps vary', () => {
+    const forecast = forecastRelease([daysAgo(1), daysAgo(8), daysAgo(15), daysAgo(25), daysAgo(27)], now)
+
+    expect(forecast.pattern).toBe('weekly')
+    expect(forecast.confidence).toBe(0.5)
+  })
+
+  it('should call other steady gaps irregular', () => {
+    const forecast = forecastRelease(every(3, 5), now)
+
+    expect(forecast.pattern).toBe('irregular')
+    expect(forecast.intervalHours).toBe(72)
+  })
+
+  it('should need a few drops before predicting', () => {
+    const forecast = forecastRelease([daysAgo(1), daysAgo(8)], now)
+
+    expect(forecast.pattern).toBe('unknown')
+    expect(forecast.nextReleaseAt).toBeNull()
+    expect(forecast.lastReleaseAt).toEqual(daysAgo(1))
+  })
+
+  it('should report a hiatus after several missed periods', () => {
+    const forecast = forecastRelease(every(7, 5, 40), now)
+
+    expect(forecast.pattern).toBe('hiatus')
+    expect(forecast.nextReleaseAt).toBeNull()
+  })
+
+  it('should skip periods that were already missed', () => {
+    const forecast = forecastRelease(every(7, 5, 10), now)
+
+    expect(forecast.nextReleaseAt).toEqual(new Date(daysAgo(10).getTime() + 14 * DAY))
+  })
+})
+
+describe('nextCheckAt', () => {
+  const at = (offset: number) => new Date(now.getTime() + offset)
+
+  it('should use the priority interval without a confident forecast', () => {
+    expect(nextCheckAt('WARM', null, now)).toEqual(at(SYNC_INTERVALS.WARM))
+    expect(nextCheckAt('WARM', { nextReleaseAt: at(DAY), confidence: 0.3 }, now)).toEqual(at(SYNC_INTERVALS.WARM))
+  })
+
+  it('should check sparsely until the release window opens', () => {
+    const forecast = { nextReleaseAt: at(3 * DAY), confidence: 0.9 }
+
+    expect(nextCheckAt('HOT', forecast, now)).toEqual(at(6 * HOUR))
+    expect(nextCheckAt('COLD', forecast, now)).toEqual(at(DAY))
+    expect(nextCheckAt('HOT', { nextReleaseAt: at(3 * HOUR), confidence: 0.9 }, now)).toEqual(at(2 * HOUR))
+  })
+
+  it('should check one level hotter inside the window', () => {
+    const forecast = { nextReleaseAt: at(-2 * HOUR), confidence: 0.9 }
+
+    expect(nextCheckAt('WARM', forecast, now)).toEqual(at(SYNC_INTERVALS.HOT))
+    expect(nextCheckAt('COLD', forecast, now)).toEqual(at(SYNC_INTERVALS.WARM))
+  })
+
+  it('should fall back to the priority interval once the drop is late', () => {
+    const forecast = { nextReleaseAt: at(-12 * HOUR), confidence: 0.9 }
+
+    expect(nextCheckAt('WARM', forecast, now)).toEqual(at(SYNC_INTERVALS.WARM))
+  })
+})
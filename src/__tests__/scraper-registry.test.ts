@@ -0,0 +1,97 @@
+/**
+ * @jest-environment node
+ */
+
+import { ScraperRegistry, parseSourceUrl, scraperRegistry, validateSourceUrl } from '@/lib/scrapers'
+
+const stubScraper = { scrapeSeries: jest.fn() }
+
+function createPlugin(overrides = {}) {
+  return {
+    name: 'stub',
+    displayName: 'Stub',
+    hosts: ['stub.example'],
+    urlPatterns: [/^\/manga\/(\d+)/],
+    rateLimit: { requestsPerMinute: 60, maxConcurrent: 1 },
+    capabilities: ['chapters' as const],
+    scraper: stubScraper,
+    ...overrides,
+  }
+}
+
+describe('Scraper registry', () => {
+  describe('built-in sources', () => {
+    it('should declare capabilities and rate limits', () => {
+      const names = scraperRegistry.list().map((p) => p.name)
+      expect(names).toEqual(expect.arrayContaining(['mangadex', 'mangapark']))
+
+      for (const plugin of scraperRegistry.list()) {
+        expect(plugin.capabilities).toContain('chapters')
+        expect(plugin.rateLimit.requestsPerMinute).toBeGreaterThan(0)
+        expect(plugin.rateLimit.maxConcurrent).toBeGreaterThan(0)
+      }
+    })
+
+    it('should look up sources case-insensitively', () => {
+      expect(scraperRegistry.get('MangaDex')?.name).toBe('mangadex')
+    })
+  })
+
+  describe('parseSourceUrl', () => {
+    it('should parse MangaDex title URLs', () => {
+      expect(parseSourceUrl('https://mangadex.org/title/a1c7c817-4e59-43b7-9365-09675a149a6f/one-piece')).toEqual({
+        sourceName: 'mangadex',
+        sourceId: 'a1c7c817-4e59-43b7-9365-09675a149a6f',
+      })
+    })
+
+    it('should parse MangaPark series and chapter URLs', () => {
+      expect(parseSourceUrl('https://mangapark.io/title/75577-en-solo-leveling')?.sourceId).toBe('75577-en-solo-leveling')
+      expect(parseSourceUrl('https://www.mangapark.io/title/75577-en-solo-leveling/9000004-ch-21')?.sourceId).toBe('75577-en-solo-leveling')
+    })
+
+    it('should return null for unknown hosts, paths and protocols', () => {
+      expect(parseSourceUrl('https://evil.com/title/75577')).toBeNull()
+      expect(parseSourceUrl('https://mangadex.org/user/123')).toBeNull()
+      expect(parseSourceUrl('ftp://mangapark.io/title/75577')).toBeNull()
+      expect(parseSourceUrl('not a url')).toBeNull()
+    })
+  })
+
+  describe('validateSourceUrl', () => {
+    it('should only allow registered hosts', () => {
+      expect(validateSourceUrl('https://api.mangadex.org/manga/1')).toBe(true)
+      expect(validateSourceUrl('https://mangadex.org.evil.com/title/1')).toBe(false)
+      expect(validateSourceUrl('http://169.254.169.254/latest')).toBe(false)
+    })
+
+    it('should require the host to belong to the given source', () => {
+      expect(validateSourceUrl('https://mangapark.io/title/1', 'mangapark')).toBe(true)
+      expect(validateSourceUrl('https://mangapark.io/title/1', 'mangadex')).toBe(false)
+    })
+  })
+
+  describe('ScraperRegistry', () => {
+    it('should refuse hosts claimed by another scraper', () => {
+      const registry = new ScraperRegistry()
+      registry.register(createPlugin())
+
+      expect(() => registry.register(createPlugin({ name: 'other' }))).toThrow('already registered')
+    })
+
+    it('should refuse URL patterns without a sourceId capture group', () => {
+      const registry = new ScraperRegistry()
+
+      expect(() => registry.register(createPlugin({ urlPatterns: [/^\/manga\/\d+/] }))).toThrow('no sourceId capture group')
+    })
+
+    it('should release hosts when a scraper is replaced', () => {
+      const registry = new ScraperRegistry()
+      registry.register(createPlugin())
+      registry.register(createPlugin({ hosts: ['new.stub.example'] }))
+
+      expect(registry.findByHost('stub.example')).toBeUndefined()
+      expect(registry.findByHost('new.stub.example')?.name).toBe('stub')
+    })
+  })
+})
@@ -0,0 +1,232 @@
+/**
+ * @jest-environment node
+ */
+
+const mockGetUser = jest.fn()
+const mockUserFindUnique = jest.fn()
+const mockSeriesFindUnique = jest.fn()
+const mockSeriesFindUniqueOrThrow = jest.fn()
+const mockSeriesUpdate = jest.fn()
+const mockSourceUpdate = jest.fn()
+const mockAcquire = jest.fn()
+const mockQueryRaw = jest.fn()
+
+jest.mock('@/lib/supabase/server', () => ({
+  createClient: jest.fn(async () => ({ auth: { getUser: mockGetUser } })),
+}))
+
+jest.mock('@/lib/prisma', () => {
+  const prisma = {
+    user: { findUnique: (...args: unknown[]) => mockUserFindUnique(...args) },
+    series: {
+      findUnique: (...args: unknown[]) => mockSeriesFindUnique(...args),
+      findUniqueOrThrow: (...args: unknown[]) => mockSeriesFindUniqueOrThrow(...args),
+      update: (...args: unknown[]) => mockSeriesUpdate(...args),
+    },
+    seriesSource: { update: (...args: unknown[]) => mockSourceUpdate(...args) },
+    $queryRaw: (...args: unknown[]) => mockQueryRaw(...args),
+    $transaction: (fn: (tx: unknown) => unknown) => fn(prisma),
+  }
+  return { prisma }
+})
+
+jest.mock('@/lib/scrapers/politeness', () => ({
+  hostBudget: { acquire: (...args: unknown[]) => mockAcquire(...args) },
+}))
+
+// The jest setup replaces Response, which NextResponse builds on
+jest.mock('next/server', () => ({
+  NextResponse: {
+    json: (body: unknown, init?: { status?: number }) => ({ status: init?.status ?? 200, json: async () => body }),
+  },
+}))
+
+import { DELETE, PATCH } from '@/app/api/admin/series/[id]/metadata/route'
+import { scraperRegistry } from '@/lib/scrapers'
+import { processRefreshMetadata } from '@/workers/processors/refresh-metadata.processor'
+
+const SERIES_ID = '4f6c2a8e-1b3d-4e5f-8a7b-9c0d1e2f3a4b'
+
+function request(body: unknown) {
+  return { json: async () => body } as any
+}
+
+const params = { params: Promise.resolve({ id: SERIES_ID }) }
+
+function storedSeries(lockedFields: string[]) {
+  return {
+    id: SERIES_ID,
+    title: 'Solo Leveling (Official)',
+    alternative_titles: [],
+    description: 'Old description',
+    cover_url: null,
+    status: 'ongoing',
+    genres: [],
+    tags: [],
+    content_rating: null,
+    locked_fields: lockedFields,
+    sources: [{
+      id: 'source-1',
+      source_name: 'mangadex',
+      source_id: 'md-1',
+      source_url: 'https://mangadex.org/title/md-1',
+      trust_score: 1,
+      metadata_fetched_at: new Date(),
+      metadata: { title: 'Na Honjaman Level-Up', description: 'Scraped description' },
+    }],
+  }
+}
+
+async function refreshWith(lockedFields: string[]) {
+  mockSeriesUpdate.mockClear()
+  mockSeriesFindUnique.mockResolvedValue(storedSeries(lockedFields))
+  mockSeriesFindUniqueOrThrow.mockResolvedValue(storedSeries(lockedFields))
+  await processRefreshMetadata({ id: 'metadata-1', data: { seriesId: SERIES_ID } } as any)
+  return mockSeriesUpdate.mock.calls[0][0].data
+}
+
+describe('Admin series metadata', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    jest.spyOn(console, 'log').mockImplementation(() => {})
+    mockGetUser.mockResolvedValue({ data: { user: { id: 'admin-1' } } })
+    mockUserFindUnique.mockResolvedValue({ role: 'admin' })
+    mockQueryRaw.mockResolvedValue([{ id: SERIES_ID }])
+    mockSeriesFindUniqueOrThrow.mockResolvedValue({ locked_fields: ['cover_url'] })
+    mockSeriesUpdate.mockImplementation(async ({ data }) => ({ id: SERIES_ID, ...data }))
+  })
+
+  afterEach(() => {
+    jest.mocked(console.log).mockRestore()
+  })
+
+  it('should reject callers who are not admins', async () => {
+    mockUserFindUnique.mockResolvedValue({ role: 'user' })
+
+    const response = await PATCH(request({ title: 'Solo Leveling (Official)' }), params)
+
+    expect(response.status).toBe(403)
+    expect(mockSeriesUpdate).not.toHaveBeenCalled()
+  })
+
+  it('should write and lock the edited fields', async () => {
+    const response = await PATCH(request({ title: 'Solo Leveling (Official)', status: 'completed' }), params)
+
+    expect(response.status).toBe(200)
+    expect(mockSeriesUpdate).toHaveBeenCalledWith({
+      where: { id: SERIES_ID },
+      data: {
+        title: 'Solo Leveling (Official)',
+        status: 'completed',
+        locked_fields: ['cover_url', 'title', 'status'],
+      },
+    })
+  })
+
+  it('should refuse unknown fields and covers the image proxy will not serve', async () => {
+    expect((await PATCH(request({ chapter_count: 3 }), params)).status).toBe(400)
+    expect((await PATCH(request({ cover_url: 'https://evil.test/cover.jpg' }), params)).status).toBe(400)
+    expect((await PATCH(request({}), params)).status).toBe(400)
+    expect(mockSeriesUpdate).not.toHaveBeenCalled()
+  })
+
+  it('should keep a locked field through a metadata refresh', async () => {
+    mockSeriesFindUniqueOrThrow.mockResolvedValue({ locked_fields: [] })
+    await PATCH(request({ title: 'Solo Leveling (Official)' }), params)
+    const { locked_fields } = mockSeriesUpdate.mock.calls[0][0].data
+
+    const updates = await refreshWith(locked_fields)
+
+    expect(updates).not.toHaveProperty('title')
+    expect(updates).toMatchObject({ description: 'Scraped description' })
+  })
+
+  it('should hand unlocked fields back to the metadata refresh', async () => {
+    mockSeriesFindUniqueOrThrow.mockResolvedValue({ locked_fields: ['title', 'cover_url'] })
+
+    const response = await DELETE(request({ fields: ['title'] }), params)
+
+    expect(response.status).toBe(200)
+    const { locked_fields } = mockSeriesUpdate.mock.calls[0][0].data
+    expect(locked_fields).toEqual(['cover_url'])
+    expect(await refreshWith(locked_fields)).toMatchObject({ title: 'Na Honjaman Level-Up' })
+  })
+})
+
+describe('processRefreshMetadata', () => {
+  const release = jest.fn()
+  let scrapeMetadata: jest.SpyInstance
+
+  async function refreshStale() {
+    const series = storedSeries([])
+    series.sources[0].metadata_fetched_at = new Date(Date.now() - 2 * 24 * 60 * 60 * 1000)
+    mockSeriesFindUnique.mockResolvedValue(series)
+    mockSeriesFindUniqueOrThrow.mockResolvedValue(series)
+    await processRefreshMetadata({ id: 'metadata-1', data: { seriesId: SERIES_ID } } as any)
+    return mockSeriesUpdate.mock.calls[0][0].data
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    jest.spyOn(console, 'log').mockImplementation(() => {})
+    jest.spyOn(console, 'warn').mockImplementation(() => {})
+    scrapeMetadata = jest.spyOn(scraperRegistry.get('mangadex')!.scraper, 'scrapeMetadata')
+    mockAcquire.mockResolvedValue({ allowed: true, release })
+    mockQueryRaw.mockResolvedValue([{ id: SERIES_ID }])
+    mockSeriesUpdate.mockResolvedValue({})
+    mockSourceUpdate.mockResolvedValue({})
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  it('should scrape stale sources and store the new snapshot', async () => {
+    scrapeMetadata.mockResolvedValue({ title: 'Only I Level Up' })
+
+    const updates = await refreshStale()
+
+    expect(scrapeMetadata).toHaveBeenCalledWith('md-1')
+    expect(mockSourceUpdate).toHaveBeenCalledWith({
+      where: { id: 'source-1' },
+      data: { metadata: { title: 'Only I Level Up' }, metadata_fetched_at: expect.any(Date) },
+    })
+    expect(release).toHaveBeenCalled()
+    expect(updates).toMatchObject({ title: 'Only I Level Up' })
+  })
+
+  it('should respect fields an admin locked while the sources were scraped', async () => {
+    scrapeMetadata.mockImplementation(async () => {
+      // The admin edit lands mid-scrape
+      mockSeriesFindUniqueOrThrow.mockResolvedValue({ ...storedSeries(['title']), title: 'Solo Leveling (Official)' })
+      return { title: 'Only I Level Up', description: 'New description' }
+    })
+
+    const updates = await refreshStale()
+
+    const sql = mockQueryRaw.mock.calls[0][0].join('?')
+    expect(sql).toMatch(/FROM series WHERE id = \?::uuid FOR UPDATE/)
+    expect(mockQueryRaw.mock.invocationCallOrder[0]).toBeLessThan(mockSeriesFindUniqueOrThrow.mock.invocationCallOrder[0])
+    expect(updates).not.toHaveProperty('title')
+    expect(updates).toMatchObject({ description: 'New description' })
+  })
+
+  it('should fall back to the stored snapshot when scraping fails', async () => {
+    scrapeMetadata.mockRejectedValue(new Error('Scraper timed out'))
+
+    const updates = await refreshStale()
+
+    expect(mockSourceUpdate).not.toHaveBeenCalled()
+    expect(release).toHaveBeenCalled()
+    expect(updates).toMatchObject({ title: 'Na Honjaman Level-Up' })
+  })
+
+  it('should not scrape a host whose budget is used up', async () => {
+    mockAcquire.mockResolvedValue({ allowed: false, reason: 'rate', retryAfterMs: 1000 })
+
+    const updates = await refreshStale()
+
+    expect(scrapeMetadata).not.toHaveBeenCalled()
+    expect(updates).toMatchObject({ title: 'Na Honjaman Level-Up' })
+  })
+})
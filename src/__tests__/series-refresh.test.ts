@@ -0,0 +1,151 @@
+/**
+ * @jest-environment node
+ */
+
+const mockUserFindUnique = jest.fn()
+const mockSeriesFindUnique = jest.fn()
+const mockSourceFindMany = jest.fn()
+const mockChapterFindMany = jest.fn()
+const mockGetJob = jest.fn()
+const mockEnqueueChecks = jest.fn()
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    user: { findUnique: (...args: unknown[]) => mockUserFindUnique(...args) },
+    series: { findUnique: (...args: unknown[]) => mockSeriesFindUnique(...args) },
+    seriesSource: { findMany: (...args: unknown[]) => mockSourceFindMany(...args) },
+    chapter: { findMany: (...args: unknown[]) => mockChapterFindMany(...args) },
+  },
+}))
+
+jest.mock('@/lib/queues', () => ({
+  checkSourceQueue: { getJob: (...args: unknown[]) => mockGetJob(...args) },
+}))
+
+jest.mock('@/lib/queue-admin', () => ({
+  enqueueChecks: (...args: unknown[]) => mockEnqueueChecks(...args),
+}))
+
+import {
+  isPremium,
+  parseRefreshJobIds,
+  REFRESH_QUOTA,
+  requestSeriesRefresh,
+  watchSeriesRefresh,
+} from '@/lib/series-refresh'
+import { clearRateLimit } from '@/lib/api-utils'
+
+const SERIES_ID = '4f6c2a8e-1b3d-4e5f-8a7b-9c0d1e2f3a4b'
+const SOURCE_ID = '9a8b7c6d-5e4f-4a3b-8c2d-1e0f9a8b7c6d'
+
+function job(state: string, overrides = {}) {
+  return {
+    data: { seriesSourceId: SOURCE_ID },
+    timestamp: 1_700_000_000_000,
+    progress: 0,
+    returnvalue: null,
+    failedReason: '',
+    getState: jest.fn(async () => state),
+    ...overrides,
+  }
+}
+
+describe('Series refresh', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    clearRateLimit('refresh:user-1')
+    mockSeriesFindUnique.mockResolvedValue({ id: SERIES_ID })
+    mockEnqueueChecks.mockResolvedValue({ jobIds: [`refresh-${SOURCE_ID}-1`] })
+    mockSourceFindMany.mockResolvedValue([{ id: SOURCE_ID }])
+  })
+
+  describe('isPremium', () => {
+    const now = new Date('2026-01-01T00:00:00Z')
+
+    it('should treat active paid tiers as premium', () => {
+      expect(isPremium({ subscription_tier: 'premium', subscription_expires_at: null }, now)).toBe(true)
+      expect(isPremium({ subscription_tier: 'premium', subscription_expires_at: new Date('2026-02-01') }, now)).toBe(true)
+    })
+
+    it('should not treat free or expired subscriptions as premium', () => {
+      expect(isPremium({ subscription_tier: 'free', subscription_expires_at: null }, now)).toBe(false)
+      expect(isPremium({ subscription_tier: 'premium', subscription_expires_at: new Date('2025-12-01') }, now)).toBe(false)
+    })
+  })
+
+  describe('requestSeriesRefresh', () => {
+    it('should enqueue refresh jobs for the series', async () => {
+      mockUserFindUnique.mockResolvedValue({ subscription_tier: 'free', subscription_expires_at: null })
+
+      await expect(requestSeriesRefresh('user-1', SERIES_ID)).resolves.toEqual({
+        jobIds: [`refresh-${SOURCE_ID}-1`],
+        quota: REFRESH_QUOTA.free,
+      })
+      expect(mockEnqueueChecks).toHaveBeenCalledWith({ seriesId: SERIES_ID }, 'refresh')
+    })
+
+    it('should give premium users a higher quota', async () => {
+      mockUserFindUnique.mockResolvedValue({ subscription_tier: 'free', subscription_expires_at: null })
+      for (let i = 0; i < REFRESH_QUOTA.free; i++) {
+        await requestSeriesRefresh('user-1', SERIES_ID)
+      }
+      await expect(requestSeriesRefresh('user-1', SERIES_ID)).rejects.toMatchObject({ statusCode: 429 })
+
+      mockUserFindUnique.mockResolvedValue({ subscription_tier: 'premium', subscription_expires_at: null })
+      await expect(requestSeriesRefresh('user-1', SERIES_ID)).resolves.toMatchObject({ quota: REFRESH_QUOTA.premium })
+    })
+
+    it('should return 404 for unknown series without using quota', async () => {
+      mockSeriesFindUnique.mockResolvedValue(null)
+      mockUserFindUnique.mockResolvedValue({ subscription_tier: 'free', subscription_expires_at: null })
+
+      await expect(requestSeriesRefresh('user-1', SERIES_ID)).rejects.toMatchObject({ statusCode: 404 })
+      expect(mockEnqueueChecks).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('parseRefreshJobIds', () => {
+    it('should only accept refresh job ids', () => {
+      expect(parseRefreshJobIds('refresh-a-1, refresh-b-1')).toEqual(['refresh-a-1', 'refresh-b-1'])
+      expect(() => parseRefreshJobIds('manual-a-1')).toThrow('Only refresh jobs can be tracked')
+      expect(() => parseRefreshJobIds(null)).toThrow()
+    })
+  })
+
+  describe('watchSeriesRefresh', () => {
+    it('should stream progress until the jobs finish, then report new chapters', async () => {
+      const chapters = [{ id: 'ch-1', chapter_number: 12 }]
+      mockChapterFindMany.mockResolvedValue(chapters)
+      mockGetJob
+        .mockResolvedValueOnce(job('active', { progress: { stage: 'scraping' } }))
+        .mockResolvedValueOnce(job('active', { progress: { stage: 'scraping' } }))
+        .mockResolvedValueOnce(job('completed', { returnvalue: { newChapters: 1 } }))
+
+      const events = []
+      for await (const event of watchSeriesRefresh(SERIES_ID, ['refresh-x-1'], { pollIntervalMs: 1 })) {
+        events.push(event)
+      }
+
+      expect(events.map((e) => e.event)).toEqual(['progress', 'progress', 'complete'])
+      expect(events[0].data).toMatchObject({ jobs: [{ state: 'checking', stage: 'scraping' }] })
+      expect(events[1].data).toMatchObject({ jobs: [{ state: 'completed', new_chapters: 1 }] })
+      expect(events[2].data).toEqual({ new_chapter_count: 1, chapters })
+      expect(mockChapterFindMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: { series_id: SERIES_ID, discovered_at: { gte: new Date(1_700_000_000_000) } },
+      }))
+    })
+
+    it('should report jobs of other series as missing', async () => {
+      mockGetJob.mockResolvedValue(job('active', { data: { seriesSourceId: 'someone-elses-source' } }))
+      mockChapterFindMany.mockResolvedValue([])
+
+      const events = []
+      for await (const event of watchSeriesRefresh(SERIES_ID, ['refresh-x-1'], { pollIntervalMs: 1 })) {
+        events.push(event)
+      }
+
+      expect(events[0].data).toMatchObject({ jobs: [{ state: 'missing', source_id: null }] })
+      expect(events[1]).toEqual({ event: 'complete', data: { new_chapter_count: 0, chapters: [] } })
+    })
+  })
+})
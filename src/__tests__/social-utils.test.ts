@@ -27,7 +27,12 @@ jest.mock('@/lib/prisma', () => ({
   },
 }))
 
+jest.mock('@/lib/notifications/dispatcher', () => ({
+  dispatchNotification: jest.fn(),
+}))
+
 const { prisma } = require('@/lib/prisma')
+const { dispatchNotification } = require('@/lib/notifications/dispatcher')
 
 describe('Social Utils', () => {
   beforeEach(() => {
@@ -163,7 +168,7 @@ describe('Social Utils', () => {
       const result = await followUser('user-1', 'target')
 
       expect(prisma.follow.create).toHaveBeenCalled()
-      expect(prisma.notification.create).toHaveBeenCalled()
+      expect(dispatchNotification).toHaveBeenCalled()
       expect(result).toEqual(newFollow)
     })
   })
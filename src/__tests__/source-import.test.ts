@@ -0,0 +1,142 @@
+/**
+ * @jest-environment node
+ */
+
+const mockSourceFindFirst = jest.fn()
+const mockSourceCreate = jest.fn()
+const mockQueryRaw = jest.fn()
+const mockExecuteRaw = jest.fn()
+const mockEntryFindUnique = jest.fn()
+const mockEntryCreate = jest.fn()
+const mockActivityCreate = jest.fn()
+const mockEnqueueChecks = jest.fn()
+
+jest.mock('@/lib/prisma', () => {
+  const prisma = {
+    seriesSource: {
+      findFirst: (...args: unknown[]) => mockSourceFindFirst(...args),
+      create: (...args: unknown[]) => mockSourceCreate(...args),
+    },
+    libraryEntry: {
+      findUnique: (...args: unknown[]) => mockEntryFindUnique(...args),
+      create: (...args: unknown[]) => mockEntryCreate(...args),
+    },
+    activity: { create: (...args: unknown[]) => mockActivityCreate(...args) },
+    $queryRaw: (...args: unknown[]) => mockQueryRaw(...args),
+    $executeRaw: (...args: unknown[]) => mockExecuteRaw(...args),
+    $transaction: (fn: (tx: unknown) => unknown) => fn(prisma),
+  }
+  return { prisma }
+})
+
+jest.mock('@/lib/scrapers/politeness', () => ({
+  hostBudget: { acquire: jest.fn(async () => ({ allowed: true, release: jest.fn() })) },
+}))
+
+jest.mock('@/lib/queue-admin', () => ({
+  enqueueChecks: (...args: unknown[]) => mockEnqueueChecks(...args),
+}))
+
+import { importSourceUrl } from '@/lib/source-import'
+import { scraperRegistry } from '@/lib/scrapers'
+
+const MANGA_ID = 'a1c7c817-4e59-43b7-9365-09675a149a6f'
+const URL = `https://mangadex.org/title/${MANGA_ID}/one-piece?tab=chapters`
+const SERIES = { id: 'series-1', title: 'One Piece' }
+
+describe('importSourceUrl', () => {
+  const scrapeMetadata = jest.spyOn(scraperRegistry.get('mangadex')!.scraper, 'scrapeMetadata')
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockSourceFindFirst.mockResolvedValue(null)
+    mockEntryFindUnique.mockResolvedValue(null)
+    mockEnqueueChecks.mockResolvedValue({ jobIds: ['import-1'] })
+    mockSourceCreate.mockImplementation(async ({ data }) => ({
+      id: 'source-1',
+      source_name: data.source_name,
+      source_id: data.source_id,
+      series: SERIES,
+    }))
+    scrapeMetadata.mockResolvedValue({
+      title: 'One Piece',
+      alternativeTitles: ['ワンピース', 'one  piece'],
+      coverUrl: 'https://uploads.mangadex.org/covers/1.jpg',
+      status: 'ongoing',
+    })
+  })
+
+  it('should reject URLs from unsupported sites', async () => {
+    await expect(importSourceUrl('user-1', 'https://example.com/title/1')).rejects.toMatchObject({ statusCode: 400 })
+    expect(mockSourceFindFirst).not.toHaveBeenCalled()
+  })
+
+  it('should reuse a source someone already tracks without scraping it', async () => {
+    mockSourceFindFirst.mockResolvedValue({ id: 'source-0', source_name: 'mangadex', source_id: MANGA_ID, series: SERIES })
+
+    const result = await importSourceUrl('user-1', URL)
+
+    expect(scrapeMetadata).not.toHaveBeenCalled()
+    expect(mockSourceCreate).not.toHaveBeenCalled()
+    expect(result).toMatchObject({ series: SERIES, created_source: false, created_series: false, added_to_library: true })
+  })
+
+  it('should attach a new source to the series matching its titles', async () => {
+    mockQueryRaw.mockResolvedValue([SERIES])
+
+    const result = await importSourceUrl('user-1', URL)
+
+    expect(mockSourceCreate).toHaveBeenCalledWith(expect.objectContaining({
+      data: expect.objectContaining({
+        series: { connect: { id: SERIES.id } },
+        source_name: 'mangadex',
+        source_id: MANGA_ID,
+        source_url: `https://mangadex.org/title/${MANGA_ID}/one-piece`,
+      }),
+    }))
+    expect(mockEnqueueChecks).toHaveBeenCalledWith({ seriesSourceId: 'source-1' }, 'import')
+    expect(result).toMatchObject({ created_source: true, created_series: false })
+  })
+
+  it('should create the series from the source metadata when nothing matches', async () => {
+    mockQueryRaw.mockResolvedValue([])
+
+    const result = await importSourceUrl('user-1', URL)
+
+    const { series } = mockSourceCreate.mock.calls[0][0].data
+    expect(series.create).toMatchObject({
+      title: 'One Piece',
+      alternative_titles: ['ワンピース'],
+      cover_url: 'https://uploads.mangadex.org/covers/1.jpg',
+      status: 'ongoing',
+      type: 'manga',
+    })
+    expect(result.created_series).toBe(true)
+  })
+
+  it('should reuse a source another import created while this one was scraping', async () => {
+    const created = { id: 'source-0', source_name: 'mangadex', source_id: MANGA_ID, series: SERIES }
+    mockSourceFindFirst.mockResolvedValueOnce(null).mockResolvedValueOnce(created)
+
+    const result = await importSourceUrl('user-1', URL)
+
+    const [lockSql, lockKey] = mockExecuteRaw.mock.calls[0]
+    expect(lockSql.join('?')).toContain('pg_advisory_xact_lock(hashtext(?))')
+    expect(lockKey).toBe(`mangadex:${MANGA_ID}`)
+    expect(mockExecuteRaw.mock.invocationCallOrder[0]).toBeLessThan(mockSourceFindFirst.mock.invocationCallOrder[1])
+    expect(mockSourceCreate).not.toHaveBeenCalled()
+    expect(mockEnqueueChecks).not.toHaveBeenCalled()
+    expect(result).toMatchObject({ series: SERIES, created_source: false, created_series: false })
+  })
+
+  it('should not add the series to the library twice', async () => {
+    mockQueryRaw.mockResolvedValue([SERIES])
+    mockEntryFindUnique.mockResolvedValue({ id: 'entry-1' })
+
+    const result = await importSourceUrl('user-1', URL)
+
+    expect(result.added_to_library).toBe(false)
+    expect(mockEntryCreate).not.toHaveBeenCalled()
+    expect(mockActivityCreate).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,201 @@
+/**
+ * @jest-environment node
+ */
+
+const mockGetUser = jest.fn()
+const mockUserFindUnique = jest.fn()
+const mockSourceFindUnique = jest.fn()
+const mockSourceUpdate = jest.fn()
+const mockSourceUpdateMany = jest.fn()
+const mockDeadLetterAdd = jest.fn()
+const mockDeadLetterRemove = jest.fn()
+const mockDeadLetterGetJob = jest.fn()
+const mockCheckSourceAdd = jest.fn()
+
+jest.mock('@/lib/supabase/server', () => ({
+  createClient: jest.fn(async () => ({ auth: { getUser: mockGetUser } })),
+}))
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    user: { findUnique: (...args: unknown[]) => mockUserFindUnique(...args) },
+    seriesSource: {
+      findUnique: (...args: unknown[]) => mockSourceFindUnique(...args),
+      update: (...args: unknown[]) => mockSourceUpdate(...args),
+      updateMany: (...args: unknown[]) => mockSourceUpdateMany(...args),
+    },
+  },
+}))
+
+jest.mock('@/lib/queues', () => ({
+  checkSourceQueue: { add: (...args: unknown[]) => mockCheckSourceAdd(...args) },
+  checkSourceDeadLetterQueue: {
+    add: (...args: unknown[]) => mockDeadLetterAdd(...args),
+    remove: (...args: unknown[]) => mockDeadLetterRemove(...args),
+    getJob: (...args: unknown[]) => mockDeadLetterGetJob(...args),
+  },
+}))
+
+// The jest setup replaces Response, which NextResponse builds on
+jest.mock('next/server', () => ({
+  NextResponse: {
+    json: (body: unknown, init?: { status?: number }) => ({ status: init?.status ?? 200, json: async () => body }),
+  },
+}))
+
+import { deadLetterCheckSource, failureRecord, hasExhaustedRetries } from '@/lib/dead-letter'
+import { GET as getSource } from '@/app/api/admin/sources/[id]/route'
+import { POST as retry } from '@/app/api/admin/sources/[id]/retry/route'
+import { POST as reset } from '@/app/api/admin/sources/[id]/reset/route'
+import { DELETE as enable, POST as disable } from '@/app/api/admin/sources/[id]/disable/route'
+
+const SOURCE_ID = '9a8b7c6d-5e4f-4a3b-8c2d-1e0f9a8b7c6d'
+
+const params = { params: Promise.resolve({ id: SOURCE_ID }) }
+
+function request(body: unknown = {}) {
+  return { json: async () => body } as any
+}
+
+describe('Dead letters', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockDeadLetterRemove.mockResolvedValue(1)
+    mockDeadLetterAdd.mockResolvedValue({})
+    mockSourceUpdateMany.mockResolvedValue({ count: 1 })
+  })
+
+  it('should only treat the last allowed attempt as exhausted', () => {
+    expect(hasExhaustedRetries({ attemptsMade: 2, opts: { attempts: 3 } })).toBe(false)
+    expect(hasExhaustedRetries({ attemptsMade: 3, opts: { attempts: 3 } })).toBe(true)
+    expect(hasExhaustedRetries({ attemptsMade: 1, opts: {} })).toBe(true)
+  })
+
+  it('should describe a failed attempt for the failure history', () => {
+    const error = new TypeError('Unexpected token <')
+
+    expect(failureRecord(error, { id: 'check-1', attemptsMade: 2 }, false)).toEqual({
+      job_id: 'check-1',
+      attempt: 3,
+      error_name: 'TypeError',
+      error_message: 'Unexpected token <',
+      is_retryable: false,
+    })
+  })
+
+  it('should replace the source dead letter and flag the source', async () => {
+    const job = {
+      id: 'check-1',
+      data: { seriesSourceId: SOURCE_ID },
+      attemptsMade: 5,
+      opts: { attempts: 5 },
+      stacktrace: null,
+    }
+
+    await deadLetterCheckSource(job, new Error('Scraper timed out'))
+
+    expect(mockDeadLetterRemove).toHaveBeenCalledWith(`dead-${SOURCE_ID}`)
+    expect(mockDeadLetterAdd).toHaveBeenCalledWith(
+      'dead-letter',
+      {
+        seriesSourceId: SOURCE_ID,
+        jobId: 'check-1',
+        failedReason: 'Scraper timed out',
+        stacktrace: [],
+        attemptsMade: 5,
+        failedAt: expect.any(String),
+      },
+      { jobId: `dead-${SOURCE_ID}` }
+    )
+    expect(mockDeadLetterRemove.mock.invocationCallOrder[0]).toBeLessThan(mockDeadLetterAdd.mock.invocationCallOrder[0])
+    expect(mockSourceUpdateMany).toHaveBeenCalledWith({
+      where: { id: SOURCE_ID },
+      data: { dead_lettered_at: expect.any(Date) },
+    })
+  })
+})
+
+describe('Admin source triage', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockGetUser.mockResolvedValue({ data: { user: { id: 'admin-1' } } })
+    mockUserFindUnique.mockResolvedValue({ role: 'admin' })
+    mockSourceFindUnique.mockResolvedValue({ disabled_at: null })
+    mockSourceUpdate.mockImplementation(async ({ data }) => ({ id: SOURCE_ID, ...data }))
+    mockDeadLetterRemove.mockResolvedValue(1)
+    mockCheckSourceAdd.mockResolvedValue({})
+  })
+
+  it('should reject anonymous and non-admin callers without touching the source', async () => {
+    mockGetUser.mockResolvedValueOnce({ data: { user: null } })
+    expect((await retry(request(), params)).status).toBe(401)
+
+    mockUserFindUnique.mockResolvedValue({ role: 'user' })
+    expect((await retry(request(), params)).status).toBe(403)
+    expect((await reset(request(), params)).status).toBe(403)
+    expect((await disable(request({ reason: 'Site closed' }), params)).status).toBe(403)
+    expect((await enable(request(), params)).status).toBe(403)
+    expect((await getSource(request(), params)).status).toBe(403)
+
+    expect(mockSourceUpdate).not.toHaveBeenCalled()
+    expect(mockCheckSourceAdd).not.toHaveBeenCalled()
+  })
+
+  it('should clear the dead letter and queue a check on retry', async () => {
+    const response = await retry(request(), params)
+
+    expect(response.status).toBe(202)
+    expect(await response.json()).toEqual({ jobId: expect.stringMatching(`^retry-${SOURCE_ID}-`) })
+    expect(mockSourceUpdate).toHaveBeenCalledWith({
+      where: { id: SOURCE_ID },
+      data: expect.objectContaining({ circuit_state: 'closed', failure_count: 0, dead_lettered_at: null }),
+    })
+    expect(mockDeadLetterRemove).toHaveBeenCalledWith(`dead-${SOURCE_ID}`)
+    expect(mockCheckSourceAdd).toHaveBeenCalledWith(
+      `check-${SOURCE_ID}`,
+      { seriesSourceId: SOURCE_ID },
+      expect.objectContaining({ priority: 1 })
+    )
+  })
+
+  it('should not retry a disabled or missing source', async () => {
+    mockSourceFindUnique.mockResolvedValueOnce({ disabled_at: new Date() })
+    expect((await retry(request(), params)).status).toBe(409)
+
+    mockSourceFindUnique.mockResolvedValueOnce(null)
+    expect((await retry(request(), params)).status).toBe(404)
+
+    expect(mockCheckSourceAdd).not.toHaveBeenCalled()
+  })
+
+  it('should require a reason to disable a source', async () => {
+    expect((await disable(request({}), params)).status).toBe(400)
+    expect(mockSourceUpdate).not.toHaveBeenCalled()
+
+    const response = await disable(request({ reason: 'Site closed' }), params)
+    expect(response.status).toBe(200)
+    expect(mockSourceUpdate).toHaveBeenCalledWith(expect.objectContaining({
+      data: { disabled_at: expect.any(Date), disabled_reason: 'Site closed' },
+    }))
+  })
+
+  it('should show the dead-lettered job with the source', async () => {
+    mockSourceFindUnique.mockResolvedValue({
+      id: SOURCE_ID,
+      failure_count: 5,
+      series: { title: 'Solo Leveling' },
+      failures: [],
+      _count: { failures: 12 },
+    })
+    mockDeadLetterGetJob.mockResolvedValue({ data: { seriesSourceId: SOURCE_ID, failedReason: 'Scraper timed out' } })
+
+    const response = await getSource(request(), params)
+
+    expect(await response.json()).toEqual(expect.objectContaining({
+      series_title: 'Solo Leveling',
+      total_failures: 12,
+      dead_letter: { seriesSourceId: SOURCE_ID, failedReason: 'Scraper timed out' },
+    }))
+    expect(mockDeadLetterGetJob).toHaveBeenCalledWith(`dead-${SOURCE_ID}`)
+  })
+})
@@ -0,0 +1,161 @@
+/**
+ * @jest-environment node
+ */
+
+const mockSeriesFindMany = jest.fn()
+const mockSourceFindMany = jest.fn()
+const mockSourceUpdate = jest.fn()
+const mockLibraryEntryFindMany = jest.fn()
+const mockChapterGroupBy = jest.fn()
+const mockLoadReleaseDates = jest.fn()
+const mockRefreshReleaseForecasts = jest.fn()
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    series: { findMany: (...args: unknown[]) => mockSeriesFindMany(...args) },
+    seriesSource: {
+      findMany: (...args: unknown[]) => mockSourceFindMany(...args),
+      update: (...args: unknown[]) => mockSourceUpdate(...args),
+    },
+    libraryEntry: { findMany: (...args: unknown[]) => mockLibraryEntryFindMany(...args) },
+    chapter: { groupBy: (...args: unknown[]) => mockChapterGroupBy(...args) },
+  },
+}))
+
+jest.mock('@/lib/release-forecast', () => ({
+  RELEASE_HISTORY_MS: 365 * 24 * 60 * 60 * 1000,
+  loadReleaseDates: (...args: unknown[]) => mockLoadReleaseDates(...args),
+  refreshReleaseForecasts: (...args: unknown[]) => mockRefreshReleaseForecasts(...args),
+}))
+
+import { computeSyncPriority, readerDemand, SYNC_INTERVALS, toSyncPriority } from '@/lib/sync/sync-priority'
+import { processSyncPriorities } from '@/workers/processors/sync-priority.processor'
+
+const now = new Date('2024-06-01T00:00:00Z')
+const daysAgo = (n: number) => new Date(now.getTime() - n * 24 * 60 * 60 * 1000)
+
+function readers(count: number, syncPriority = 'WARM', lastReadAt: Date | null = daysAgo(1)) {
+  return Array.from({ length: count }, () => ({ syncPriority, lastReadAt }))
+}
+
+function input(overrides = {}) {
+  return {
+    readers: readers(1),
+    releaseDates: [daysAgo(3), daysAgo(10), daysAgo(17)],
+    lastChapterAt: daysAgo(3),
+    failureCount: 0,
+    ...overrides,
+  }
+}
+
+describe('readerDemand', () => {
+  it('should weight readers by entry priority and recency', () => {
+    expect(readerDemand(readers(2, 'HOT'), now)).toBe(6)
+    expect(readerDemand(readers(2, 'WARM', daysAgo(20)), now)).toBe(1)
+    expect(readerDemand(readers(1, 'COLD', null), now)).toBeCloseTo(0.05)
+  })
+})
+
+describe('computeSyncPriority', () => {
+  it('should promote actively releasing series with many readers to HOT', () => {
+    expect(computeSyncPriority(input({ readers: readers(5) }), now)).toBe('HOT')
+    expect(computeSyncPriority(input({ readers: readers(2, 'HOT') }), now)).toBe('HOT')
+  })
+
+  it('should keep popular series that rarely release at WARM', () => {
+    expect(computeSyncPriority(input({ readers: readers(10), releaseDates: [daysAgo(3)] }), now)).toBe('WARM')
+  })
+
+  it('should use WARM for series with a few recent readers', () => {
+    expect(computeSyncPriority(input(), now)).toBe('WARM')
+  })
+
+  it('should leave series nobody is reading COLD', () => {
+    expect(computeSyncPriority(input({ readers: [] }), now)).toBe('COLD')
+    expect(computeSyncPriority(input({ readers: readers(2, 'WARM', daysAgo(60)) }), now)).toBe('COLD')
+  })
+
+  it('should demote sources that went quiet regardless of demand', () => {
+    expect(computeSyncPriority(input({ readers: readers(20), lastChapterAt: daysAgo(120) }), now)).toBe('COLD')
+  })
+
+  it('should keep sources with an open circuit breaker COLD', () => {
+    expect(computeSyncPriority(input({ readers: readers(20), failureCount: 5 }), now)).toBe('COLD')
+  })
+})
+
+describe('toSyncPriority', () => {
+  it('should fall back to COLD for unknown values', () => {
+    expect(toSyncPriority('HOT')).toBe('HOT')
+    expect(toSyncPriority('LUKEWARM')).toBe('COLD')
+  })
+})
+
+describe('processSyncPriorities', () => {
+  const hoursFromNow = (n: number) => new Date(now.getTime() + n * 60 * 60 * 1000)
+  const job = { id: 'sync-priority-1', updateProgress: jest.fn() }
+
+  function source(id: string, seriesId: string, syncPriority: string, nextCheckAt: Date) {
+    return { id, series_id: seriesId, sync_priority: syncPriority, failure_count: 0, next_check_at: nextCheckAt, created_at: daysAgo(200) }
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    jest.useFakeTimers({ now })
+    jest.spyOn(console, 'log').mockImplementation(() => {})
+
+    mockSeriesFindMany
+      .mockResolvedValueOnce([{ id: 'series-popular' }, { id: 'series-abandoned' }, { id: 'series-steady' }])
+      .mockResolvedValue([])
+    mockSourceFindMany.mockResolvedValue([
+      source('source-popular', 'series-popular', 'COLD', hoursFromNow(20)),
+      source('source-abandoned', 'series-abandoned', 'WARM', hoursFromNow(1)),
+      source('source-steady', 'series-steady', 'WARM', hoursFromNow(1)),
+    ])
+    mockLibraryEntryFindMany.mockResolvedValue([
+      ...Array.from({ length: 5 }, () => ({ series_id: 'series-popular', sync_priority: 'WARM', last_read_at: daysAgo(1) })),
+      { series_id: 'series-steady', sync_priority: 'WARM', last_read_at: daysAgo(1) },
+    ])
+    mockChapterGroupBy.mockResolvedValue(['source-popular', 'source-abandoned', 'source-steady'].map((id) => ({
+      series_source_id: id,
+      _max: { discovered_at: daysAgo(3) },
+    })))
+    mockLoadReleaseDates.mockResolvedValue(new Map([['series-popular', [daysAgo(3), daysAgo(10)]]]))
+    mockSourceUpdate.mockResolvedValue({})
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+    jest.restoreAllMocks()
+  })
+
+  it('should check promoted sources sooner and let demoted ones keep their next check', async () => {
+    await processSyncPriorities(job as any)
+
+    expect(mockSourceUpdate).toHaveBeenCalledTimes(2)
+    expect(mockSourceUpdate).toHaveBeenCalledWith({
+      where: { id: 'source-popular' },
+      data: { sync_priority: 'HOT', next_check_at: new Date(now.getTime() + SYNC_INTERVALS.HOT) },
+    })
+    expect(mockSourceUpdate).toHaveBeenCalledWith({
+      where: { id: 'source-abandoned' },
+      data: { sync_priority: 'COLD' },
+    })
+  })
+
+  it('should page through series after the last one seen', async () => {
+    await processSyncPriorities(job as any)
+
+    expect(mockSeriesFindMany).toHaveBeenCalledTimes(2)
+    expect(mockSeriesFindMany.mock.calls[1][0]).toMatchObject({ cursor: { id: 'series-steady' }, skip: 1 })
+    expect(job.updateProgress).toHaveBeenCalledWith({ seriesCount: 3 })
+  })
+
+  it('should refresh release forecasts from a year of release history', async () => {
+    await processSyncPriorities(job as any)
+
+    const seriesIds = ['series-popular', 'series-abandoned', 'series-steady']
+    expect(mockLoadReleaseDates).toHaveBeenCalledWith(seriesIds, daysAgo(365))
+    expect(mockRefreshReleaseForecasts).toHaveBeenCalledWith(seriesIds, await mockLoadReleaseDates.mock.results[0].value, now)
+  })
+})
@@ -0,0 +1,268 @@
+/**
+ * @jest-environment node
+ */
+
+const mockSeriesFindMany = jest.fn()
+const mockSourceFindMany = jest.fn()
+const mockSourceUpdate = jest.fn()
+const mockChapterFindMany = jest.fn()
+const mockChapterChangeGroupBy = jest.fn()
+const mockTransaction = jest.fn()
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    series: { findMany: (...args: unknown[]) => mockSeriesFindMany(...args) },
+    seriesSource: {
+      findMany: (...args: unknown[]) => mockSourceFindMany(...args),
+      update: (...args: unknown[]) => mockSourceUpdate(...args),
+    },
+    chapter: { findMany: (...args: unknown[]) => mockChapterFindMany(...args) },
+    chapterChange: { groupBy: (...args: unknown[]) => mockChapterChangeGroupBy(...args) },
+    $transaction: (...args: unknown[]) => mockTransaction(...args),
+  },
+}))
+
+import { computeTrustScores, SourceObservation } from '@/lib/sync/trust-score'
+import { firstSeenChapterNumbers, groupChapters, selectDefaultChapters } from '@/lib/sync/chapter-selection'
+import { processTrustScores } from '@/workers/processors/trust-score.processor'
+
+const now = new Date('2024-06-01T00:00:00Z')
+const hours = (n: number) => n * 60 * 60 * 1000
+
+function chaptersFrom(numbers: number[], delayHours = 0) {
+  return numbers.map((n) => ({
+    chapterNumber: n,
+    releasedAt: new Date(Date.UTC(2024, 0, n) + hours(delayHours)),
+  }))
+}
+
+function observation(overrides: Partial<SourceObservation> = {}): SourceObservation {
+  return {
+    id: 'source',
+    failureCount: 0,
+    lastSuccessAt: new Date(now.getTime() - hours(1)),
+    chapters: chaptersFrom([1, 2, 3, 4]),
+    retractedCount: 0,
+    ...overrides,
+  }
+}
+
+describe('computeTrustScores', () => {
+  it('should give a healthy single source a high score', () => {
+    const [score] = computeTrustScores([observation()], now)
+
+    expect(score.components).toEqual({ reliability: 1, timeliness: 0.5, retention: 1, completeness: 1 })
+    expect(score.score).toBe(8.75)
+  })
+
+  it('should lower reliability with failures and stale successes', () => {
+    const [failing, stale, never] = computeTrustScores([
+      observation({ id: 'failing', failureCount: 3 }),
+      observation({ id: 'stale', lastSuccessAt: new Date(now.getTime() - hours(24 * 30)) }),
+      observation({ id: 'never', lastSuccessAt: null }),
+    ], now)
+
+    expect(failing.components.reliability).toBeCloseTo(0.4)
+    expect(stale.components.reliability).toBe(0)
+    expect(never.components.reliability).toBe(0.5)
+  })
+
+  it('should favour sources that publish before their siblings', () => {
+    const [fast, slow] = computeTrustScores([
+      observation({ id: 'fast', chapters: chaptersFrom([1, 2, 3]) }),
+      observation({ id: 'slow', chapters: chaptersFrom([1, 2, 3], 24) }),
+    ], now)
+
+    expect(fast.components.timeliness).toBe(1)
+    expect(slow.components.timeliness).toBe(0.5)
+    expect(fast.score).toBeGreaterThan(slow.score)
+  })
+
+  it('should penalise retractions', () => {
+    const [score] = computeTrustScores([observation({ chapters: chaptersFrom([1, 2, 3, 4, 5, 6, 7, 8, 9]), retractedCount: 1 })], now)
+
+    expect(score.components.retention).toBeCloseTo(0.5)
+  })
+
+  it('should measure completeness against the series latest chapter', () => {
+    const [full, gappy] = computeTrustScores([
+      observation({ id: 'full', chapters: chaptersFrom([1, 2, 3, 4]) }),
+      observation({ id: 'gappy', chapters: chaptersFrom([1, 2.5, 4]) }),
+    ], now)
+
+    expect(full.components.completeness).toBe(1)
+    expect(gappy.components.completeness).toBe(0.75)
+  })
+
+  it('should keep scores within the trust_score column range', () => {
+    for (const { score } of computeTrustScores([observation(), observation({ id: 'other' })], now)) {
+      expect(score).toBeLessThanOrEqual(9.99)
+      expect(score).toBeGreaterThanOrEqual(0)
+    }
+  })
+})
+
+describe('selectDefaultChapters', () => {
+  function chapter(id: string, chapterNumber: number, trust: number, overrides = {}) {
+    return {
+      id,
+      chapter_number: chapterNumber,
+      is_available: true,
+      published_at: new Date('2024-01-01T00:00:00Z'),
+      source: { trust_score: trust },
+      ...overrides,
+    }
+  }
+
+  it('should keep one chapter per number from the most trusted source', () => {
+    const selected = selectDefaultChapters([
+      chapter('a2', 2, 6),
+      chapter('b2', 2, 8),
+      chapter('a1', 1, 6),
+    ])
+
+    expect(selected.map((c) => c.id)).toEqual(['b2', 'a1'])
+  })
+
+  it('should prefer readable copies over more trusted unavailable ones', () => {
+    const selected = selectDefaultChapters([
+      chapter('trusted', 3, 9, { is_available: false }),
+      chapter('readable', 3, 4),
+    ])
+
+    expect(selected.map((c) => c.id)).toEqual(['readable'])
+  })
+
+  it('should break trust ties by earliest publication', () => {
+    const selected = selectDefaultChapters([
+      chapter('late', 4, 5, { published_at: new Date('2024-01-02T00:00:00Z') }),
+      chapter('early', 4, 5),
+    ])
+
+    expect(selected.map((c) => c.id)).toEqual(['early'])
+  })
+})
+
+describe('groupChapters', () => {
+  function chapter(id: string, chapterNumber: number, source: string, trust: number, overrides = {}) {
+    return {
+      id,
+      chapter_number: chapterNumber,
+      is_available: true,
+      published_at: new Date('2024-01-01T00:00:00Z'),
+      discovered_at: new Date('2024-01-01T00:00:00Z'),
+      source: { source_name: source, trust_score: trust },
+      ...overrides,
+    }
+  }
+
+  it('should group copies by number with the earliest discovery time', () => {
+    const groups = groupChapters([
+      chapter('dex-2', 2, 'mangadex', 8, { discovered_at: new Date('2024-01-03T00:00:00Z') }),
+      chapter('park-2', 2, 'mangapark', 6, { discovered_at: new Date('2024-01-02T00:00:00Z') }),
+      chapter('dex-1', 1, 'mangadex', 8),
+    ])
+
+    expect(groups.map((g) => g.chapter_number)).toEqual([2, 1])
+    expect(groups[0].chapters.map((c) => c.id)).toEqual(['dex-2', 'park-2'])
+    expect(groups[0].discovered_at).toEqual(new Date('2024-01-02T00:00:00Z'))
+  })
+
+  it('should prefer the reader\'s sources over trust, in order', () => {
+    const copies = [
+      chapter('dex', 5, 'mangadex', 9),
+      chapter('park', 5, 'mangapark', 4),
+      chapter('other', 5, 'other', 6),
+    ]
+
+    expect(groupChapters(copies, { preferredSources: ['MangaPark', 'other'] })[0].preferred.id).toBe('park')
+    expect(groupChapters(copies, { preferredSources: [null, 'other'] })[0].preferred.id).toBe('other')
+    expect(groupChapters(copies)[0].preferred.id).toBe('dex')
+  })
+
+  it('should not prefer a source whose copy cannot be read', () => {
+    const groups = groupChapters([
+      chapter('park', 6, 'mangapark', 4, { is_available: false }),
+      chapter('dex', 6, 'mangadex', 9),
+    ], { preferredSources: ['mangapark'] })
+
+    expect(groups[0].preferred.id).toBe('dex')
+  })
+})
+
+describe('firstSeenChapterNumbers', () => {
+  it('should keep only the numbers the source listed first', () => {
+    const copies = [
+      { chapter_number: 1, series_source_id: 'other' },
+      { chapter_number: 1, series_source_id: 'mine' },
+      { chapter_number: 2, series_source_id: 'mine' },
+      { chapter_number: 2, series_source_id: 'other' },
+    ]
+
+    expect(firstSeenChapterNumbers(copies, 'mine')).toEqual(['2.00'])
+  })
+})
+
+describe('processTrustScores', () => {
+  const job = { id: 'trust-score-1', updateProgress: jest.fn() }
+
+  function storedChapters(sourceId: string, numbers: number[]) {
+    return chaptersFrom(numbers).map(({ chapterNumber, releasedAt }) => ({
+      series_source_id: sourceId,
+      chapter_number: chapterNumber,
+      published_at: releasedAt,
+      discovered_at: releasedAt,
+    }))
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    jest.useFakeTimers({ now })
+    jest.spyOn(console, 'log').mockImplementation(() => {})
+
+    mockSeriesFindMany
+      .mockResolvedValueOnce([{ id: 'series-steady' }, { id: 'series-retracting' }])
+      .mockResolvedValue([])
+    mockSourceFindMany.mockResolvedValue([
+      { id: 'source-steady', series_id: 'series-steady', failure_count: 0, last_success_at: new Date(now.getTime() - hours(1)), trust_score: '8.75' },
+      { id: 'source-retracting', series_id: 'series-retracting', failure_count: 0, last_success_at: new Date(now.getTime() - hours(1)), trust_score: '8.75' },
+    ])
+    mockChapterFindMany.mockResolvedValue([
+      ...storedChapters('source-steady', [1, 2, 3, 4]),
+      ...storedChapters('source-retracting', [1, 2, 3, 4, 5, 6, 7, 8, 9]),
+    ])
+    mockChapterChangeGroupBy.mockResolvedValue([{ series_source_id: 'source-retracting', _count: { _all: 1 } }])
+    mockSourceUpdate.mockImplementation((args) => args)
+    mockTransaction.mockResolvedValue([])
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+    jest.restoreAllMocks()
+  })
+
+  it('should write only the scores that changed, in one transaction per batch', async () => {
+    await processTrustScores(job as any)
+
+    const [expected] = computeTrustScores([observation({
+      id: 'source-retracting',
+      chapters: chaptersFrom([1, 2, 3, 4, 5, 6, 7, 8, 9]),
+      retractedCount: 1,
+    })], now)
+
+    expect(mockTransaction).toHaveBeenCalledTimes(1)
+    const [updates] = mockTransaction.mock.calls[0]
+    expect(updates).toHaveLength(1)
+    expect(updates[0].where).toEqual({ id: 'source-retracting' })
+    expect(Number(updates[0].data.trust_score)).toBe(expected.score)
+    expect(job.updateProgress).toHaveBeenCalledWith({ seriesCount: 2, updatedCount: 1 })
+  })
+
+  it('should only count recent takedowns against a source', async () => {
+    await processTrustScores(job as any)
+
+    const { where } = mockChapterChangeGroupBy.mock.calls[0][0]
+    expect(where.change_type).toBe('removed')
+    expect(where.created_at.gte).toEqual(new Date(now.getTime() - hours(24 * 90)))
+  })
+})
@@ -0,0 +1,237 @@
+/**
+ * @jest-environment node
+ */
+
+import { createDecipheriv, createECDH, createPublicKey, hkdfSync, randomBytes, verify } from 'crypto'
+
+const mockUserFindUnique = jest.fn()
+const mockSubscriptionDeleteMany = jest.fn()
+const mockSubscriptionUpdateMany = jest.fn()
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    user: { findUnique: (...args: unknown[]) => mockUserFindUnique(...args) },
+    pushSubscription: {
+      deleteMany: (...args: unknown[]) => mockSubscriptionDeleteMany(...args),
+      updateMany: (...args: unknown[]) => mockSubscriptionUpdateMany(...args),
+    },
+  },
+}))
+
+jest.mock('@/lib/queues', () => ({}))
+
+import { generateVapidKeys } from '@/lib/push/vapid'
+import { MAX_PAYLOAD_BYTES, PushError, WebPushClient } from '@/lib/push/web-push'
+import { isPushServiceEndpoint, PushSubscriptionSchema } from '@/lib/push/subscriptions'
+import { processPush } from '@/workers/processors/push.processor'
+
+const USER_ID = '0b8e1c52-7f3a-4d9e-9c1b-2a3f4e5d6c7b'
+const SERIES_ID = '4f6c2a8e-1b3d-4e5f-8a7b-9c0d1e2f3a4b'
+
+// A browser's side of a subscription
+function browserKeys() {
+  const ecdh = createECDH('prime256v1')
+  ecdh.generateKeys()
+  return { ecdh, p256dh: ecdh.getPublicKey().toString('base64url'), auth: randomBytes(16).toString('base64url') }
+}
+
+// What the browser does with a push body (RFC 8291)
+function decrypt(body: Buffer, browser: ReturnType<typeof browserKeys>): string {
+  const salt = body.subarray(0, 16)
+  const keyLength = body.readUInt8(20)
+  const serverPublic = body.subarray(21, 21 + keyLength)
+  const ciphertext = body.subarray(21 + keyLength)
+
+  const derive = (ikm: Buffer, s: Buffer, info: Buffer, length: number) => Buffer.from(hkdfSync('sha256', ikm, s, info, length))
+  const clientPublic = browser.ecdh.getPublicKey()
+  const ikm = derive(
+    browser.ecdh.computeSecret(serverPublic),
+    Buffer.from(browser.auth, 'base64url'),
+    Buffer.concat([Buffer.from('WebPush: info\0'), clientPublic, serverPublic]),
+    32
+  )
+  const decipher = createDecipheriv(
+    'aes-128-gcm',
+    derive(ikm, salt, Buffer.from('Content-Encoding: aes128gcm\0'), 16),
+    derive(ikm, salt, Buffer.from('Content-Encoding: nonce\0'), 12)
+  )
+  decipher.setAuthTag(ciphertext.subarray(-16))
+  const plaintext = Buffer.concat([decipher.update(ciphertext.subarray(0, -16)), decipher.final()])
+
+  expect(plaintext[plaintext.length - 1]).toBe(0x02)
+  return plaintext.subarray(0, -1).toString()
+}
+
+describe('Web Push', () => {
+  describe('WebPushClient', () => {
+    const mockFetch = global.fetch as jest.Mock
+    const endpoint = 'https://fcm.googleapis.com/fcm/send/abc'
+
+    beforeEach(() => {
+      mockFetch.mockReset()
+      mockFetch.mockResolvedValue({ ok: true, status: 201, text: async () => '' })
+    })
+
+    it('should send an aes128gcm body the browser can decrypt', async () => {
+      const browser = browserKeys()
+      const client = new WebPushClient({ ...generateVapidKeys(), subject: 'mailto:ops@example.com' })
+
+      await client.send({ endpoint, p256dh: browser.p256dh, auth: browser.auth }, '{"title":"Chapter 12"}', { topic: 'chapter-12' })
+
+      const [url, init] = mockFetch.mock.calls[0]
+      expect(url).toBe(endpoint)
+      expect(init.headers).toMatchObject({ 'Content-Encoding': 'aes128gcm', TTL: '86400', Urgency: 'normal', Topic: 'chapter-12' })
+      const body = Buffer.from(init.body as Uint8Array)
+      expect(body.readUInt32BE(16)).toBe(4096)
+      expect(decrypt(body, browser)).toBe('{"title":"Chapter 12"}')
+    })
+
+    it('should sign a token for the push service origin', async () => {
+      const keys = generateVapidKeys()
+      const browser = browserKeys()
+      const before = Math.floor(Date.now() / 1000)
+
+      await new WebPushClient({ ...keys, subject: 'mailto:ops@example.com' })
+        .send({ endpoint, p256dh: browser.p256dh, auth: browser.auth }, 'hi')
+
+      const [, token, publicKey] = mockFetch.mock.calls[0][1].headers.Authorization.match(/^vapid t=(\S+), k=(\S+)$/)!
+      expect(publicKey).toBe(keys.publicKey)
+
+      const [encodedHeader, encodedClaims, signature] = token.split('.')
+      const claims = JSON.parse(Buffer.from(encodedClaims, 'base64url').toString())
+      expect(claims).toMatchObject({ aud: 'https://fcm.googleapis.com', sub: 'mailto:ops@example.com' })
+      // Push services reject tokens valid for more than 24 hours
+      expect(claims.exp).toBeGreaterThan(before)
+      expect(claims.exp).toBeLessThanOrEqual(before + 24 * 60 * 60 + 1)
+
+      const point = Buffer.from(keys.publicKey, 'base64url')
+      const key = createPublicKey({
+        format: 'jwk',
+        key: { kty: 'EC', crv: 'P-256', x: point.subarray(1, 33).toString('base64url'), y: point.subarray(33).toString('base64url') },
+      })
+      expect(verify(
+        'sha256',
+        Buffer.from(`${encodedHeader}.${encodedClaims}`),
+        { key, dsaEncoding: 'ieee-p1363' },
+        Buffer.from(signature, 'base64url')
+      )).toBe(true)
+    })
+
+    it('should refuse payloads that do not fit in one request', async () => {
+      const browser = browserKeys()
+      const client = new WebPushClient({ ...generateVapidKeys(), subject: 'mailto:ops@example.com' })
+
+      await expect(client.send({ endpoint, p256dh: browser.p256dh, auth: browser.auth }, 'x'.repeat(MAX_PAYLOAD_BYTES + 1)))
+        .rejects.toThrow(PushError)
+      expect(mockFetch).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('subscriptions', () => {
+    it('should only accept HTTPS endpoints of known push services', () => {
+      expect(isPushServiceEndpoint('https://fcm.googleapis.com/fcm/send/abc')).toBe(true)
+      expect(isPushServiceEndpoint('https://updates.push.services.mozilla.com/wpush/v2/abc')).toBe(true)
+      expect(isPushServiceEndpoint('https://web.push.apple.com/abc')).toBe(true)
+
+      expect(isPushServiceEndpoint('http://fcm.googleapis.com/fcm/send/abc')).toBe(false)
+      expect(isPushServiceEndpoint('https://fcm.googleapis.com.evil.test/abc')).toBe(false)
+      expect(isPushServiceEndpoint('https://fcm.googleapis.com:8443/abc')).toBe(false)
+      expect(isPushServiceEndpoint('https://127.0.0.1/abc')).toBe(false)
+    })
+
+    it('should validate subscription keys', () => {
+      const { p256dh, auth } = browserKeys()
+      const endpoint = 'https://fcm.googleapis.com/fcm/send/abc'
+
+      expect(PushSubscriptionSchema.safeParse({ endpoint, keys: { p256dh, auth } }).success).toBe(true)
+      expect(PushSubscriptionSchema.safeParse({ endpoint, keys: { p256dh: auth, auth } }).success).toBe(false)
+    })
+  })
+
+  describe('processPush', () => {
+    const browser = browserKeys()
+    const mockFetch = global.fetch as jest.Mock
+
+    function pushResponse(status: number, body = '') {
+      return { ok: status < 300, status, text: async () => body }
+    }
+
+    function pushJob(notification = {}) {
+      return {
+        id: 'push-1',
+        data: {
+          userId: USER_ID,
+          notification: { type: 'new_chapter', title: 'Solo Leveling', message: 'Chapter 12 is out', series_id: SERIES_ID, ...notification },
+        },
+      } as any
+    }
+
+    function subscription(id: string) {
+      return { id, endpoint: `https://fcm.googleapis.com/fcm/send/${id}`, p256dh: browser.p256dh, auth: browser.auth }
+    }
+
+    beforeAll(() => {
+      const keys = generateVapidKeys()
+      process.env.VAPID_PUBLIC_KEY = keys.publicKey
+      process.env.VAPID_PRIVATE_KEY = keys.privateKey
+    })
+
+    afterAll(() => {
+      delete process.env.VAPID_PUBLIC_KEY
+      delete process.env.VAPID_PRIVATE_KEY
+    })
+
+    beforeEach(() => {
+      jest.clearAllMocks()
+      mockFetch.mockReset()
+      mockSubscriptionDeleteMany.mockResolvedValue({ count: 0 })
+      mockSubscriptionUpdateMany.mockResolvedValue({ count: 0 })
+      mockUserFindUnique.mockResolvedValue({
+        notification_settings: { push_enabled: true },
+        push_subscriptions: [subscription('device-1'), subscription('device-2')],
+      })
+    })
+
+    it('should send to every device and prune expired ones', async () => {
+      mockFetch
+        .mockResolvedValueOnce(pushResponse(201))
+        .mockResolvedValueOnce(pushResponse(410, 'gone'))
+
+      await processPush(pushJob())
+
+      const [url, init] = mockFetch.mock.calls[0]
+      expect(url).toBe('https://fcm.googleapis.com/fcm/send/device-1')
+      expect(init?.headers).toMatchObject({ 'Content-Encoding': 'aes128gcm', Authorization: expect.stringMatching(/^vapid t=/) })
+      expect(JSON.parse(decrypt(Buffer.from(init!.body as Uint8Array), browser))).toEqual({
+        title: 'Solo Leveling',
+        body: 'Chapter 12 is out',
+        url: `/series/${SERIES_ID}`,
+        tag: `new_chapter-${SERIES_ID}`,
+      })
+
+      expect(mockSubscriptionDeleteMany).toHaveBeenCalledWith({ where: { id: { in: ['device-2'] } } })
+      expect(mockSubscriptionUpdateMany).toHaveBeenCalledWith({
+        where: { id: { in: ['device-1'] } },
+        data: { last_used_at: expect.any(Date) },
+      })
+    })
+
+    it('should throw for a retry only when no device got the push', async () => {
+      mockFetch.mockResolvedValue(pushResponse(503, 'unavailable'))
+
+      await expect(processPush(pushJob())).rejects.toThrow('Push service responded 503')
+      expect(mockSubscriptionDeleteMany).not.toHaveBeenCalled()
+    })
+
+    it('should not push to users who turned push off', async () => {
+      mockUserFindUnique.mockResolvedValue({
+        notification_settings: { push_enabled: false },
+        push_subscriptions: [subscription('device-1')],
+      })
+
+      await processPush(pushJob())
+
+      expect(mockFetch).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,106 @@
+/**
+ * @jest-environment node
+ */
+
+import http from 'http'
+import { AddressInfo } from 'net'
+import { metrics } from '@/lib/metrics'
+
+jest.mock('@/lib/redis', () => ({ redis: {} }))
+jest.mock('@/lib/prisma', () => ({ prisma: {} }))
+jest.mock('@/workers/schedulers/master.scheduler', () => ({ SCHEDULER_TICK_INTERVAL: 5 * 60 * 1000 }))
+
+import { createHealthServer, HealthCheck } from '@/workers/health'
+import { collectQueueMetrics, observeJobDuration } from '@/workers/queue-metrics'
+
+// jest.setup.js replaces global.fetch with a mock, so use a real implementation here
+const { fetch: realFetch } = require('next/dist/compiled/@edge-runtime/primitives')
+
+describe('createHealthServer', () => {
+  let server: http.Server
+  let baseUrl: string
+  let checks: Record<string, HealthCheck>
+
+  beforeEach(async () => {
+    checks = {
+      redis: async () => {},
+      database: async () => {},
+    }
+    server = createHealthServer({
+      checks: {
+        redis: () => checks.redis(),
+        database: () => checks.database(),
+      },
+      renderMetrics: async () => 'worker_up 1\n',
+      checkTimeoutMs: 50,
+    })
+    await new Promise<void>((resolve) => server.listen(0, resolve))
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+  })
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve))
+  })
+
+  it('should report liveness', async () => {
+    const response = await realFetch(`${baseUrl}/healthz`)
+
+    expect(response.status).toBe(200)
+    expect((await response.json()).status).toBe('ok')
+  })
+
+  it('should be ready when every check passes', async () => {
+    const response = await realFetch(`${baseUrl}/readyz`)
+
+    expect(response.status).toBe(200)
+    expect(await response.json()).toEqual({
+      status: 'ok',
+      checks: { redis: { status: 'ok' }, database: { status: 'ok' } },
+    })
+  })
+
+  it('should report failing and hanging checks as not ready', async () => {
+    checks.redis = async () => { throw new Error('ECONNREFUSED') }
+    checks.database = () => new Promise(() => {})
+
+    const response = await realFetch(`${baseUrl}/readyz`)
+    const body = await response.json()
+
+    expect(response.status).toBe(503)
+    expect(body.checks.redis).toEqual({ status: 'error', error: 'ECONNREFUSED' })
+    expect(body.checks.database.error).toMatch(/Timed out/)
+  })
+
+  it('should serve metrics in the Prometheus text format', async () => {
+    const response = await realFetch(`${baseUrl}/metrics`)
+
+    expect(response.status).toBe(200)
+    expect(response.headers.get('content-type')).toMatch(/^text\/plain/)
+    expect(await response.text()).toBe('worker_up 1\n')
+  })
+
+  it('should return 404 for unknown paths', async () => {
+    expect((await realFetch(`${baseUrl}/nope`)).status).toBe(404)
+  })
+})
+
+describe('queue metrics', () => {
+  it('should export job counts per queue and state, counting prioritized jobs as waiting', async () => {
+    const queue = {
+      name: 'check-source',
+      getJobCounts: async () => ({ waiting: 2, prioritized: 3, active: 1, failed: 4, delayed: 5 }),
+    }
+
+    await collectQueueMetrics([queue as any])
+    const output = metrics.render()
+
+    expect(output).toContain('bullmq_queue_jobs{queue="check-source",state="waiting"} 5')
+    expect(output).toContain('bullmq_queue_jobs{queue="check-source",state="failed"} 4')
+  })
+
+  it('should record job durations', () => {
+    observeJobDuration('notifications', { processedOn: 1000, finishedOn: 3500 } as any, 'completed')
+
+    expect(metrics.render()).toContain('bullmq_job_duration_seconds_sum{queue="notifications",status="completed"} 2.5')
+  })
+})
@@ -11,6 +11,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { useRouter, useSearchParams } from "next/navigation"
 import { useDebounce } from "@/hooks/use-performance"
 import { toast } from "sonner"
+import { ImportSourceDialog } from "@/components/library/import-source-dialog"
 
 interface LibraryEntry {
   id: string
@@ -258,6 +259,7 @@ function LibraryPageContent() {
           <p className="text-zinc-500 dark:text-zinc-400">Manage your reading progress and updates</p>
         </div>
         <div className="flex items-center gap-2">
+          <ImportSourceDialog />
           <Link href="/discover">
             <Button className="bg-zinc-900 text-zinc-50 hover:bg-zinc-800 dark:bg-zinc-50 dark:text-zinc-900 dark:hover:bg-zinc-200 rounded-full px-6">
               <Plus className="size-4 mr-2" />
@@ -1,11 +1,27 @@
 import { createClient } from "@/lib/supabase/server"
+import { prisma } from "@/lib/prisma"
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
 import { Star, Users, Calendar, Share2, MoreHorizontal } from "lucide-react"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { SeriesActions } from "@/components/series/series-actions"
+import { RefreshButton } from "@/components/series/refresh-button"
 import { ChapterList } from "@/components/series/chapter-list"
 import { notFound } from "next/navigation"
+import { formatDistanceToNow } from "date-fns"
+
+function nextReleaseLabel(pattern: string | null, nextReleaseAt: string | null) {
+  if (pattern === "hiatus") return "On hiatus"
+  if (!nextReleaseAt) return "Unknown"
+  const eta = new Date(nextReleaseAt)
+  return eta.getTime() <= Date.now() ? "Any time now" : formatDistanceToNow(eta, { addSuffix: true })
+}
+
+function sourceRetryLabel(circuitState: string, retryAt: string | null) {
+  if (circuitState === "half-open") return "Checking whether the source is back"
+  if (!retryAt || new Date(retryAt).getTime() <= Date.now()) return "Retrying soon"
+  return `Retrying ${formatDistanceToNow(new Date(retryAt), { addSuffix: true })}`
+}
 
 export default async function SeriesDetailPage({
   params,
@@ -37,10 +53,11 @@ export default async function SeriesDetailPage({
     libraryEntry = data
   }
 
-  const { count: chapterCount } = await supabase
-    .from('chapters')
-    .select('*', { count: 'exact', head: true })
-    .eq('series_id', id)
+  // A chapter mirrored on several sources counts once
+  const chapterCount = (await prisma.chapter.groupBy({
+    by: ['chapter_number'],
+    where: { series_id: id },
+  })).length
 
   const year = series.created_at ? new Date(series.created_at).getFullYear() : "N/A"
 
@@ -83,6 +100,7 @@ export default async function SeriesDetailPage({
           </div>
           <div className="flex items-center gap-3 pb-4">
             <SeriesActions seriesId={series.id} libraryEntry={libraryEntry} />
+            {user && <RefreshButton seriesId={series.id} />}
             <Button variant="outline" size="icon" className="rounded-full border-zinc-200 dark:border-zinc-800">
               <Share2 className="size-4" />
             </Button>
@@ -161,10 +179,22 @@ export default async function SeriesDetailPage({
                       </div>
                       <span className="text-sm font-bold capitalize">{source.source_name}</span>
                     </div>
-                    <div className="flex items-center gap-1.5 text-[10px] font-bold text-green-500">
-                      <div className="size-1.5 rounded-full bg-green-500" />
-                      {Math.round(Number(source.trust_score) * 10)}% Trust
-                    </div>
+                    {source.disabled_at ? (
+                      <div className="flex items-center gap-1.5 text-[10px] font-bold text-red-500" title={source.disabled_reason || undefined}>
+                        <div className="size-1.5 rounded-full bg-red-500" />
+                        Disabled
+                      </div>
+                    ) : source.circuit_state === "open" || source.circuit_state === "half-open" ? (
+                      <div className="flex items-center gap-1.5 text-[10px] font-bold text-amber-500" title={sourceRetryLabel(source.circuit_state, source.circuit_retry_at)}>
+                        <div className="size-1.5 rounded-full bg-amber-500" />
+                        Unreachable
+                      </div>
+                    ) : (
+                      <div className="flex items-center gap-1.5 text-[10px] font-bold text-green-500">
+                        <div className="size-1.5 rounded-full bg-green-500" />
+                        {Math.round(Number(source.trust_score) * 10)}% Trust
+                      </div>
+                    )}
                   </div>
                 ))}
               </div>
@@ -186,6 +216,14 @@ export default async function SeriesDetailPage({
                 <span className="text-zinc-500">Chapters</span>
                 <span className="font-bold">{chapterCount || 0}</span>
               </div>
+              <div className="flex justify-between">
+                <span className="text-zinc-500">Release</span>
+                <span className="font-bold capitalize">{series.release_pattern || "unknown"}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-zinc-500">Next chapter</span>
+                <span className="font-bold">{nextReleaseLabel(series.release_pattern, series.next_release_at)}</span>
+              </div>
               <div className="flex justify-between">
                 <span className="text-zinc-500">Views</span>
                 <span className="font-bold">{series.total_views?.toLocaleString() || 0}</span>
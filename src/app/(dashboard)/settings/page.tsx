@@ -2,15 +2,23 @@
 
 import { useEffect, useState, useCallback, useMemo } from "react"
 import { createClient } from "@/lib/supabase/client"
+import {
+  DEFAULT_NOTIFICATION_SETTINGS,
+  DigestFrequency,
+  NotificationSettings,
+  parseNotificationSettings,
+} from "@/lib/notifications/settings"
+import { disablePush, enablePush } from "@/lib/push/client"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Textarea } from "@/components/ui/textarea"
 import { Label } from "@/components/ui/label"
 import { Switch } from "@/components/ui/switch"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { useRouter } from "next/navigation"
 import { toast } from "sonner"
 import { Skeleton } from "@/components/ui/skeleton"
-import { Bell, Lock, Download, User, Loader2, Shield, Eye, EyeOff, Mail, Smartphone } from "lucide-react"
+import { Bell, Lock, Download, User, Loader2, Shield, Eye, EyeOff, Mail, Smartphone, Clock } from "lucide-react"
 
 interface UserProfile {
   id: string
@@ -18,12 +26,7 @@ interface UserProfile {
   email: string
   avatar_url: string | null
   bio: string | null
-  notification_settings: {
-    email_new_chapters?: boolean
-    email_follows?: boolean
-    email_achievements?: boolean
-    push_enabled?: boolean
-  }
+  notification_settings: NotificationSettings
   privacy_settings: {
     library_public?: boolean
     activity_public?: boolean
@@ -31,6 +34,15 @@ interface UserProfile {
   }
 }
 
+const DIGEST_OPTIONS: { value: DigestFrequency; label: string }[] = [
+  { value: "instant", label: "As they come out" },
+  { value: "hourly", label: "Hourly digest" },
+  { value: "daily", label: "Daily digest" },
+  { value: "weekly", label: "Weekly digest" },
+]
+
+const WEEKDAYS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"]
+
 // Bio max length for security
 const MAX_BIO_LENGTH = 500
 const MAX_URL_LENGTH = 500
@@ -56,15 +68,13 @@ export default function SettingsPage() {
   const [loading, setLoading] = useState(true)
   const [saving, setSaving] = useState(false)
   const [exporting, setExporting] = useState(false)
+  const [pushUpdating, setPushUpdating] = useState(false)
   const [activeSection, setActiveSection] = useState<"profile" | "notifications" | "privacy">("profile")
   
   const [formData, setFormData] = useState({
     bio: "",
     avatar_url: "",
-    email_new_chapters: true,
-    email_follows: true,
-    email_achievements: true,
-    push_enabled: false,
+    ...DEFAULT_NOTIFICATION_SETTINGS,
     library_public: true,
     activity_public: true,
     profile_searchable: true,
@@ -90,14 +100,16 @@ export default function SettingsPage() {
         .single()
 
       if (data) {
-        setProfile(data)
+        const notificationSettings = parseNotificationSettings(data.notification_settings)
+        // Digest times default to the browser's time zone until the user saves one
+        if (!data.notification_settings?.timezone) {
+          notificationSettings.timezone = Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC"
+        }
+        setProfile({ ...data, notification_settings: notificationSettings })
         setFormData({
           bio: data.bio || "",
           avatar_url: data.avatar_url || "",
-          email_new_chapters: data.notification_settings?.email_new_chapters ?? true,
-          email_follows: data.notification_settings?.email_follows ?? true,
-          email_achievements: data.notification_settings?.email_achievements ?? true,
-          push_enabled: data.notification_settings?.push_enabled ?? false,
+          ...notificationSettings,
           library_public: data.privacy_settings?.library_public ?? true,
           activity_public: data.privacy_settings?.activity_public ?? true,
           profile_searchable: data.privacy_settings?.profile_searchable ?? true,
@@ -147,60 +159,74 @@ export default function SettingsPage() {
 
     setSaving(true)
 
-    const { data: { user } } = await supabase.auth.getUser()
-    if (!user) {
-      toast.error('Not authenticated')
-      setSaving(false)
-      return
-    }
-
     // Final sanitization before saving
     const sanitizedBio = sanitizeBio(formData.bio)
 
-    const { error } = await supabase
-      .from('users')
-      .update({
-        bio: sanitizedBio,
-        avatar_url: formData.avatar_url || null,
-        notification_settings: {
-          email_new_chapters: formData.email_new_chapters,
-          email_follows: formData.email_follows,
-          email_achievements: formData.email_achievements,
-          push_enabled: formData.push_enabled,
-        },
-        privacy_settings: {
-          library_public: formData.library_public,
-          activity_public: formData.activity_public,
-          profile_searchable: formData.profile_searchable,
-        },
-        updated_at: new Date().toISOString()
+    const notificationSettings: NotificationSettings = {
+      email_new_chapters: formData.email_new_chapters,
+      email_follows: formData.email_follows,
+      email_achievements: formData.email_achievements,
+      push_enabled: formData.push_enabled,
+      digest_frequency: formData.digest_frequency,
+      digest_hour: formData.digest_hour,
+      digest_day: formData.digest_day,
+      timezone: formData.timezone,
+    }
+    const privacySettings = {
+      library_public: formData.library_public,
+      activity_public: formData.activity_public,
+      profile_searchable: formData.profile_searchable,
+    }
+
+    // Saved through the API so notification settings are validated against their schema
+    try {
+      const res = await fetch('/api/users/me', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          bio: sanitizedBio,
+          avatar_url: formData.avatar_url || null,
+          notification_settings: notificationSettings,
+          privacy_settings: privacySettings,
+        }),
       })
-      .eq('id', user.id)
-
-    if (error) {
-      toast.error(error.message)
-    } else {
-      toast.success('Settings saved!')
-      setProfile(prev => prev ? {
-        ...prev,
-        bio: sanitizedBio,
-        avatar_url: formData.avatar_url || null,
-        notification_settings: {
-          email_new_chapters: formData.email_new_chapters,
-          email_follows: formData.email_follows,
-          email_achievements: formData.email_achievements,
-          push_enabled: formData.push_enabled,
-        },
-        privacy_settings: {
-          library_public: formData.library_public,
-          activity_public: formData.activity_public,
-          profile_searchable: formData.profile_searchable,
-        },
-      } : null)
+      const data = await res.json()
+
+      if (!res.ok) {
+        toast.error(data.error || 'Failed to save settings')
+      } else {
+        toast.success('Settings saved!')
+        setProfile(prev => prev ? {
+          ...prev,
+          bio: sanitizedBio,
+          avatar_url: formData.avatar_url || null,
+          notification_settings: parseNotificationSettings(data.notification_settings),
+          privacy_settings: privacySettings,
+        } : null)
+      }
+    } catch {
+      toast.error('Failed to save settings')
     }
     setSaving(false)
   }
 
+  // Subscribes or unsubscribes this device right away; the preference itself is saved with the form
+  async function handlePushToggle(checked: boolean) {
+    setPushUpdating(true)
+    try {
+      if (checked) {
+        await enablePush()
+      } else {
+        await disablePush()
+      }
+      setFormData(f => ({ ...f, push_enabled: checked }))
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to update push notifications')
+    } finally {
+      setPushUpdating(false)
+    }
+  }
+
   async function handleExportData() {
     setExporting(true)
     try {
@@ -401,6 +427,69 @@ export default function SettingsPage() {
               </div>
             </div>
 
+            <div className="bg-zinc-50 dark:bg-zinc-900/50 p-6 rounded-3xl border border-zinc-100 dark:border-zinc-800 space-y-6">
+              <h2 className="text-lg font-bold flex items-center gap-2">
+                <Clock className="size-5 text-zinc-400" />
+                New Chapter Delivery
+              </h2>
+
+              <div className="space-y-4 p-4 rounded-2xl bg-white dark:bg-zinc-950 border border-zinc-100 dark:border-zinc-800">
+                <div className="flex items-center justify-between gap-4">
+                  <div className="space-y-0.5">
+                    <p className="font-medium text-sm">Frequency</p>
+                    <p className="text-xs text-zinc-500">Bundle new chapters into one notification and email per period</p>
+                  </div>
+                  <Select
+                    value={formData.digest_frequency}
+                    onValueChange={(value) => setFormData(f => ({ ...f, digest_frequency: value as DigestFrequency }))}
+                  >
+                    <SelectTrigger className="w-[180px] rounded-xl">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {DIGEST_OPTIONS.map(option => (
+                        <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                {(formData.digest_frequency === "daily" || formData.digest_frequency === "weekly") && (
+                  <div className="flex flex-wrap items-center justify-end gap-3">
+                    {formData.digest_frequency === "weekly" && (
+                      <Select
+                        value={String(formData.digest_day)}
+                        onValueChange={(value) => setFormData(f => ({ ...f, digest_day: Number(value) }))}
+                      >
+                        <SelectTrigger className="w-[140px] rounded-xl">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {WEEKDAYS.map((day, index) => (
+                            <SelectItem key={day} value={String(index)}>{day}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    )}
+                    <Select
+                      value={String(formData.digest_hour)}
+                      onValueChange={(value) => setFormData(f => ({ ...f, digest_hour: Number(value) }))}
+                    >
+                      <SelectTrigger className="w-[100px] rounded-xl">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Array.from({ length: 24 }, (_, hour) => (
+                          <SelectItem key={hour} value={String(hour)}>{`${String(hour).padStart(2, "0")}:00`}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <p className="w-full text-right text-xs text-zinc-500">Times are in {formData.timezone}</p>
+                  </div>
+                )}
+              </div>
+            </div>
+
             <div className="bg-zinc-50 dark:bg-zinc-900/50 p-6 rounded-3xl border border-zinc-100 dark:border-zinc-800 space-y-6">
               <h2 className="text-lg font-bold flex items-center gap-2">
                 <Smartphone className="size-5 text-zinc-400" />
@@ -414,7 +503,8 @@ export default function SettingsPage() {
                 </div>
                 <Switch 
                   checked={formData.push_enabled}
-                  onCheckedChange={(checked) => setFormData(f => ({ ...f, push_enabled: checked }))}
+                  disabled={pushUpdating}
+                  onCheckedChange={handlePushToggle}
                 />
               </div>
             </div>
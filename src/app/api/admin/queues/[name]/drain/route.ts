@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { handleApiError } from '@/lib/api-utils';
+import { requireAdmin } from '@/lib/admin-auth';
+import { drainQueue } from '@/lib/queue-admin';
+
+/**
+ * POST /api/admin/queues/[name]/drain
+ * Removes waiting jobs. Body: { delayed?: boolean } to remove delayed jobs too.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ name: string }> }
+) {
+  try {
+    await requireAdmin();
+
+    const { name } = await params;
+    const body = await request.json().catch(() => ({}));
+
+    return NextResponse.json(await drainQueue(name, body.delayed === true));
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { handleApiError } from '@/lib/api-utils';
+import { requireAdmin } from '@/lib/admin-auth';
+import { getJobDetail } from '@/lib/queue-admin';
+
+/**
+ * GET /api/admin/queues/[name]/jobs/[jobId]
+ * One job's state, payload, attempts and error.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ name: string; jobId: string }> }
+) {
+  try {
+    await requireAdmin();
+
+    const { name, jobId } = await params;
+
+    return NextResponse.json(await getJobDetail(name, jobId));
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiError, ErrorCodes, handleApiError, parsePaginationParams, validateUUID } from '@/lib/api-utils';
+import { requireAdmin } from '@/lib/admin-auth';
+import { CHECK_SOURCE_QUEUE } from '@/lib/queues';
+import { enqueueChecks, isJobState, JOB_STATES, listJobs } from '@/lib/queue-admin';
+
+/**
+ * GET /api/admin/queues/[name]/jobs?state=failed
+ * Jobs in one state with their payloads and errors. Defaults to waiting.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ name: string }> }
+) {
+  try {
+    await requireAdmin();
+
+    const { name } = await params;
+    const { searchParams } = new URL(request.url);
+    const state = searchParams.get('state') || 'waiting';
+
+    if (!isJobState(state)) {
+      throw new ApiError(`Invalid state. Must be one of: ${JOB_STATES.join(', ')}`, 400, ErrorCodes.BAD_REQUEST);
+    }
+
+    const { page, limit, offset } = parsePaginationParams(searchParams);
+    const { jobs, total } = await listJobs(name, state, { offset, limit });
+
+    return NextResponse.json({
+      items: jobs,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+        hasMore: page * limit < total,
+      },
+    });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+/**
+ * POST /api/admin/queues/check-source/jobs
+ * Queues an immediate check. Body: { seriesSourceId } or { seriesId }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ name: string }> }
+) {
+  try {
+    await requireAdmin();
+
+    const { name } = await params;
+    if (name !== CHECK_SOURCE_QUEUE) {
+      throw new ApiError(`Jobs can only be enqueued on ${CHECK_SOURCE_QUEUE}`, 400, ErrorCodes.BAD_REQUEST);
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const { seriesSourceId, seriesId } = body;
+
+    if (!seriesSourceId === !seriesId) {
+      throw new ApiError('Provide exactly one of seriesSourceId or seriesId', 400, ErrorCodes.VALIDATION_ERROR);
+    }
+    validateUUID(String(seriesSourceId ?? seriesId), seriesSourceId ? 'seriesSourceId' : 'seriesId');
+
+    return NextResponse.json(await enqueueChecks({ seriesSourceId, seriesId }), { status: 202 });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
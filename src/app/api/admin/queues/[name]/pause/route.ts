@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { handleApiError } from '@/lib/api-utils';
+import { requireAdmin } from '@/lib/admin-auth';
+import { setQueuePaused } from '@/lib/queue-admin';
+
+/**
+ * POST /api/admin/queues/[name]/pause
+ * Stops workers from picking up new jobs; running jobs finish.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ name: string }> }
+) {
+  try {
+    await requireAdmin();
+
+    const { name } = await params;
+
+    return NextResponse.json(await setQueuePaused(name, true));
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
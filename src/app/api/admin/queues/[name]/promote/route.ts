@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { handleApiError } from '@/lib/api-utils';
+import { requireAdmin } from '@/lib/admin-auth';
+import { promoteJobs } from '@/lib/queue-admin';
+
+/**
+ * POST /api/admin/queues/[name]/promote
+ * Runs delayed jobs now. Body: { jobId?: string }; all delayed jobs without one.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ name: string }> }
+) {
+  try {
+    await requireAdmin();
+
+    const { name } = await params;
+    const body = await request.json().catch(() => ({}));
+    const jobId = typeof body.jobId === 'string' && body.jobId ? body.jobId : undefined;
+
+    return NextResponse.json(await promoteJobs(name, jobId));
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { handleApiError } from '@/lib/api-utils';
+import { requireAdmin } from '@/lib/admin-auth';
+import { setQueuePaused } from '@/lib/queue-admin';
+
+/**
+ * POST /api/admin/queues/[name]/resume
+ * Lets workers pick up jobs again.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ name: string }> }
+) {
+  try {
+    await requireAdmin();
+
+    const { name } = await params;
+
+    return NextResponse.json(await setQueuePaused(name, false));
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
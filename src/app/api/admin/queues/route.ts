@@ -0,0 +1,18 @@
+import { NextResponse } from 'next/server';
+import { handleApiError } from '@/lib/api-utils';
+import { requireAdmin } from '@/lib/admin-auth';
+import { listAdminQueues } from '@/lib/queue-admin';
+
+/**
+ * GET /api/admin/queues
+ * Job counts per state and paused flag for each queue.
+ */
+export async function GET() {
+  try {
+    await requireAdmin();
+
+    return NextResponse.json({ queues: await listAdminQueues() });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
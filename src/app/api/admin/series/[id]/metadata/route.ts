@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiError, ErrorCodes, handleApiError, validateUUID } from '@/lib/api-utils';
+import { requireAdmin } from '@/lib/admin-auth';
+import {
+  editSeriesMetadata,
+  SeriesMetadataEditSchema,
+  SeriesUnlockSchema,
+  unlockSeriesFields,
+} from '@/lib/series-metadata';
+
+async function readBody(request: NextRequest): Promise<unknown> {
+  try {
+    return await request.json();
+  } catch {
+    throw new ApiError('Invalid JSON body', 400, ErrorCodes.BAD_REQUEST);
+  }
+}
+
+/**
+ * PATCH /api/admin/series/[id]/metadata
+ * Edits series metadata by hand and locks the edited fields, so metadata
+ * refreshes leave them alone.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await requireAdmin();
+
+    const { id } = await params;
+    validateUUID(id, 'seriesId');
+
+    const parsed = SeriesMetadataEditSchema.safeParse(await readBody(request));
+    if (!parsed.success) {
+      throw new ApiError(parsed.error.errors[0].message, 400, ErrorCodes.VALIDATION_ERROR);
+    }
+
+    return NextResponse.json(await editSeriesMetadata(id, parsed.data));
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+/**
+ * DELETE /api/admin/series/[id]/metadata
+ * Unlocks fields so the next metadata refresh may overwrite them.
+ * Body: { fields: string[] }
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await requireAdmin();
+
+    const { id } = await params;
+    validateUUID(id, 'seriesId');
+
+    const parsed = SeriesUnlockSchema.safeParse(await readBody(request));
+    if (!parsed.success) {
+      throw new ApiError(parsed.error.errors[0].message, 400, ErrorCodes.VALIDATION_ERROR);
+    }
+
+    return NextResponse.json(await unlockSeriesFields(id, parsed.data.fields));
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
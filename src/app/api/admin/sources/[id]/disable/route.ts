@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiError, ErrorCodes, handleApiError, sanitizeText, validateUUID } from '@/lib/api-utils';
+import { requireAdmin } from '@/lib/admin-auth';
+import { disableSource, enableSource } from '@/lib/source-triage';
+
+/**
+ * POST /api/admin/sources/[id]/disable
+ * Permanently stops checking a source. Body: { reason: string }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await requireAdmin();
+
+    const { id } = await params;
+    validateUUID(id, 'sourceId');
+
+    const body = await request.json().catch(() => ({}));
+    const reason = typeof body.reason === 'string' ? sanitizeText(body.reason) : '';
+    if (!reason) {
+      throw new ApiError('A reason is required', 400, ErrorCodes.VALIDATION_ERROR);
+    }
+
+    return NextResponse.json(await disableSource(id, reason));
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+/**
+ * DELETE /api/admin/sources/[id]/disable
+ * Re-enables a disabled source with a closed circuit breaker.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await requireAdmin();
+
+    const { id } = await params;
+    validateUUID(id, 'sourceId');
+
+    return NextResponse.json(await enableSource(id));
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { handleApiError, validateUUID } from '@/lib/api-utils';
+import { requireAdmin } from '@/lib/admin-auth';
+import { resetCircuitBreaker } from '@/lib/source-triage';
+
+/**
+ * POST /api/admin/sources/[id]/reset
+ * Closes the circuit breaker; the scheduler checks the source on its next run.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await requireAdmin();
+
+    const { id } = await params;
+    validateUUID(id, 'sourceId');
+
+    return NextResponse.json(await resetCircuitBreaker(id));
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { handleApiError, validateUUID } from '@/lib/api-utils';
+import { requireAdmin } from '@/lib/admin-auth';
+import { retrySource } from '@/lib/source-triage';
+
+/**
+ * POST /api/admin/sources/[id]/retry
+ * Clears the dead letter and circuit breaker and queues a check now.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await requireAdmin();
+
+    const { id } = await params;
+    validateUUID(id, 'sourceId');
+
+    return NextResponse.json(await retrySource(id), { status: 202 });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { handleApiError, validateUUID } from '@/lib/api-utils';
+import { requireAdmin } from '@/lib/admin-auth';
+import { getSourceTriage } from '@/lib/source-triage';
+
+/**
+ * GET /api/admin/sources/[id]
+ * A source's breaker state, failure history and dead-lettered job.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await requireAdmin();
+
+    const { id } = await params;
+    validateUUID(id, 'sourceId');
+
+    return NextResponse.json(await getSourceTriage(id));
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { handleApiError, parsePaginationParams } from '@/lib/api-utils';
+import { requireAdmin } from '@/lib/admin-auth';
+import { FAILED_SOURCE_STATES, FailedSourceState, listFailedSources } from '@/lib/source-triage';
+
+/**
+ * GET /api/admin/sources
+ * Lists failing, dead-lettered and disabled sources, worst first.
+ * Optional ?state=failing|open|dead-lettered|disabled narrows the list.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    await requireAdmin();
+
+    const { searchParams } = new URL(request.url);
+    const state = searchParams.get('state') || undefined;
+
+    if (state && !FAILED_SOURCE_STATES.includes(state as FailedSourceState)) {
+      return NextResponse.json(
+        { error: `Invalid state. Must be one of: ${FAILED_SOURCE_STATES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const { page, limit, offset } = parsePaginationParams(searchParams);
+    const { items, total } = await listFailedSources({ state: state as FailedSourceState | undefined, limit, offset });
+
+    return NextResponse.json({
+      items,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+        hasMore: page * limit < total,
+      },
+    });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
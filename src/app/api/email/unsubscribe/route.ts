@@ -0,0 +1,56 @@
+import { NextRequest } from 'next/server';
+import { checkRateLimit } from '@/lib/api-utils';
+import { applyUnsubscribe, verifyUnsubscribeToken } from '@/lib/email/unsubscribe';
+
+function page(body: string, status = 200) {
+  return new Response(
+    `<!DOCTYPE html><html><head><meta name="viewport" content="width=device-width, initial-scale=1"><title>Email preferences</title></head>` +
+    `<body style="font-family:-apple-system,Segoe UI,Helvetica,Arial,sans-serif;max-width:480px;margin:64px auto;padding:0 24px;color:#18181b">${body}</body></html>`,
+    { status, headers: { 'Content-Type': 'text/html; charset=utf-8', 'Cache-Control': 'no-store' } }
+  );
+}
+
+function invalidLink() {
+  return page('<h1>Invalid link</h1><p>This unsubscribe link is not valid. You can change email settings on your settings page.</p>', 400);
+}
+
+/**
+ * GET /api/email/unsubscribe?token=...
+ * Asks for confirmation rather than unsubscribing, since mail scanners follow links.
+ */
+export async function GET(request: NextRequest) {
+  const token = request.nextUrl.searchParams.get('token') ?? '';
+  if (!verifyUnsubscribeToken(token)) {
+    return invalidLink();
+  }
+
+  return page(
+    `<h1>Unsubscribe</h1><p>Stop receiving these emails?</p>` +
+    `<form method="post"><button type="submit" style="padding:12px 20px;border-radius:9999px;border:0;background:#18181b;color:#fff;font-weight:600;cursor:pointer">Unsubscribe</button></form>`
+  );
+}
+
+/**
+ * POST /api/email/unsubscribe?token=...
+ * One-click unsubscribe (RFC 8058) from mail clients, and the confirmation form.
+ */
+export async function POST(request: NextRequest) {
+  const ip = request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || 'unknown';
+  if (!checkRateLimit(`unsubscribe:${ip}`, 30, 60000)) {
+    return page('<h1>Too many requests</h1><p>Please try again in a minute.</p>', 429);
+  }
+
+  const target = verifyUnsubscribeToken(request.nextUrl.searchParams.get('token') ?? '');
+  if (!target) {
+    return invalidLink();
+  }
+
+  try {
+    await applyUnsubscribe(target);
+  } catch (error) {
+    console.error('[Email] Failed to unsubscribe:', error);
+    return page('<h1>Something went wrong</h1><p>Please try again later.</p>', 500);
+  }
+
+  return page('<h1>Unsubscribed</h1><p>You will no longer receive these emails. You can turn them back on in your settings.</p>');
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { ApiError, checkRateLimit, ErrorCodes, handleApiError } from '@/lib/api-utils';
+import { importSourceUrl } from '@/lib/source-import';
+
+/**
+ * POST /api/library/import
+ * Adds the series behind a pasted source URL ({ url }) to the user's library,
+ * creating the series and its source if nobody tracks them yet.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      throw new ApiError('Unauthorized', 401, ErrorCodes.UNAUTHORIZED);
+    }
+
+    // Imports scrape the source, so they are limited harder than plain library adds
+    if (!checkRateLimit(`library-import:${user.id}`, 10, 60000)) {
+      throw new ApiError('Too many requests. Please wait a moment.', 429, ErrorCodes.RATE_LIMITED);
+    }
+
+    let body;
+    try {
+      body = await req.json();
+    } catch {
+      throw new ApiError('Invalid JSON body', 400, ErrorCodes.BAD_REQUEST);
+    }
+
+    const url = typeof body?.url === 'string' ? body.url.trim() : '';
+    if (!url || url.length > 2000) {
+      throw new ApiError('A source URL is required', 400, ErrorCodes.VALIDATION_ERROR);
+    }
+
+    const result = await importSourceUrl(user.id, url);
+    return NextResponse.json(result, { status: result.created_source ? 201 : 200 });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
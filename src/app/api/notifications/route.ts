@@ -2,8 +2,7 @@ import { NextResponse } from "next/server";
 import { createClient } from "@/lib/supabase/server";
 import { getNotifications, markNotificationsAsRead } from "@/lib/social-utils";
 import { checkRateLimit } from "@/lib/api-utils";
-
-const VALID_TYPES = ['new_chapter', 'new_follower', 'achievement', 'system'] as const;
+import { NOTIFICATION_TYPES } from "@/lib/notifications/settings";
 
 export async function GET(request: Request) {
   try {
@@ -30,9 +29,9 @@ export async function GET(request: Request) {
     const type = searchParams.get("type") || undefined;
 
     // Validate type if provided
-    if (type && !VALID_TYPES.includes(type as any)) {
+    if (type && !NOTIFICATION_TYPES.includes(type as any)) {
       return NextResponse.json(
-        { error: `Invalid type. Must be one of: ${VALID_TYPES.join(', ')}` },
+        { error: `Invalid type. Must be one of: ${NOTIFICATION_TYPES.join(', ')}` },
         { status: 400 }
       );
     }
@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { ApiError, checkRateLimit, ErrorCodes, handleApiError, validateUUID } from '@/lib/api-utils';
+import { vapidConfigFromEnv } from '@/lib/push/vapid';
+import {
+  listPushSubscriptions,
+  PushSubscriptionSchema,
+  removePushSubscription,
+  savePushSubscription,
+} from '@/lib/push/subscriptions';
+
+/**
+ * GET /api/push/subscriptions
+ * Returns the VAPID public key browsers subscribe with (null when push is not
+ * configured) and the user's subscribed devices.
+ */
+export async function GET() {
+  try {
+    const supabase = await createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      throw new ApiError('Unauthorized', 401, ErrorCodes.UNAUTHORIZED);
+    }
+
+    return NextResponse.json({
+      public_key: vapidConfigFromEnv()?.publicKey ?? null,
+      subscriptions: await listPushSubscriptions(user.id),
+    });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+/**
+ * POST /api/push/subscriptions
+ * Stores this browser's PushSubscription (its toJSON() form).
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      throw new ApiError('Unauthorized', 401, ErrorCodes.UNAUTHORIZED);
+    }
+
+    if (!checkRateLimit(`push-subscribe:${user.id}`, 20, 60000)) {
+      throw new ApiError('Too many requests. Please wait a moment.', 429, ErrorCodes.RATE_LIMITED);
+    }
+
+    if (!vapidConfigFromEnv()) {
+      throw new ApiError('Push notifications are not available', 503);
+    }
+
+    let body;
+    try {
+      body = await req.json();
+    } catch {
+      throw new ApiError('Invalid JSON body', 400, ErrorCodes.BAD_REQUEST);
+    }
+
+    const parsed = PushSubscriptionSchema.safeParse(body);
+    if (!parsed.success) {
+      throw new ApiError(parsed.error.errors[0].message, 400, ErrorCodes.VALIDATION_ERROR);
+    }
+
+    const subscription = await savePushSubscription(user.id, parsed.data, req.headers.get('user-agent'));
+    return NextResponse.json(subscription, { status: 201 });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+/**
+ * DELETE /api/push/subscriptions
+ * Removes a device by { endpoint } (this browser) or { id } (from the device list).
+ */
+export async function DELETE(req: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      throw new ApiError('Unauthorized', 401, ErrorCodes.UNAUTHORIZED);
+    }
+
+    let body;
+    try {
+      body = await req.json();
+    } catch {
+      throw new ApiError('Invalid JSON body', 400, ErrorCodes.BAD_REQUEST);
+    }
+
+    const endpoint = typeof body?.endpoint === 'string' ? body.endpoint : undefined;
+    const id = typeof body?.id === 'string' ? body.id : undefined;
+    if (id) validateUUID(id, 'id');
+
+    const removed = await removePushSubscription(user.id, { endpoint, id });
+    return NextResponse.json({ removed });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
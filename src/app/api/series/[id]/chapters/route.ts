@@ -1,10 +1,32 @@
 import { prisma, withRetry } from "@/lib/prisma"
 import { NextRequest, NextResponse } from "next/server"
 import { checkRateLimit } from "@/lib/api-utils"
+import { createClient } from "@/lib/supabase/server"
+import { groupChapters } from "@/lib/sync/chapter-selection"
 
 // UUID validation regex
 const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i
 
+/**
+ * The signed-in reader's source preferences for a series: the library entry's
+ * preferred source, then their default. Anonymous readers get none.
+ */
+async function readerSourcePreferences(seriesId: string): Promise<(string | null)[]> {
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) return []
+
+  const [entry, profile] = await Promise.all([
+    prisma.libraryEntry.findUnique({
+      where: { user_id_series_id: { user_id: user.id, series_id: seriesId } },
+      select: { preferred_source: true },
+    }),
+    prisma.user.findUnique({ where: { id: user.id }, select: { default_source: true } }),
+  ])
+
+  return [entry?.preferred_source ?? null, profile?.default_source ?? null]
+}
+
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
@@ -29,7 +51,7 @@ export async function GET(
       )
     }
 
-    const chapters = await withRetry(() => 
+    const [allChapters, series] = await withRetry(() => Promise.all([
       prisma.chapter.findMany({
         where: { series_id: id },
         orderBy: { chapter_number: "desc" },
@@ -38,26 +60,57 @@ export async function GET(
           chapter_number: true,
           chapter_title: true,
           chapter_url: true,
+          is_available: true,
           published_at: true,
+          discovered_at: true,
           source: {
             select: {
               source_name: true,
+              trust_score: true,
             },
           },
         },
-      })
-    )
+      }),
+      prisma.series.findUnique({
+        where: { id },
+        select: {
+          release_pattern: true,
+          release_interval_hours: true,
+          release_confidence: true,
+          next_release_at: true,
+        },
+      }),
+    ]))
+
+    // Each chapter number is listed once, linking to the reader's preferred source
+    const groups = groupChapters(allChapters, { preferredSources: await readerSourcePreferences(id) })
 
     return NextResponse.json({
-      chapters: chapters.map((c) => ({
-        id: c.id,
-        chapter_number: Number(c.chapter_number),
-        chapter_title: c.chapter_title,
-        chapter_url: c.chapter_url,
-        published_at: c.published_at?.toISOString() || null,
-        source: c.source?.source_name,
+      chapters: groups.map(({ preferred, chapters, discovered_at }) => ({
+        id: preferred.id,
+        chapter_number: Number(preferred.chapter_number),
+        chapter_title: preferred.chapter_title,
+        chapter_url: preferred.chapter_url,
+        is_available: preferred.is_available,
+        published_at: preferred.published_at?.toISOString() || null,
+        discovered_at: discovered_at?.toISOString() || null,
+        source: preferred.source?.source_name,
+        sources: chapters.map((c) => ({
+          id: c.id,
+          source: c.source.source_name,
+          chapter_url: c.chapter_url,
+          is_available: c.is_available,
+          trust_score: Number(c.source.trust_score),
+          discovered_at: c.discovered_at.toISOString(),
+        })),
       })),
-      total: chapters.length,
+      total: groups.length,
+      release: series ? {
+        pattern: series.release_pattern ?? "unknown",
+        interval_hours: series.release_interval_hours,
+        confidence: series.release_confidence ? Number(series.release_confidence) : 0,
+        next_release_at: series.next_release_at?.toISOString() || null,
+      } : null,
     })
   } catch (error: any) {
     console.error("Failed to fetch chapters:", error)
@@ -0,0 +1,62 @@
+import { NextRequest } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { ApiError, ErrorCodes, handleApiError, validateUUID } from '@/lib/api-utils';
+import { parseRefreshJobIds, watchSeriesRefresh } from '@/lib/series-refresh';
+
+/**
+ * GET /api/series/[id]/refresh/events?jobs=<job ids>
+ * Server-sent events for a refresh: `progress` whenever a job moves on, then
+ * `complete` with the chapters found (or `timeout`), after which it closes.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      throw new ApiError('Unauthorized', 401, ErrorCodes.UNAUTHORIZED);
+    }
+
+    const { id } = await params;
+    validateUUID(id, 'seriesId');
+    const jobIds = parseRefreshJobIds(request.nextUrl.searchParams.get('jobs'));
+
+    const encoder = new TextEncoder();
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        const send = (event: string, data: unknown) => {
+          controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+        };
+
+        try {
+          for await (const { event, data } of watchSeriesRefresh(id, jobIds, { signal: request.signal })) {
+            send(event, data);
+          }
+        } catch (error) {
+          console.error(`[Refresh] Progress stream for series ${id} failed:`, error);
+          if (!request.signal.aborted) {
+            send('error', { error: 'Failed to read refresh progress' });
+          }
+        }
+
+        // A disconnected client has already cancelled the stream
+        if (!request.signal.aborted) {
+          controller.close();
+        }
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive',
+      },
+    });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { ApiError, ErrorCodes, handleApiError, validateUUID } from '@/lib/api-utils';
+import { requestSeriesRefresh } from '@/lib/series-refresh';
+
+/**
+ * POST /api/series/[id]/refresh
+ * Queues a check of every source of the series now instead of waiting for
+ * next_check_at. Follow progress on the returned events_url (SSE).
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      throw new ApiError('Unauthorized', 401, ErrorCodes.UNAUTHORIZED);
+    }
+
+    const { id } = await params;
+    validateUUID(id, 'seriesId');
+
+    const { jobIds, quota } = await requestSeriesRefresh(user.id, id);
+    const eventsUrl = `/api/series/${id}/refresh/events?jobs=${jobIds.map(encodeURIComponent).join(',')}`;
+
+    return NextResponse.json({ job_ids: jobIds, events_url: eventsUrl, quota_per_hour: quota }, { status: 202 });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
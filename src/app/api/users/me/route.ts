@@ -1,6 +1,11 @@
 import { NextRequest, NextResponse } from "next/server"
 import { createClient } from "@/lib/supabase/server"
 import { prisma, withRetry, isTransientError } from "@/lib/prisma"
+import {
+  DEFAULT_NOTIFICATION_SETTINGS,
+  NotificationSettingsUpdateSchema,
+  parseNotificationSettings,
+} from "@/lib/notifications/settings"
 
 export async function GET(request: NextRequest) {
   try {
@@ -117,7 +122,7 @@ export async function GET(request: NextRequest) {
               longest_streak: 0,
               chapters_read: 0,
               subscription_tier: 'free',
-              notification_settings: { email: true, push: false },
+              notification_settings: DEFAULT_NOTIFICATION_SETTINGS,
               privacy_settings: { library_public: true, activity_public: true },
               avatar_url: user.user_metadata?.avatar_url || null,
             },
@@ -265,7 +270,7 @@ export async function PATCH(request: NextRequest) {
       return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 })
     }
     
-    const { username, bio, avatar_url, privacy_settings } = body
+    const { username, bio, avatar_url, privacy_settings, notification_settings } = body
 
     // Validate username if provided
     if (username !== undefined) {
@@ -320,7 +325,7 @@ export async function PATCH(request: NextRequest) {
         )
       }
       
-      const allowedKeys = ['library_public', 'activity_public', 'followers_public', 'following_public']
+      const allowedKeys = ['library_public', 'activity_public', 'followers_public', 'following_public', 'profile_searchable']
       const providedKeys = Object.keys(privacy_settings)
       
       // Check for unknown keys
@@ -343,11 +348,34 @@ export async function PATCH(request: NextRequest) {
       }
     }
 
+    let notificationSettings
+    if (notification_settings !== undefined) {
+      const parsed = NotificationSettingsUpdateSchema.safeParse(notification_settings)
+      if (!parsed.success) {
+        return NextResponse.json(
+          { error: `Invalid notification settings: ${parsed.error.errors[0].message}` },
+          { status: 400 }
+        )
+      }
+
+      // Partial updates keep the user's other settings
+      const current = await withRetry(
+        () => prisma.user.findUnique({
+          where: { id: user.id },
+          select: { notification_settings: true },
+        }),
+        2,
+        150
+      )
+      notificationSettings = { ...parseNotificationSettings(current?.notification_settings), ...parsed.data }
+    }
+
     const updateData: Record<string, unknown> = {}
     if (username !== undefined) updateData.username = username.toLowerCase()
     if (bio !== undefined) updateData.bio = bio
     if (avatar_url !== undefined) updateData.avatar_url = avatar_url
     if (privacy_settings !== undefined) updateData.privacy_settings = privacy_settings
+    if (notificationSettings) updateData.notification_settings = notificationSettings
 
     const updatedUser = await withRetry(
       () => prisma.user.update({
@@ -362,6 +390,7 @@ export async function PATCH(request: NextRequest) {
           xp: true,
           level: true,
           privacy_settings: true,
+          notification_settings: true,
         },
       }),
       2,
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { ApiError, ErrorCodes, handleApiError, validateUUID } from '@/lib/api-utils';
+import { listWebhookDeliveries } from '@/lib/webhooks/webhooks';
+
+/**
+ * GET /api/webhooks/[id]/deliveries?limit=50
+ * The webhook's delivery log, newest first.
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      throw new ApiError('Unauthorized', 401, ErrorCodes.UNAUTHORIZED);
+    }
+
+    const { id } = await params;
+    validateUUID(id, 'webhookId');
+
+    const limit = Math.min(Math.max(1, parseInt(req.nextUrl.searchParams.get('limit') || '50') || 50), 100);
+
+    return NextResponse.json({ deliveries: await listWebhookDeliveries(user.id, id, limit) });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
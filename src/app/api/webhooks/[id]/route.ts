@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { ApiError, checkRateLimit, ErrorCodes, handleApiError, validateUUID } from '@/lib/api-utils';
+import { deleteWebhook, updateWebhook, WebhookUpdateSchema } from '@/lib/webhooks/webhooks';
+
+/**
+ * PATCH /api/webhooks/[id]
+ * Changes a webhook's URL, format, events or filter, or turns it on or off.
+ */
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      throw new ApiError('Unauthorized', 401, ErrorCodes.UNAUTHORIZED);
+    }
+
+    if (!checkRateLimit(`webhooks:${user.id}`, 10, 60000)) {
+      throw new ApiError('Too many requests. Please wait a moment.', 429, ErrorCodes.RATE_LIMITED);
+    }
+
+    const { id } = await params;
+    validateUUID(id, 'webhookId');
+
+    let body;
+    try {
+      body = await req.json();
+    } catch {
+      throw new ApiError('Invalid JSON body', 400, ErrorCodes.BAD_REQUEST);
+    }
+
+    const parsed = WebhookUpdateSchema.safeParse(body);
+    if (!parsed.success) {
+      throw new ApiError(parsed.error.errors[0].message, 400, ErrorCodes.VALIDATION_ERROR);
+    }
+
+    return NextResponse.json(await updateWebhook(user.id, id, parsed.data));
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+/**
+ * DELETE /api/webhooks/[id]
+ * Removes a webhook and its delivery log.
+ */
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      throw new ApiError('Unauthorized', 401, ErrorCodes.UNAUTHORIZED);
+    }
+
+    const { id } = await params;
+    validateUUID(id, 'webhookId');
+
+    await deleteWebhook(user.id, id);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
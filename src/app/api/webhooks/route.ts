@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { ApiError, checkRateLimit, ErrorCodes, handleApiError } from '@/lib/api-utils';
+import { createWebhook, listWebhooks, WebhookCreateSchema } from '@/lib/webhooks/webhooks';
+
+/**
+ * GET /api/webhooks
+ * Returns the user's webhooks (without their secrets).
+ */
+export async function GET() {
+  try {
+    const supabase = await createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      throw new ApiError('Unauthorized', 401, ErrorCodes.UNAUTHORIZED);
+    }
+
+    return NextResponse.json({ webhooks: await listWebhooks(user.id) });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+/**
+ * POST /api/webhooks
+ * Registers a webhook ({ url, events, format?, filter? }). The response holds
+ * the signing secret, which is not shown again.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      throw new ApiError('Unauthorized', 401, ErrorCodes.UNAUTHORIZED);
+    }
+
+    if (!checkRateLimit(`webhooks:${user.id}`, 10, 60000)) {
+      throw new ApiError('Too many requests. Please wait a moment.', 429, ErrorCodes.RATE_LIMITED);
+    }
+
+    let body;
+    try {
+      body = await req.json();
+    } catch {
+      throw new ApiError('Invalid JSON body', 400, ErrorCodes.BAD_REQUEST);
+    }
+
+    const parsed = WebhookCreateSchema.safeParse(body);
+    if (!parsed.success) {
+      throw new ApiError(parsed.error.errors[0].message, 400, ErrorCodes.VALIDATION_ERROR);
+    }
+
+    return NextResponse.json(await createWebhook(user.id, parsed.data), { status: 201 });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -5,6 +5,7 @@ import { redirect } from 'next/navigation'
 import { createClient } from '@/lib/supabase/server'
 import { prisma } from '@/lib/prisma'
 import { hashPassword, comparePasswords } from '@/lib/auth-utils'
+import { DEFAULT_NOTIFICATION_SETTINGS } from '@/lib/notifications/settings'
 
 /**
  * Robust login handler that ensures Prisma and Supabase are in sync
@@ -185,7 +186,7 @@ export async function signup(formData: FormData) {
             level: 1,
             streak_days: 0,
             subscription_tier: 'free',
-            notification_settings: { email: true, push: false },
+            notification_settings: DEFAULT_NOTIFICATION_SETTINGS,
             privacy_settings: { library_public: true, activity_public: true },
           }
         })
@@ -0,0 +1,90 @@
+"use client"
+
+import { useState } from "react"
+import { useRouter } from "next/navigation"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import { Link2, Loader2 } from "lucide-react"
+import { toast } from "sonner"
+
+export function ImportSourceDialog() {
+  const router = useRouter()
+  const [open, setOpen] = useState(false)
+  const [url, setUrl] = useState("")
+  const [loading, setLoading] = useState(false)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!url.trim()) return
+
+    setLoading(true)
+    try {
+      const res = await fetch("/api/library/import", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ url: url.trim() }),
+      })
+      const data = await res.json()
+
+      if (!res.ok) {
+        toast.error(data.error || "Failed to add series")
+        return
+      }
+
+      toast.success(data.added_to_library
+        ? `Added "${data.series.title}" to your library`
+        : `"${data.series.title}" is already in your library`)
+      setUrl("")
+      setOpen(false)
+      router.push(`/series/${data.series.id}`)
+    } catch (error) {
+      toast.error("Failed to add series")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="rounded-full px-6 border-zinc-200 dark:border-zinc-800">
+          <Link2 className="size-4 mr-2" />
+          Add by URL
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>Add a series by URL</DialogTitle>
+            <DialogDescription>
+              Paste a series or chapter link from MangaDex or MangaPark. We&apos;ll track it for new chapters.
+            </DialogDescription>
+          </DialogHeader>
+          <Input
+            type="url"
+            placeholder="https://mangadex.org/title/..."
+            value={url}
+            onChange={(e) => setUrl(e.target.value)}
+            disabled={loading}
+            autoFocus
+          />
+          <DialogFooter>
+            <Button type="submit" disabled={loading || !url.trim()} className="rounded-full">
+              {loading && <Loader2 className="size-4 mr-2 animate-spin" />}
+              Add to Library
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -6,12 +6,21 @@ import { Check, Loader2, ExternalLink } from "lucide-react"
 import { updateProgress } from "@/lib/actions/library"
 import { toast } from "sonner"
 
+interface ChapterSource {
+  id: string
+  source: string
+  chapter_url: string
+  is_available: boolean
+}
+
 interface Chapter {
   id: string
   chapter_number: number
   chapter_title: string | null
   chapter_url: string
   published_at: string | null
+  source: string
+  sources: ChapterSource[]
 }
 
 export function ChapterList({ 
@@ -135,7 +144,27 @@ export function ChapterList({
                     Chapter {chapterNum}
                     {chapter.chapter_title && <span className="font-normal text-zinc-500 ml-2">- {chapter.chapter_title}</span>}
                   </p>
-                  <p className="text-xs text-zinc-500">{formatDate(chapter.published_at)}</p>
+                  <p className="text-xs text-zinc-500">
+                    {formatDate(chapter.published_at)}
+                    {chapter.sources?.length > 1 && (
+                      <span className="ml-2">
+                        Also on{" "}
+                        {chapter.sources.filter((s) => s.id !== chapter.id).map((s, i) => (
+                          <span key={s.id}>
+                            {i > 0 && ", "}
+                            <a
+                              href={s.chapter_url}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className={`capitalize hover:text-zinc-900 dark:hover:text-zinc-50 ${s.is_available ? "" : "line-through"}`}
+                            >
+                              {s.source}
+                            </a>
+                          </span>
+                        ))}
+                      </span>
+                    )}
+                  </p>
                 </div>
               </div>
               <div className="flex items-center gap-2">
@@ -144,6 +173,7 @@ export function ChapterList({
                   target="_blank" 
                   rel="noopener noreferrer"
                   className="text-zinc-400 hover:text-zinc-900 dark:hover:text-zinc-50 transition-colors"
+                  title={`Read on ${chapter.source}`}
                   onClick={(e) => e.stopPropagation()}
                 >
                   <ExternalLink className="size-4" />
@@ -0,0 +1,72 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { useRouter } from "next/navigation"
+import { Button } from "@/components/ui/button"
+import { Loader2, RefreshCw } from "lucide-react"
+import { toast } from "sonner"
+
+export function RefreshButton({ seriesId }: { seriesId: string }) {
+  const router = useRouter()
+  const [checking, setChecking] = useState(false)
+  const eventsRef = useRef<EventSource | null>(null)
+
+  useEffect(() => () => eventsRef.current?.close(), [])
+
+  const finish = () => {
+    eventsRef.current?.close()
+    eventsRef.current = null
+    setChecking(false)
+  }
+
+  const handleRefresh = async () => {
+    setChecking(true)
+    try {
+      const res = await fetch(`/api/series/${seriesId}/refresh`, { method: "POST" })
+      const body = await res.json()
+      if (!res.ok) {
+        toast.error(body.error || "Failed to check for new chapters")
+        setChecking(false)
+        return
+      }
+
+      const events = new EventSource(body.events_url)
+      eventsRef.current = events
+
+      events.addEventListener("complete", (e) => {
+        const { new_chapter_count } = JSON.parse((e as MessageEvent).data)
+        if (new_chapter_count > 0) {
+          toast.success(`Found ${new_chapter_count} new chapter${new_chapter_count > 1 ? "s" : ""}`)
+          router.refresh()
+        } else {
+          toast("No new chapters yet")
+        }
+        finish()
+      })
+      events.addEventListener("timeout", () => {
+        toast("Still checking, new chapters will show up shortly")
+        finish()
+      })
+      events.addEventListener("error", () => {
+        toast.error("Lost track of the check")
+        finish()
+      })
+    } catch (error) {
+      toast.error("Failed to check for new chapters")
+      setChecking(false)
+    }
+  }
+
+  return (
+    <Button
+      variant="outline"
+      size="icon"
+      className="rounded-full border-zinc-200 dark:border-zinc-800"
+      onClick={handleRefresh}
+      disabled={checking}
+      title="Check for new chapters now"
+    >
+      {checking ? <Loader2 className="size-4 animate-spin" /> : <RefreshCw className="size-4" />}
+    </Button>
+  )
+}
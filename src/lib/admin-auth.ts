@@ -0,0 +1,29 @@
+import { createClient } from '@/lib/supabase/server';
+import { prisma } from '@/lib/prisma';
+import { ApiError, ErrorCodes } from '@/lib/api-utils';
+
+export const ADMIN_ROLE = 'admin';
+
+/**
+ * Returns the signed-in user if their User.role is admin, or throws a
+ * 401/403 ApiError.
+ */
+export async function requireAdmin() {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    throw new ApiError('Unauthorized', 401, ErrorCodes.UNAUTHORIZED);
+  }
+
+  const profile = await prisma.user.findUnique({
+    where: { id: user.id },
+    select: { role: true },
+  });
+
+  if (profile?.role !== ADMIN_ROLE) {
+    throw new ApiError('Forbidden', 403, ErrorCodes.FORBIDDEN);
+  }
+
+  return user;
+}
@@ -189,6 +189,8 @@ class RateLimitStore {
     // Cleanup stale entries every 5 minutes
     if (typeof setInterval !== 'undefined') {
       this.cleanupInterval = setInterval(() => this.cleanup(), 5 * 60 * 1000)
+      // Don't keep the process (or a test run) alive just for cleanup
+      this.cleanupInterval.unref?.()
     }
   }
 
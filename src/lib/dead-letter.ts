@@ -0,0 +1,68 @@
+import { QueueJob } from '@/lib/queue';
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { checkSourceDeadLetterQueue } from '@/lib/queues';
+
+export interface DeadLetterEntry {
+  seriesSourceId: string;
+  jobId: string | null;
+  failedReason: string;
+  stacktrace: string[];
+  attemptsMade: number;
+  failedAt: string;
+}
+
+type CheckSourceJob = Pick<QueueJob<{ seriesSourceId: string }>, 'id' | 'data' | 'attemptsMade' | 'opts' | 'stacktrace'>;
+
+export function deadLetterJobId(seriesSourceId: string) {
+  return `dead-${seriesSourceId}`;
+}
+
+/**
+ * The failure history row for a failed check, created alongside the
+ * failure_count increment.
+ */
+export function failureRecord(
+  error: unknown,
+  job: Pick<QueueJob, 'id' | 'attemptsMade'>,
+  isRetryable: boolean
+): Prisma.SourceFailureCreateWithoutSourceInput {
+  return {
+    job_id: job.id ?? null,
+    attempt: job.attemptsMade + 1,
+    error_name: (error instanceof Error ? error.name : 'Error').slice(0, 100),
+    error_message: error instanceof Error ? error.message : String(error),
+    is_retryable: isRetryable,
+  };
+}
+
+export function hasExhaustedRetries(job: Pick<QueueJob, 'attemptsMade' | 'opts'>): boolean {
+  return job.attemptsMade >= (job.opts.attempts ?? 1);
+}
+
+/**
+ * Parks a check-source job that ran out of retries. Each source keeps only
+ * its latest dead letter; the full history is in source_failures.
+ */
+export async function deadLetterCheckSource(job: CheckSourceJob, error: Error) {
+  const { seriesSourceId } = job.data;
+  const jobId = deadLetterJobId(seriesSourceId);
+
+  const entry: DeadLetterEntry = {
+    seriesSourceId,
+    jobId: job.id ?? null,
+    failedReason: error.message,
+    stacktrace: job.stacktrace ?? [],
+    attemptsMade: job.attemptsMade,
+    failedAt: new Date().toISOString(),
+  };
+
+  await checkSourceDeadLetterQueue.remove(jobId);
+  await checkSourceDeadLetterQueue.add('dead-letter', entry, { jobId });
+
+  // updateMany: the source may have been deleted while the job was retrying
+  await prisma.seriesSource.updateMany({
+    where: { id: seriesSourceId },
+    data: { dead_lettered_at: new Date() },
+  });
+}
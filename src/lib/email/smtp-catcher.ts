@@ -0,0 +1,210 @@
+import net from 'net';
+
+export interface CaughtMessage {
+  from: string;
+  to: string[];
+  headers: Record<string, string>;
+  text: string;
+  html: string;
+  raw: string;
+  receivedAt: Date;
+}
+
+export interface SmtpCatcherOptions {
+  /** Recipients to refuse with a 550, to exercise bounce handling. */
+  rejectRecipient?: (address: string) => boolean;
+  onMessage?: (message: CaughtMessage) => void;
+}
+
+function parseHeaders(block: string): Record<string, string> {
+  const headers: Record<string, string> = {};
+  // Continuation lines start with whitespace
+  for (const line of block.replace(/\r\n[ \t]+/g, ' ').split('\r\n')) {
+    const colon = line.indexOf(':');
+    if (colon > 0) headers[line.slice(0, colon).trim().toLowerCase()] = line.slice(colon + 1).trim();
+  }
+  return headers;
+}
+
+function decodePart(part: string): { type: string; body: string } {
+  const split = part.indexOf('\r\n\r\n');
+  const headers = parseHeaders(part.slice(0, split));
+  const body = part.slice(split + 4).trim();
+  return {
+    type: (headers['content-type'] ?? 'text/plain').split(';')[0].trim(),
+    body: headers['content-transfer-encoding'] === 'base64'
+      ? Buffer.from(body.replace(/\s+/g, ''), 'base64').toString('utf8')
+      : body,
+  };
+}
+
+/**
+ * Splits a received message into headers and its text and HTML bodies.
+ */
+export function parseMessage(raw: string): Pick<CaughtMessage, 'headers' | 'text' | 'html'> {
+  const split = raw.indexOf('\r\n\r\n');
+  const headers = parseHeaders(raw.slice(0, split));
+  const body = raw.slice(split + 4);
+  const boundary = headers['content-type']?.match(/boundary="?([^";]+)"?/)?.[1];
+
+  const parts = boundary
+    ? body.split(`--${boundary}`).slice(1, -1).map(p => decodePart(p.replace(/^\r\n/, '')))
+    : [decodePart(raw)];
+
+  return {
+    headers,
+    text: parts.find(p => p.type === 'text/plain')?.body ?? '',
+    html: parts.find(p => p.type === 'text/html')?.body ?? '',
+  };
+}
+
+/**
+ * A minimal SMTP server that accepts and keeps every message, standing in
+ * for a real mail server in development and tests. Accepts any credentials
+ * and does not offer STARTTLS.
+ */
+export class SmtpCatcher {
+  readonly messages: CaughtMessage[] = [];
+  private readonly server: net.Server;
+  private readonly sockets = new Set<net.Socket>();
+
+  constructor(private readonly options: SmtpCatcherOptions = {}) {
+    this.server = net.createServer(socket => this.handle(socket));
+  }
+
+  /**
+   * Starts listening and resolves with the bound port (pass 0 for any free port).
+   */
+  listen(port = 1025, host = '127.0.0.1'): Promise<number> {
+    return new Promise((resolve, reject) => {
+      this.server.once('error', reject);
+      this.server.listen(port, host, () => resolve((this.server.address() as net.AddressInfo).port));
+    });
+  }
+
+  close(): Promise<void> {
+    for (const socket of this.sockets) socket.destroy();
+    return new Promise(resolve => this.server.close(() => resolve()));
+  }
+
+  private handle(socket: net.Socket) {
+    this.sockets.add(socket);
+    socket.on('close', () => this.sockets.delete(socket));
+    socket.on('error', () => socket.destroy());
+    socket.setEncoding('utf8');
+
+    let buffer = '';
+    let from = '';
+    let to: string[] = [];
+    let data: string[] | null = null;
+    let awaitingAuth = false;
+    const reply = (line: string) => socket.write(`${line}\r\n`);
+
+    const command = (line: string) => {
+      if (data) {
+        if (line !== '.') {
+          data.push(line.startsWith('..') ? line.slice(1) : line);
+          return;
+        }
+        const raw = data.join('\r\n');
+        const message = { from, to, raw, receivedAt: new Date(), ...parseMessage(raw) };
+        this.messages.push(message);
+        this.options.onMessage?.(message);
+        data = null;
+        from = '';
+        to = [];
+        reply('250 OK: queued');
+        return;
+      }
+
+      if (awaitingAuth) {
+        awaitingAuth = false;
+        reply('235 Authentication successful');
+        return;
+      }
+
+      const [verb, ...rest] = line.split(' ');
+      const argument = rest.join(' ');
+      switch (verb.toUpperCase()) {
+        case 'EHLO':
+          reply('250-localhost');
+          reply('250-AUTH PLAIN LOGIN');
+          reply('250 8BITMIME');
+          break;
+        case 'HELO':
+          reply('250 localhost');
+          break;
+        case 'AUTH':
+          if (rest.length > 1) {
+            reply('235 Authentication successful');
+          } else {
+            awaitingAuth = true;
+            reply('334 ');
+          }
+          break;
+        case 'MAIL':
+          from = argument.match(/<([^>]*)>/)?.[1] ?? '';
+          reply('250 OK');
+          break;
+        case 'RCPT': {
+          const address = argument.match(/<([^>]*)>/)?.[1] ?? '';
+          if (this.options.rejectRecipient?.(address)) {
+            reply(`550 5.1.1 <${address}>: Recipient address rejected`);
+          } else {
+            to.push(address);
+            reply('250 OK');
+          }
+          break;
+        }
+        case 'DATA':
+          if (to.length === 0) {
+            reply('503 5.5.1 No valid recipients');
+          } else {
+            data = [];
+            reply('354 End data with <CR><LF>.<CR><LF>');
+          }
+          break;
+        case 'RSET':
+          from = '';
+          to = [];
+          reply('250 OK');
+          break;
+        case 'NOOP':
+          reply('250 OK');
+          break;
+        case 'QUIT':
+          reply('221 Bye');
+          socket.end();
+          break;
+        default:
+          reply('502 5.5.2 Command not recognized');
+      }
+    };
+
+    socket.on('data', (chunk: string) => {
+      buffer += chunk;
+      let newline: number;
+      while ((newline = buffer.indexOf('\r\n')) !== -1) {
+        const line = buffer.slice(0, newline);
+        buffer = buffer.slice(newline + 2);
+        command(line);
+      }
+    });
+
+    reply('220 localhost SMTP catcher ready');
+  }
+}
+
+// `npm run mail:catch` prints every message the app sends; mail to
+// anything@bounce.test is refused so bounces can be tried out locally
+if (require.main === module) {
+  const catcher = new SmtpCatcher({
+    rejectRecipient: address => address.endsWith('@bounce.test'),
+    onMessage: message => {
+      console.log(`\n[SmtpCatcher] ${message.from} -> ${message.to.join(', ')}: ${message.headers.subject}\n${message.text}`);
+    },
+  });
+  catcher.listen(Number(process.env.SMTP_PORT) || 1025).then(port => {
+    console.log(`[SmtpCatcher] Listening on port ${port}`);
+  });
+}
@@ -0,0 +1,141 @@
+import nodemailer, { Transporter } from 'nodemailer';
+import SMTPTransport from 'nodemailer/lib/smtp-transport';
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  /** Implicit TLS (port 465). Plain connections still upgrade when the server offers STARTTLS. */
+  secure: boolean;
+  user?: string;
+  pass?: string;
+  /**
+   * Send credentials even when the connection could not be encrypted. Off by
+   * default: without it, a server that does not offer STARTTLS (or a
+   * man-in-the-middle stripping it) fails the send instead of seeing the password.
+   */
+  allowInsecureAuth?: boolean;
+  timeoutMs: number;
+}
+
+export interface EmailMessage {
+  from: string;
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+  headers?: Record<string, string>;
+}
+
+export class SmtpError extends Error {
+  constructor(
+    message: string,
+    public readonly code: number | null,
+    public readonly command: string
+  ) {
+    super(message);
+    this.name = 'SmtpError';
+  }
+
+  /** 5xx replies will not succeed on retry. */
+  get isPermanent(): boolean {
+    return this.code !== null && this.code >= 500;
+  }
+
+  /**
+   * The server permanently refused the recipient address during the
+   * conversation. Only the first hop's reply is seen: when a relay accepts the
+   * message and the bounce comes back later as a delivery status notification
+   * (DSN) to the envelope sender, it is not detected here.
+   */
+  get isBounce(): boolean {
+    return this.isPermanent && this.command === 'RCPT';
+  }
+}
+
+/**
+ * Defaults to a local SMTP catcher on port 1025 (see smtp-catcher.ts).
+ */
+export function smtpConfigFromEnv(): SmtpConfig {
+  return {
+    host: process.env.SMTP_HOST || '127.0.0.1',
+    port: Number(process.env.SMTP_PORT) || 1025,
+    secure: process.env.SMTP_SECURE === 'true',
+    user: process.env.SMTP_USER || undefined,
+    pass: process.env.SMTP_PASS || undefined,
+    allowInsecureAuth: process.env.SMTP_ALLOW_INSECURE_AUTH === 'true',
+    timeoutMs: Number(process.env.SMTP_TIMEOUT_MS) || 30_000,
+  };
+}
+
+/**
+ * The bare address of a mailbox ("Name <a@b>" or "a@b") for the SMTP
+ * envelope. Addresses with whitespace, control characters or stray angle
+ * brackets are refused: written into MAIL FROM or RCPT TO they could end the
+ * command and start another.
+ */
+export function envelopeAddress(mailbox: string): string {
+  const address = (mailbox.match(/<([^>]*)>\s*$/)?.[1] ?? mailbox).trim();
+  if (!/^[^\s<>@\x00-\x1f\x7f]+@[^\s<>@\x00-\x1f\x7f]+$/.test(address)) {
+    throw new SmtpError(`Invalid email address: ${JSON.stringify(address)}`, null, 'ENVELOPE');
+  }
+  return address;
+}
+
+interface NodemailerError extends Error {
+  code?: string;
+  command?: string;
+  responseCode?: number;
+}
+
+/** Names the failed step the way SMTP does: CONNECT, STARTTLS, AUTH, MAIL, RCPT, DATA. */
+function smtpError(error: NodemailerError): SmtpError {
+  const command = error.command && error.command !== 'CONN'
+    ? error.command.split(' ')[0].toUpperCase()
+    : error.code === 'ETLS' ? 'STARTTLS' : 'CONNECT';
+  return new SmtpError(error.message, error.responseCode ?? null, command);
+}
+
+/**
+ * Sends mail over SMTP with nodemailer, one connection per message. Credentials
+ * are only sent over TLS unless allowInsecureAuth is set.
+ */
+export class SmtpTransport {
+  private readonly transporter: Transporter<SMTPTransport.SentMessageInfo>;
+
+  constructor(config: SmtpConfig = smtpConfigFromEnv()) {
+    this.transporter = nodemailer.createTransport({
+      host: config.host,
+      port: config.port,
+      secure: config.secure,
+      requireTLS: !config.secure && Boolean(config.user) && !config.allowInsecureAuth,
+      auth: config.user ? { user: config.user, pass: config.pass ?? '' } : undefined,
+      // A host that never answers must not hang the worker
+      connectionTimeout: config.timeoutMs,
+      greetingTimeout: config.timeoutMs,
+      socketTimeout: config.timeoutMs,
+    });
+  }
+
+  /**
+   * Delivers a message and returns its Message-ID.
+   */
+  async send(message: EmailMessage): Promise<string> {
+    const envelope = { from: envelopeAddress(message.from), to: [envelopeAddress(message.to)] };
+
+    try {
+      const info = await this.transporter.sendMail({
+        from: message.from,
+        to: message.to,
+        subject: message.subject,
+        text: message.text,
+        html: message.html,
+        headers: message.headers,
+        envelope,
+        textEncoding: 'base64',
+      });
+      return info.messageId;
+    } catch (error) {
+      throw smtpError(error as NodemailerError);
+    }
+  }
+}
@@ -0,0 +1,159 @@
+import { APP_URL } from './unsubscribe';
+import { DigestFrequency } from '@/lib/notifications/settings';
+
+export interface NewChapterEmail {
+  type: 'new_chapter';
+  seriesId: string;
+  seriesTitle: string;
+  chapterCount: number;
+  chapterNumbers?: number[];
+}
+
+export interface NewFollowerEmail {
+  type: 'new_follower';
+  followerUsername: string;
+}
+
+export interface AchievementEmail {
+  type: 'achievement';
+  achievementName: string;
+  description?: string | null;
+}
+
+export interface ChapterDigestEmail {
+  type: 'chapter_digest';
+  frequency: DigestFrequency;
+  series: Omit<NewChapterEmail, 'type'>[];
+}
+
+export type EmailTemplate = NewChapterEmail | NewFollowerEmail | AchievementEmail | ChapterDigestEmail;
+
+export interface EmailContext {
+  username: string;
+  unsubscribeUrl: string | null;
+}
+
+export interface RenderedEmail {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+interface EmailContent {
+  subject: string;
+  /** Paragraphs of plain text; HTML-escaped for the HTML part. */
+  paragraphs: string[];
+  /** Linked list items shown after the paragraphs. */
+  items?: { label: string; url: string }[];
+  action: { label: string; url: string };
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function chapterList(numbers: number[]): string {
+  return numbers.length === 1 ? `Chapter ${numbers[0]}` : `Chapters ${numbers.join(', ')}`;
+}
+
+const DIGEST_PERIOD: Record<DigestFrequency, string> = {
+  instant: 'Since your last update',
+  hourly: 'In the last hour',
+  daily: 'Today',
+  weekly: 'This week',
+};
+
+function content(template: EmailTemplate, context: EmailContext): EmailContent {
+  switch (template.type) {
+    case 'chapter_digest': {
+      const total = template.series.reduce((sum, s) => sum + s.chapterCount, 0);
+      const count = `${total} new chapter${total > 1 ? 's' : ''}`;
+      return {
+        subject: `${count} in ${template.series.length} series`,
+        paragraphs: [`${DIGEST_PERIOD[template.frequency]}, ${count} came out in series you follow:`],
+        items: template.series.map(s => ({
+          label: s.chapterNumbers?.length
+            ? `${s.seriesTitle}: ${chapterList(s.chapterNumbers)}`
+            : `${s.seriesTitle}: ${s.chapterCount} new chapter${s.chapterCount > 1 ? 's' : ''}`,
+          url: `${APP_URL}/series/${s.seriesId}`,
+        })),
+        action: { label: 'Open your library', url: `${APP_URL}/library` },
+      };
+    }
+    case 'new_chapter': {
+      const count = `${template.chapterCount} new chapter${template.chapterCount > 1 ? 's' : ''}`;
+      return {
+        subject: `${count} of ${template.seriesTitle}`,
+        paragraphs: [
+          template.chapterNumbers?.length
+            ? `${chapterList(template.chapterNumbers)} of ${template.seriesTitle} just came out.`
+            : `${count} of ${template.seriesTitle} just came out.`,
+        ],
+        action: { label: 'Read now', url: `${APP_URL}/series/${template.seriesId}` },
+      };
+    }
+    case 'new_follower':
+      return {
+        subject: `${template.followerUsername} started following you`,
+        paragraphs: [`${template.followerUsername} is now following your reading activity.`],
+        action: { label: 'View profile', url: `${APP_URL}/users/${encodeURIComponent(template.followerUsername)}` },
+      };
+    case 'achievement':
+      return {
+        subject: `Achievement unlocked: ${template.achievementName}`,
+        paragraphs: [
+          `You unlocked the ${template.achievementName} achievement.`,
+          ...(template.description ? [template.description] : []),
+        ],
+        action: { label: 'See your profile', url: `${APP_URL}/users/${encodeURIComponent(context.username)}` },
+      };
+  }
+}
+
+/**
+ * Renders the subject, plain text and HTML of a notification email.
+ */
+export function renderEmail(template: EmailTemplate, context: EmailContext): RenderedEmail {
+  const { subject, paragraphs, items = [], action } = content(template, context);
+  const greeting = `Hi ${context.username},`;
+  const footer = context.unsubscribeUrl
+    ? `You get this email because of your notification settings. Unsubscribe: ${context.unsubscribeUrl}`
+    : 'You get this email because of your notification settings.';
+
+  const text = [
+    greeting,
+    ...paragraphs,
+    ...(items.length > 0 ? [items.map(item => `- ${item.label}\n  ${item.url}`).join('\n')] : []),
+    `${action.label}: ${action.url}`,
+    '--',
+    footer,
+  ].join('\n\n');
+
+  const list = items.length > 0
+    ? `    <ul>\n${items.map(item => `      <li><a href="${escapeHtml(item.url)}" style="color:#18181b">${escapeHtml(item.label)}</a></li>`).join('\n')}\n    </ul>\n`
+    : '';
+
+  const html = `<!DOCTYPE html>
+<html>
+<body style="margin:0;padding:24px;background:#f4f4f5;font-family:-apple-system,Segoe UI,Helvetica,Arial,sans-serif;color:#18181b">
+  <div style="max-width:560px;margin:0 auto;background:#ffffff;border-radius:16px;padding:32px">
+    <p>${escapeHtml(greeting)}</p>
+${paragraphs.map(p => `    <p>${escapeHtml(p)}</p>`).join('\n')}
+${list}    <p><a href="${escapeHtml(action.url)}" style="display:inline-block;padding:12px 20px;border-radius:9999px;background:#18181b;color:#ffffff;text-decoration:none;font-weight:600">${escapeHtml(action.label)}</a></p>
+  </div>
+  <p style="max-width:560px;margin:16px auto 0;font-size:12px;color:#71717a">
+    You get this email because of your notification settings.${context.unsubscribeUrl
+      ? ` <a href="${escapeHtml(context.unsubscribeUrl)}" style="color:#71717a">Unsubscribe</a>`
+      : ''}
+  </p>
+</body>
+</html>
+`;
+
+  return { subject, text, html };
+}
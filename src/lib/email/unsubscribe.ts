@@ -0,0 +1,94 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { prisma } from '@/lib/prisma';
+import {
+  EMAIL_SETTING,
+  EmailSetting,
+  NotificationType,
+  parseNotificationSettings,
+} from '@/lib/notifications/settings';
+
+export const APP_URL = (process.env.APP_URL || 'http://localhost:3000').replace(/\/$/, '');
+
+export interface UnsubscribeTarget {
+  userId: string;
+  /** The email setting to turn off. */
+  setting: EmailSetting;
+}
+
+let warnedMissingSecret = false;
+
+/**
+ * The key unsubscribe tokens are signed with. Without EMAIL_UNSUBSCRIBE_SECRET
+ * unsubscribe links are turned off rather than signed with a guessable key.
+ */
+function unsubscribeSecret(): string | null {
+  const secret = process.env.EMAIL_UNSUBSCRIBE_SECRET;
+  if (secret) return secret;
+
+  if (!warnedMissingSecret) {
+    warnedMissingSecret = true;
+    console.warn('[Email] EMAIL_UNSUBSCRIBE_SECRET is not set; emails are sent without unsubscribe links');
+  }
+  return null;
+}
+
+function sign(payload: string, secret: string): string {
+  return createHmac('sha256', secret).update(payload).digest('base64url');
+}
+
+/**
+ * A token that turns off one kind of email for one user. It does not expire,
+ * so links in old emails keep working.
+ */
+export function createUnsubscribeToken(target: UnsubscribeTarget): string {
+  const secret = unsubscribeSecret();
+  if (!secret) {
+    throw new Error('EMAIL_UNSUBSCRIBE_SECRET is not set');
+  }
+
+  const payload = Buffer.from(`${target.userId}:${target.setting}`).toString('base64url');
+  return `${payload}.${sign(payload, secret)}`;
+}
+
+export function verifyUnsubscribeToken(token: string): UnsubscribeTarget | null {
+  const secret = unsubscribeSecret();
+  const [payload, signature] = token.split('.');
+  if (!secret || !payload || !signature) return null;
+
+  const expected = Buffer.from(sign(payload, secret));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+
+  const [userId, setting] = Buffer.from(payload, 'base64url').toString('utf8').split(':');
+  if (!userId || !Object.values(EMAIL_SETTING).includes(setting as EmailSetting)) return null;
+  return { userId, setting: setting as EmailSetting };
+}
+
+/**
+ * The one-click unsubscribe URL for emails of the given type, or null if the
+ * type has no email setting or no unsubscribe secret is configured.
+ */
+export function unsubscribeUrl(userId: string, type: NotificationType): string | null {
+  const setting = EMAIL_SETTING[type];
+  if (!setting || !unsubscribeSecret()) return null;
+  return `${APP_URL}/api/email/unsubscribe?token=${createUnsubscribeToken({ userId, setting })}`;
+}
+
+/**
+ * Turns the target's email setting off. Returns false if the user no longer exists.
+ */
+export async function applyUnsubscribe(target: UnsubscribeTarget): Promise<boolean> {
+  const user = await prisma.user.findUnique({
+    where: { id: target.userId },
+    select: { notification_settings: true },
+  });
+  if (!user) return false;
+
+  await prisma.user.update({
+    where: { id: target.userId },
+    data: {
+      notification_settings: { ...parseNotificationSettings(user.notification_settings), [target.setting]: false },
+    },
+  });
+  return true;
+}
@@ -0,0 +1,153 @@
+import { prisma } from '@/lib/prisma';
+import { dispatchNotification } from './dispatcher';
+import { NotificationSettings } from './settings';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export interface DigestSeries {
+  series_id: string;
+  title: string;
+  chapter_count: number;
+  chapter_numbers: number[];
+}
+
+interface ZonedParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+}
+
+function zonedParts(date: Date, timeZone: string): ZonedParts {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+    }).formatToParts(date).map(p => [p.type, Number(p.value)])
+  );
+  return { year: parts.year, month: parts.month, day: parts.day, hour: parts.hour, minute: parts.minute };
+}
+
+function offsetMs(date: Date, timeZone: string): number {
+  const p = zonedParts(date, timeZone);
+  const minute = Math.floor(date.getTime() / 60000) * 60000;
+  return Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute) - minute;
+}
+
+/**
+ * The instant a wall-clock hour occurs in a time zone. Hours skipped by a
+ * DST change resolve to the hour after.
+ */
+function zonedTime(year: number, month: number, day: number, hour: number, timeZone: string): Date {
+  const wall = Date.UTC(year, month - 1, day, hour);
+  const guess = wall - offsetMs(new Date(wall), timeZone);
+  return new Date(wall - offsetMs(new Date(guess), timeZone));
+}
+
+/**
+ * When the digest holding something added at `after` goes out: the next full
+ * hour for hourly digests, otherwise the next digest_hour (on digest_day for
+ * weekly ones) in the user's time zone.
+ */
+export function nextDigestAt(settings: NotificationSettings, after: Date): Date {
+  if (settings.digest_frequency === 'instant') return after;
+  if (settings.digest_frequency === 'hourly') {
+    return new Date((Math.floor(after.getTime() / HOUR_MS) + 1) * HOUR_MS);
+  }
+
+  const local = zonedParts(after, settings.timezone);
+  for (let days = 0; days <= 7; days++) {
+    // Calendar arithmetic in UTC so the server's own zone does not matter
+    const date = new Date(Date.UTC(local.year, local.month - 1, local.day + days));
+    if (settings.digest_frequency === 'weekly' && date.getUTCDay() !== settings.digest_day) continue;
+
+    const at = zonedTime(date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate(), settings.digest_hour, settings.timezone);
+    if (at > after) return at;
+  }
+
+  // Unreachable: some day in the next week matches
+  return new Date(after.getTime() + 7 * 24 * HOUR_MS);
+}
+
+/**
+ * Merges held new-chapter entries into one line per series, ordered by title.
+ */
+export function groupDigestItems(items: {
+  series_id: string;
+  chapter_count: number;
+  chapter_numbers: unknown;
+  series: { title: string };
+}[]): DigestSeries[] {
+  const bySeries = new Map<string, DigestSeries>();
+
+  for (const item of items) {
+    const entry = bySeries.get(item.series_id) ?? {
+      series_id: item.series_id,
+      title: item.series.title,
+      chapter_count: 0,
+      chapter_numbers: [],
+    };
+    entry.chapter_count += item.chapter_count;
+    if (Array.isArray(item.chapter_numbers)) {
+      entry.chapter_numbers.push(...item.chapter_numbers.filter((n): n is number => typeof n === 'number'));
+    }
+    bySeries.set(item.series_id, entry);
+  }
+
+  return Array.from(bySeries.values())
+    .map(entry => {
+      const numbers = Array.from(new Set(entry.chapter_numbers)).sort((a, b) => a - b);
+      // Entries from before chapter numbers were tracked only have counts
+      return { ...entry, chapter_numbers: numbers, chapter_count: Math.max(entry.chapter_count, numbers.length) };
+    })
+    .sort((a, b) => a.title.localeCompare(b.title));
+}
+
+const DIGEST_TITLES: Record<NotificationSettings['digest_frequency'], string> = {
+  instant: 'New chapters',
+  hourly: 'Your hourly digest',
+  daily: 'Your daily digest',
+  weekly: 'Your weekly digest',
+};
+
+/**
+ * Sends everything held for a user as one grouped notification (and email),
+ * then clears it. Returns the number of series included. If sending fails
+ * the entries are kept for the next attempt.
+ */
+export async function sendDigest(userId: string, settings: NotificationSettings, now = new Date()): Promise<number> {
+  const items = await prisma.digestItem.findMany({
+    where: { user_id: userId, created_at: { lte: now } },
+    select: {
+      id: true,
+      series_id: true,
+      chapter_count: true,
+      chapter_numbers: true,
+      series: { select: { title: true } },
+    },
+  });
+  if (items.length === 0) return 0;
+
+  const series = groupDigestItems(items);
+  const chapterCount = series.reduce((sum, s) => sum + s.chapter_count, 0);
+
+  await dispatchNotification([userId], {
+    type: 'new_chapter',
+    title: DIGEST_TITLES[settings.digest_frequency],
+    message: `${chapterCount} new chapter${chapterCount === 1 ? '' : 's'} across ${series.length} series`,
+    metadata: {
+      digest: settings.digest_frequency,
+      chapter_count: chapterCount,
+      series: series.map(s => ({ ...s })),
+    },
+  }, { digest: false });
+
+  await prisma.digestItem.deleteMany({ where: { id: { in: items.map(i => i.id) } } });
+  return series.length;
+}
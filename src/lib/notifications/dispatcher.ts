@@ -0,0 +1,146 @@
+import { prisma } from '@/lib/prisma';
+import { emailQueue, pushQueue } from '@/lib/queues';
+import { enqueueWebhookDeliveries } from '@/lib/webhooks/webhooks';
+import { Prisma } from '@prisma/client';
+import { z } from 'zod';
+import {
+  NOTIFICATION_CHANNELS,
+  NOTIFICATION_TYPES,
+  NotificationChannel,
+  notificationChannels,
+  NotificationType,
+  parseNotificationSettings,
+} from './settings';
+
+export interface NotificationPayload {
+  type: NotificationType;
+  title: string;
+  message?: string;
+  series_id?: string;
+  chapter_id?: string;
+  actor_user_id?: string;
+  metadata?: Prisma.InputJsonObject;
+}
+
+// Validates payloads read back from channel queues
+export const NotificationPayloadSchema = z.object({
+  type: z.enum(NOTIFICATION_TYPES),
+  title: z.string(),
+  message: z.string().optional(),
+  series_id: z.string().uuid().optional(),
+  chapter_id: z.string().uuid().optional(),
+  actor_user_id: z.string().uuid().optional(),
+  metadata: z.record(z.unknown()).optional(),
+});
+
+export interface NotificationDelivery extends NotificationPayload {
+  user_id: string;
+}
+
+export type ChannelHandler = (deliveries: NotificationDelivery[]) => Promise<void>;
+
+/** How many recipients each channel was handed. */
+export type DispatchResult = Record<NotificationChannel, number>;
+
+async function deliverInApp(deliveries: NotificationDelivery[]) {
+  await prisma.notification.createMany({ data: deliveries });
+}
+
+// Rendered and sent by the email worker, which rechecks settings and bounces
+async function queueEmails(deliveries: NotificationDelivery[]) {
+  await emailQueue.addBulk(deliveries.map(({ user_id, ...notification }) => ({
+    name: `email-${notification.type}`,
+    data: { userId: user_id, notification },
+  })));
+}
+
+// Sent to each of the user's devices by the push worker, which prunes expired ones
+async function queuePush(deliveries: NotificationDelivery[]) {
+  await pushQueue.addBulk(deliveries.map(({ user_id, ...notification }) => ({
+    name: `push-${notification.type}`,
+    data: { userId: user_id, notification },
+  })));
+}
+
+// Sent later as one grouped notification by the digest worker (see digest.ts)
+async function holdForDigest(deliveries: NotificationDelivery[]) {
+  await prisma.digestItem.createMany({
+    data: deliveries
+      .filter(d => d.series_id)
+      .map(({ user_id, series_id, metadata }) => ({
+        user_id,
+        series_id: series_id!,
+        chapter_count: typeof metadata?.chapter_count === 'number' ? metadata.chapter_count : 1,
+        chapter_numbers: Array.isArray(metadata?.chapter_numbers) ? metadata.chapter_numbers : [],
+      })),
+  });
+}
+
+// Channels without a handler are skipped
+const CHANNEL_HANDLERS: Partial<Record<NotificationChannel, ChannelHandler>> = {
+  in_app: deliverInApp,
+  email: queueEmails,
+  push: queuePush,
+  webhook: enqueueWebhookDeliveries,
+  digest: holdForDigest,
+};
+
+// Losing these would lose the notification, so their failures are thrown
+const PRIMARY_CHANNELS: NotificationChannel[] = ['in_app', 'digest'];
+
+export interface DispatchOptions {
+  /** Set to false when sending a digest, so it is not held for the next one. */
+  digest?: boolean;
+}
+
+/**
+ * Sends one notification to each user through the channels their
+ * notification_settings allow. The in-app copy (or the digest entry) is
+ * written first and its failure is thrown so the caller can retry; failures
+ * of the other channels are logged and do not affect the rest.
+ */
+export async function dispatchNotification(
+  userIds: string[],
+  notification: NotificationPayload,
+  options: DispatchOptions = {}
+): Promise<DispatchResult> {
+  const result = Object.fromEntries(NOTIFICATION_CHANNELS.map(c => [c, 0])) as DispatchResult;
+  const ids = Array.from(new Set(userIds));
+  if (ids.length === 0) return result;
+
+  const users = await prisma.user.findMany({
+    where: { id: { in: ids } },
+    select: { id: true, notification_settings: true },
+  });
+
+  const routed = new Map<NotificationChannel, NotificationDelivery[]>();
+  for (const user of users) {
+    const settings = parseNotificationSettings(user.notification_settings);
+    for (const channel of notificationChannels(settings, notification.type, options)) {
+      if (!CHANNEL_HANDLERS[channel]) continue;
+      const deliveries = routed.get(channel) ?? [];
+      deliveries.push({ ...notification, user_id: user.id });
+      routed.set(channel, deliveries);
+    }
+  }
+
+  for (const channel of PRIMARY_CHANNELS) {
+    const deliveries = routed.get(channel);
+    if (!deliveries) continue;
+    await CHANNEL_HANDLERS[channel]!(deliveries);
+    result[channel] = deliveries.length;
+  }
+
+  await Promise.all(Array.from(routed.entries())
+    .filter(([channel]) => !PRIMARY_CHANNELS.includes(channel))
+    .map(async ([channel, deliveries]) => {
+      try {
+        await CHANNEL_HANDLERS[channel]!(deliveries);
+        result[channel] = deliveries.length;
+      } catch (error) {
+        console.error(`[Notification] ${channel} delivery of ${notification.type} failed:`, error);
+      }
+    }));
+
+  return result;
+}
@@ -0,0 +1,114 @@
+import { z } from 'zod';
+
+export const NOTIFICATION_TYPES = ['new_chapter', 'new_follower', 'achievement', 'system'] as const;
+export type NotificationType = (typeof NOTIFICATION_TYPES)[number];
+
+/** `digest` holds new-chapter notifications for the user's next digest. */
+export const NOTIFICATION_CHANNELS = ['in_app', 'email', 'push', 'webhook', 'digest'] as const;
+export type NotificationChannel = (typeof NOTIFICATION_CHANNELS)[number];
+
+export const DIGEST_FREQUENCIES = ['instant', 'hourly', 'daily', 'weekly'] as const;
+export type DigestFrequency = (typeof DIGEST_FREQUENCIES)[number];
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The shape of User.notification_settings, as written by the settings page.
+ */
+export const NotificationSettingsSchema = z.object({
+  email_new_chapters: z.boolean(),
+  email_follows: z.boolean(),
+  email_achievements: z.boolean(),
+  push_enabled: z.boolean(),
+  digest_frequency: z.enum(DIGEST_FREQUENCIES),
+  /** Local hour daily and weekly digests go out at. */
+  digest_hour: z.number().int().min(0).max(23),
+  /** Day of the week for weekly digests, 0 = Sunday. */
+  digest_day: z.number().int().min(0).max(6),
+  timezone: z.string().max(64).refine(isValidTimeZone, 'Unknown time zone'),
+});
+
+export type NotificationSettings = z.infer<typeof NotificationSettingsSchema>;
+
+/** Accepted when a user changes some of their settings; unknown keys are rejected. */
+export const NotificationSettingsUpdateSchema = NotificationSettingsSchema.partial().strict();
+
+export const DEFAULT_NOTIFICATION_SETTINGS: NotificationSettings = {
+  email_new_chapters: true,
+  email_follows: true,
+  email_achievements: true,
+  push_enabled: false,
+  digest_frequency: 'instant',
+  digest_hour: 9,
+  digest_day: 1,
+  timezone: 'UTC',
+};
+
+export type EmailSetting = 'email_new_chapters' | 'email_follows' | 'email_achievements';
+
+// System notifications are never emailed
+export const EMAIL_SETTING: Record<NotificationType, EmailSetting | null> = {
+  new_chapter: 'email_new_chapters',
+  new_follower: 'email_follows',
+  achievement: 'email_achievements',
+  system: null,
+};
+
+/**
+ * Reads stored notification settings, filling in defaults for missing or
+ * malformed keys. Users created before the per-type settings existed have
+ * `{ email, push }`, which apply to every type.
+ */
+export function parseNotificationSettings(value: unknown): NotificationSettings {
+  const stored = value && typeof value === 'object' && !Array.isArray(value)
+    ? value as Record<string, unknown>
+    : {};
+
+  const fallback = { ...DEFAULT_NOTIFICATION_SETTINGS };
+  if (typeof stored.email === 'boolean') {
+    fallback.email_new_chapters = fallback.email_follows = fallback.email_achievements = stored.email;
+  }
+  if (typeof stored.push === 'boolean') {
+    fallback.push_enabled = stored.push;
+  }
+
+  const settings: Record<string, unknown> = { ...fallback };
+  for (const [key, schema] of Object.entries(NotificationSettingsSchema.shape)) {
+    const parsed = schema.safeParse(stored[key]);
+    if (parsed.success) settings[key] = parsed.data;
+  }
+  return settings as NotificationSettings;
+}
+
+/**
+ * The channels a notification of the given type reaches for a user. In-app
+ * notifications cannot be turned off, and webhooks are opted into by
+ * registering an endpoint rather than through these settings. Users on a
+ * digest get new chapters through the digest instead, unless `digest` is
+ * false (for the digest itself).
+ */
+export function notificationChannels(
+  settings: NotificationSettings,
+  type: NotificationType,
+  { digest = true }: { digest?: boolean } = {}
+): NotificationChannel[] {
+  if (digest && type === 'new_chapter' && settings.digest_frequency !== 'instant') {
+    return ['digest', 'webhook'];
+  }
+
+  const channels: NotificationChannel[] = ['in_app'];
+
+  const emailSetting = EMAIL_SETTING[type];
+  if (emailSetting && settings[emailSetting]) channels.push('email');
+  if (settings.push_enabled) channels.push('push');
+  channels.push('webhook');
+
+  return channels;
+}
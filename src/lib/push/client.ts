@@ -0,0 +1,67 @@
+import { fetchWithErrorHandling } from '@/lib/api-error';
+
+const SERVICE_WORKER_URL = '/sw.js';
+
+export function isPushSupported(): boolean {
+  return typeof window !== 'undefined' && 'serviceWorker' in navigator && 'PushManager' in window && 'Notification' in window;
+}
+
+function applicationServerKey(base64url: string) {
+  const base64 = base64url.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(base64url.length / 4) * 4, '=');
+  const raw = atob(base64);
+  const key = new Uint8Array(raw.length);
+  for (let i = 0; i < raw.length; i++) key[i] = raw.charCodeAt(i);
+  return key;
+}
+
+/**
+ * Asks for permission, subscribes this browser and registers the subscription
+ * with the server. Throws with a user-facing message when that is not possible.
+ */
+export async function enablePush(): Promise<void> {
+  if (!isPushSupported()) {
+    throw new Error('This browser does not support push notifications');
+  }
+
+  const { public_key } = await fetchWithErrorHandling<{ public_key: string | null }>('/api/push/subscriptions');
+  if (!public_key) {
+    throw new Error('Push notifications are not available right now');
+  }
+
+  if (await Notification.requestPermission() !== 'granted') {
+    throw new Error('Notifications are blocked for this site in your browser settings');
+  }
+
+  await navigator.serviceWorker.register(SERVICE_WORKER_URL);
+  const registration = await navigator.serviceWorker.ready;
+  const subscription = await registration.pushManager.getSubscription() ??
+    await registration.pushManager.subscribe({
+      userVisibleOnly: true,
+      applicationServerKey: applicationServerKey(public_key),
+    });
+
+  await fetchWithErrorHandling('/api/push/subscriptions', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(subscription.toJSON()),
+  });
+}
+
+/**
+ * Unsubscribes this browser and forgets it on the server. Other devices keep
+ * their subscriptions.
+ */
+export async function disablePush(): Promise<void> {
+  if (!isPushSupported()) return;
+
+  const registration = await navigator.serviceWorker.getRegistration(SERVICE_WORKER_URL);
+  const subscription = await registration?.pushManager.getSubscription();
+  if (!subscription) return;
+
+  await fetchWithErrorHandling('/api/push/subscriptions', {
+    method: 'DELETE',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ endpoint: subscription.endpoint }),
+  });
+  await subscription.unsubscribe();
+}
@@ -0,0 +1,101 @@
+import { prisma } from '@/lib/prisma';
+import { ApiError, ErrorCodes } from '@/lib/api-utils';
+import { z } from 'zod';
+
+// Older devices are dropped when a user subscribes more than this many
+const MAX_DEVICES_PER_USER = 20;
+
+// The worker POSTs to stored endpoints, so only real push services are accepted
+const PUSH_SERVICE_HOSTS = [
+  'fcm.googleapis.com',
+  'push.services.mozilla.com',
+  'notify.windows.com',
+  'push.apple.com',
+];
+
+export function isPushServiceEndpoint(endpoint: string): boolean {
+  let url: URL;
+  try {
+    url = new URL(endpoint);
+  } catch {
+    return false;
+  }
+  if (url.protocol !== 'https:' || url.port !== '' || url.username || url.password) return false;
+
+  const host = url.hostname.toLowerCase();
+  return PUSH_SERVICE_HOSTS.some(service => host === service || host.endsWith(`.${service}`));
+}
+
+function base64urlBytes(length: number) {
+  return z.string().regex(/^[A-Za-z0-9_-]+={0,2}$/).refine(
+    value => Buffer.from(value, 'base64url').length === length,
+    `Must be ${length} bytes`
+  );
+}
+
+/** The JSON form of a browser PushSubscription (PushSubscription.toJSON()). */
+export const PushSubscriptionSchema = z.object({
+  endpoint: z.string().max(2000).refine(isPushServiceEndpoint, 'Unsupported push service'),
+  keys: z.object({
+    p256dh: base64urlBytes(65),
+    auth: base64urlBytes(16),
+  }),
+});
+
+export type PushSubscriptionInput = z.infer<typeof PushSubscriptionSchema>;
+
+export async function listPushSubscriptions(userId: string) {
+  return prisma.pushSubscription.findMany({
+    where: { user_id: userId },
+    select: { id: true, user_agent: true, created_at: true, last_used_at: true },
+    orderBy: { created_at: 'desc' },
+  });
+}
+
+/**
+ * Stores a device's subscription. An endpoint belongs to one browser profile,
+ * so subscribing again (or as another account on the same browser) moves it
+ * to this user.
+ */
+export async function savePushSubscription(userId: string, input: PushSubscriptionInput, userAgent: string | null) {
+  const data = {
+    user_id: userId,
+    p256dh: input.keys.p256dh,
+    auth: input.keys.auth,
+    user_agent: userAgent?.slice(0, 500) ?? null,
+  };
+
+  const subscription = await prisma.pushSubscription.upsert({
+    where: { endpoint: input.endpoint },
+    create: { endpoint: input.endpoint, ...data },
+    update: data,
+    select: { id: true, user_agent: true, created_at: true, last_used_at: true },
+  });
+
+  const stale = await prisma.pushSubscription.findMany({
+    where: { user_id: userId },
+    select: { id: true },
+    orderBy: { created_at: 'desc' },
+    skip: MAX_DEVICES_PER_USER,
+  });
+  if (stale.length > 0) {
+    await prisma.pushSubscription.deleteMany({ where: { id: { in: stale.map(s => s.id) } } });
+  }
+
+  return subscription;
+}
+
+/**
+ * Removes one of the user's devices, by endpoint (from the browser) or id
+ * (from a device list).
+ */
+export async function removePushSubscription(userId: string, target: { endpoint?: string; id?: string }) {
+  if (!target.endpoint && !target.id) {
+    throw new ApiError('endpoint or id is required', 400, ErrorCodes.VALIDATION_ERROR);
+  }
+
+  const { count } = await prisma.pushSubscription.deleteMany({
+    where: { user_id: userId, ...(target.endpoint ? { endpoint: target.endpoint } : { id: target.id }) },
+  });
+  return count;
+}
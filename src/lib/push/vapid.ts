@@ -0,0 +1,40 @@
+import webpush from 'web-push';
+
+export interface VapidKeys {
+  /** Uncompressed P-256 point, base64url. This is the applicationServerKey browsers subscribe with. */
+  publicKey: string;
+  /** Private scalar, base64url. */
+  privateKey: string;
+}
+
+export interface VapidConfig extends VapidKeys {
+  /** mailto: or https: contact for push services (RFC 8292). */
+  subject: string;
+}
+
+/**
+ * Reads VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY and VAPID_SUBJECT. Returns null
+ * when push is not configured. Generate keys with `npm run push:keys`.
+ */
+export function vapidConfigFromEnv(): VapidConfig | null {
+  const publicKey = process.env.VAPID_PUBLIC_KEY;
+  const privateKey = process.env.VAPID_PRIVATE_KEY;
+  if (!publicKey || !privateKey) return null;
+
+  return {
+    publicKey,
+    privateKey,
+    subject: process.env.VAPID_SUBJECT || 'mailto:notifications@localhost',
+  };
+}
+
+export function generateVapidKeys(): VapidKeys {
+  return webpush.generateVAPIDKeys();
+}
+
+// `npm run push:keys` prints a fresh key pair for .env
+if (require.main === module) {
+  const keys = generateVapidKeys();
+  console.log(`VAPID_PUBLIC_KEY=${keys.publicKey}`);
+  console.log(`VAPID_PRIVATE_KEY=${keys.privateKey}`);
+}
@@ -0,0 +1,92 @@
+import webpush, { RequestDetails } from 'web-push';
+import { VapidConfig } from './vapid';
+
+/** A browser PushSubscription as stored per device. */
+export interface PushTarget {
+  endpoint: string;
+  /** Browser's P-256 public key, base64url. */
+  p256dh: string;
+  /** Browser's 16-byte auth secret, base64url. */
+  auth: string;
+}
+
+export interface PushOptions {
+  /** Seconds the push service keeps the message for an offline device. */
+  ttl?: number;
+  urgency?: 'very-low' | 'low' | 'normal' | 'high';
+  /** Replaces an undelivered message with the same topic (up to 32 base64url characters). */
+  topic?: string;
+  timeoutMs?: number;
+}
+
+export class PushError extends Error {
+  constructor(
+    message: string,
+    public readonly statusCode: number | null
+  ) {
+    super(message);
+    this.name = 'PushError';
+  }
+
+  /** The subscription is gone for good and should be deleted. */
+  get isExpired(): boolean {
+    return this.statusCode === 404 || this.statusCode === 410;
+  }
+}
+
+// Push services accept 4096-byte bodies: less the aes128gcm header with the
+// server key (86), the GCM tag (16) and the record delimiter (1)
+export const MAX_PAYLOAD_BYTES = 4096 - 86 - 16 - 1;
+
+/**
+ * Sends encrypted Web Push messages signed with our VAPID keys.
+ */
+export class WebPushClient {
+  constructor(private readonly vapid: VapidConfig) {}
+
+  /**
+   * Delivers `payload` to the push service behind the subscription. Throws a
+   * PushError for non-2xx responses; check isExpired to prune the subscription.
+   */
+  async send(target: PushTarget, payload: string, options: PushOptions = {}): Promise<void> {
+    const bytes = Buffer.from(payload);
+    if (bytes.length > MAX_PAYLOAD_BYTES) {
+      throw new PushError(`Push payload is ${bytes.length} bytes, the limit is ${MAX_PAYLOAD_BYTES}`, null);
+    }
+
+    // web-push encrypts the payload and signs the VAPID token; the request
+    // itself goes through fetch so it shares our timeout handling
+    let request: RequestDetails;
+    try {
+      request = webpush.generateRequestDetails({ endpoint: target.endpoint, keys: { p256dh: target.p256dh, auth: target.auth } }, bytes, {
+        vapidDetails: this.vapid,
+        contentEncoding: 'aes128gcm',
+        TTL: options.ttl ?? 24 * 60 * 60,
+        urgency: options.urgency ?? 'normal',
+        topic: options.topic,
+      });
+    } catch (error) {
+      throw new PushError(`Push request is invalid: ${error instanceof Error ? error.message : String(error)}`, null);
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(request.endpoint, {
+        method: request.method,
+        // TTL and Content-Length come back as numbers; fetch sets its own length
+        headers: Object.fromEntries(Object.entries(request.headers)
+          .filter(([name]) => name !== 'Content-Length')
+          .map(([name, value]) => [name, String(value)])),
+        body: request.body && new Uint8Array(request.body),
+        signal: AbortSignal.timeout(options.timeoutMs ?? 15_000),
+      });
+    } catch (error) {
+      throw new PushError(`Push request failed: ${error instanceof Error ? error.message : String(error)}`, null);
+    }
+
+    if (!response.ok) {
+      const detail = (await response.text().catch(() => '')).slice(0, 200);
+      throw new PushError(`Push service responded ${response.status}${detail ? `: ${detail}` : ''}`, response.status);
+    }
+  }
+}
@@ -0,0 +1,172 @@
+import { JobQueue, JobState, QueueJob } from '@/lib/queue';
+import { prisma } from '@/lib/prisma';
+import {
+  CHECK_SOURCE_QUEUE,
+  checkSourceQueue,
+  EMAIL_QUEUE,
+  emailQueue,
+  NOTIFICATION_QUEUE,
+  notificationQueue,
+  PUSH_QUEUE,
+  pushQueue,
+  WEBHOOK_QUEUE,
+  webhookQueue,
+} from '@/lib/queues';
+import { ApiError, ErrorCodes } from '@/lib/api-utils';
+
+// Queues the admin dashboard can inspect and control
+const ADMIN_QUEUES: Record<string, JobQueue> = {
+  [CHECK_SOURCE_QUEUE]: checkSourceQueue,
+  [NOTIFICATION_QUEUE]: notificationQueue,
+  [EMAIL_QUEUE]: emailQueue,
+  [PUSH_QUEUE]: pushQueue,
+  [WEBHOOK_QUEUE]: webhookQueue,
+};
+
+export const JOB_STATES: JobState[] = ['waiting', 'prioritized', 'active', 'delayed', 'failed', 'completed'];
+
+export function isJobState(value: string): value is JobState {
+  return (JOB_STATES as string[]).includes(value);
+}
+
+export function getAdminQueue(name: string): JobQueue {
+  const queue = ADMIN_QUEUES[name];
+  if (!queue) {
+    throw new ApiError(`Unknown queue: ${name}`, 404, ErrorCodes.NOT_FOUND);
+  }
+  return queue;
+}
+
+function toIso(timestamp: number | undefined): string | null {
+  return timestamp ? new Date(timestamp).toISOString() : null;
+}
+
+export function serializeJob(job: QueueJob) {
+  return {
+    id: job.id,
+    name: job.name,
+    data: job.data,
+    priority: job.priority,
+    attempts_made: job.attemptsMade,
+    max_attempts: job.opts.attempts ?? 1,
+    progress: job.progress,
+    created_at: toIso(job.timestamp),
+    delayed_until: job.delay ? toIso(job.timestamp + job.delay) : null,
+    processed_at: toIso(job.processedOn),
+    finished_at: toIso(job.finishedOn),
+    failed_reason: job.failedReason ?? null,
+    stacktrace: job.stacktrace ?? [],
+    return_value: job.returnvalue ?? null,
+  };
+}
+
+export async function listAdminQueues() {
+  return Promise.all(Object.values(ADMIN_QUEUES).map(async (queue) => ({
+    name: queue.name,
+    paused: await queue.isPaused(),
+    counts: await queue.getJobCounts(...JOB_STATES),
+  })));
+}
+
+export async function listJobs(queueName: string, state: JobState, options: { offset: number; limit: number }) {
+  const queue = getAdminQueue(queueName);
+
+  const [jobs, counts] = await Promise.all([
+    // Job ranges are inclusive, as in BullMQ
+    queue.getJobs([state], options.offset, options.offset + options.limit - 1),
+    queue.getJobCounts(state),
+  ]);
+
+  return {
+    jobs: jobs.filter(Boolean).map(serializeJob),
+    total: counts[state] ?? 0,
+  };
+}
+
+export async function getJobDetail(queueName: string, jobId: string) {
+  const queue = getAdminQueue(queueName);
+  const job = await queue.getJob(jobId);
+
+  if (!job) {
+    throw new ApiError('Job not found', 404, ErrorCodes.NOT_FOUND);
+  }
+
+  return { ...serializeJob(job), state: await job.getState() };
+}
+
+export async function setQueuePaused(queueName: string, paused: boolean) {
+  const queue = getAdminQueue(queueName);
+
+  if (paused) {
+    await queue.pause();
+  } else {
+    await queue.resume();
+  }
+
+  return { name: queue.name, paused: await queue.isPaused() };
+}
+
+/**
+ * Removes waiting jobs, and delayed ones too when asked. Active jobs finish.
+ */
+export async function drainQueue(queueName: string, includeDelayed: boolean) {
+  const queue = getAdminQueue(queueName);
+  await queue.drain(includeDelayed);
+  return { name: queue.name, counts: await queue.getJobCounts(...JOB_STATES) };
+}
+
+/**
+ * Moves one delayed job, or all of them, to the front of the queue.
+ */
+export async function promoteJobs(queueName: string, jobId?: string) {
+  const queue = getAdminQueue(queueName);
+
+  if (!jobId) {
+    await queue.promoteJobs();
+    return { promoted: 'all' as const };
+  }
+
+  const job = await queue.getJob(jobId);
+  if (!job) {
+    throw new ApiError('Job not found', 404, ErrorCodes.NOT_FOUND);
+  }
+  if (!(await job.isDelayed())) {
+    throw new ApiError('Only delayed jobs can be promoted', 409, ErrorCodes.CONFLICT);
+  }
+
+  await job.promote();
+  return { promoted: jobId };
+}
+
+/**
+ * Queues an immediate check of one source, or of every enabled source of a
+ * series. Skips the scheduler but not the circuit breaker or host budgets.
+ * `jobIdPrefix` tells admin checks and reader refreshes apart.
+ */
+export async function enqueueChecks(
+  target: { seriesSourceId?: string; seriesId?: string },
+  jobIdPrefix = 'manual'
+) {
+  const sources = await prisma.seriesSource.findMany({
+    where: target.seriesSourceId ? { id: target.seriesSourceId } : { series_id: target.seriesId },
+    select: { id: true, disabled_at: true },
+  });
+
+  if (sources.length === 0) {
+    throw new ApiError('No sources found', 404, ErrorCodes.NOT_FOUND);
+  }
+
+  const enabled = sources.filter(s => !s.disabled_at);
+  if (enabled.length === 0) {
+    throw new ApiError('All matching sources are disabled', 409, ErrorCodes.CONFLICT);
+  }
+
+  const now = Date.now();
+  const jobs = await checkSourceQueue.addBulk(enabled.map(source => ({
+    name: `check-${source.id}`,
+    data: { seriesSourceId: source.id },
+    opts: { jobId: `${jobIdPrefix}-${source.id}-${now}`, priority: 1 },
+  })));
+
+  return { jobIds: jobs.map(job => job.id) };
+}
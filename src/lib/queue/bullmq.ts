@@ -0,0 +1,25 @@
+import { MetricsTime, Queue, Worker } from 'bullmq';
+import { redis } from '@/lib/redis';
+import { JobOptions, JobProcessor, JobQueue, JobWorker, QueueDriver, WorkerOptions } from './types';
+
+/**
+ * Queues and workers backed by BullMQ on the shared Redis connection.
+ */
+export const bullmqDriver: QueueDriver = {
+  name: 'bullmq',
+
+  createQueue<T>(name: string, defaults?: JobOptions): JobQueue<T> {
+    return new Queue<T, unknown, string, T, unknown, string>(name, {
+      connection: redis,
+      defaultJobOptions: defaults,
+    });
+  },
+
+  createWorker<T>(name: string, processor: JobProcessor<T>, options: WorkerOptions): JobWorker<T> {
+    return new Worker<T, unknown, string>(name, processor, {
+      connection: redis,
+      concurrency: options.concurrency,
+      ...(options.metrics && { metrics: { maxDataPoints: MetricsTime.ONE_HOUR } }),
+    });
+  },
+};
@@ -0,0 +1,15 @@
+import { bullmqDriver } from './bullmq';
+import { createMemoryDriver } from './memory';
+import { QueueDriver } from './types';
+
+export * from './types';
+export { DelayedError } from 'bullmq';
+export { createMemoryDriver, MemoryQueue } from './memory';
+
+/**
+ * QUEUE_DRIVER=memory runs every queue in this process without Redis, for
+ * local development and end-to-end tests. Anything else uses BullMQ.
+ */
+export const QUEUE_DRIVER: QueueDriver['name'] = process.env.QUEUE_DRIVER === 'memory' ? 'memory' : 'bullmq';
+
+export const queueDriver: QueueDriver = QUEUE_DRIVER === 'memory' ? createMemoryDriver() : bullmqDriver;
@@ -0,0 +1,461 @@
+import { EventEmitter } from 'events';
+import { DelayedError } from 'bullmq';
+import {
+  BulkJob,
+  JobOptions,
+  JobProcessor,
+  JobQueue,
+  JobState,
+  JobWorker,
+  KeepJobs,
+  QueueDriver,
+  QueueJob,
+  QueueMetrics,
+} from './types';
+
+const JOB_STATES: JobState[] = ['waiting', 'prioritized', 'active', 'delayed', 'completed', 'failed'];
+const MINUTE_MS = 60 * 1000;
+// Matches the one hour of data points the BullMQ workers keep
+const METRICS_MINUTES = 60;
+
+class MemoryJob<T> implements QueueJob<T> {
+  attemptsMade = 0;
+  processedOn?: number;
+  finishedOn?: number;
+  failedReason = '';
+  stacktrace: string[] = [];
+  returnvalue: unknown = null;
+  progress: unknown = 0;
+  /** When a delayed job becomes ready. */
+  runAt = 0;
+  state: JobState = 'waiting';
+
+  constructor(
+    private readonly queue: MemoryQueue<T>,
+    readonly id: string,
+    readonly name: string,
+    readonly data: T,
+    readonly opts: JobOptions,
+    readonly timestamp: number,
+    readonly seq: number
+  ) {}
+
+  get priority(): number {
+    return this.opts.priority ?? 0;
+  }
+
+  get delay(): number {
+    return this.opts.delay ?? 0;
+  }
+
+  async updateProgress(progress: number | object): Promise<void> {
+    this.progress = progress;
+  }
+
+  async moveToDelayed(timestamp: number): Promise<void> {
+    this.queue.delayJob(this, timestamp);
+  }
+
+  async getState(): Promise<string> {
+    return this.state;
+  }
+
+  async isDelayed(): Promise<boolean> {
+    return this.state === 'delayed';
+  }
+
+  async promote(): Promise<void> {
+    if (this.state === 'delayed') this.queue.delayJob(this, 0);
+  }
+}
+
+/**
+ * A single-process queue with BullMQ semantics: jobId de-duplication,
+ * priorities (unprioritized jobs first, then 1 before 2), delayed jobs,
+ * retries with fixed or exponential backoff and removeOnComplete/Fail.
+ */
+export class MemoryQueue<T = any> implements JobQueue<T> {
+  private jobs = new Map<string, MemoryJob<T>>();
+  private seq = 0;
+  private paused = false;
+  private delayTimer?: NodeJS.Timeout;
+  private schedulers = new Map<string, NodeJS.Timeout>();
+  private subscribers = new Set<() => void>();
+  private idleWaiters: (() => void)[] = [];
+  private finishedPerMinute = { completed: new Map<number, number>(), failed: new Map<number, number>() };
+
+  constructor(readonly name: string, private defaults: JobOptions = {}) {}
+
+  setDefaults(defaults: JobOptions) {
+    this.defaults = defaults;
+  }
+
+  async add(name: string, data: T, opts: JobOptions = {}): Promise<MemoryJob<T>> {
+    const options = { ...this.defaults, ...opts };
+    const seq = ++this.seq;
+    const id = options.jobId ?? String(seq);
+
+    const existing = this.jobs.get(id);
+    if (existing) return existing;
+
+    const job = new MemoryJob(this, id, name, data, options, Date.now(), seq);
+    this.jobs.set(id, job);
+
+    if (job.delay > 0) {
+      this.delayJob(job, job.timestamp + job.delay);
+    } else {
+      this.makeReady(job);
+    }
+
+    return job;
+  }
+
+  async addBulk(jobs: BulkJob<T>[]): Promise<MemoryJob<T>[]> {
+    const added: MemoryJob<T>[] = [];
+    for (const job of jobs) {
+      added.push(await this.add(job.name, job.data, job.opts));
+    }
+    return added;
+  }
+
+  async getJob(jobId: string): Promise<MemoryJob<T> | undefined> {
+    return this.jobs.get(jobId);
+  }
+
+  async getJobs(types: JobState[], start = 0, end = -1): Promise<MemoryJob<T>[]> {
+    const jobs = Array.from(this.jobs.values())
+      .filter(job => types.includes(job.state))
+      .sort((a, b) => b.seq - a.seq);
+    return jobs.slice(start, end < 0 ? undefined : end + 1);
+  }
+
+  async getJobCounts(...types: JobState[]): Promise<Record<string, number>> {
+    const counts: Record<string, number> = {};
+    for (const state of types.length > 0 ? types : JOB_STATES) {
+      counts[state] = 0;
+    }
+    for (const job of this.jobs.values()) {
+      if (job.state in counts) counts[job.state]++;
+    }
+    return counts;
+  }
+
+  async getMetrics(type: 'completed' | 'failed', start = 0, end = -1): Promise<QueueMetrics> {
+    const counts = this.finishedPerMinute[type];
+    const currentMinute = Math.floor(Date.now() / MINUTE_MS);
+    const data = Array.from({ length: METRICS_MINUTES }, (_, i) => counts.get(currentMinute - i) ?? 0);
+    return {
+      data: data.slice(start, end < 0 ? undefined : end + 1),
+      count: Array.from(counts.values()).reduce((sum, n) => sum + n, 0),
+    };
+  }
+
+  async upsertJobScheduler(
+    schedulerId: string,
+    repeat: { every: number },
+    template: { name?: string; data?: T; opts?: JobOptions } = {}
+  ): Promise<void> {
+    clearInterval(this.schedulers.get(schedulerId));
+
+    const tick = () => {
+      void this.add(template.name ?? schedulerId, template.data as T, {
+        ...template.opts,
+        jobId: `repeat:${schedulerId}:${Date.now()}`,
+      });
+    };
+
+    tick();
+    const timer = setInterval(tick, repeat.every);
+    timer.unref?.();
+    this.schedulers.set(schedulerId, timer);
+  }
+
+  async remove(jobId: string): Promise<number> {
+    const job = this.jobs.get(jobId);
+    // Like BullMQ, a job being processed cannot be removed
+    if (!job || job.state === 'active') return 0;
+    this.jobs.delete(jobId);
+    this.changed();
+    return 1;
+  }
+
+  async pause(): Promise<void> {
+    this.paused = true;
+  }
+
+  async resume(): Promise<void> {
+    this.paused = false;
+    this.changed();
+  }
+
+  async isPaused(): Promise<boolean> {
+    return this.paused;
+  }
+
+  async drain(delayed = false): Promise<void> {
+    for (const [id, job] of this.jobs) {
+      if (job.state === 'waiting' || job.state === 'prioritized' || (delayed && job.state === 'delayed')) {
+        this.jobs.delete(id);
+      }
+    }
+    this.changed();
+  }
+
+  async promoteJobs(): Promise<void> {
+    for (const job of this.jobs.values()) {
+      if (job.state === 'delayed') this.makeReady(job, false);
+    }
+    this.changed();
+  }
+
+  async close(): Promise<void> {
+    clearTimeout(this.delayTimer);
+    for (const timer of this.schedulers.values()) clearInterval(timer);
+    this.schedulers.clear();
+    this.subscribers.clear();
+  }
+
+  /**
+   * Resolves once nothing is waiting, running or delayed.
+   */
+  onIdle(): Promise<void> {
+    if (this.isIdle()) return Promise.resolve();
+    return new Promise(resolve => this.idleWaiters.push(resolve));
+  }
+
+  // Worker side
+
+  subscribe(listener: () => void): () => void {
+    this.subscribers.add(listener);
+    return () => this.subscribers.delete(listener);
+  }
+
+  /**
+   * Hands the next job to a worker: unprioritized jobs first, then by
+   * priority, oldest first within each.
+   */
+  take(): MemoryJob<T> | undefined {
+    if (this.paused) return undefined;
+
+    let next: MemoryJob<T> | undefined;
+    for (const job of this.jobs.values()) {
+      if (job.state !== 'waiting' && job.state !== 'prioritized') continue;
+      if (!next || job.priority < next.priority || (job.priority === next.priority && job.seq < next.seq)) {
+        next = job;
+      }
+    }
+
+    if (next) {
+      next.state = 'active';
+      next.processedOn = Date.now();
+    }
+    return next;
+  }
+
+  complete(job: MemoryJob<T>, result: unknown) {
+    job.state = 'completed';
+    job.finishedOn = Date.now();
+    job.returnvalue = result ?? null;
+    this.recordFinished('completed');
+    this.applyRetention('completed', job.opts.removeOnComplete);
+    this.changed();
+  }
+
+  /**
+   * Records a failed attempt: the job is retried after its backoff while it
+   * has attempts left, and fails for good after that.
+   */
+  fail(job: MemoryJob<T>, error: Error) {
+    job.attemptsMade++;
+    job.failedReason = error.message;
+    job.stacktrace.push(error.stack ?? error.message);
+
+    const attempts = job.opts.attempts ?? 1;
+    if (job.attemptsMade < attempts) {
+      this.delayJob(job, Date.now() + backoffDelay(job.opts, job.attemptsMade));
+      return;
+    }
+
+    job.state = 'failed';
+    job.finishedOn = Date.now();
+    this.recordFinished('failed');
+    this.applyRetention('failed', job.opts.removeOnFail);
+    this.changed();
+  }
+
+  delayJob(job: MemoryJob<T>, runAt: number) {
+    if (runAt <= Date.now()) {
+      this.makeReady(job);
+      return;
+    }
+    job.state = 'delayed';
+    job.runAt = runAt;
+    this.changed();
+  }
+
+  private makeReady(job: MemoryJob<T>, notify = true) {
+    job.state = job.priority > 0 ? 'prioritized' : 'waiting';
+    job.runAt = 0;
+    if (notify) this.changed();
+  }
+
+  private changed() {
+    this.scheduleDelayed();
+    for (const listener of this.subscribers) listener();
+
+    if (this.idleWaiters.length > 0 && this.isIdle()) {
+      const waiters = this.idleWaiters.splice(0);
+      waiters.forEach(resolve => resolve());
+    }
+  }
+
+  private isIdle(): boolean {
+    for (const job of this.jobs.values()) {
+      if (job.state !== 'completed' && job.state !== 'failed') return false;
+    }
+    return true;
+  }
+
+  private scheduleDelayed() {
+    clearTimeout(this.delayTimer);
+    this.delayTimer = undefined;
+
+    let earliest = Infinity;
+    for (const job of this.jobs.values()) {
+      if (job.state === 'delayed') earliest = Math.min(earliest, job.runAt);
+    }
+    if (earliest === Infinity) return;
+
+    this.delayTimer = setTimeout(() => {
+      const now = Date.now();
+      for (const job of this.jobs.values()) {
+        if (job.state === 'delayed' && job.runAt <= now) this.makeReady(job, false);
+      }
+      this.changed();
+    }, Math.max(earliest - Date.now(), 0));
+  }
+
+  private recordFinished(type: 'completed' | 'failed') {
+    const minute = Math.floor(Date.now() / MINUTE_MS);
+    const counts = this.finishedPerMinute[type];
+    counts.set(minute, (counts.get(minute) ?? 0) + 1);
+    counts.delete(minute - METRICS_MINUTES);
+  }
+
+  private applyRetention(state: 'completed' | 'failed', keep: KeepJobs | undefined) {
+    if (!keep) return;
+
+    const finished = Array.from(this.jobs.values())
+      .filter(job => job.state === state)
+      .sort((a, b) => (b.finishedOn ?? 0) - (a.finishedOn ?? 0));
+    const count = keep === true ? 0 : typeof keep === 'number' ? keep : keep.count ?? Infinity;
+    const age = typeof keep === 'object' ? keep.age : undefined;
+    const minFinishedOn = age ? Date.now() - age * 1000 : -Infinity;
+
+    finished.forEach((job, i) => {
+      if (i >= count || (job.finishedOn ?? 0) < minFinishedOn) this.jobs.delete(job.id);
+    });
+  }
+}
+
+export function backoffDelay(opts: JobOptions, attemptsMade: number): number {
+  if (!opts.backoff) return 0;
+  return opts.backoff.type === 'exponential'
+    ? opts.backoff.delay * 2 ** (attemptsMade - 1)
+    : opts.backoff.delay;
+}
+
+class MemoryWorker<T> implements JobWorker<T> {
+  private events = new EventEmitter();
+  private running = 0;
+  private closed = false;
+  private unsubscribe: () => void;
+  private drainedWaiters: (() => void)[] = [];
+
+  constructor(
+    readonly name: string,
+    private readonly queue: MemoryQueue<T>,
+    private readonly processor: JobProcessor<T>,
+    private readonly concurrency: number
+  ) {
+    this.unsubscribe = queue.subscribe(() => this.pump());
+    setImmediate(() => this.pump());
+  }
+
+  on(event: 'completed' | 'failed', listener: (...args: any[]) => void): this {
+    this.events.on(event, listener);
+    return this;
+  }
+
+  async close(): Promise<void> {
+    this.closed = true;
+    this.unsubscribe();
+    if (this.running > 0) {
+      await new Promise<void>(resolve => this.drainedWaiters.push(resolve));
+    }
+  }
+
+  private pump() {
+    while (!this.closed && this.running < this.concurrency) {
+      const job = this.queue.take();
+      if (!job) return;
+      this.running++;
+      void this.run(job);
+    }
+  }
+
+  private async run(job: MemoryJob<T>) {
+    let outcome: { result: unknown } | { error: Error };
+    try {
+      outcome = { result: await this.processor(job, `memory:${job.id}`) };
+    } catch (error) {
+      outcome = { error: error instanceof Error ? error : new Error(String(error)) };
+    }
+
+    this.running--;
+
+    if ('result' in outcome) {
+      this.queue.complete(job, outcome.result);
+      this.events.emit('completed', job, outcome.result);
+    } else if (!(outcome.error instanceof DelayedError)) {
+      this.queue.fail(job, outcome.error);
+      this.events.emit('failed', job, outcome.error);
+    }
+    // DelayedError: the processor already parked the job with moveToDelayed
+
+    if (this.closed && this.running === 0) {
+      this.drainedWaiters.splice(0).forEach(resolve => resolve());
+    }
+    this.pump();
+  }
+}
+
+export interface MemoryQueueDriver extends QueueDriver {
+  getQueue<T = any>(name: string): MemoryQueue<T>;
+}
+
+/**
+ * Queues and workers that live in this process. Queues are shared by name,
+ * so a worker created for a name consumes the queue created for it.
+ */
+export function createMemoryDriver(): MemoryQueueDriver {
+  const queues = new Map<string, MemoryQueue>();
+
+  const getQueue = (name: string, defaults?: JobOptions) => {
+    let queue = queues.get(name);
+    if (!queue) {
+      queue = new MemoryQueue(name, defaults);
+      queues.set(name, queue);
+    } else if (defaults) {
+      queue.setDefaults(defaults);
+    }
+    return queue;
+  };
+
+  return {
+    name: 'memory',
+    createQueue: (name, defaults) => getQueue(name, defaults),
+    createWorker: (name, processor, options) => new MemoryWorker(name, getQueue(name), processor, options.concurrency),
+    getQueue: (name) => getQueue(name),
+  };
+}
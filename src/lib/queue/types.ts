@@ -0,0 +1,117 @@
+/**
+ * The queue surface the app uses, implemented by the BullMQ driver (Redis)
+ * and the in-memory driver (single process, no Redis). Names and semantics
+ * follow BullMQ, a subset of its Queue and Worker APIs.
+ */
+
+export interface BackoffOptions {
+  type: 'fixed' | 'exponential';
+  delay: number;
+}
+
+/** true removes immediately; a number or `count` keeps that many; `age` keeps jobs younger than that (seconds). */
+export type KeepJobs = boolean | number | { count: number; age?: number } | { count?: number; age: number };
+
+export interface JobOptions {
+  /** Adding a job whose id already exists is a no-op until that job is removed. */
+  jobId?: string;
+  /** 1 is the highest priority; jobs without one run before prioritized jobs. */
+  priority?: number;
+  delay?: number;
+  attempts?: number;
+  backoff?: BackoffOptions;
+  removeOnComplete?: KeepJobs;
+  removeOnFail?: KeepJobs;
+}
+
+/**
+ * Options as a job reports them. BullMQ may also hold a bare delay or a custom
+ * strategy for backoff, so this is looser than JobOptions.
+ */
+export type QueueJobOptions = Omit<JobOptions, 'backoff'> & {
+  backoff?: number | { type: string; delay?: number };
+};
+
+export type JobState = 'waiting' | 'prioritized' | 'active' | 'delayed' | 'completed' | 'failed';
+
+export interface QueueJob<T = any> {
+  id?: string;
+  name: string;
+  data: T;
+  opts: QueueJobOptions;
+  attemptsMade: number;
+  priority: number;
+  delay: number;
+  /** When the job was added (ms). */
+  timestamp: number;
+  processedOn?: number;
+  finishedOn?: number;
+  failedReason: string;
+  /** BullMQ may report null for jobs read back from Redis. */
+  stacktrace: string[] | null;
+  returnvalue: unknown;
+  progress: unknown;
+  updateProgress(progress: number | object): Promise<void>;
+  /** Parks the running job until `timestamp`; the processor must then throw DelayedError. */
+  moveToDelayed(timestamp: number, token?: string): Promise<void>;
+  getState(): Promise<string>;
+  isDelayed(): Promise<boolean>;
+  promote(): Promise<void>;
+}
+
+export interface BulkJob<T = any> {
+  name: string;
+  data: T;
+  opts?: JobOptions;
+}
+
+export interface QueueMetrics {
+  /** Jobs finished per minute, newest minute first. */
+  data: number[];
+  count: number;
+}
+
+export interface JobQueue<T = any> {
+  readonly name: string;
+  add(name: string, data: T, opts?: JobOptions): Promise<QueueJob<T>>;
+  addBulk(jobs: BulkJob<T>[]): Promise<QueueJob<T>[]>;
+  getJob(jobId: string): Promise<QueueJob<T> | undefined>;
+  getJobs(types: JobState[], start?: number, end?: number): Promise<QueueJob<T>[]>;
+  getJobCounts(...types: JobState[]): Promise<Record<string, number>>;
+  getMetrics(type: 'completed' | 'failed', start?: number, end?: number): Promise<QueueMetrics>;
+  /** Creates or replaces a recurring job; one schedule per id however often it is called. */
+  upsertJobScheduler(
+    schedulerId: string,
+    repeat: { every: number },
+    template?: { name?: string; data?: T; opts?: JobOptions }
+  ): Promise<unknown>;
+  remove(jobId: string): Promise<number>;
+  pause(): Promise<void>;
+  resume(): Promise<void>;
+  isPaused(): Promise<boolean>;
+  /** Removes waiting jobs, and delayed ones when `delayed` is true. */
+  drain(delayed?: boolean): Promise<void>;
+  promoteJobs(): Promise<void>;
+  close(): Promise<void>;
+}
+
+export type JobProcessor<T = any> = (job: QueueJob<T>, token?: string) => Promise<unknown>;
+
+export interface WorkerOptions {
+  concurrency: number;
+  /** Record per-minute completed/failed counts for getMetrics. */
+  metrics?: boolean;
+}
+
+export interface JobWorker<T = any> {
+  readonly name: string;
+  on(event: 'completed', listener: (job: QueueJob<T>) => void): unknown;
+  on(event: 'failed', listener: (job: QueueJob<T> | undefined, error: Error) => void): unknown;
+  close(): Promise<void>;
+}
+
+export interface QueueDriver {
+  readonly name: 'bullmq' | 'memory';
+  createQueue<T = any>(name: string, defaults?: JobOptions): JobQueue<T>;
+  createWorker<T = any>(name: string, processor: JobProcessor<T>, options: WorkerOptions): JobWorker<T>;
+}
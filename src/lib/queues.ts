@@ -1,31 +1,117 @@
-import { Queue } from 'bullmq';
-import { redis } from './redis';
+import { queueDriver } from './queue';
 
 export const CHECK_SOURCE_QUEUE = 'check-source';
 export const NOTIFICATION_QUEUE = 'notifications';
+export const METADATA_QUEUE = 'refresh-metadata';
+export const TRUST_SCORE_QUEUE = 'trust-score';
+export const SYNC_PRIORITY_QUEUE = 'sync-priority';
+export const SCHEDULER_QUEUE = 'scheduler';
+export const CHECK_SOURCE_DEAD_LETTER_QUEUE = 'check-source-dead-letter';
+export const EMAIL_QUEUE = 'email';
+export const DIGEST_QUEUE = 'digest';
+export const PUSH_QUEUE = 'push';
+export const WEBHOOK_QUEUE = 'webhooks';
 
-export const checkSourceQueue = new Queue(CHECK_SOURCE_QUEUE, {
-  connection: redis,
-  defaultJobOptions: {
-    attempts: 3,
-    backoff: {
-      type: 'exponential',
-      delay: 5000,
-    },
-    removeOnComplete: { count: 100, age: 3600 },
-    removeOnFail: { count: 500, age: 86400 },
-  },
-});
-
-export const notificationQueue = new Queue(NOTIFICATION_QUEUE, {
-  connection: redis,
-  defaultJobOptions: {
-    attempts: 5,
-    backoff: {
-      type: 'exponential',
-      delay: 1000,
-    },
-    removeOnComplete: { count: 100, age: 3600 },
-    removeOnFail: { count: 500, age: 86400 },
+export const checkSourceQueue = queueDriver.createQueue(CHECK_SOURCE_QUEUE, {
+  attempts: 3,
+  backoff: {
+    type: 'exponential',
+    delay: 5000,
   },
+  removeOnComplete: { count: 100, age: 3600 },
+  removeOnFail: { count: 500, age: 86400 },
+});
+
+export const notificationQueue = queueDriver.createQueue(NOTIFICATION_QUEUE, {
+  attempts: 5,
+  backoff: {
+    type: 'exponential',
+    delay: 1000,
+  },
+  removeOnComplete: { count: 100, age: 3600 },
+  removeOnFail: { count: 500, age: 86400 },
+});
+
+// SMTP outages are retried for about an hour; bounces are not retried
+export const emailQueue = queueDriver.createQueue(EMAIL_QUEUE, {
+  attempts: 6,
+  backoff: {
+    type: 'exponential',
+    delay: 60000,
+  },
+  removeOnComplete: { count: 100, age: 3600 },
+  removeOnFail: { count: 500, age: 86400 },
+});
+
+// Push services are retried briefly; a late push is worse than none
+export const pushQueue = queueDriver.createQueue(PUSH_QUEUE, {
+  attempts: 3,
+  backoff: {
+    type: 'exponential',
+    delay: 30000,
+  },
+  removeOnComplete: { count: 100, age: 3600 },
+  removeOnFail: { count: 500, age: 86400 },
+});
+
+// Webhook receivers get 5 tries over about 2.5 minutes
+export const webhookQueue = queueDriver.createQueue(WEBHOOK_QUEUE, {
+  attempts: 5,
+  backoff: {
+    type: 'exponential',
+    delay: 10000,
+  },
+  removeOnComplete: { count: 100, age: 3600 },
+  removeOnFail: { count: 500, age: 86400 },
+});
+
+// Digest ticks; a missed tick is covered by the next one
+export const digestQueue = queueDriver.createQueue(DIGEST_QUEUE, {
+  attempts: 1,
+  removeOnComplete: { count: 20 },
+  removeOnFail: { count: 50 },
+});
+
+export const metadataQueue = queueDriver.createQueue(METADATA_QUEUE, {
+  attempts: 3,
+  backoff: {
+    type: 'exponential',
+    delay: 30000,
+  },
+  removeOnComplete: { count: 100, age: 3600 },
+  removeOnFail: { count: 500, age: 86400 },
+});
+
+export const trustScoreQueue = queueDriver.createQueue(TRUST_SCORE_QUEUE, {
+  attempts: 2,
+  backoff: {
+    type: 'exponential',
+    delay: 60000,
+  },
+  removeOnComplete: { count: 20 },
+  removeOnFail: { count: 50 },
+});
+
+export const syncPriorityQueue = queueDriver.createQueue(SYNC_PRIORITY_QUEUE, {
+  attempts: 2,
+  backoff: {
+    type: 'exponential',
+    delay: 60000,
+  },
+  removeOnComplete: { count: 20 },
+  removeOnFail: { count: 50 },
+});
+
+// Scheduler ticks; a missed tick is simply covered by the next one
+export const schedulerQueue = queueDriver.createQueue(SCHEDULER_QUEUE, {
+  attempts: 1,
+  removeOnComplete: { count: 20 },
+  removeOnFail: { count: 50 },
+});
+
+// Check-source jobs that exhausted their retries. Nothing consumes this queue;
+// entries stay until an admin retries the source (see source-triage).
+export const checkSourceDeadLetterQueue = queueDriver.createQueue(CHECK_SOURCE_DEAD_LETTER_QUEUE, {
+  removeOnComplete: true,
+  removeOnFail: true,
 });
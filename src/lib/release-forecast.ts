@@ -0,0 +1,60 @@
+import { prisma } from '@/lib/prisma';
+import { forecastRelease } from '@/lib/sync/release-cadence';
+import { Prisma } from '@prisma/client';
+
+// Enough history for a dozen monthly drops
+export const RELEASE_HISTORY_MS = 365 * 24 * 60 * 60 * 1000;
+
+/**
+ * When each chapter of the given series was first released on any source
+ * (published_at, falling back to discovered_at), since the given date.
+ */
+export async function loadReleaseDates(seriesIds: string[], since: Date): Promise<Map<string, Date[]>> {
+  const chapters = await prisma.chapter.findMany({
+    where: {
+      series_id: { in: seriesIds },
+      OR: [
+        { published_at: { gte: since } },
+        { published_at: null, discovered_at: { gte: since } },
+      ],
+    },
+    select: { series_id: true, chapter_number: true, published_at: true, discovered_at: true },
+  });
+
+  // A chapter released on several sources counts once, at its first release
+  const firstRelease = new Map<string, Map<string, Date>>();
+  for (const chapter of chapters) {
+    const releases = firstRelease.get(chapter.series_id) ?? new Map<string, Date>();
+    const key = chapter.chapter_number.toString();
+    const releasedAt = chapter.published_at ?? chapter.discovered_at;
+    const existing = releases.get(key);
+    if (!existing || releasedAt < existing) releases.set(key, releasedAt);
+    firstRelease.set(chapter.series_id, releases);
+  }
+
+  return new Map(Array.from(firstRelease, ([seriesId, releases]) => [seriesId, Array.from(releases.values())]));
+}
+
+/**
+ * Recomputes and stores the release forecast of the given series.
+ */
+export async function refreshReleaseForecasts(
+  seriesIds: string[],
+  releaseDates?: Map<string, Date[]>,
+  now: Date = new Date()
+) {
+  const dates = releaseDates ?? await loadReleaseDates(seriesIds, new Date(now.getTime() - RELEASE_HISTORY_MS));
+
+  await prisma.$transaction(seriesIds.map(seriesId => {
+    const forecast = forecastRelease(dates.get(seriesId) ?? [], now);
+    return prisma.series.update({
+      where: { id: seriesId },
+      data: {
+        release_pattern: forecast.pattern,
+        release_interval_hours: forecast.intervalHours,
+        release_confidence: new Prisma.Decimal(forecast.confidence),
+        next_release_at: forecast.nextReleaseAt,
+      },
+    });
+  }));
+}
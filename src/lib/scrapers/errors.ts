@@ -0,0 +1,11 @@
+export class ScraperError extends Error {
+  constructor(
+    message: string,
+    public readonly source: string,
+    public readonly isRetryable: boolean = true,
+    public readonly statusCode?: number
+  ) {
+    super(message);
+    this.name = 'ScraperError';
+  }
+}
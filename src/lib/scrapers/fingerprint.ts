@@ -0,0 +1,9 @@
+import { createHash } from 'crypto';
+
+/**
+ * Stable SHA-256 of any JSON-serialisable value, used as a content fingerprint.
+ * Dates serialise to ISO strings, so equal content always hashes equally.
+ */
+export function hashContent(value: unknown): string {
+  return createHash('sha256').update(JSON.stringify(value)).digest('hex');
+}
@@ -0,0 +1,293 @@
+import { load, type Cheerio, type CheerioAPI } from 'cheerio';
+import type { AnyNode } from 'domhandler';
+import { ScrapedChapter, ScrapedSeriesMetadata, ScrapeOptions, ScrapeResult, Scraper, SourceFingerprint } from './types';
+import { ScraperError } from './errors';
+import { FetchLike, readValidators, scraperFetchText } from './http';
+import { hashContent } from './fingerprint';
+import { ScraperCapability, ScraperRateLimit } from './registry';
+import {
+  ParsedChapterLabel,
+  parseChapterLabel,
+  parsePublishedDate,
+  parseSeriesStatus,
+  roundChapterNumber,
+} from './normalize';
+
+/**
+ * A CSS selector, optionally reading an attribute instead of the element's text.
+ */
+export type SelectorSpec = string | { selector: string; attribute: string };
+
+/**
+ * Declarative description of an HTML-only source. Adding a site means adding
+ * one of these; the scraper, URL validation and worker pick it up from there.
+ */
+export interface HtmlSiteConfig {
+  /** Matches SeriesSource.source_name (lowercase). */
+  name: string;
+  displayName: string;
+  baseUrl: string;
+  /** Additional hostnames serving the same site (mirrors, www.). */
+  alternateHosts?: string[];
+  /** Path of the series page; `{sourceId}` is replaced with the encoded source id. */
+  seriesPath: string;
+  /** Characters allowed in a source id, checked before any request is made. */
+  sourceIdPattern?: RegExp;
+  /** Patterns matched against a pasted URL's path; the first capture group is the source_id. */
+  urlPatterns: RegExp[];
+  rateLimit: ScraperRateLimit;
+  /** Defaults to ['chapters'], plus 'metadata' when metadataSelectors are declared. */
+  capabilities?: ScraperCapability[];
+  selectors: {
+    title: SelectorSpec;
+    /** One element per chapter row. */
+    chapterItem: string;
+    /** Relative to chapterItem; its href is the chapter URL. */
+    chapterLink: string;
+    /** Relative to chapterItem; defaults to the link text. */
+    chapterLabel?: SelectorSpec;
+    /** Relative to chapterItem. */
+    chapterTitle?: SelectorSpec;
+    /** Relative to chapterItem. */
+    publishedAt?: SelectorSpec;
+  };
+  /** Series details on the series page; declaring these adds the 'metadata' capability. */
+  metadataSelectors?: {
+    description?: SelectorSpec;
+    /** Usually { selector: 'img', attribute: 'src' }; resolved against the page URL. */
+    coverUrl?: SelectorSpec;
+    status?: SelectorSpec;
+    /** One element per genre. */
+    genres?: string;
+    /** One element per tag. */
+    tags?: string;
+    /** One element per alternative title. */
+    alternativeTitles?: string;
+  };
+  /** Order chapters are listed on the page; extras are numbered in reading order. */
+  chapterOrder?: 'asc' | 'desc';
+  headers?: Record<string, string>;
+  timeoutMs?: number;
+}
+
+export interface HtmlScraperOptions {
+  /** Overrides config.baseUrl, so tests can point at a local stub server. */
+  baseUrl?: string;
+  fetch?: FetchLike;
+  now?: () => Date;
+}
+
+interface FetchedDocument {
+  /** Null when the server answered 304 Not Modified. */
+  $: CheerioAPI | null;
+  validators: Pick<SourceFingerprint, 'etag' | 'lastModified'>;
+  bytes: number;
+}
+
+interface ChapterRow {
+  label: ParsedChapterLabel;
+  chapter: Omit<ScrapedChapter, 'chapterNumber'>;
+}
+
+// Extras get the next free hundredth after the preceding numbered chapter (12 -> 12.01)
+const EXTRA_NUMBER_STEP = 0.01;
+
+export class HtmlScraper implements Scraper {
+  private readonly baseUrl: string;
+  private readonly fetchImpl?: FetchLike;
+  private readonly now: () => Date;
+
+  constructor(
+    public readonly config: HtmlSiteConfig,
+    options: HtmlScraperOptions = {}
+  ) {
+    this.baseUrl = (options.baseUrl ?? config.baseUrl).replace(/\/+$/, '');
+    this.fetchImpl = options.fetch;
+    this.now = options.now ?? (() => new Date());
+  }
+
+  async scrapeSeries(sourceId: string, options: ScrapeOptions = {}): Promise<ScrapeResult> {
+    const url = this.seriesUrl(sourceId);
+    console.log(`[${this.config.name}] Scraping sourceId: ${sourceId}`);
+
+    const { previous } = options;
+    const { $, validators, bytes } = await this.fetchDocument(url, previous);
+
+    if (!$) {
+      return {
+        sourceId,
+        unchanged: true,
+        reason: 'not-modified',
+        fingerprint: { ...previous, ...pickDefined(validators) },
+        responseBytes: bytes,
+      };
+    }
+
+    const title = this.readTitle($, url);
+    const chapters = this.parseChapters($, url);
+    // Hash the parsed data rather than the page, which changes with every ad and timestamp
+    const fingerprint = { ...validators, contentHash: hashContent({ title, chapters }) };
+
+    if (previous?.contentHash && previous.contentHash === fingerprint.contentHash) {
+      return { sourceId, unchanged: true, reason: 'content-hash', fingerprint, responseBytes: bytes };
+    }
+
+    return {
+      sourceId,
+      title,
+      chapters,
+      fingerprint,
+      responseBytes: bytes,
+      metadata: this.config.metadataSelectors ? this.parseMetadata($, url, title) : undefined,
+    };
+  }
+
+  async scrapeMetadata(sourceId: string): Promise<ScrapedSeriesMetadata> {
+    const url = this.seriesUrl(sourceId);
+    const { $ } = await this.fetchDocument(url);
+    // Without validators there is no 304, so the document is always present
+    return this.parseMetadata($!, url, this.readTitle($!, url));
+  }
+
+  private seriesUrl(sourceId: string): string {
+    const pattern = this.config.sourceIdPattern ?? /^[\w.-]+$/;
+    if (!pattern.test(sourceId)) {
+      throw new ScraperError(`Invalid ${this.config.name} source id: ${sourceId}`, this.config.name, false);
+    }
+    return this.baseUrl + this.config.seriesPath.replace('{sourceId}', encodeURIComponent(sourceId));
+  }
+
+  private readTitle($: CheerioAPI, url: string): string {
+    const title = readSelector($.root(), this.config.selectors.title);
+    if (!title) {
+      // A page without a title almost always means the layout changed under us
+      throw new ScraperError(`${this.config.name} page layout not recognised at ${url}`, this.config.name, false);
+    }
+    return title;
+  }
+
+  protected parseMetadata($: CheerioAPI, pageUrl: string, title: string): ScrapedSeriesMetadata {
+    const selectors = this.config.metadataSelectors ?? {};
+    const root = $.root();
+    const cover = selectors.coverUrl ? readSelector(root, selectors.coverUrl) : undefined;
+    const readAll = (selector?: string) =>
+      selector ? unique(root.find(selector).map((_, el) => $(el).text().replace(/\s+/g, ' ').trim()).get()) : undefined;
+
+    return {
+      title,
+      alternativeTitles: readAll(selectors.alternativeTitles)?.filter(t => t !== title),
+      description: selectors.description ? readSelector(root, selectors.description) : undefined,
+      coverUrl: cover ? new URL(cover, pageUrl).toString() : undefined,
+      status: selectors.status ? parseSeriesStatus(readSelector(root, selectors.status)) : undefined,
+      genres: readAll(selectors.genres),
+      tags: readAll(selectors.tags),
+    };
+  }
+
+  protected async fetchDocument(url: string, previous?: SourceFingerprint): Promise<FetchedDocument> {
+    const { response, text: html, bytes } = await scraperFetchText(url, {
+      source: this.config.name,
+      timeoutMs: this.config.timeoutMs ?? 30000,
+      headers: { Accept: 'text/html', ...this.config.headers },
+      conditional: previous,
+      fetch: this.fetchImpl,
+    });
+    const validators = readValidators(response);
+
+    if (response.status === 304) {
+      return { $: null, validators, bytes: 0 };
+    }
+
+    return { $: load(html), validators, bytes };
+  }
+
+  protected parseChapters($: CheerioAPI, pageUrl: string): ScrapedChapter[] {
+    const { selectors } = this.config;
+    const rows: ChapterRow[] = [];
+
+    $(selectors.chapterItem).each((_, element) => {
+      const item = $(element);
+      const link = item.find(selectors.chapterLink).first();
+      const href = link.attr('href');
+      if (!href) return;
+
+      const labelText = selectors.chapterLabel ? readSelector(item, selectors.chapterLabel) : link.text();
+      const label = parseChapterLabel(labelText ?? '');
+      if (label.chapterNumber === null && !label.isExtra) return;
+
+      const explicitTitle = selectors.chapterTitle ? readSelector(item, selectors.chapterTitle) : undefined;
+
+      rows.push({
+        label,
+        chapter: {
+          chapterTitle: cleanTitle(explicitTitle) ?? label.title,
+          chapterUrl: new URL(href, pageUrl).toString(),
+          volumeNumber: label.volumeNumber,
+          publishedAt: selectors.publishedAt
+            ? parsePublishedDate(readSelector(item, selectors.publishedAt), this.now())
+            : undefined,
+        },
+      });
+    });
+
+    if (this.config.chapterOrder === 'desc') {
+      rows.reverse();
+    }
+
+    return assignChapterNumbers(rows);
+  }
+}
+
+/**
+ * Gives unnumbered extras a number just after the chapter they follow, so they
+ * fit the (series_source_id, chapter_number) uniqueness constraint.
+ */
+function assignChapterNumbers(rows: ChapterRow[]): ScrapedChapter[] {
+  const taken = new Set(rows.map(r => r.label.chapterNumber).filter((n): n is number => n !== null));
+  const seen = new Set<number>();
+  const chapters: ScrapedChapter[] = [];
+  let previous = 0;
+
+  for (const { label, chapter } of rows) {
+    let chapterNumber = label.chapterNumber;
+
+    if (chapterNumber === null) {
+      chapterNumber = roundChapterNumber(previous + EXTRA_NUMBER_STEP);
+      while (taken.has(chapterNumber)) {
+        chapterNumber = roundChapterNumber(chapterNumber + EXTRA_NUMBER_STEP);
+      }
+      taken.add(chapterNumber);
+    }
+
+    previous = chapterNumber;
+    // Sites occasionally list the same chapter twice (e.g. multiple uploads); keep the first
+    if (seen.has(chapterNumber)) continue;
+    seen.add(chapterNumber);
+
+    chapters.push({ ...chapter, chapterNumber });
+  }
+
+  return chapters.sort((a, b) => a.chapterNumber - b.chapterNumber);
+}
+
+function unique(values: string[]): string[] {
+  return Array.from(new Set(values.filter(Boolean)));
+}
+
+function pickDefined<T extends object>(value: T): Partial<T> {
+  return Object.fromEntries(Object.entries(value).filter(([, v]) => v != null)) as Partial<T>;
+}
+
+function readSelector(scope: Cheerio<AnyNode>, spec: SelectorSpec): string | undefined {
+  const selector = typeof spec === 'string' ? spec : spec.selector;
+  const element = scope.find(selector).first();
+  if (element.length === 0) return undefined;
+
+  const value = typeof spec === 'string' ? element.text() : element.attr(spec.attribute);
+  const trimmed = value?.replace(/\s+/g, ' ').trim();
+  return trimmed || undefined;
+}
+
+function cleanTitle(title: string | undefined): string | undefined {
+  return title?.replace(/^[:\-–—|]+\s*/, '').trim() || undefined;
+}
@@ -0,0 +1,147 @@
+import { ScraperError } from './errors';
+import { SourceFingerprint } from './types';
+
+export type FetchLike = (input: string, init?: RequestInit) => Promise<Response>;
+
+export interface ScraperFetchOptions {
+  source: string;
+  timeoutMs: number;
+  headers?: Record<string, string>;
+  /** Validators from the previous response; a 304 answer is then returned instead of thrown. */
+  conditional?: SourceFingerprint;
+  fetch?: FetchLike;
+}
+
+export interface ScraperJsonResponse<T> {
+  data: T;
+  bytes: number;
+}
+
+export interface ScraperTextResponse {
+  response: Response;
+  /** Empty for a 304 answer. */
+  text: string;
+  bytes: number;
+}
+
+export const SCRAPER_USER_AGENT = 'Kenmei-Sync/1.0 (+https://kenmei.co)';
+
+/**
+ * Runs a request under the scraper timeout, translating transport failures
+ * (including the timeout) into retryable ScraperErrors.
+ */
+async function withTimeout<T>(url: string, options: ScraperFetchOptions, run: (signal: AbortSignal) => Promise<T>): Promise<T> {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), options.timeoutMs);
+
+  try {
+    return await run(controller.signal);
+  } catch (error) {
+    if (error instanceof ScraperError) throw error;
+    const reason = controller.signal.aborted
+      ? `Timeout after ${options.timeoutMs}ms`
+      : error instanceof Error ? error.message : 'Unknown error';
+    throw new ScraperError(`Request to ${url} failed: ${reason}`, options.source, true);
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+async function request(url: string, options: ScraperFetchOptions, signal: AbortSignal): Promise<Response> {
+  const fetchImpl = options.fetch ?? fetch;
+
+  const headers: Record<string, string> = {
+    'User-Agent': SCRAPER_USER_AGENT,
+    ...options.headers,
+  };
+  if (options.conditional?.etag) {
+    headers['If-None-Match'] = options.conditional.etag;
+  }
+  if (options.conditional?.lastModified) {
+    headers['If-Modified-Since'] = options.conditional.lastModified;
+  }
+
+  const response = await fetchImpl(url, { signal, headers });
+
+  if (response.status === 304 && options.conditional) {
+    return response;
+  }
+
+  if (!response.ok) {
+    const isRetryable = response.status === 429 || response.status >= 500;
+    throw new ScraperError(
+      `Request to ${url} failed with HTTP ${response.status}`,
+      options.source,
+      isRetryable,
+      response.status
+    );
+  }
+
+  return response;
+}
+
+/**
+ * Reads the body, giving up when the signal aborts even if the fetch
+ * implementation keeps waiting on the stream.
+ */
+function readText(response: Response, signal: AbortSignal): Promise<string> {
+  if (signal.aborted) return Promise.reject(signal.reason);
+
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      response.body?.cancel().catch(() => undefined);
+      reject(signal.reason);
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+    response.text().then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
+
+/**
+ * Fetches a URL on behalf of a scraper, enforcing a timeout and translating
+ * transport and HTTP failures into ScraperErrors with the right retryability:
+ * 404/410 and other 4xx responses are permanent, 429 and 5xx are retried.
+ * The timeout only covers the response headers; scraperFetchText and
+ * scraperFetchJson also hold it over the body.
+ */
+export async function scraperFetch(url: string, options: ScraperFetchOptions): Promise<Response> {
+  return withTimeout(url, options, signal => request(url, options, signal));
+}
+
+/**
+ * Same as scraperFetch but also reads the body within the timeout, so a
+ * source that sends headers and then trickles the body cannot hold a worker.
+ */
+export async function scraperFetchText(url: string, options: ScraperFetchOptions): Promise<ScraperTextResponse> {
+  return withTimeout(url, options, async signal => {
+    const response = await request(url, options, signal);
+    const text = response.status === 304 ? '' : await readText(response, signal);
+    return { response, text, bytes: Buffer.byteLength(text) };
+  });
+}
+
+/**
+ * Same as scraperFetchText but parses the body as JSON, reporting its size.
+ */
+export async function scraperFetchJson<T>(url: string, options: ScraperFetchOptions): Promise<ScraperJsonResponse<T>> {
+  const { response, text, bytes } = await scraperFetchText(url, {
+    ...options,
+    headers: { Accept: 'application/json', ...options.headers },
+  });
+
+  try {
+    return { data: JSON.parse(text) as T, bytes };
+  } catch {
+    throw new ScraperError(`Invalid JSON from ${url}`, options.source, true, response.status);
+  }
+}
+
+/**
+ * Reads the cache validators a response can be revalidated with.
+ */
+export function readValidators(response: Response): Pick<SourceFingerprint, 'etag' | 'lastModified'> {
+  return {
+    etag: response.headers.get('etag'),
+    lastModified: response.headers.get('last-modified'),
+  };
+}
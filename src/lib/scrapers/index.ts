@@ -1,141 +1,85 @@
-export interface ScrapedChapter {
-  chapterNumber: number;
-  chapterTitle?: string;
-  chapterUrl: string;
-  publishedAt?: Date;
-}
+import { MangaDexScraper } from './mangadex';
+import { HtmlScraper, HtmlSiteConfig } from './html-scraper';
+import { ParsedSourceUrl, ScraperPlugin, ScraperRegistry } from './registry';
+import { HTML_SITES } from './sites';
 
-export interface ScrapedSeries {
-  sourceId: string;
-  title: string;
-  chapters: ScrapedChapter[];
-}
+export type {
+  ScrapedChapter,
+  ScrapedSeries,
+  ScrapedSeriesMetadata,
+  ScrapeOptions,
+  SeriesStatus,
+  ScrapeResult,
+  Scraper,
+  SourceFingerprint,
+  UnchangedSeries,
+} from './types';
+export type { HtmlSiteConfig, SelectorSpec } from './html-scraper';
+export type { ScraperCapability, ScraperPlugin, ScraperRateLimit, ParsedSourceUrl } from './registry';
+export { ScraperError } from './errors';
+export { MangaDexScraper } from './mangadex';
+export { HtmlScraper } from './html-scraper';
+export { ScraperRegistry, hasCapability } from './registry';
+export { parseChapterLabel, parsePublishedDate, parseSeriesStatus } from './normalize';
 
-export interface Scraper {
-  scrapeSeries(sourceId: string): Promise<ScrapedSeries>;
-}
+/**
+ * Every source the workers can sync. Hostnames registered here are the only
+ * ones source URLs may point at, which keeps scraping from being used for SSRF.
+ */
+export const scraperRegistry = new ScraperRegistry();
 
-// Allowed hostnames to prevent SSRF
-const ALLOWED_HOSTS = new Set([
-  'mangapark.io',
-  'www.mangapark.io',
-  'mangadex.org',
-  'api.mangadex.org',
-]);
+scraperRegistry.register({
+  name: 'mangadex',
+  displayName: 'MangaDex',
+  hosts: ['mangadex.org', 'www.mangadex.org', 'api.mangadex.org'],
+  urlPatterns: [/^\/title\/([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})(?:\/|$)/i],
+  // MangaDex allows ~5 requests/second per IP; leave headroom for the web app
+  rateLimit: { requestsPerMinute: 240, maxConcurrent: 3 },
+  capabilities: ['chapters', 'metadata', 'covers'],
+  scraper: new MangaDexScraper(),
+});
 
-export function validateSourceUrl(url: string): boolean {
-  try {
-    const parsed = new URL(url);
-    return ALLOWED_HOSTS.has(parsed.hostname);
-  } catch {
-    return false;
-  }
-}
+/**
+ * Registers an HTML-only site from its declarative config.
+ */
+export function registerHtmlSite(config: HtmlSiteConfig): ScraperPlugin {
+  const plugin: ScraperPlugin = {
+    name: config.name,
+    displayName: config.displayName,
+    hosts: [new URL(config.baseUrl).hostname, ...(config.alternateHosts ?? [])],
+    urlPatterns: config.urlPatterns,
+    rateLimit: config.rateLimit,
+    capabilities: config.capabilities ?? (config.metadataSelectors ? ['chapters', 'metadata'] : ['chapters']),
+    scraper: new HtmlScraper(config),
+  };
 
-export class ScraperError extends Error {
-  constructor(
-    message: string,
-    public readonly source: string,
-    public readonly isRetryable: boolean = true
-  ) {
-    super(message);
-    this.name = 'ScraperError';
-  }
+  scraperRegistry.register(plugin);
+  return plugin;
 }
 
-export class MangaParkScraper implements Scraper {
-  private readonly TIMEOUT_MS = 30000;
+HTML_SITES.forEach(registerHtmlSite);
 
-  async scrapeSeries(sourceId: string): Promise<ScrapedSeries> {
-    console.log(`[MangaPark] Scraping sourceId: ${sourceId}`);
-    
-    try {
-      // Simulate network delay with timeout
-      await Promise.race([
-        new Promise(resolve => setTimeout(resolve, 1000)),
-        new Promise((_, reject) => 
-          setTimeout(() => reject(new Error('Timeout')), this.TIMEOUT_MS)
-        ),
-      ]);
-
-      // Mock response - in production, this would be actual scraping
-      return {
-        sourceId,
-        title: `MangaPark - ${sourceId}`,
-        chapters: [
-          {
-            chapterNumber: 1,
-            chapterTitle: "The Beginning",
-            chapterUrl: `https://mangapark.io/title/${encodeURIComponent(sourceId)}/c1`,
-            publishedAt: new Date(Date.now() - 86400000 * 10),
-          },
-          {
-            chapterNumber: 2,
-            chapterTitle: "The Journey",
-            chapterUrl: `https://mangapark.io/title/${encodeURIComponent(sourceId)}/c2`,
-            publishedAt: new Date(Date.now() - 86400000 * 5),
-          },
-          {
-            chapterNumber: 3,
-            chapterTitle: "New Discovery",
-            chapterUrl: `https://mangapark.io/title/${encodeURIComponent(sourceId)}/c3`,
-            publishedAt: new Date(),
-          }
-        ]
-      };
-    } catch (error) {
-      throw new ScraperError(
-        `MangaPark scraping failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
-        'mangapark',
-        true
-      );
-    }
-  }
-}
-
-export class MangaDexScraper implements Scraper {
-  private readonly TIMEOUT_MS = 30000;
+/**
+ * Checks that a source URL points at a registered host. When sourceName is
+ * given, the host must also belong to that source.
+ */
+export function validateSourceUrl(url: string, sourceName?: string): boolean {
+  try {
+    const parsed = new URL(url);
+    if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') return false;
 
-  async scrapeSeries(sourceId: string): Promise<ScrapedSeries> {
-    console.log(`[MangaDex] Fetching sourceId: ${sourceId}`);
-    
-    try {
-      await Promise.race([
-        new Promise(resolve => setTimeout(resolve, 800)),
-        new Promise((_, reject) => 
-          setTimeout(() => reject(new Error('Timeout')), this.TIMEOUT_MS)
-        ),
-      ]);
+    const plugin = scraperRegistry.findByHost(parsed.hostname);
+    if (!plugin) return false;
 
-      return {
-        sourceId,
-        title: `MangaDex - ${sourceId}`,
-        chapters: [
-          {
-            chapterNumber: 1,
-            chapterTitle: "Chapter 1",
-            chapterUrl: `https://mangadex.org/chapter/${encodeURIComponent(sourceId)}-c1`,
-            publishedAt: new Date(Date.now() - 86400000 * 20),
-          },
-          {
-            chapterNumber: 1.5,
-            chapterTitle: "Extra",
-            chapterUrl: `https://mangadex.org/chapter/${encodeURIComponent(sourceId)}-c1.5`,
-            publishedAt: new Date(Date.now() - 86400000 * 15),
-          }
-        ]
-      };
-    } catch (error) {
-      throw new ScraperError(
-        `MangaDex fetch failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
-        'mangadex',
-        true
-      );
-    }
+    return !sourceName || plugin.name === sourceName.toLowerCase();
+  } catch {
+    return false;
   }
 }
 
-export const scrapers: Record<string, Scraper> = {
-  'mangapark': new MangaParkScraper(),
-  'mangadex': new MangaDexScraper(),
-};
+/**
+ * Parses a pasted series or chapter URL into a source name and source_id.
+ */
+export function parseSourceUrl(url: string): ParsedSourceUrl | null {
+  return scraperRegistry.parseUrl(url);
+}
@@ -0,0 +1,339 @@
+import { ScrapedChapter, ScrapedSeriesMetadata, ScrapeOptions, ScrapeResult, Scraper } from './types';
+import { ScraperError } from './errors';
+import { FetchLike, scraperFetchJson } from './http';
+import { hashContent } from './fingerprint';
+import { parseSeriesStatus, roundChapterNumber } from './normalize';
+
+const SOURCE = 'mangadex';
+
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// MangaDex rejects feed requests where offset + limit exceeds 10,000
+const MAX_FEED_WINDOW = 10000;
+const MAX_PAGE_SIZE = 500;
+
+interface MangaDexEntity<TAttributes> {
+  id: string;
+  type: string;
+  attributes: TAttributes;
+  relationships?: { id: string; type: string; attributes?: Record<string, unknown> }[];
+}
+
+interface MangaDexChapterAttributes {
+  volume: string | null;
+  chapter: string | null;
+  title: string | null;
+  translatedLanguage: string;
+  externalUrl: string | null;
+  publishAt: string | null;
+  readableAt?: string | null;
+  updatedAt?: string;
+  pages: number;
+  isUnavailable?: boolean;
+}
+
+interface MangaDexMangaAttributes {
+  title: Record<string, string>;
+  altTitles?: Record<string, string>[];
+  description?: Record<string, string>;
+  status?: string | null;
+  contentRating?: string | null;
+  tags?: MangaDexEntity<{ name: Record<string, string>; group: string }>[];
+}
+
+interface MangaDexCollectionResponse<T> {
+  result: 'ok' | 'error';
+  data: T[];
+  limit: number;
+  offset: number;
+  total: number;
+}
+
+interface MangaDexEntityResponse<T> {
+  result: 'ok' | 'error';
+  data: T;
+}
+
+type MangaDexChapter = MangaDexEntity<MangaDexChapterAttributes>;
+type MangaDexManga = MangaDexEntity<MangaDexMangaAttributes>;
+
+/** Running total of response bytes for one check. */
+interface ByteCounter {
+  bytes: number;
+}
+
+export interface MangaDexScraperOptions {
+  /** API root, overridable so tests can point at a local stub server. */
+  baseUrl?: string;
+  /** Public site root used to build chapter links. */
+  siteUrl?: string;
+  /** Cover image host. */
+  uploadsUrl?: string;
+  /** Translated languages to keep, in order of preference. */
+  languages?: string[];
+  pageSize?: number;
+  timeoutMs?: number;
+  fetch?: FetchLike;
+}
+
+export class MangaDexScraper implements Scraper {
+  private readonly baseUrl: string;
+  private readonly siteUrl: string;
+  private readonly uploadsUrl: string;
+  private readonly languages: string[];
+  private readonly pageSize: number;
+  private readonly timeoutMs: number;
+  private readonly fetchImpl?: FetchLike;
+
+  constructor(options: MangaDexScraperOptions = {}) {
+    this.baseUrl = (options.baseUrl ?? process.env.MANGADEX_API_URL ?? 'https://api.mangadex.org').replace(/\/+$/, '');
+    this.siteUrl = (options.siteUrl ?? 'https://mangadex.org').replace(/\/+$/, '');
+    this.uploadsUrl = (options.uploadsUrl ?? 'https://uploads.mangadex.org').replace(/\/+$/, '');
+    this.languages = options.languages
+      ?? (process.env.MANGADEX_LANGUAGES || 'en').split(',').map(l => l.trim()).filter(Boolean);
+    this.pageSize = Math.min(options.pageSize ?? MAX_PAGE_SIZE, MAX_PAGE_SIZE);
+    this.timeoutMs = options.timeoutMs ?? 30000;
+    this.fetchImpl = options.fetch;
+  }
+
+  async scrapeSeries(sourceId: string, options: ScrapeOptions = {}): Promise<ScrapeResult> {
+    if (!UUID_REGEX.test(sourceId)) {
+      throw new ScraperError(`Invalid MangaDex manga id: ${sourceId}`, SOURCE, false);
+    }
+
+    console.log(`[MangaDex] Fetching sourceId: ${sourceId}`);
+
+    const usage: ByteCounter = { bytes: 0 };
+    const contentHash = await this.probeFeed(sourceId, usage);
+    const fingerprint = { contentHash };
+
+    if (options.previous?.contentHash === contentHash) {
+      return { sourceId, unchanged: true, reason: 'content-hash', fingerprint, responseBytes: usage.bytes };
+    }
+
+    const manga = await this.fetchManga(sourceId, usage);
+    const feed = await this.fetchFeed(sourceId, usage);
+
+    return {
+      sourceId,
+      title: pickTitle(manga.attributes) ?? sourceId,
+      chapters: this.mapChapters(feed.chapters),
+      partial: feed.partial || undefined,
+      metadata: this.mapMetadata(manga),
+      fingerprint,
+      responseBytes: usage.bytes,
+    };
+  }
+
+  async scrapeMetadata(sourceId: string): Promise<ScrapedSeriesMetadata> {
+    if (!UUID_REGEX.test(sourceId)) {
+      throw new ScraperError(`Invalid MangaDex manga id: ${sourceId}`, SOURCE, false);
+    }
+
+    return this.mapMetadata(await this.fetchManga(sourceId, { bytes: 0 }));
+  }
+
+  private async fetchManga(sourceId: string, usage: ByteCounter): Promise<MangaDexManga> {
+    const response = await this.get<MangaDexEntityResponse<MangaDexManga>>(
+      `/manga/${sourceId}?includes[]=cover_art`,
+      usage
+    );
+    return response.data;
+  }
+
+  private mapMetadata(manga: MangaDexManga): ScrapedSeriesMetadata {
+    const { attributes } = manga;
+    const title = pickTitle(attributes);
+    const tags = attributes.tags ?? [];
+    const tagName = (tag: (typeof tags)[number]) => tag.attributes.name.en ?? Object.values(tag.attributes.name)[0];
+
+    const coverFile = manga.relationships?.find(r => r.type === 'cover_art')?.attributes?.fileName;
+
+    return {
+      title,
+      // Keep readable alt titles: configured languages, English and romanizations ("ja-ro")
+      alternativeTitles: Array.from(new Set(
+        (attributes.altTitles ?? [])
+          .flatMap(t => Object.entries(t))
+          .filter(([language]) => this.languages.includes(language) || language === 'en' || language.endsWith('-ro'))
+          .map(([, value]) => value.trim())
+          .filter(value => value && value !== title)
+      )),
+      description: pickLocalized(attributes.description, this.languages)?.trim() || undefined,
+      coverUrl: typeof coverFile === 'string' ? `${this.uploadsUrl}/covers/${manga.id}/${coverFile}` : undefined,
+      status: parseSeriesStatus(attributes.status),
+      genres: tags.filter(t => t.attributes.group === 'genre').map(tagName).filter(Boolean),
+      tags: tags.filter(t => t.attributes.group !== 'genre').map(tagName).filter(Boolean),
+      contentRating: attributes.contentRating ?? undefined,
+    };
+  }
+
+  /**
+   * The API sends no cache validators, so a single-entry feed request ordered
+   * by updatedAt stands in for one: any upload, edit or removal changes either
+   * the feed total or its most recently updated chapter.
+   */
+  private async probeFeed(sourceId: string, usage: ByteCounter): Promise<string> {
+    const params = this.feedParams();
+    params.set('limit', '1');
+    params.set('order[updatedAt]', 'desc');
+
+    const page = await this.get<MangaDexCollectionResponse<MangaDexChapter>>(
+      `/manga/${sourceId}/feed?${params.toString()}`,
+      usage
+    );
+    const latest = page.data[0];
+
+    return hashContent([page.total, latest?.id ?? null, latest?.attributes.updatedAt ?? null, this.languages]);
+  }
+
+  /**
+   * Pages through /manga/{id}/feed until every chapter has been read or
+   * MangaDex's pagination window is exhausted.
+   */
+  private async fetchFeed(sourceId: string, usage: ByteCounter): Promise<{ chapters: MangaDexChapter[]; partial: boolean }> {
+    const chapters: MangaDexChapter[] = [];
+    let offset = 0;
+    let total = Infinity;
+
+    while (offset < total && offset + this.pageSize <= MAX_FEED_WINDOW) {
+      const params = this.feedParams();
+      params.set('limit', String(this.pageSize));
+      params.set('offset', String(offset));
+      params.set('order[chapter]', 'asc');
+
+      const page = await this.get<MangaDexCollectionResponse<MangaDexChapter>>(
+        `/manga/${sourceId}/feed?${params.toString()}`,
+        usage
+      );
+
+      chapters.push(...page.data);
+      total = page.total;
+
+      if (page.data.length === 0) break;
+      offset += page.data.length;
+    }
+
+    if (offset < total) {
+      console.warn(`[MangaDex] Feed for ${sourceId} truncated at ${offset}/${total} chapters`);
+    }
+
+    return { chapters, partial: offset < total };
+  }
+
+  private feedParams(): URLSearchParams {
+    const params = new URLSearchParams({
+      includeFutureUpdates: '0',
+      includeExternalUrl: '1',
+      includeEmptyPages: '1',
+    });
+    for (const language of this.languages) {
+      params.append('translatedLanguage[]', language);
+    }
+    for (const rating of ['safe', 'suggestive', 'erotica', 'pornographic']) {
+      params.append('contentRating[]', rating);
+    }
+    return params;
+  }
+
+  /**
+   * Collapses scanlation-group duplicates into one chapter per number,
+   * preferring readable uploads, then preferred languages, then the earliest release.
+   */
+  private mapChapters(feed: MangaDexChapter[]): ScrapedChapter[] {
+    const byNumber = new Map<number, { chapter: ScrapedChapter; languageRank: number }>();
+
+    for (const entry of feed) {
+      const mapped = this.mapChapter(entry);
+      if (!mapped) continue;
+
+      const languageRank = rankOf(this.languages, entry.attributes.translatedLanguage);
+      const existing = byNumber.get(mapped.chapterNumber);
+      if (!existing || isPreferred(mapped, languageRank, existing.chapter, existing.languageRank)) {
+        byNumber.set(mapped.chapterNumber, { chapter: mapped, languageRank });
+      }
+    }
+
+    return Array.from(byNumber.values())
+      .map(({ chapter }) => chapter)
+      .sort((a, b) => a.chapterNumber - b.chapterNumber);
+  }
+
+  private mapChapter(entry: MangaDexChapter): ScrapedChapter | null {
+    const { attributes } = entry;
+
+    // Oneshots have no chapter number; track them as chapter 0
+    const chapterNumber = attributes.chapter === null ? 0 : parseNumber(attributes.chapter);
+    if (chapterNumber === null) {
+      console.warn(`[MangaDex] Skipping chapter ${entry.id} with non-numeric number "${attributes.chapter}"`);
+      return null;
+    }
+
+    const volumeNumber = attributes.volume === null ? null : parseNumber(attributes.volume);
+    const published = attributes.publishAt ?? attributes.readableAt ?? null;
+
+    return {
+      chapterNumber,
+      chapterTitle: attributes.title?.trim() || undefined,
+      chapterUrl: attributes.externalUrl || `${this.siteUrl}/chapter/${entry.id}`,
+      volumeNumber: volumeNumber !== null && Number.isInteger(volumeNumber) ? volumeNumber : undefined,
+      publishedAt: published ? new Date(published) : undefined,
+      isAvailable: attributes.isUnavailable !== true,
+    };
+  }
+
+  private async get<T extends { result: string }>(path: string, usage: ByteCounter): Promise<T> {
+    const { data: body, bytes } = await scraperFetchJson<T>(`${this.baseUrl}${path}`, {
+      source: SOURCE,
+      timeoutMs: this.timeoutMs,
+      fetch: this.fetchImpl,
+    });
+    usage.bytes += bytes;
+
+    if (body.result !== 'ok') {
+      throw new ScraperError(`MangaDex returned an error result for ${path}`, SOURCE, true);
+    }
+
+    return body;
+  }
+}
+
+function parseNumber(value: string): number | null {
+  const trimmed = value.trim();
+  if (!/^\d+(\.\d+)?$/.test(trimmed)) return null;
+  return roundChapterNumber(parseFloat(trimmed));
+}
+
+function pickTitle(attributes: MangaDexMangaAttributes): string | undefined {
+  const titles = attributes.title || {};
+  return titles.en
+    ?? attributes.altTitles?.find(t => t.en)?.en
+    ?? Object.values(titles)[0];
+}
+
+function pickLocalized(values: Record<string, string> | undefined, languages: string[]): string | undefined {
+  if (!values) return undefined;
+  return languages.map(l => values[l]).find(Boolean) ?? values.en ?? Object.values(values)[0];
+}
+
+function rankOf(languages: string[], language: string): number {
+  const index = languages.indexOf(language);
+  return index === -1 ? languages.length : index;
+}
+
+function isPreferred(
+  candidate: ScrapedChapter,
+  candidateRank: number,
+  current: ScrapedChapter,
+  currentRank: number
+): boolean {
+  if (candidate.isAvailable !== current.isAvailable) {
+    return candidate.isAvailable === true;
+  }
+  if (candidateRank !== currentRank) {
+    return candidateRank < currentRank;
+  }
+  const candidateTime = candidate.publishedAt?.getTime() ?? Infinity;
+  const currentTime = current.publishedAt?.getTime() ?? Infinity;
+  return candidateTime < currentTime;
+}
@@ -0,0 +1,107 @@
+import { SeriesStatus } from './types';
+
+export interface ParsedChapterLabel {
+  chapterNumber: number | null;
+  volumeNumber?: number;
+  title?: string;
+  /** True for unnumbered bonus chapters ("Extra", "Side Story", "Omake"...). */
+  isExtra: boolean;
+}
+
+const VOLUME_PATTERN = /\b(?:vol(?:ume)?|v)\.?\s*(\d+)/i;
+const CHAPTER_PATTERN = /\b(?:ch(?:apter|ap)?|c|ep(?:isode)?)\.?\s*(\d+(?:\.\d+)?)/i;
+const BARE_NUMBER_PATTERN = /^#?\s*(\d+(?:\.\d+)?)\b/;
+const EXTRA_PATTERN = /\b(extra|bonus|special|omake|side\s*story|oneshot|one-shot|prologue|epilogue|afterword|illustration)s?\b/i;
+// Separators between the number and the chapter's own title, e.g. "Ch. 12: Title" or "Ch.12 - Title"
+const TITLE_SEPARATOR_PATTERN = /^\s*[:\-–—|]+\s*/;
+
+/**
+ * Parses free-form chapter labels as they appear on HTML sources, e.g.
+ * "Ch. 12.5", "Vol.3 Ch.20: The Storm", "Chapter 7 - Title", "Extra".
+ */
+export function parseChapterLabel(label: string): ParsedChapterLabel {
+  const text = label.replace(/\s+/g, ' ').trim();
+
+  const volumeMatch = text.match(VOLUME_PATTERN);
+  const volumeNumber = volumeMatch ? parseInt(volumeMatch[1], 10) : undefined;
+
+  let rest = volumeMatch ? text.replace(volumeMatch[0], ' ').trim() : text;
+  let chapterNumber: number | null = null;
+
+  const chapterMatch = rest.match(CHAPTER_PATTERN) ?? rest.match(BARE_NUMBER_PATTERN);
+  if (chapterMatch) {
+    chapterNumber = roundChapterNumber(parseFloat(chapterMatch[1]));
+    rest = rest.slice(0, chapterMatch.index) + rest.slice((chapterMatch.index ?? 0) + chapterMatch[0].length);
+  }
+
+  const title = rest.replace(TITLE_SEPARATOR_PATTERN, '').trim() || undefined;
+  const isExtra = chapterNumber === null && EXTRA_PATTERN.test(text);
+
+  return {
+    chapterNumber,
+    volumeNumber,
+    title: title ?? (isExtra ? text : undefined),
+    isExtra,
+  };
+}
+
+const RELATIVE_UNITS_MS: Record<string, number> = {
+  second: 1000,
+  sec: 1000,
+  minute: 60 * 1000,
+  min: 60 * 1000,
+  hour: 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000,
+  week: 7 * 24 * 60 * 60 * 1000,
+  month: 30 * 24 * 60 * 60 * 1000,
+  year: 365 * 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Parses absolute ("2024-03-01", "Mar 1, 2024") and relative ("3 days ago",
+ * "an hour ago", "yesterday") publish dates. Returns undefined when unparseable.
+ */
+export function parsePublishedDate(value: string | undefined | null, now: Date = new Date()): Date | undefined {
+  if (!value) return undefined;
+  const text = value.trim().toLowerCase();
+  if (!text) return undefined;
+
+  if (text === 'just now' || text === 'today') return now;
+  if (text === 'yesterday') return new Date(now.getTime() - RELATIVE_UNITS_MS.day);
+
+  const relative = text.match(/^(\d+|an?)\s+(sec|second|min|minute|hour|day|week|month|year)s?\s+ago$/);
+  if (relative) {
+    const amount = /^\d+$/.test(relative[1]) ? parseInt(relative[1], 10) : 1;
+    return new Date(now.getTime() - amount * RELATIVE_UNITS_MS[relative[2]]);
+  }
+
+  // Unix timestamps in milliseconds (MangaPark renders these in data attributes)
+  if (/^\d{12,13}$/.test(text)) {
+    return new Date(parseInt(text, 10));
+  }
+
+  const parsed = Date.parse(value.trim());
+  return Number.isNaN(parsed) ? undefined : new Date(parsed);
+}
+
+/**
+ * chapter_number is stored as Decimal(10, 2)
+ */
+export function roundChapterNumber(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+const STATUS_PATTERNS: [RegExp, SeriesStatus][] = [
+  [/\b(completed?|finished|ended)\b/i, 'completed'],
+  [/\b(hiatus|on hold|paused)\b/i, 'hiatus'],
+  [/\b(cancell?ed|discontinued|dropped|axed)\b/i, 'cancelled'],
+  [/\b(ongoing|publishing|releasing|serializing)\b/i, 'ongoing'],
+];
+
+/**
+ * Maps the many ways sites label publication status onto Series.status.
+ */
+export function parseSeriesStatus(value: string | undefined | null): SeriesStatus | undefined {
+  if (!value) return undefined;
+  return STATUS_PATTERNS.find(([pattern]) => pattern.test(value))?.[1];
+}
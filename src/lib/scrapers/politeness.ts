@@ -0,0 +1,155 @@
+import type Redis from 'ioredis';
+import { redis } from '@/lib/redis';
+import { metrics } from '@/lib/metrics';
+import { QUEUE_DRIVER } from '@/lib/queue';
+import { ScraperRateLimit } from './registry';
+
+// A lease outlives any realistic scrape; it only matters if a worker dies mid-check
+const LEASE_TTL_MS = 5 * 60 * 1000;
+const RATE_WINDOW_MS = 60 * 1000;
+// How long to wait before retrying when every concurrency slot is taken
+const CONCURRENCY_RETRY_MS = 5000;
+const MAX_JITTER_MS = 1000;
+
+export type BudgetExhaustedReason = 'concurrency' | 'rate';
+
+export type BudgetDecision =
+  | { allowed: true; release: () => Promise<void> }
+  | { allowed: false; reason: BudgetExhaustedReason; retryAfterMs: number };
+
+/**
+ * Atomically checks both budgets and, if they allow it, takes a concurrency
+ * lease and records the request. Returns {1} on success, or {0, reason, wait}.
+ *
+ * KEYS[1] active leases (zset: lease id -> expiry)
+ * KEYS[2] recent requests (zset: request id -> timestamp)
+ * ARGV: now, leaseId, leaseTtl, maxConcurrent, requestsPerMinute, window
+ */
+const ACQUIRE_SCRIPT = `
+local now = tonumber(ARGV[1])
+local leaseTtl = tonumber(ARGV[3])
+local maxConcurrent = tonumber(ARGV[4])
+local rpm = tonumber(ARGV[5])
+local window = tonumber(ARGV[6])
+
+redis.call('ZREMRANGEBYSCORE', KEYS[1], '-inf', now)
+redis.call('ZREMRANGEBYSCORE', KEYS[2], '-inf', now - window)
+
+if redis.call('ZSCORE', KEYS[1], ARGV[2]) then
+  return {1}
+end
+
+if redis.call('ZCARD', KEYS[1]) >= maxConcurrent then
+  return {0, 'concurrency', 0}
+end
+
+if redis.call('ZCARD', KEYS[2]) >= rpm then
+  local oldest = redis.call('ZRANGE', KEYS[2], 0, 0, 'WITHSCORES')
+  return {0, 'rate', tonumber(oldest[2]) + window - now}
+end
+
+redis.call('ZADD', KEYS[1], now + leaseTtl, ARGV[2])
+redis.call('ZADD', KEYS[2], now, ARGV[2] .. ':' .. now)
+redis.call('PEXPIRE', KEYS[1], leaseTtl)
+redis.call('PEXPIRE', KEYS[2], window)
+return {1}
+`;
+
+const budgetExhausted = metrics.counter(
+  'scraper_budget_exhausted_total',
+  'Checks delayed because a source host budget was exhausted'
+);
+const budgetDelay = metrics.histogram(
+  'scraper_budget_delay_seconds',
+  'Delay applied to checks that exceeded a source host budget',
+  [1, 5, 10, 30, 60, 120, 300]
+);
+
+/**
+ * Per-source politeness budgets (concurrent checks and checks started per
+ * minute) shared by every worker process through Redis.
+ */
+export class HostBudget {
+  constructor(private readonly client: Redis = redis) {}
+
+  async acquire(sourceName: string, limit: ScraperRateLimit, leaseId: string): Promise<BudgetDecision> {
+    const activeKey = `scrape-budget:${sourceName}:active`;
+    const requestsKey = `scrape-budget:${sourceName}:requests`;
+
+    const result = await this.client.eval(
+      ACQUIRE_SCRIPT,
+      2,
+      activeKey,
+      requestsKey,
+      Date.now(),
+      leaseId,
+      LEASE_TTL_MS,
+      limit.maxConcurrent,
+      limit.requestsPerMinute,
+      RATE_WINDOW_MS
+    ) as [number, BudgetExhaustedReason?, number?];
+
+    if (result[0] === 1) {
+      return {
+        allowed: true,
+        release: async () => {
+          await this.client.zrem(activeKey, leaseId);
+        },
+      };
+    }
+
+    const reason = result[1] as BudgetExhaustedReason;
+    return exhausted(sourceName, reason, reason === 'rate' ? Number(result[2]) || 0 : CONCURRENCY_RETRY_MS);
+  }
+}
+
+function exhausted(sourceName: string, reason: BudgetExhaustedReason, waitMs: number): BudgetDecision {
+  // Jitter keeps a burst of delayed checks from waking up in lockstep
+  const retryAfterMs = Math.max(waitMs, 0) + Math.floor(Math.random() * MAX_JITTER_MS);
+
+  budgetExhausted.inc({ source: sourceName, reason });
+  budgetDelay.observe({ source: sourceName, reason }, retryAfterMs / 1000);
+
+  return { allowed: false, reason, retryAfterMs };
+}
+
+/**
+ * The same budgets kept in process memory, for the in-memory queue driver
+ * where every worker runs in this process.
+ */
+export class MemoryHostBudget {
+  private leases = new Map<string, Map<string, number>>();
+  private requests = new Map<string, number[]>();
+
+  async acquire(sourceName: string, limit: ScraperRateLimit, leaseId: string): Promise<BudgetDecision> {
+    const now = Date.now();
+    const leases = this.leases.get(sourceName) ?? new Map<string, number>();
+    const requests = (this.requests.get(sourceName) ?? []).filter(at => at > now - RATE_WINDOW_MS);
+    this.leases.set(sourceName, leases);
+    this.requests.set(sourceName, requests);
+
+    for (const [id, expiresAt] of leases) {
+      if (expiresAt <= now) leases.delete(id);
+    }
+
+    const release = async () => {
+      leases.delete(leaseId);
+    };
+
+    if (leases.has(leaseId)) {
+      return { allowed: true, release };
+    }
+    if (leases.size >= limit.maxConcurrent) {
+      return exhausted(sourceName, 'concurrency', CONCURRENCY_RETRY_MS);
+    }
+    if (requests.length >= limit.requestsPerMinute) {
+      return exhausted(sourceName, 'rate', requests[0] + RATE_WINDOW_MS - now);
+    }
+
+    leases.set(leaseId, now + LEASE_TTL_MS);
+    requests.push(now);
+    return { allowed: true, release };
+  }
+}
+
+export const hostBudget: Pick<HostBudget, 'acquire'> = QUEUE_DRIVER === 'memory' ? new MemoryHostBudget() : new HostBudget();
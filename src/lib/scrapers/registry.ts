@@ -0,0 +1,116 @@
+import { Scraper } from './types';
+
+export type ScraperCapability = 'chapters' | 'metadata' | 'covers' | 'search';
+
+/**
+ * Politeness budget for a source, enforced across all workers by HostBudget.
+ * One source check counts as one request, however many pages it fetches.
+ */
+export interface ScraperRateLimit {
+  /** Checks started against the source per rolling minute. */
+  requestsPerMinute: number;
+  /** Checks allowed to run against the source at the same time. */
+  maxConcurrent: number;
+}
+
+export interface ScraperPlugin {
+  /** Matches SeriesSource.source_name (lowercase). */
+  name: string;
+  displayName: string;
+  /** Hostnames the scraper may contact and that source URLs may point at. */
+  hosts: string[];
+  /** Patterns matched against a pasted URL's path; the first capture group is the source_id. */
+  urlPatterns: RegExp[];
+  rateLimit: ScraperRateLimit;
+  capabilities: ScraperCapability[];
+  scraper: Scraper;
+}
+
+export interface ParsedSourceUrl {
+  sourceName: string;
+  sourceId: string;
+}
+
+export class ScraperRegistry {
+  private plugins = new Map<string, ScraperPlugin>();
+  private hostOwners = new Map<string, string>();
+
+  register(plugin: ScraperPlugin): void {
+    const name = plugin.name.toLowerCase();
+
+    for (const host of plugin.hosts) {
+      const owner = this.hostOwners.get(host);
+      if (owner && owner !== name) {
+        throw new Error(`Host ${host} is already registered to scraper ${owner}`);
+      }
+    }
+    for (const pattern of plugin.urlPatterns) {
+      // Matching the empty alternative reveals how many capture groups the pattern has
+      if (new RegExp(`${pattern.source}|`).exec('')!.length < 2) {
+        throw new Error(`URL pattern ${pattern} for scraper ${name} has no sourceId capture group`);
+      }
+    }
+
+    this.unregister(name);
+    this.plugins.set(name, { ...plugin, name });
+    for (const host of plugin.hosts) {
+      this.hostOwners.set(host, name);
+    }
+  }
+
+  unregister(name: string): void {
+    const key = name.toLowerCase();
+    if (!this.plugins.has(key)) return;
+
+    this.plugins.delete(key);
+    for (const [host, owner] of this.hostOwners) {
+      if (owner === key) this.hostOwners.delete(host);
+    }
+  }
+
+  get(name: string): ScraperPlugin | undefined {
+    return this.plugins.get(name.toLowerCase());
+  }
+
+  list(): ScraperPlugin[] {
+    return Array.from(this.plugins.values());
+  }
+
+  /**
+   * Returns the plugin owning a hostname, if any.
+   */
+  findByHost(hostname: string): ScraperPlugin | undefined {
+    const owner = this.hostOwners.get(hostname.toLowerCase());
+    return owner ? this.plugins.get(owner) : undefined;
+  }
+
+  /**
+   * Parses a pasted series URL into the source it belongs to and its source_id.
+   */
+  parseUrl(url: string): ParsedSourceUrl | null {
+    let parsed: URL;
+    try {
+      parsed = new URL(url.trim());
+    } catch {
+      return null;
+    }
+
+    if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') return null;
+
+    const plugin = this.findByHost(parsed.hostname);
+    if (!plugin) return null;
+
+    for (const pattern of plugin.urlPatterns) {
+      const sourceId = parsed.pathname.match(pattern)?.[1];
+      if (sourceId) {
+        return { sourceName: plugin.name, sourceId };
+      }
+    }
+
+    return null;
+  }
+}
+
+export function hasCapability(plugin: ScraperPlugin, capability: ScraperCapability): boolean {
+  return plugin.capabilities.includes(capability);
+}
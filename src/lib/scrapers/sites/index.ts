@@ -0,0 +1,9 @@
+import { HtmlSiteConfig } from '../html-scraper';
+import { mangaParkConfig } from './mangapark';
+
+/**
+ * HTML-only sources scraped through HtmlScraper. Register a new site by adding its config here.
+ */
+export const HTML_SITES: HtmlSiteConfig[] = [
+  mangaParkConfig,
+];
@@ -0,0 +1,29 @@
+import { HtmlSiteConfig } from '../html-scraper';
+
+export const mangaParkConfig: HtmlSiteConfig = {
+  name: 'mangapark',
+  displayName: 'MangaPark',
+  baseUrl: 'https://mangapark.io',
+  alternateHosts: ['www.mangapark.io'],
+  seriesPath: '/title/{sourceId}',
+  // e.g. "75577-en-one-piece"
+  sourceIdPattern: /^\d+(-[a-z0-9-]+)?$/i,
+  // Series and chapter pages both live under /title/<sourceId>
+  urlPatterns: [/^\/title\/(\d+(?:-[a-z0-9-]+)?)(?:\/|$)/i],
+  rateLimit: { requestsPerMinute: 30, maxConcurrent: 2 },
+  selectors: {
+    title: 'h3 a[href^="/title/"]',
+    chapterItem: '[data-name="chapter-list"] div.flex-col > div',
+    chapterLink: 'a[href*="/title/"]',
+    chapterTitle: 'span.opacity-80',
+    publishedAt: { selector: 'time', attribute: 'data-time' },
+  },
+  metadataSelectors: {
+    description: '[data-name="description"] .limit-html',
+    coverUrl: { selector: 'main img[data-name="cover"]', attribute: 'src' },
+    status: '[data-name="status"]',
+    genres: '[data-name="genres"] span',
+    alternativeTitles: '[data-name="alt-titles"] span',
+  },
+  chapterOrder: 'desc',
+};
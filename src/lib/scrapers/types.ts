@@ -0,0 +1,71 @@
+export interface ScrapedChapter {
+  chapterNumber: number;
+  chapterTitle?: string;
+  chapterUrl: string;
+  volumeNumber?: number;
+  publishedAt?: Date;
+  /** False when the source lists the chapter but it cannot be read there (e.g. licensed/removed). */
+  isAvailable?: boolean;
+}
+
+export type SeriesStatus = 'ongoing' | 'completed' | 'hiatus' | 'cancelled';
+
+/**
+ * Series-level details a source exposes. Every field is optional: sources
+ * only fill in what they publish.
+ */
+export interface ScrapedSeriesMetadata {
+  title?: string;
+  alternativeTitles?: string[];
+  description?: string;
+  coverUrl?: string;
+  status?: SeriesStatus;
+  genres?: string[];
+  tags?: string[];
+  contentRating?: string;
+}
+
+/**
+ * What a source looked like at the last successful check, stored on SeriesSource.
+ */
+export interface SourceFingerprint {
+  etag?: string | null;
+  lastModified?: string | null;
+  contentHash?: string | null;
+}
+
+export interface ScrapeOptions {
+  /** Fingerprint from the previous check; lets scrapers short-circuit when nothing changed. */
+  previous?: SourceFingerprint;
+}
+
+export interface ScrapedSeries {
+  sourceId: string;
+  title: string;
+  chapters: ScrapedChapter[];
+  /** True when the source could not list every chapter, so missing ones may still exist. */
+  partial?: boolean;
+  /** Filled in by scrapers with the 'metadata' capability when the check already fetched it. */
+  metadata?: ScrapedSeriesMetadata;
+  unchanged?: false;
+  fingerprint?: SourceFingerprint;
+  /** Bytes downloaded for this check. */
+  responseBytes?: number;
+}
+
+export interface UnchangedSeries {
+  sourceId: string;
+  unchanged: true;
+  /** not-modified: the server answered 304; content-hash: the content matched the stored hash. */
+  reason: 'not-modified' | 'content-hash';
+  fingerprint: SourceFingerprint;
+  responseBytes?: number;
+}
+
+export type ScrapeResult = ScrapedSeries | UnchangedSeries;
+
+export interface Scraper {
+  scrapeSeries(sourceId: string, options?: ScrapeOptions): Promise<ScrapeResult>;
+  /** Implemented by scrapers with the 'metadata' capability. */
+  scrapeMetadata?(sourceId: string): Promise<ScrapedSeriesMetadata>;
+}
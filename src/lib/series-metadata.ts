@@ -0,0 +1,83 @@
+import { prisma } from '@/lib/prisma';
+import { isWhitelistedDomain } from '@/lib/constants/image-whitelist';
+import {
+  isMergeableField,
+  MERGEABLE_FIELDS,
+  MergeableField,
+  SeriesMetadataValues,
+} from '@/lib/sync/metadata-merge';
+import { Prisma } from '@prisma/client';
+import { z } from 'zod';
+
+const SERIES_STATUSES = ['ongoing', 'completed', 'hiatus', 'cancelled'] as const;
+
+/** A hand edit; every field given is written and locked. */
+export const SeriesMetadataEditSchema = z.object({
+  title: z.string().trim().min(1).max(500),
+  alternative_titles: z.array(z.string().trim().min(1).max(500)).max(50),
+  description: z.string().trim().max(10000).nullable(),
+  // Covers are rendered through the image proxy, which only serves whitelisted hosts
+  cover_url: z.string().url().refine(isWhitelistedDomain, 'Cover URL must be on an allowed image host').nullable(),
+  status: z.enum(SERIES_STATUSES).nullable(),
+  genres: z.array(z.string().trim().min(1).max(50)).max(50),
+  tags: z.array(z.string().trim().min(1).max(50)).max(100),
+  content_rating: z.string().trim().min(1).max(20).nullable(),
+}).partial().strict().refine(data => Object.keys(data).length > 0, 'No fields to update');
+
+export const SeriesUnlockSchema = z.object({
+  fields: z.array(z.enum(MERGEABLE_FIELDS)).min(1),
+}).strict();
+
+/**
+ * Takes the row lock on a series for the rest of the transaction, so hand
+ * edits and metadata refreshes read locked_fields and write in turn rather
+ * than over each other. False if the series is gone.
+ */
+export async function lockSeriesRow(tx: Prisma.TransactionClient, seriesId: string): Promise<boolean> {
+  const rows = await tx.$queryRaw<{ id: string }[]>`
+    SELECT id FROM series WHERE id = ${seriesId}::uuid FOR UPDATE
+  `;
+  return rows.length > 0;
+}
+
+/**
+ * Applies a hand edit to a series and locks every edited field, so metadata
+ * refreshes never overwrite it.
+ */
+export async function editSeriesMetadata(seriesId: string, data: Partial<SeriesMetadataValues>) {
+  const fields = Object.keys(data).filter(isMergeableField);
+
+  return prisma.$transaction(async (tx) => {
+    await lockSeriesRow(tx, seriesId);
+    const series = await tx.series.findUniqueOrThrow({
+      where: { id: seriesId },
+      select: { locked_fields: true },
+    });
+
+    return tx.series.update({
+      where: { id: seriesId },
+      data: {
+        ...data,
+        locked_fields: Array.from(new Set([...series.locked_fields, ...fields])),
+      },
+    });
+  });
+}
+
+/**
+ * Hands fields back to the metadata refresh.
+ */
+export async function unlockSeriesFields(seriesId: string, fields: MergeableField[]) {
+  return prisma.$transaction(async (tx) => {
+    await lockSeriesRow(tx, seriesId);
+    const series = await tx.series.findUniqueOrThrow({
+      where: { id: seriesId },
+      select: { locked_fields: true },
+    });
+
+    return tx.series.update({
+      where: { id: seriesId },
+      data: { locked_fields: series.locked_fields.filter(f => !fields.includes(f as MergeableField)) },
+    });
+  });
+}
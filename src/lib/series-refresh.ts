@@ -0,0 +1,191 @@
+import { prisma } from '@/lib/prisma';
+import { checkSourceQueue } from '@/lib/queues';
+import { enqueueChecks } from '@/lib/queue-admin';
+import { ApiError, checkRateLimit, ErrorCodes } from '@/lib/api-utils';
+import type { CheckSourceResult, CheckSourceStage } from '@/workers/processors/check-source.processor';
+
+export const REFRESH_JOB_PREFIX = 'refresh';
+export const REFRESH_WINDOW_MS = 60 * 60 * 1000;
+
+// Refreshes per user per REFRESH_WINDOW_MS
+export const REFRESH_QUOTA = {
+  free: 5,
+  premium: 30,
+} as const;
+
+// A refresh covers one job per source; more than this is not a refresh we created
+const MAX_TRACKED_JOBS = 20;
+
+export type RefreshJobState = 'queued' | 'delayed' | 'checking' | 'completed' | 'failed' | 'missing';
+
+export interface RefreshJobProgress {
+  job_id: string;
+  source_id: string | null;
+  state: RefreshJobState;
+  stage: CheckSourceStage | null;
+  new_chapters: number | null;
+  error: string | null;
+}
+
+export type RefreshEvent =
+  | { event: 'progress'; data: { jobs: RefreshJobProgress[] } }
+  | { event: 'complete'; data: { new_chapter_count: number; chapters: Awaited<ReturnType<typeof findNewChapters>> } }
+  | { event: 'timeout'; data: { jobs: RefreshJobProgress[] } };
+
+export function isPremium(
+  user: { subscription_tier: string; subscription_expires_at: Date | null },
+  now: Date = new Date()
+): boolean {
+  return user.subscription_tier !== 'free' && (!user.subscription_expires_at || user.subscription_expires_at > now);
+}
+
+/**
+ * Queues a high-priority check of every enabled source of a series on behalf
+ * of a reader. Premium users get a larger quota.
+ */
+export async function requestSeriesRefresh(userId: string, seriesId: string) {
+  const [user, series] = await Promise.all([
+    prisma.user.findUnique({
+      where: { id: userId },
+      select: { subscription_tier: true, subscription_expires_at: true },
+    }),
+    prisma.series.findUnique({ where: { id: seriesId }, select: { id: true } }),
+  ]);
+
+  if (!series) {
+    throw new ApiError('Series not found', 404, ErrorCodes.NOT_FOUND);
+  }
+
+  const quota = user && isPremium(user) ? REFRESH_QUOTA.premium : REFRESH_QUOTA.free;
+  if (!checkRateLimit(`refresh:${userId}`, quota, REFRESH_WINDOW_MS)) {
+    throw new ApiError(
+      `Refresh limit reached (${quota} per hour). Please try again later.`,
+      429,
+      ErrorCodes.RATE_LIMITED
+    );
+  }
+
+  const { jobIds } = await enqueueChecks({ seriesId }, REFRESH_JOB_PREFIX);
+  return { jobIds: jobIds.filter((id): id is string => Boolean(id)), quota };
+}
+
+function toRefreshState(state: string): RefreshJobState {
+  switch (state) {
+    case 'completed':
+    case 'failed':
+    case 'delayed':
+      return state;
+    case 'active':
+      return 'checking';
+    case 'waiting':
+    case 'prioritized':
+    case 'waiting-children':
+      return 'queued';
+    default:
+      return 'missing';
+  }
+}
+
+export function parseRefreshJobIds(value: string | null): string[] {
+  const jobIds = (value ?? '').split(',').map(id => id.trim()).filter(Boolean);
+
+  if (jobIds.length === 0 || jobIds.length > MAX_TRACKED_JOBS) {
+    throw new ApiError(`Provide between 1 and ${MAX_TRACKED_JOBS} job ids`, 400, ErrorCodes.BAD_REQUEST);
+  }
+  if (jobIds.some(id => !id.startsWith(`${REFRESH_JOB_PREFIX}-`))) {
+    throw new ApiError('Only refresh jobs can be tracked', 400, ErrorCodes.BAD_REQUEST);
+  }
+
+  return jobIds;
+}
+
+/**
+ * Reads the state of a refresh's jobs. Jobs that do not belong to one of the
+ * series' sources are reported as missing rather than exposed.
+ */
+export async function getRefreshProgress(seriesId: string, jobIds: string[]) {
+  const sources = await prisma.seriesSource.findMany({
+    where: { series_id: seriesId },
+    select: { id: true },
+  });
+  const sourceIds = new Set(sources.map(s => s.id));
+
+  const timestamps: number[] = [];
+  const jobs = await Promise.all(jobIds.map(async (jobId): Promise<RefreshJobProgress> => {
+    const job = await checkSourceQueue.getJob(jobId);
+    const sourceId: string | undefined = job?.data?.seriesSourceId;
+
+    if (!job || !sourceId || !sourceIds.has(sourceId)) {
+      return { job_id: jobId, source_id: null, state: 'missing', stage: null, new_chapters: null, error: null };
+    }
+
+    timestamps.push(job.timestamp);
+    const state = toRefreshState(await job.getState());
+    const progress = job.progress as { stage?: CheckSourceStage } | undefined;
+    const result = job.returnvalue as CheckSourceResult | null;
+
+    return {
+      job_id: jobId,
+      source_id: sourceId,
+      state,
+      stage: state === 'checking' ? progress?.stage ?? null : null,
+      new_chapters: state === 'completed' ? result?.newChapters ?? 0 : null,
+      error: state === 'failed' ? job.failedReason || 'Check failed' : null,
+    };
+  }));
+
+  const done = jobs.every(j => j.state === 'completed' || j.state === 'failed' || j.state === 'missing');
+  const startedAt = timestamps.length > 0 ? new Date(Math.min(...timestamps)) : null;
+  return { jobs, done, startedAt };
+}
+
+async function findNewChapters(seriesId: string, since: Date) {
+  return prisma.chapter.findMany({
+    where: { series_id: seriesId, discovered_at: { gte: since } },
+    orderBy: { chapter_number: 'desc' },
+    select: {
+      id: true,
+      chapter_number: true,
+      chapter_title: true,
+      chapter_url: true,
+      source: { select: { source_name: true } },
+    },
+  });
+}
+
+/**
+ * Polls a refresh until every job has finished, yielding a progress event
+ * whenever something changed and a final complete (or timeout) event.
+ */
+export async function* watchSeriesRefresh(
+  seriesId: string,
+  jobIds: string[],
+  options: { pollIntervalMs?: number; timeoutMs?: number; signal?: AbortSignal } = {}
+): AsyncGenerator<RefreshEvent> {
+  const pollIntervalMs = options.pollIntervalMs ?? 1000;
+  const deadline = Date.now() + (options.timeoutMs ?? 2 * 60 * 1000);
+  let previous = '';
+
+  while (!options.signal?.aborted) {
+    const { jobs, done, startedAt } = await getRefreshProgress(seriesId, jobIds);
+
+    const snapshot = JSON.stringify(jobs);
+    if (snapshot !== previous) {
+      previous = snapshot;
+      yield { event: 'progress', data: { jobs } };
+    }
+
+    if (done) {
+      const chapters = startedAt ? await findNewChapters(seriesId, startedAt) : [];
+      yield { event: 'complete', data: { new_chapter_count: chapters.length, chapters } };
+      return;
+    }
+
+    if (Date.now() >= deadline) {
+      yield { event: 'timeout', data: { jobs } };
+      return;
+    }
+
+    await new Promise(resolve => setTimeout(resolve, pollIntervalMs));
+  }
+}
@@ -1,5 +1,6 @@
 import { prisma, withRetry } from "@/lib/prisma";
 import { Prisma } from "@prisma/client";
+import { dispatchNotification } from "@/lib/notifications/dispatcher";
 
 export type PaginationParams = {
   page?: number;
@@ -257,16 +258,13 @@ export async function followUser(followerId: string, targetUsername: string) {
     const isNewFollow = Date.now() - new Date(follow.created_at).getTime() < 1000;
     
     if (isNewFollow) {
-      // Create notification for target user
-      await withRetry(() => prisma.notification.create({
-        data: {
-          user_id: target.id,
-          actor_user_id: followerId,
-          type: "new_follower",
-          title: "New Follower",
-          message: "started following you",
-        },
-      }));
+      // Notify target user through the channels they allow
+      await dispatchNotification([target.id], {
+        actor_user_id: followerId,
+        type: "new_follower",
+        title: "New Follower",
+        message: "started following you",
+      });
 
       // Log activity
       await withRetry(() => prisma.activity.create({
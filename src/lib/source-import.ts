@@ -0,0 +1,206 @@
+import { prisma } from '@/lib/prisma';
+import { ApiError, ErrorCodes } from '@/lib/api-utils';
+import {
+  parseSourceUrl,
+  ScrapedSeriesMetadata,
+  ScraperError,
+  scraperRegistry,
+  validateSourceUrl,
+} from '@/lib/scrapers';
+import { hostBudget } from '@/lib/scrapers/politeness';
+import { isWhitelistedDomain } from '@/lib/constants/image-whitelist';
+import { logActivity } from '@/lib/gamification/activity';
+import { enqueueChecks } from '@/lib/queue-admin';
+import { normalizeText } from '@/lib/sync/metadata-merge';
+import { Prisma } from '@prisma/client';
+
+// Sources do not say whether a work is a manga, manhwa, ...; readers can fix it later
+const DEFAULT_SERIES_TYPE = 'manga';
+
+export interface SourceImportResult {
+  series: { id: string; title: string };
+  source: { id: string; source_name: string; source_id: string };
+  created_series: boolean;
+  created_source: boolean;
+  added_to_library: boolean;
+}
+
+/**
+ * Fetches what the source says about the series: full metadata when the
+ * scraper supports it, otherwise the title from a chapter listing.
+ */
+async function fetchSourceMetadata(sourceName: string, sourceId: string): Promise<ScrapedSeriesMetadata> {
+  const plugin = scraperRegistry.get(sourceName)!;
+
+  const budget = await hostBudget.acquire(plugin.name, plugin.rateLimit, `import-${plugin.name}-${sourceId}`);
+  if (!budget.allowed) {
+    throw new ApiError(
+      `${plugin.displayName} is busy. Please try again in ${Math.ceil(budget.retryAfterMs / 1000)}s.`,
+      429,
+      ErrorCodes.RATE_LIMITED
+    );
+  }
+
+  try {
+    if (plugin.scraper.scrapeMetadata) {
+      return await plugin.scraper.scrapeMetadata(sourceId);
+    }
+    const scraped = await plugin.scraper.scrapeSeries(sourceId);
+    return scraped.unchanged ? {} : { title: scraped.title };
+  } catch (error) {
+    if (error instanceof ScraperError && (error.statusCode === 404 || !error.isRetryable)) {
+      throw new ApiError(`Series not found on ${plugin.displayName}`, 404, ErrorCodes.NOT_FOUND);
+    }
+    console.error(`[Import] Failed to fetch ${sourceName}/${sourceId}:`, error);
+    throw new ApiError(`Could not reach ${plugin.displayName}. Please try again later.`, 502);
+  } finally {
+    await budget.release();
+  }
+}
+
+/**
+ * Finds the series a source belongs to by its title and alternative titles,
+ * compared case- and whitespace-insensitively. Primary title matches win,
+ * then the most followed series.
+ */
+export async function findMatchingSeries(metadata: ScrapedSeriesMetadata, client: Prisma.TransactionClient = prisma) {
+  const titles = Array.from(new Set(
+    [metadata.title, ...(metadata.alternativeTitles ?? [])]
+      .filter((t): t is string => Boolean(t?.trim()))
+      .map(normalizeText)
+  ));
+  if (titles.length === 0) return null;
+
+  const matches = await client.$queryRaw<{ id: string; title: string }[]>`
+    SELECT s.id, s.title
+    FROM series s
+    WHERE lower(regexp_replace(trim(s.title), '\\s+', ' ', 'g')) = ANY(${titles})
+       OR EXISTS (
+         SELECT 1 FROM jsonb_array_elements_text(s.alternative_titles) alt
+         WHERE lower(regexp_replace(trim(alt), '\\s+', ' ', 'g')) = ANY(${titles})
+       )
+    ORDER BY (lower(regexp_replace(trim(s.title), '\\s+', ' ', 'g')) = ANY(${titles})) DESC, s.total_follows DESC
+    LIMIT 1
+  `;
+
+  return matches[0] ?? null;
+}
+
+const SOURCE_SELECT = {
+  id: true,
+  source_name: true,
+  source_id: true,
+  series: { select: { id: true, title: true } },
+} satisfies Prisma.SeriesSourceSelect;
+
+function seriesData(metadata: ScrapedSeriesMetadata, title: string): Prisma.SeriesCreateInput {
+  return {
+    title,
+    alternative_titles: (metadata.alternativeTitles ?? []).filter(t => normalizeText(t) !== normalizeText(title)),
+    description: metadata.description ?? null,
+    // Covers are rendered through the image proxy, which only serves whitelisted hosts
+    cover_url: metadata.coverUrl && isWhitelistedDomain(metadata.coverUrl) ? metadata.coverUrl : null,
+    type: DEFAULT_SERIES_TYPE,
+    status: metadata.status ?? null,
+    genres: metadata.genres ?? [],
+    tags: metadata.tags ?? [],
+    content_rating: metadata.contentRating ?? null,
+    metadata_refreshed_at: new Date(),
+  };
+}
+
+/**
+ * Tracks the series behind a pasted MangaDex/MangaPark series or chapter URL:
+ * reuses the source if someone already added it, otherwise matches it to an
+ * existing series by title or creates one, then adds the series to the
+ * user's library and queues a first check.
+ */
+export async function importSourceUrl(userId: string, url: string): Promise<SourceImportResult> {
+  const parsed = parseSourceUrl(url);
+  if (!parsed || !validateSourceUrl(url, parsed.sourceName)) {
+    const supported = scraperRegistry.list().map(p => p.displayName).join(', ');
+    throw new ApiError(`Unsupported URL. Paste a series or chapter link from ${supported}.`, 400, ErrorCodes.VALIDATION_ERROR);
+  }
+
+  const { sourceName, sourceId } = parsed;
+  const { origin, pathname } = new URL(url.trim());
+
+  const findSource = (client: Prisma.TransactionClient) => client.seriesSource.findFirst({
+    where: { source_name: sourceName, source_id: sourceId },
+    select: SOURCE_SELECT,
+    orderBy: { created_at: 'asc' },
+  });
+
+  let source = await findSource(prisma);
+  let createdSource = false;
+  let createdSeries = false;
+
+  if (!source) {
+    const metadata = await fetchSourceMetadata(sourceName, sourceId);
+    const title = metadata.title?.trim();
+    if (!title) {
+      throw new ApiError('The source did not return a series title', 502);
+    }
+
+    // Only (series_id, source_name, source_id) is unique, so two imports of the
+    // same new URL would each create a series. Serialize them on the source and
+    // look again: the other import may have finished while this one scraped.
+    source = await prisma.$transaction(async (tx) => {
+      await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${`${sourceName}:${sourceId}`}))`;
+
+      const existing = await findSource(tx);
+      if (existing) return existing;
+
+      const match = await findMatchingSeries(metadata, tx);
+      createdSeries = !match;
+      createdSource = true;
+
+      return tx.seriesSource.create({
+        data: {
+          series: match ? { connect: { id: match.id } } : { create: seriesData(metadata, title) },
+          source_name: sourceName,
+          source_id: sourceId,
+          source_url: `${origin}${pathname}`,
+          source_title: title.slice(0, 500),
+          metadata: metadata as Prisma.InputJsonValue,
+          metadata_fetched_at: new Date(),
+        },
+        select: SOURCE_SELECT,
+      });
+    });
+
+    if (createdSource) {
+      const seriesSourceId = source.id;
+      await enqueueChecks({ seriesSourceId }, 'import').catch((error) => {
+        // The scheduler picks the source up anyway; next_check_at defaults to now
+        console.warn(`[Import] Failed to queue first check for ${seriesSourceId}:`, error);
+      });
+    }
+  }
+
+  const { series } = source;
+  const addedToLibrary = await prisma.$transaction(async (tx) => {
+    const existing = await tx.libraryEntry.findUnique({
+      where: { user_id_series_id: { user_id: userId, series_id: series.id } },
+      select: { id: true },
+    });
+    if (existing) return false;
+
+    await tx.libraryEntry.create({
+      data: { user_id: userId, series_id: series.id, status: 'reading', last_read_chapter: 0 },
+    });
+    await logActivity(tx, userId, 'series_added', {
+      seriesId: series.id,
+      metadata: { status: 'reading', source: sourceName },
+    });
+    return true;
+  });
+
+  return {
+    series,
+    source: { id: source.id, source_name: source.source_name, source_id: source.source_id },
+    created_series: createdSeries,
+    created_source: createdSource,
+    added_to_library: addedToLibrary,
+  };
+}
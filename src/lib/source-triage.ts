@@ -0,0 +1,184 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { checkSourceDeadLetterQueue, checkSourceQueue } from '@/lib/queues';
+import { ApiError, ErrorCodes } from '@/lib/api-utils';
+import { DeadLetterEntry, deadLetterJobId } from '@/lib/dead-letter';
+import { circuitData, CLOSED_CIRCUIT } from '@/lib/sync/circuit-breaker';
+
+const FAILURE_HISTORY_LIMIT = 50;
+
+export type FailedSourceState = 'failing' | 'open' | 'dead-lettered' | 'disabled';
+
+export const FAILED_SOURCE_STATES: FailedSourceState[] = ['failing', 'open', 'dead-lettered', 'disabled'];
+
+function stateFilter(state?: FailedSourceState): Prisma.SeriesSourceWhereInput {
+  switch (state) {
+    case 'failing':
+      return { failure_count: { gt: 0 }, disabled_at: null };
+    case 'open':
+      return { circuit_state: { in: ['open', 'half-open'] }, disabled_at: null };
+    case 'dead-lettered':
+      return { dead_lettered_at: { not: null } };
+    case 'disabled':
+      return { disabled_at: { not: null } };
+    default:
+      return {
+        OR: [
+          { failure_count: { gt: 0 } },
+          { dead_lettered_at: { not: null } },
+          { disabled_at: { not: null } },
+        ],
+      };
+  }
+}
+
+export async function listFailedSources(options: { state?: FailedSourceState; limit: number; offset: number }) {
+  const where = stateFilter(options.state);
+
+  const [sources, total] = await Promise.all([
+    prisma.seriesSource.findMany({
+      where,
+      select: {
+        id: true,
+        series_id: true,
+        source_name: true,
+        source_url: true,
+        failure_count: true,
+        circuit_state: true,
+        circuit_retry_at: true,
+        failing_since: true,
+        last_checked_at: true,
+        last_success_at: true,
+        dead_lettered_at: true,
+        disabled_at: true,
+        disabled_reason: true,
+        series: { select: { title: true } },
+        failures: {
+          orderBy: { created_at: 'desc' },
+          take: 1,
+          select: { error_name: true, error_message: true, created_at: true },
+        },
+      },
+      orderBy: [{ failure_count: 'desc' }, { last_checked_at: { sort: 'desc', nulls: 'last' } }],
+      take: options.limit,
+      skip: options.offset,
+    }),
+    prisma.seriesSource.count({ where }),
+  ]);
+
+  const items = sources.map(({ failures, series, ...source }) => ({
+    ...source,
+    series_title: series.title,
+    last_failure: failures[0] ?? null,
+  }));
+
+  return { items, total };
+}
+
+/**
+ * Everything needed to decide what to do with a failing source: its state,
+ * recent failures and the dead-lettered job, if any.
+ */
+export async function getSourceTriage(seriesSourceId: string) {
+  const source = await prisma.seriesSource.findUnique({
+    where: { id: seriesSourceId },
+    select: {
+      id: true,
+      series_id: true,
+      source_name: true,
+      source_id: true,
+      source_url: true,
+      sync_priority: true,
+      failure_count: true,
+      circuit_state: true,
+      circuit_open_count: true,
+      circuit_retry_at: true,
+      failing_since: true,
+      last_checked_at: true,
+      last_success_at: true,
+      next_check_at: true,
+      dead_lettered_at: true,
+      disabled_at: true,
+      disabled_reason: true,
+      series: { select: { title: true } },
+      failures: {
+        orderBy: { created_at: 'desc' },
+        take: FAILURE_HISTORY_LIMIT,
+      },
+      _count: { select: { failures: true } },
+    },
+  });
+
+  if (!source) {
+    throw new ApiError('Source not found', 404, ErrorCodes.NOT_FOUND);
+  }
+
+  const deadLetterJob = await checkSourceDeadLetterQueue.getJob(deadLetterJobId(seriesSourceId));
+  const { _count, series, ...rest } = source;
+
+  return {
+    ...rest,
+    series_title: series.title,
+    total_failures: _count.failures,
+    dead_letter: (deadLetterJob?.data as DeadLetterEntry | undefined) ?? null,
+  };
+}
+
+/**
+ * Closes the circuit breaker so the next scheduler run picks the source up.
+ */
+export async function resetCircuitBreaker(seriesSourceId: string) {
+  return prisma.seriesSource.update({
+    where: { id: seriesSourceId },
+    data: { ...circuitData(CLOSED_CIRCUIT), next_check_at: new Date() },
+    select: { id: true, circuit_state: true, failure_count: true, next_check_at: true },
+  });
+}
+
+/**
+ * Clears the dead letter, closes the circuit breaker and checks the source
+ * straight away.
+ */
+export async function retrySource(seriesSourceId: string) {
+  const source = await prisma.seriesSource.findUnique({
+    where: { id: seriesSourceId },
+    select: { disabled_at: true },
+  });
+
+  if (!source) {
+    throw new ApiError('Source not found', 404, ErrorCodes.NOT_FOUND);
+  }
+  if (source.disabled_at) {
+    throw new ApiError('Source is disabled; enable it before retrying', 409, ErrorCodes.CONFLICT);
+  }
+
+  await prisma.seriesSource.update({
+    where: { id: seriesSourceId },
+    data: { ...circuitData(CLOSED_CIRCUIT), dead_lettered_at: null, next_check_at: new Date() },
+  });
+  await checkSourceDeadLetterQueue.remove(deadLetterJobId(seriesSourceId));
+
+  const jobId = `retry-${seriesSourceId}-${Date.now()}`;
+  await checkSourceQueue.add(`check-${seriesSourceId}`, { seriesSourceId }, { jobId, priority: 1 });
+
+  return { jobId };
+}
+
+/**
+ * Stops all checks of a source until it is enabled again.
+ */
+export async function disableSource(seriesSourceId: string, reason: string) {
+  return prisma.seriesSource.update({
+    where: { id: seriesSourceId },
+    data: { disabled_at: new Date(), disabled_reason: reason },
+    select: { id: true, disabled_at: true, disabled_reason: true },
+  });
+}
+
+export async function enableSource(seriesSourceId: string) {
+  return prisma.seriesSource.update({
+    where: { id: seriesSourceId },
+    data: { disabled_at: null, disabled_reason: null, ...circuitData(CLOSED_CIRCUIT), next_check_at: new Date() },
+    select: { id: true, disabled_at: true, disabled_reason: true },
+  });
+}
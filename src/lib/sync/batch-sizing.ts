@@ -0,0 +1,47 @@
+export interface BacklogSnapshot {
+  /** Sources whose next check is due. */
+  dueCount: number;
+  /** check-source jobs queued but not started (waiting, prioritized or delayed). */
+  queueDepth: number;
+  /** Checks finished per minute recently, completed or failed; 0 when unknown. */
+  throughputPerMinute: number;
+}
+
+// Used until the workers have reported any throughput, and as the least a tick
+// may plan for: measured throughput only reflects demand, so after a quiet
+// spell it says little about what the workers could handle
+export const DEFAULT_BATCH_SIZE = 50;
+export const MAX_BATCH_SIZE = 2000;
+// Queue a little more than the workers can finish before the next tick so they never idle
+const HEADROOM = 1.2;
+
+/**
+ * How many due sources to queue this tick: enough to keep the workers busy
+ * until the next tick (at least DEFAULT_BATCH_SIZE), minus what is still
+ * queued from earlier ticks. A deep queue therefore pauses queuing instead of
+ * piling up more jobs.
+ */
+export function computeBatchSize(backlog: BacklogSnapshot, tickIntervalMs: number): number {
+  if (backlog.dueCount <= 0) return 0;
+
+  if (backlog.throughputPerMinute <= 0) {
+    return Math.min(backlog.dueCount, DEFAULT_BATCH_SIZE);
+  }
+
+  const capacity = Math.max(
+    Math.ceil(backlog.throughputPerMinute * (tickIntervalMs / 60000) * HEADROOM),
+    DEFAULT_BATCH_SIZE
+  );
+  const size = Math.max(capacity - backlog.queueDepth, 0);
+
+  return Math.min(size, backlog.dueCount, MAX_BATCH_SIZE);
+}
+
+/**
+ * Average per-minute rate from BullMQ metrics data points (newest first).
+ */
+export function perMinuteRate(dataPoints: number[]): number {
+  if (dataPoints.length === 0) return 0;
+  const total = dataPoints.reduce((sum, point) => sum + (Number(point) || 0), 0);
+  return total / dataPoints.length;
+}
@@ -0,0 +1,125 @@
+/**
+ * The fields needed to choose between copies of the same chapter on different sources.
+ */
+export interface ChapterCandidate {
+  chapter_number: { toString(): string } | number;
+  is_available: boolean;
+  published_at: Date | null;
+  discovered_at?: Date;
+  source: { source_name?: string; trust_score: { toString(): string } | number };
+}
+
+export interface ChapterPreference {
+  /** Source names to favour, most preferred first (LibraryEntry.preferred_source, then User.default_source). */
+  preferredSources?: (string | null | undefined)[];
+}
+
+/**
+ * Every copy of one chapter number across a series' sources.
+ */
+export interface ChapterGroup<T extends ChapterCandidate> {
+  chapter_number: number;
+  /** The copy to link to by default. */
+  preferred: T;
+  /** All copies, preferred first. */
+  chapters: T[];
+  /** When any source first listed this chapter. */
+  discovered_at: Date | null;
+}
+
+export function chapterKey(chapterNumber: { toString(): string } | number): string {
+  return Number(chapterNumber.toString()).toFixed(2);
+}
+
+/**
+ * Groups chapters by number across sources. Within a group, readable copies
+ * come first, then the reader's preferred sources, then the most trusted
+ * source, then whichever was published first. Groups keep the order in
+ * which their numbers first appear in the input.
+ */
+export function groupChapters<T extends ChapterCandidate>(
+  chapters: T[],
+  preference: ChapterPreference = {}
+): ChapterGroup<T>[] {
+  const preferred = (preference.preferredSources ?? [])
+    .filter((s): s is string => Boolean(s))
+    .map(s => s.toLowerCase());
+  const byNumber = new Map<string, T[]>();
+
+  for (const chapter of chapters) {
+    const key = chapterKey(chapter.chapter_number);
+    const copies = byNumber.get(key) ?? [];
+    copies.push(chapter);
+    byNumber.set(key, copies);
+  }
+
+  return Array.from(byNumber.values()).map(copies => {
+    const sorted = [...copies].sort((a, b) => compareCopies(a, b, preferred));
+    const discovered = copies
+      .map(c => c.discovered_at?.getTime())
+      .filter((t): t is number => t !== undefined);
+
+    return {
+      chapter_number: Number(sorted[0].chapter_number.toString()),
+      preferred: sorted[0],
+      chapters: sorted,
+      discovered_at: discovered.length > 0 ? new Date(Math.min(...discovered)) : null,
+    };
+  });
+}
+
+/**
+ * Keeps one chapter per number, chosen as in groupChapters. Input order is preserved.
+ */
+export function selectDefaultChapters<T extends ChapterCandidate>(
+  chapters: T[],
+  preference: ChapterPreference = {}
+): T[] {
+  const selected = new Set(groupChapters(chapters, preference).map(g => g.preferred));
+  return chapters.filter(c => selected.has(c));
+}
+
+/**
+ * Picks the chapter numbers a source was first to list, given every copy of
+ * those numbers ordered by discovery. Only these warrant a new-chapter
+ * notification; the rest were already announced through another source.
+ */
+export function firstSeenChapterNumbers(
+  copies: { chapter_number: { toString(): string } | number; series_source_id: string }[],
+  sourceId: string
+): string[] {
+  const firstSource = new Map<string, string>();
+  for (const copy of copies) {
+    const key = chapterKey(copy.chapter_number);
+    if (!firstSource.has(key)) firstSource.set(key, copy.series_source_id);
+  }
+
+  return Array.from(firstSource.entries())
+    .filter(([, firstSourceId]) => firstSourceId === sourceId)
+    .map(([key]) => key);
+}
+
+function rank(chapter: ChapterCandidate, preferred: string[]): number {
+  const index = preferred.indexOf(chapter.source.source_name?.toLowerCase() ?? '');
+  return index === -1 ? preferred.length : index;
+}
+
+function compareCopies(a: ChapterCandidate, b: ChapterCandidate, preferred: string[]): number {
+  if (a.is_available !== b.is_available) {
+    return a.is_available ? -1 : 1;
+  }
+
+  const rankDiff = rank(a, preferred) - rank(b, preferred);
+  if (rankDiff !== 0) {
+    return rankDiff;
+  }
+
+  const trustDiff = Number(b.source.trust_score.toString()) - Number(a.source.trust_score.toString());
+  if (trustDiff !== 0) {
+    return trustDiff;
+  }
+
+  const aTime = a.published_at?.getTime() ?? Infinity;
+  const bTime = b.published_at?.getTime() ?? Infinity;
+  return aTime === bTime ? 0 : aTime < bTime ? -1 : 1;
+}
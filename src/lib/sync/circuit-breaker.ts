@@ -0,0 +1,128 @@
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export const CIRCUIT_STATES: CircuitState[] = ['closed', 'open', 'half-open'];
+
+export interface CircuitBreaker {
+  state: CircuitState;
+  /** Consecutive failed checks. */
+  failureCount: number;
+  /** How often the circuit has opened during the current failure streak. */
+  openCount: number;
+  /** open: when the next probe may run. half-open: when the running probe's lease expires. */
+  retryAt: Date | null;
+  /** When the current failure streak started. */
+  failingSince: Date | null;
+}
+
+export type CheckDecision =
+  | { action: 'check' }
+  | { action: 'probe'; leaseUntil: Date }
+  | { action: 'skip'; retryAt: Date };
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Consecutive failures before the circuit opens
+export const FAILURE_THRESHOLD = 5;
+// Cooldown after the first opening, doubling on every failed probe up to the cap
+const BASE_COOLDOWN_MS = HOUR_MS;
+const MAX_COOLDOWN_MS = 7 * DAY_MS;
+// A probe that has not reported back within this long is presumed lost
+const PROBE_LEASE_MS = 15 * 60 * 1000;
+// Sources failing for this long are disabled until an admin enables them
+export const AUTO_DISABLE_AFTER_DAYS = 14;
+
+export const CLOSED_CIRCUIT: CircuitBreaker = {
+  state: 'closed',
+  failureCount: 0,
+  openCount: 0,
+  retryAt: null,
+  failingSince: null,
+};
+
+export function toCircuitState(value: string): CircuitState {
+  return (CIRCUIT_STATES as string[]).includes(value) ? value as CircuitState : 'closed';
+}
+
+export function cooldownMs(openCount: number): number {
+  return Math.min(BASE_COOLDOWN_MS * 2 ** Math.max(openCount - 1, 0), MAX_COOLDOWN_MS);
+}
+
+/**
+ * Whether a check may run. A closed circuit checks normally; an open one
+ * waits out its cooldown and then lets a single probe through (half-open).
+ * A half-open circuit skips everything until the probe reports back or its
+ * lease runs out.
+ */
+export function beforeCheck(breaker: CircuitBreaker, now: Date = new Date()): CheckDecision {
+  if (breaker.state === 'closed') return { action: 'check' };
+
+  if (breaker.retryAt && breaker.retryAt.getTime() > now.getTime()) {
+    return { action: 'skip', retryAt: breaker.retryAt };
+  }
+
+  return { action: 'probe', leaseUntil: new Date(now.getTime() + PROBE_LEASE_MS) };
+}
+
+/**
+ * The breaker after a failed check or probe. A failed probe reopens the
+ * circuit with a doubled cooldown; `disable` is set once the failure streak
+ * is older than AUTO_DISABLE_AFTER_DAYS.
+ */
+export function afterFailure(
+  breaker: CircuitBreaker,
+  now: Date = new Date()
+): { breaker: CircuitBreaker; disable: boolean } {
+  const failureCount = breaker.failureCount + 1;
+  const failingSince = breaker.failingSince ?? now;
+  const disable = now.getTime() - failingSince.getTime() >= AUTO_DISABLE_AFTER_DAYS * DAY_MS;
+
+  const shouldOpen = breaker.state !== 'closed' || failureCount >= FAILURE_THRESHOLD;
+  if (!shouldOpen) {
+    return { breaker: { ...breaker, failureCount, failingSince }, disable };
+  }
+
+  const openCount = breaker.openCount + 1;
+  return {
+    breaker: {
+      state: 'open',
+      failureCount,
+      openCount,
+      retryAt: new Date(now.getTime() + cooldownMs(openCount)),
+      failingSince,
+    },
+    disable,
+  };
+}
+
+/**
+ * Reads a breaker from a series_sources row.
+ */
+export function readCircuit(row: {
+  circuit_state: string;
+  failure_count: number;
+  circuit_open_count: number;
+  circuit_retry_at: Date | null;
+  failing_since: Date | null;
+}): CircuitBreaker {
+  return {
+    state: toCircuitState(row.circuit_state),
+    failureCount: row.failure_count,
+    openCount: row.circuit_open_count,
+    retryAt: row.circuit_retry_at,
+    failingSince: row.failing_since,
+  };
+}
+
+/**
+ * The series_sources columns for a breaker.
+ */
+export function circuitData(breaker: CircuitBreaker) {
+  return {
+    circuit_state: breaker.state,
+    failure_count: breaker.failureCount,
+    circuit_open_count: breaker.openCount,
+    circuit_retry_at: breaker.retryAt,
+    failing_since: breaker.failingSince,
+  };
+}
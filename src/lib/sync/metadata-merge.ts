@@ -0,0 +1,198 @@
+import type { ScrapedSeriesMetadata } from '@/lib/scrapers';
+import { isWhitelistedDomain } from '@/lib/constants/image-whitelist';
+
+/**
+ * Series columns a metadata refresh may write, and therefore lock.
+ */
+export const MERGEABLE_FIELDS = [
+  'title',
+  'alternative_titles',
+  'description',
+  'cover_url',
+  'status',
+  'genres',
+  'tags',
+  'content_rating',
+] as const;
+
+export type MergeableField = (typeof MERGEABLE_FIELDS)[number];
+
+export interface SeriesMetadataValues {
+  title: string;
+  alternative_titles: string[];
+  description: string | null;
+  cover_url: string | null;
+  status: string | null;
+  genres: string[];
+  tags: string[];
+  content_rating: string | null;
+}
+
+export interface SourceMetadata {
+  sourceName: string;
+  trustScore: number;
+  metadata: ScrapedSeriesMetadata;
+}
+
+interface Candidate<T> {
+  value: T;
+  weight: number;
+  /** Highest single trust score backing this value, used to break ties. */
+  best: number;
+}
+
+// A list value (genre, tag) needs this share of the trust behind the field to be kept
+const LIST_SUPPORT_THRESHOLD = 0.5;
+
+export function isMergeableField(field: string): field is MergeableField {
+  return (MERGEABLE_FIELDS as readonly string[]).includes(field);
+}
+
+/**
+ * Merges metadata scraped from a series' sources into the values to write.
+ *
+ * Single-valued fields take the value with the most trust behind it, so two
+ * agreeing mid-trust sources outvote one high-trust source. Genres and tags
+ * keep values backed by at least half of the trust that reported the field.
+ * Alternative titles are a union, including titles the vote did not pick.
+ * Locked fields and fields no source reported are left out of the result, as
+ * are values equal to the current ones, so an empty object means "no change".
+ */
+export function mergeSeriesMetadata(
+  current: SeriesMetadataValues,
+  sources: SourceMetadata[],
+  lockedFields: string[] = []
+): Partial<SeriesMetadataValues> {
+  const trusted = sources.filter(s => s.trustScore > 0);
+  const locked = new Set(lockedFields);
+  const merged: Partial<SeriesMetadataValues> = {};
+
+  const title = vote(trusted, m => m.title, normalizeText);
+  const scalars: Partial<Record<MergeableField, string | undefined>> = {
+    title,
+    description: vote(trusted, m => m.description, v => v.trim()),
+    // Covers are rendered through the image proxy, which only serves whitelisted hosts
+    cover_url: vote(trusted, m => (m.coverUrl && isWhitelistedDomain(m.coverUrl) ? m.coverUrl : undefined), v => v),
+    status: vote(trusted, m => m.status, normalizeText),
+    content_rating: vote(trusted, m => m.contentRating, normalizeText),
+  };
+
+  for (const [field, value] of Object.entries(scalars) as [MergeableField, string | undefined][]) {
+    if (value !== undefined && !locked.has(field) && value !== current[field]) {
+      (merged as Record<string, string>)[field] = value;
+    }
+  }
+
+  const lists: [MergeableField, string[] | undefined][] = [
+    ['genres', consensus(trusted, m => m.genres)],
+    ['tags', consensus(trusted, m => m.tags)],
+  ];
+  for (const [field, value] of lists) {
+    if (value !== undefined && !locked.has(field) && !sameSet(value, current[field] as string[])) {
+      (merged as Record<string, string[]>)[field] = value;
+    }
+  }
+
+  if (!locked.has('alternative_titles')) {
+    const finalTitle = merged.title ?? current.title;
+    const alternatives = uniqueText([
+      ...current.alternative_titles,
+      ...(current.title !== finalTitle ? [current.title] : []),
+      ...trusted.flatMap(s => [s.metadata.title, ...(s.metadata.alternativeTitles ?? [])]),
+    ]).filter(t => normalizeText(t) !== normalizeText(finalTitle));
+
+    if (!sameList(alternatives, current.alternative_titles)) {
+      merged.alternative_titles = alternatives;
+    }
+  }
+
+  return merged;
+}
+
+function vote(
+  sources: SourceMetadata[],
+  pick: (metadata: ScrapedSeriesMetadata) => string | undefined,
+  key: (value: string) => string
+): string | undefined {
+  const candidates = new Map<string, Candidate<string>>();
+
+  for (const source of sources) {
+    const value = pick(source.metadata)?.trim();
+    if (!value) continue;
+
+    const k = key(value);
+    const candidate = candidates.get(k) ?? { value, weight: 0, best: 0 };
+    candidate.weight += source.trustScore;
+    // Show the spelling used by the most trusted source backing this value
+    if (source.trustScore > candidate.best) {
+      candidate.best = source.trustScore;
+      candidate.value = value;
+    }
+    candidates.set(k, candidate);
+  }
+
+  return best(Array.from(candidates.values()))?.value;
+}
+
+function consensus(
+  sources: SourceMetadata[],
+  pick: (metadata: ScrapedSeriesMetadata) => string[] | undefined
+): string[] | undefined {
+  const reporting = sources.filter(s => (pick(s.metadata)?.length ?? 0) > 0);
+  if (reporting.length === 0) return undefined;
+
+  const totalWeight = reporting.reduce((sum, s) => sum + s.trustScore, 0);
+  const candidates = new Map<string, Candidate<string>>();
+
+  for (const source of reporting) {
+    const values = new Map(pick(source.metadata)!.map(v => [normalizeText(v), v.trim()]));
+    for (const [k, value] of values) {
+      if (!k) continue;
+      const candidate = candidates.get(k) ?? { value, weight: 0, best: 0 };
+      candidate.weight += source.trustScore;
+      if (source.trustScore > candidate.best) {
+        candidate.best = source.trustScore;
+        candidate.value = value;
+      }
+      candidates.set(k, candidate);
+    }
+  }
+
+  return Array.from(candidates.values())
+    .filter(c => c.weight >= totalWeight * LIST_SUPPORT_THRESHOLD)
+    .sort((a, b) => b.weight - a.weight)
+    .map(c => c.value);
+}
+
+function best<T>(candidates: Candidate<T>[]): Candidate<T> | undefined {
+  return candidates.reduce<Candidate<T> | undefined>((winner, c) => {
+    if (!winner) return c;
+    if (c.weight !== winner.weight) return c.weight > winner.weight ? c : winner;
+    return c.best > winner.best ? c : winner;
+  }, undefined);
+}
+
+export function normalizeText(value: string): string {
+  return value.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+function uniqueText(values: (string | undefined)[]): string[] {
+  const seen = new Set<string>();
+  const result: string[] = [];
+  for (const value of values) {
+    const trimmed = value?.trim();
+    if (!trimmed || seen.has(normalizeText(trimmed))) continue;
+    seen.add(normalizeText(trimmed));
+    result.push(trimmed);
+  }
+  return result;
+}
+
+function sameSet(a: string[], b: string[] | null | undefined): boolean {
+  const normalize = (values: string[]) => values.map(normalizeText).sort();
+  return sameList(normalize(a), normalize(b ?? []));
+}
+
+function sameList(a: string[], b: string[] | null | undefined): boolean {
+  return JSON.stringify(a) === JSON.stringify(b ?? []);
+}
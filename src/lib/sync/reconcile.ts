@@ -0,0 +1,166 @@
+import type { ScrapedChapter } from '@/lib/scrapers';
+import { chapterKey } from './chapter-selection';
+
+/**
+ * The columns of a stored chapter that reconciliation compares.
+ */
+export interface StoredChapter {
+  id: string;
+  chapter_number: { toString(): string } | number;
+  chapter_title: string | null;
+  chapter_url: string;
+  volume_number: number | null;
+  is_available: boolean;
+}
+
+type ReconciledField = 'chapter_title' | 'chapter_url' | 'volume_number' | 'is_available';
+
+export type ChapterFieldChanges = Partial<{
+  [K in ReconciledField]: { from: StoredChapter[K]; to: StoredChapter[K] };
+} & {
+  chapter_number: { from: number; to: number };
+}>;
+
+/**
+ * removed: the source no longer lists the chapter or flags it unavailable.
+ * restored: a removed chapter is readable again.
+ * renumbered: the chapter at the same URL now has another number.
+ * updated: title, URL or volume changed.
+ */
+export type ChapterChangeType = 'updated' | 'renumbered' | 'removed' | 'restored';
+
+export interface ChapterChange {
+  chapterId: string;
+  chapterNumber: number;
+  type: ChapterChangeType;
+  fields: ChapterFieldChanges;
+}
+
+export interface ReconcilePlan {
+  create: ScrapedChapter[];
+  changes: ChapterChange[];
+  /** Set when chapters missing from the scrape were left alone because the scrape was incomplete. */
+  removalsSkipped: boolean;
+}
+
+export interface ReconcileOptions {
+  /** The scrape is known to be incomplete (e.g. a truncated feed), so absence proves nothing. */
+  partial?: boolean;
+}
+
+/**
+ * Compares a source's stored chapters with a fresh scrape.
+ *
+ * Chapters are never deleted: a chapter the source dropped (DMCA, re-upload
+ * elsewhere) is only marked unavailable, so read progress, activities and
+ * notifications pointing at it keep working. Fields the scrape does not
+ * provide (undefined) are treated as unknown rather than cleared.
+ *
+ * Scraped chapters are matched by URL first, so a chapter the source
+ * renumbered keeps its row instead of being removed and created again (and
+ * announced as new). The URL match only wins when no other stored chapter
+ * holds the new number; otherwise chapters are matched by number.
+ */
+export function reconcileChapters(
+  stored: StoredChapter[],
+  scraped: ScrapedChapter[],
+  options: ReconcileOptions = {}
+): ReconcilePlan {
+  const storedByNumber = new Map(stored.map(c => [chapterKey(c.chapter_number), c]));
+  const storedByUrl = new Map(stored.map(c => [c.chapter_url, c]));
+  const matches = new Map<ScrapedChapter, StoredChapter>();
+  const matchedIds = new Set<string>();
+
+  for (const chapter of scraped) {
+    const existing = storedByUrl.get(chapter.chapterUrl);
+    if (!existing || matchedIds.has(existing.id)) continue;
+
+    const holder = storedByNumber.get(chapterKey(chapter.chapterNumber));
+    if (holder && holder.id !== existing.id) continue;
+
+    matches.set(chapter, existing);
+    matchedIds.add(existing.id);
+  }
+
+  for (const chapter of scraped) {
+    if (matches.has(chapter)) continue;
+
+    const existing = storedByNumber.get(chapterKey(chapter.chapterNumber));
+    if (!existing || matchedIds.has(existing.id)) continue;
+
+    matches.set(chapter, existing);
+    matchedIds.add(existing.id);
+  }
+
+  const create: ScrapedChapter[] = [];
+  const changes: ChapterChange[] = [];
+
+  for (const chapter of scraped) {
+    const existing = matches.get(chapter);
+    if (!existing) {
+      create.push(chapter);
+      continue;
+    }
+
+    const fields: ChapterFieldChanges = {};
+    const storedNumber = Number(existing.chapter_number.toString());
+    if (chapterKey(storedNumber) !== chapterKey(chapter.chapterNumber)) {
+      fields.chapter_number = { from: storedNumber, to: chapter.chapterNumber };
+    }
+    if (chapter.chapterTitle !== undefined && chapter.chapterTitle !== existing.chapter_title) {
+      fields.chapter_title = { from: existing.chapter_title, to: chapter.chapterTitle };
+    }
+    if (chapter.chapterUrl !== existing.chapter_url) {
+      fields.chapter_url = { from: existing.chapter_url, to: chapter.chapterUrl };
+    }
+    if (chapter.volumeNumber !== undefined && chapter.volumeNumber !== existing.volume_number) {
+      fields.volume_number = { from: existing.volume_number, to: chapter.volumeNumber };
+    }
+
+    const isAvailable = chapter.isAvailable ?? true;
+    if (isAvailable !== existing.is_available) {
+      fields.is_available = { from: existing.is_available, to: isAvailable };
+    }
+
+    if (Object.keys(fields).length === 0) continue;
+
+    changes.push({
+      chapterId: existing.id,
+      chapterNumber: chapter.chapterNumber,
+      type: fields.is_available
+        ? (isAvailable ? 'restored' : 'removed')
+        : fields.chapter_number ? 'renumbered' : 'updated',
+      fields,
+    });
+  }
+
+  // An empty scrape is far more likely a broken page than a series with every chapter taken down
+  const removalsSkipped = options.partial === true || (scraped.length === 0 && stored.length > 0);
+
+  if (!removalsSkipped) {
+    for (const existing of stored) {
+      if (matchedIds.has(existing.id) || !existing.is_available) continue;
+
+      changes.push({
+        chapterId: existing.id,
+        chapterNumber: Number(existing.chapter_number.toString()),
+        type: 'removed',
+        fields: { is_available: { from: true, to: false } },
+      });
+    }
+  }
+
+  return { create, changes, removalsSkipped };
+}
+
+/**
+ * The column values to write for a change. Renumbers must be written before
+ * new chapters are inserted, since a new chapter may take a freed number.
+ */
+export function changeData(
+  change: ChapterChange
+): Partial<Omit<StoredChapter, 'id' | 'chapter_number'> & { chapter_number: number }> {
+  return Object.fromEntries(
+    Object.entries(change.fields).map(([field, diff]) => [field, diff!.to])
+  );
+}
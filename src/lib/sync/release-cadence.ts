@@ -0,0 +1,127 @@
+import { SYNC_INTERVALS, SyncPriority } from './sync-priority';
+
+export type ReleasePattern = 'weekly' | 'biweekly' | 'monthly' | 'irregular' | 'hiatus' | 'unknown';
+
+export interface ReleaseForecast {
+  pattern: ReleasePattern;
+  /** Typical gap between drops; null when there is not enough history. */
+  intervalHours: number | null;
+  /** 0-1: share of recent gaps close to the typical gap. */
+  confidence: number;
+  lastReleaseAt: Date | null;
+  /** Null for hiatus and unknown patterns. */
+  nextReleaseAt: Date | null;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Chapters released this close together are one drop (batch uploads, multi-source lag)
+const SAME_DROP_MS = 36 * HOUR_MS;
+const MIN_DROPS = 3;
+const MAX_GAPS = 12;
+// A gap within this fraction of the typical gap counts as "on schedule"
+const GAP_TOLERANCE = 0.3;
+// No drop for this many typical gaps means the series is on hiatus
+const HIATUS_GAPS = 3;
+const MIN_HIATUS_MS = 21 * DAY_MS;
+
+const PATTERNS: { pattern: ReleasePattern; minDays: number; maxDays: number; days: number }[] = [
+  { pattern: 'weekly', minDays: 5.5, maxDays: 8.5, days: 7 },
+  { pattern: 'biweekly', minDays: 12, maxDays: 16, days: 14 },
+  { pattern: 'monthly', minDays: 26, maxDays: 35, days: 30 },
+];
+
+/**
+ * Predicts a series' next drop from when its chapters were released
+ * (published_at, falling back to discovered_at), using the median of the
+ * most recent gaps between drops.
+ */
+export function forecastRelease(releaseDates: Date[], now: Date = new Date()): ReleaseForecast {
+  const drops = groupDrops(releaseDates);
+  const lastReleaseAt = drops.length > 0 ? new Date(drops[drops.length - 1]) : null;
+
+  if (drops.length < MIN_DROPS) {
+    return { pattern: 'unknown', intervalHours: null, confidence: 0, lastReleaseAt, nextReleaseAt: null };
+  }
+
+  const gaps = drops.slice(1).map((time, i) => time - drops[i]).slice(-MAX_GAPS);
+  const median = [...gaps].sort((a, b) => a - b)[Math.floor(gaps.length / 2)];
+  const onSchedule = gaps.filter(gap => Math.abs(gap - median) <= median * GAP_TOLERANCE).length;
+  const confidence = Math.round((onSchedule / gaps.length) * 100) / 100;
+
+  const known = PATTERNS.find(p => median >= p.minDays * DAY_MS && median <= p.maxDays * DAY_MS);
+  // Snap recognised patterns to their calendar period so predictions do not drift
+  const interval = known ? known.days * DAY_MS : median;
+  const intervalHours = Math.round(interval / HOUR_MS);
+
+  const silence = now.getTime() - lastReleaseAt!.getTime();
+  if (silence > Math.max(interval * HIATUS_GAPS, MIN_HIATUS_MS)) {
+    return { pattern: 'hiatus', intervalHours, confidence, lastReleaseAt, nextReleaseAt: null };
+  }
+
+  // A late drop is still expected one period after the last; skip periods already missed
+  const missed = Math.max(0, Math.floor(silence / interval));
+  const nextReleaseAt = new Date(lastReleaseAt!.getTime() + (missed + 1) * interval);
+
+  return {
+    pattern: known?.pattern ?? 'irregular',
+    intervalHours,
+    confidence,
+    lastReleaseAt,
+    nextReleaseAt,
+  };
+}
+
+// Forecasts below this confidence do not change when sources are checked
+const MIN_SCHEDULING_CONFIDENCE = 0.5;
+const WINDOW_BEFORE_MS = HOUR_MS;
+const WINDOW_AFTER_MS = 6 * HOUR_MS;
+// Before the window, still look this often (at most) so early drops are not missed for long
+const EARLY_DROP_CHECK_MS = 6 * HOUR_MS;
+// Inside the window, check one priority level hotter than usual
+const WINDOW_PRIORITY: Record<SyncPriority, SyncPriority> = { HOT: 'HOT', WARM: 'HOT', COLD: 'WARM' };
+
+/**
+ * When to check a source next. Without a usable forecast this is the plain
+ * priority interval. With one, checks thin out before the expected drop,
+ * tighten from an hour before it until six hours after, and fall back to
+ * the priority interval once the drop is late.
+ */
+export function nextCheckAt(
+  priority: SyncPriority,
+  forecast: Pick<ReleaseForecast, 'nextReleaseAt' | 'confidence'> | null,
+  now: Date = new Date()
+): Date {
+  const base = now.getTime() + SYNC_INTERVALS[priority];
+
+  if (!forecast?.nextReleaseAt || forecast.confidence < MIN_SCHEDULING_CONFIDENCE) {
+    return new Date(base);
+  }
+
+  const windowStart = forecast.nextReleaseAt.getTime() - WINDOW_BEFORE_MS;
+  const windowEnd = forecast.nextReleaseAt.getTime() + WINDOW_AFTER_MS;
+
+  if (now.getTime() < windowStart) {
+    const sparse = now.getTime() + Math.max(SYNC_INTERVALS[priority], EARLY_DROP_CHECK_MS);
+    return new Date(Math.min(windowStart, sparse));
+  }
+
+  if (now.getTime() <= windowEnd) {
+    return new Date(now.getTime() + SYNC_INTERVALS[WINDOW_PRIORITY[priority]]);
+  }
+
+  return new Date(base);
+}
+
+function groupDrops(releaseDates: Date[]): number[] {
+  const times = releaseDates.map(d => d.getTime()).sort((a, b) => a - b);
+  const drops: number[] = [];
+
+  for (const time of times) {
+    if (drops.length > 0 && time - drops[drops.length - 1] < SAME_DROP_MS) continue;
+    drops.push(time);
+  }
+
+  return drops;
+}
@@ -0,0 +1,79 @@
+import { FAILURE_THRESHOLD } from './circuit-breaker';
+
+export const SYNC_INTERVALS = {
+  HOT: 15 * 60 * 1000,      // 15 mins
+  WARM: 2 * 60 * 60 * 1000,  // 2 hours
+  COLD: 24 * 60 * 60 * 1000, // 24 hours
+} as const;
+
+export type SyncPriority = keyof typeof SYNC_INTERVALS;
+
+export const SYNC_PRIORITIES: SyncPriority[] = ['HOT', 'WARM', 'COLD'];
+
+export function toSyncPriority(value: string): SyncPriority {
+  return (SYNC_PRIORITIES as string[]).includes(value) ? value as SyncPriority : 'COLD';
+}
+
+export interface ReaderSignal {
+  /** LibraryEntry.sync_priority: how eagerly this reader wants updates. */
+  syncPriority: string;
+  lastReadAt: Date | null;
+}
+
+export interface PriorityInput {
+  /** Library entries with status "reading". */
+  readers: ReaderSignal[];
+  /** When the series' chapters were first released, across all sources. */
+  releaseDates: Date[];
+  /** When this source last produced a new chapter, or was added if it has none yet. */
+  lastChapterAt: Date | null;
+  failureCount: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// How much one reader asks for, by the priority on their library entry
+const READER_WEIGHTS: Record<SyncPriority, number> = { HOT: 3, WARM: 1, COLD: 0.25 };
+const HOT_DEMAND = 5;
+const WARM_DEMAND = 1;
+// At least this many releases in RELEASE_WINDOW_DAYS makes a series "active"
+const ACTIVE_RELEASES = 2;
+const RELEASE_WINDOW_DAYS = 60;
+// A source without a new chapter for this long is quiet, whatever the demand
+const QUIET_AFTER_DAYS = 90;
+
+/**
+ * Reader demand for a series: readers weighted by their entry's priority and
+ * by how recently they read (this week counts fully, this month half, older
+ * a fifth).
+ */
+export function readerDemand(readers: ReaderSignal[], now: Date = new Date()): number {
+  return readers.reduce((sum, reader) => {
+    const weight = READER_WEIGHTS[toSyncPriority(reader.syncPriority)];
+    const age = reader.lastReadAt ? now.getTime() - reader.lastReadAt.getTime() : Infinity;
+    const recency = age <= 7 * DAY_MS ? 1 : age <= 30 * DAY_MS ? 0.5 : 0.2;
+    return sum + weight * recency;
+  }, 0);
+}
+
+/**
+ * Decides how often a source should be checked.
+ *
+ * HOT needs both strong demand and a series that is actively releasing;
+ * WARM needs some demand; everything else, quiet sources and sources the
+ * circuit breaker has given up on are COLD.
+ */
+export function computeSyncPriority(input: PriorityInput, now: Date = new Date()): SyncPriority {
+  if (input.failureCount >= FAILURE_THRESHOLD) return 'COLD';
+
+  const isQuiet = !input.lastChapterAt || now.getTime() - input.lastChapterAt.getTime() > QUIET_AFTER_DAYS * DAY_MS;
+  if (isQuiet) return 'COLD';
+
+  const windowStart = now.getTime() - RELEASE_WINDOW_DAYS * DAY_MS;
+  const recentReleases = input.releaseDates.filter(d => d.getTime() >= windowStart).length;
+  const demand = readerDemand(input.readers, now);
+
+  if (demand >= HOT_DEMAND && recentReleases >= ACTIVE_RELEASES) return 'HOT';
+  if (demand >= WARM_DEMAND) return 'WARM';
+  return 'COLD';
+}
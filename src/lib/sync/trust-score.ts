@@ -0,0 +1,128 @@
+/**
+ * Observed behaviour of one source for one series, as loaded by the trust
+ * score job.
+ */
+export interface SourceObservation {
+  id: string;
+  failureCount: number;
+  lastSuccessAt: Date | null;
+  chapters: { chapterNumber: number; releasedAt: Date }[];
+  /** Chapters marked removed (see ChapterChange) within the lookback window. */
+  retractedCount: number;
+}
+
+export interface TrustComponents {
+  /** Recent checks succeed and the source has succeeded lately. */
+  reliability: number;
+  /** Publishes shared chapters as early as its sibling sources. */
+  timeliness: number;
+  /** Rarely takes chapters down. */
+  retention: number;
+  /** Numbering has no gaps up to the series' latest chapter. */
+  completeness: number;
+}
+
+export interface TrustScore {
+  sourceId: string;
+  score: number;
+  components: TrustComponents;
+}
+
+const WEIGHTS: TrustComponents = {
+  reliability: 0.35,
+  timeliness: 0.25,
+  retention: 0.2,
+  completeness: 0.2,
+};
+
+// trust_score is Decimal(3, 2)
+const MAX_SCORE = 9.99;
+// Neutral value for components there is not enough data to judge
+const NEUTRAL = 0.5;
+const FAILURES_TO_ZERO = 5;
+const FRESH_SUCCESS_MS = 3 * 24 * 60 * 60 * 1000;
+const STALE_SUCCESS_MS = 30 * 24 * 60 * 60 * 1000;
+// A source this many hours behind the first sibling gets half the timeliness score
+const LAG_HALF_LIFE_HOURS = 24;
+// Losing this share of chapters to takedowns zeroes retention
+const RETRACTION_RATE_TO_ZERO = 0.2;
+
+/**
+ * Scores every source of one series on a 0-10 scale. Timeliness and
+ * completeness are relative to the other sources of the same series.
+ */
+export function computeTrustScores(sources: SourceObservation[], now: Date = new Date()): TrustScore[] {
+  const firstRelease = new Map<string, number>();
+  let latestChapter = 0;
+
+  for (const source of sources) {
+    for (const chapter of source.chapters) {
+      const key = chapter.chapterNumber.toFixed(2);
+      const time = chapter.releasedAt.getTime();
+      firstRelease.set(key, Math.min(firstRelease.get(key) ?? Infinity, time));
+      latestChapter = Math.max(latestChapter, Math.floor(chapter.chapterNumber));
+    }
+  }
+
+  return sources.map(source => {
+    const components: TrustComponents = {
+      reliability: reliability(source, now),
+      timeliness: sources.length > 1 ? timeliness(source, firstRelease) : NEUTRAL,
+      retention: retention(source),
+      completeness: completeness(source, latestChapter),
+    };
+
+    const weighted = (Object.keys(WEIGHTS) as (keyof TrustComponents)[])
+      .reduce((sum, key) => sum + WEIGHTS[key] * components[key], 0);
+
+    return {
+      sourceId: source.id,
+      score: Math.min(Math.round(weighted * 1000) / 100, MAX_SCORE),
+      components,
+    };
+  });
+}
+
+function reliability(source: SourceObservation, now: Date): number {
+  const failurePenalty = 1 - Math.min(source.failureCount, FAILURES_TO_ZERO) / FAILURES_TO_ZERO;
+
+  if (!source.lastSuccessAt) {
+    return failurePenalty * NEUTRAL;
+  }
+
+  const age = now.getTime() - source.lastSuccessAt.getTime();
+  const freshness = age <= FRESH_SUCCESS_MS
+    ? 1
+    : Math.max(0, 1 - (age - FRESH_SUCCESS_MS) / (STALE_SUCCESS_MS - FRESH_SUCCESS_MS));
+
+  return failurePenalty * freshness;
+}
+
+function timeliness(source: SourceObservation, firstRelease: Map<string, number>): number {
+  const lags = source.chapters
+    .map(c => (c.releasedAt.getTime() - firstRelease.get(c.chapterNumber.toFixed(2))!) / (60 * 60 * 1000))
+    .sort((a, b) => a - b);
+
+  if (lags.length === 0) return NEUTRAL;
+
+  const median = lags[Math.floor(lags.length / 2)];
+  return LAG_HALF_LIFE_HOURS / (LAG_HALF_LIFE_HOURS + median);
+}
+
+function retention(source: SourceObservation): number {
+  const total = source.chapters.length + source.retractedCount;
+  if (total === 0) return NEUTRAL;
+
+  const rate = source.retractedCount / total;
+  return Math.max(0, 1 - rate / RETRACTION_RATE_TO_ZERO);
+}
+
+function completeness(source: SourceObservation, latestChapter: number): number {
+  if (latestChapter < 1) return NEUTRAL;
+
+  // Count whole chapters only; .5 specials and extras are bonuses, not gaps
+  const present = new Set(
+    source.chapters.map(c => Math.floor(c.chapterNumber)).filter(n => n >= 1 && n <= latestChapter)
+  );
+  return present.size / latestChapter;
+}
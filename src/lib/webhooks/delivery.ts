@@ -0,0 +1,232 @@
+import { createHmac } from 'crypto';
+import dns, { LookupAddress } from 'dns';
+import https from 'https';
+import { BlockList, isIP, LookupFunction } from 'net';
+import { isInternalIP } from '@/lib/constants/image-whitelist';
+import { formatWebhookBody, WebhookFormat, WebhookPayload } from './formatters';
+
+export const SIGNATURE_HEADER = 'X-Kenmei-Signature';
+export const TIMESTAMP_HEADER = 'X-Kenmei-Timestamp';
+
+export class WebhookError extends Error {
+  constructor(
+    message: string,
+    public readonly statusCode: number | null,
+    public readonly retryable: boolean
+  ) {
+    super(message);
+    this.name = 'WebhookError';
+  }
+}
+
+export interface WebhookTarget {
+  url: string;
+  secret: string;
+  format: WebhookFormat;
+}
+
+export interface WebhookResponse {
+  statusCode: number;
+  durationMs: number;
+}
+
+// Addresses a webhook must never reach: private, shared (CGNAT), loopback,
+// link-local, documentation, benchmarking, multicast and reserved ranges
+const NON_PUBLIC_RANGES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8],
+  ['169.254.0.0', 16], ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.0.2.0', 24],
+  ['192.168.0.0', 16], ['198.18.0.0', 15], ['198.51.100.0', 24], ['203.0.113.0', 24],
+  ['224.0.0.0', 3],
+] as const) {
+  NON_PUBLIC_RANGES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  // IPv4-compatible addresses, including :: and ::1
+  ['::', 96], ['64:ff9b:1::', 48], ['100::', 64], ['2001::', 32], ['2001:db8::', 32],
+  ['fc00::', 7], ['fe80::', 10], ['fec0::', 10], ['ff00::', 8],
+] as const) {
+  NON_PUBLIC_RANGES.addSubnet(network, prefix, 'ipv6');
+}
+
+/** The eight 16-bit groups of an IPv6 address, which must be valid. */
+function ipv6Groups(address: string): number[] {
+  let text = address.toLowerCase();
+  const dotted = text.match(/^(.*:)(\d+\.\d+\.\d+\.\d+)$/);
+  if (dotted) {
+    const [a, b, c, d] = dotted[2].split('.').map(Number);
+    text = `${dotted[1]}${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`;
+  }
+
+  const [head, tail] = text.split('::');
+  const parse = (part: string | undefined) => (part ? part.split(':').map(group => parseInt(group, 16)) : []);
+  const start = parse(head);
+  const end = parse(tail);
+  return tail === undefined ? start : [...start, ...new Array(8 - start.length - end.length).fill(0), ...end];
+}
+
+/**
+ * The IPv4 address an IPv6 address stands for, if it is one of the forms
+ * that is routed to IPv4: IPv4-mapped (::ffff:0:0/96), NAT64 (64:ff9b::/96)
+ * or 6to4 (2002::/16).
+ */
+function embeddedIPv4(address: string): string | null {
+  const groups = ipv6Groups(address);
+  const quad = (high: number, low: number) => `${high >> 8}.${high & 0xff}.${low >> 8}.${low & 0xff}`;
+
+  if (groups.slice(0, 5).every(g => g === 0) && groups[5] === 0xffff) return quad(groups[6], groups[7]);
+  if (groups[0] === 0x64 && groups[1] === 0xff9b && groups.slice(2, 6).every(g => g === 0)) return quad(groups[6], groups[7]);
+  if (groups[0] === 0x2002) return quad(groups[1], groups[2]);
+  return null;
+}
+
+/**
+ * Whether an IP address is publicly routable. IPv6 forms that carry an IPv4
+ * address are judged by that address, so ::ffff:7f00:1 is loopback.
+ */
+export function isPublicAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 4) return !NON_PUBLIC_RANGES.check(address, 'ipv4');
+  if (family !== 6) return false;
+
+  const ipv4 = embeddedIPv4(address);
+  return ipv4 ? isPublicAddress(ipv4) : !NON_PUBLIC_RANGES.check(address, 'ipv6');
+}
+
+/**
+ * Whether a URL may be registered as a webhook: https on the default port,
+ * no credentials, and a public address (isPublicAddress) or a name that does
+ * not look internal (isInternalIP).
+ */
+export function isAllowedWebhookUrl(value: string): boolean {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return false;
+  }
+  if (url.protocol !== 'https:' || url.port !== '' || url.username || url.password) return false;
+
+  // URL keeps IPv6 literals bracketed
+  const host = url.hostname.replace(/^\[(.*)\]$/, '$1');
+  return isIP(host) ? isPublicAddress(host) : !isInternalIP(host);
+}
+
+/**
+ * Resolves the host and returns its addresses if every one is public, or null
+ * if any is not or the name does not resolve.
+ */
+export async function resolvePublicAddresses(hostname: string): Promise<LookupAddress[] | null> {
+  const host = hostname.replace(/^\[(.*)\]$/, '$1');
+  if (isIP(host)) return isPublicAddress(host) ? [{ address: host, family: isIP(host) }] : null;
+
+  try {
+    const addresses = await dns.promises.lookup(host, { all: true });
+    return addresses.length > 0 && addresses.every(({ address }) => isPublicAddress(address)) ? addresses : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Checks every address the host resolves to, so a public name pointing at a
+ * private network is refused when delivering, not just when registering.
+ */
+export async function resolvesToPublicAddress(hostname: string): Promise<boolean> {
+  return (await resolvePublicAddresses(hostname)) !== null;
+}
+
+/**
+ * A `lookup` that answers with addresses already checked, so the connection
+ * cannot be pointed elsewhere by a second DNS answer (DNS rebinding).
+ */
+function pinnedLookup(addresses: LookupAddress[]): LookupFunction {
+  return (_hostname, options, callback) => {
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  };
+}
+
+/**
+ * POSTs the body to an already checked address and resolves with the status
+ * code. Redirects are not followed: they could lead to internal hosts.
+ */
+function post(
+  url: URL,
+  addresses: LookupAddress[],
+  headers: Record<string, string>,
+  body: string,
+  timeoutMs: number
+): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const request = https.request(url, {
+      method: 'POST',
+      headers: { ...headers, 'Content-Length': String(Buffer.byteLength(body)) },
+      lookup: pinnedLookup(addresses),
+    }, (response) => {
+      clearTimeout(timer);
+      response.resume(); // The response body is not used
+      resolve(response.statusCode ?? 0);
+    });
+
+    const timer = setTimeout(() => request.destroy(new Error(`Timed out after ${timeoutMs}ms`)), timeoutMs);
+    request.on('error', (error) => {
+      clearTimeout(timer);
+      reject(error);
+    });
+    request.end(body);
+  });
+}
+
+/**
+ * `sha256=<hex HMAC of "<timestamp>.<body>">` keyed with the webhook secret.
+ * Receivers recompute it from the raw body and X-Kenmei-Timestamp.
+ */
+export function signWebhookBody(secret: string, timestamp: number, body: string): string {
+  return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
+
+/**
+ * POSTs the payload to the webhook in its format. Throws a WebhookError for
+ * refused URLs, network errors and non-2xx responses; `retryable` says
+ * whether trying again later can help.
+ */
+export async function sendWebhook(
+  target: WebhookTarget,
+  payload: WebhookPayload,
+  { timeoutMs = 10_000, now = Date.now() } = {}
+): Promise<WebhookResponse> {
+  const addresses = isAllowedWebhookUrl(target.url) ? await resolvePublicAddresses(new URL(target.url).hostname) : null;
+  if (!addresses) {
+    throw new WebhookError('Webhook URL does not resolve to a public address', null, false);
+  }
+
+  const body = JSON.stringify(formatWebhookBody(target.format, payload));
+  const timestamp = Math.floor(now / 1000);
+  const started = Date.now();
+
+  let statusCode: number;
+  try {
+    statusCode = await post(new URL(target.url), addresses, {
+      'Content-Type': 'application/json',
+      'User-Agent': 'Kenmei-Webhooks/1.0',
+      'X-Kenmei-Event': payload.event,
+      'X-Kenmei-Delivery': payload.id,
+      [TIMESTAMP_HEADER]: String(timestamp),
+      [SIGNATURE_HEADER]: signWebhookBody(target.secret, timestamp, body),
+    }, body, timeoutMs);
+  } catch (error) {
+    throw new WebhookError(`Request failed: ${error instanceof Error ? error.message : String(error)}`, null, true);
+  }
+
+  const durationMs = Date.now() - started;
+  if (statusCode < 200 || statusCode >= 300) {
+    const retryable = statusCode >= 500 || statusCode === 408 || statusCode === 429;
+    throw new WebhookError(`Responded ${statusCode}`, statusCode, retryable);
+  }
+
+  return { statusCode, durationMs };
+}
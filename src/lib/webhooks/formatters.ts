@@ -0,0 +1,106 @@
+export const WEBHOOK_EVENTS = ['new_chapter', 'new_follower', 'achievement'] as const;
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+
+export const WEBHOOK_FORMATS = ['json', 'discord', 'slack'] as const;
+export type WebhookFormat = (typeof WEBHOOK_FORMATS)[number];
+
+/**
+ * What a delivery sends in the `json` format, and what the delivery log
+ * stores for every format.
+ */
+export interface WebhookPayload {
+  /** Delivery id; repeated on retries so receivers can deduplicate. */
+  id: string;
+  event: WebhookEvent;
+  created_at: string;
+  title: string;
+  message: string | null;
+  /** Where to open the event in the app. */
+  url: string;
+  series?: { id: string; title: string; chapter_count: number; chapter_numbers: number[] };
+  actor?: { id: string; username: string };
+}
+
+const EVENT_LABELS: Record<WebhookEvent, string> = {
+  new_chapter: 'New chapter',
+  new_follower: 'New follower',
+  achievement: 'Achievement unlocked',
+};
+
+// Discord embed sidebar colours
+const EVENT_COLORS: Record<WebhookEvent, number> = {
+  new_chapter: 0x3b82f6,
+  new_follower: 0x22c55e,
+  achievement: 0xf59e0b,
+};
+
+function summary(payload: WebhookPayload): { title: string; description: string } {
+  if (payload.series) {
+    const { title, chapter_numbers: numbers, chapter_count: count } = payload.series;
+    return {
+      title,
+      description: numbers.length === 1
+        ? `Chapter ${numbers[0]} is out`
+        : numbers.length > 1
+          ? `Chapters ${numbers.join(', ')} are out`
+          : `${count} new chapter${count === 1 ? ' is' : 's are'} out`,
+    };
+  }
+  if (payload.actor) {
+    return { title: payload.title, description: `${payload.actor.username} started following you` };
+  }
+  return { title: payload.title, description: payload.message ?? '' };
+}
+
+function slackEscape(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * The request body for a webhook in the given format. Discord and Slack get
+ * their incoming-webhook message shapes; `json` gets the payload as is.
+ */
+export function formatWebhookBody(format: WebhookFormat, payload: WebhookPayload): object {
+  const { title, description } = summary(payload);
+
+  switch (format) {
+    case 'discord':
+      return {
+        username: 'Kenmei',
+        embeds: [{
+          title: title.slice(0, 256),
+          description: description.slice(0, 4096),
+          url: payload.url,
+          color: EVENT_COLORS[payload.event],
+          timestamp: payload.created_at,
+          footer: { text: EVENT_LABELS[payload.event] },
+        }],
+      };
+    case 'slack':
+      return {
+        text: `${EVENT_LABELS[payload.event]}: ${title} - ${description}`,
+        blocks: [
+          {
+            type: 'section',
+            text: { type: 'mrkdwn', text: `*<${payload.url}|${slackEscape(title)}>*\n${slackEscape(description)}` },
+          },
+          {
+            type: 'context',
+            elements: [{ type: 'mrkdwn', text: EVENT_LABELS[payload.event] }],
+          },
+        ],
+      };
+    case 'json':
+      return payload;
+  }
+}
+
+/**
+ * Picks the format for a URL when the user did not choose one.
+ */
+export function detectWebhookFormat(url: string): WebhookFormat {
+  const { hostname, pathname } = new URL(url);
+  if (/(^|\.)discord(app)?\.com$/.test(hostname) && pathname.startsWith('/api/webhooks/')) return 'discord';
+  if (hostname === 'hooks.slack.com') return 'slack';
+  return 'json';
+}
@@ -0,0 +1,267 @@
+import { randomBytes, randomUUID } from 'crypto';
+import { prisma } from '@/lib/prisma';
+import { webhookQueue } from '@/lib/queues';
+import { ApiError, ErrorCodes } from '@/lib/api-utils';
+import { APP_URL } from '@/lib/email/unsubscribe';
+import { NotificationDelivery } from '@/lib/notifications/dispatcher';
+import { z } from 'zod';
+import { isAllowedWebhookUrl } from './delivery';
+import {
+  detectWebhookFormat,
+  WEBHOOK_EVENTS,
+  WEBHOOK_FORMATS,
+  WebhookEvent,
+  WebhookPayload,
+} from './formatters';
+
+export const LIBRARY_STATUSES = ['reading', 'completed', 'planning', 'dropped', 'paused'] as const;
+
+const MAX_WEBHOOKS_PER_USER = 10;
+
+// Failed deliveries (after retries) in a row before a webhook is turned off
+export const MAX_CONSECUTIVE_FAILURES = 10;
+
+/** Narrows new_chapter events; an empty list matches everything. */
+export const WebhookFilterSchema = z.object({
+  series_ids: z.array(z.string().uuid()).max(500).default([]),
+  library_statuses: z.array(z.enum(LIBRARY_STATUSES)).default([]),
+}).strict();
+
+export type WebhookFilter = z.infer<typeof WebhookFilterSchema>;
+
+const WebhookUrlSchema = z.string().trim().max(2000)
+  .refine(isAllowedWebhookUrl, 'Webhook URL must be a public https:// URL');
+
+export const WebhookCreateSchema = z.object({
+  url: WebhookUrlSchema,
+  /** Detected from the URL when omitted. */
+  format: z.enum(WEBHOOK_FORMATS).optional(),
+  events: z.array(z.enum(WEBHOOK_EVENTS)).min(1),
+  filter: WebhookFilterSchema.optional(),
+}).strict();
+
+export const WebhookUpdateSchema = WebhookCreateSchema.partial().extend({
+  /** Turning a webhook back on clears its failure count. */
+  enabled: z.boolean().optional(),
+}).strict();
+
+// Everything but the secret, which is only shown once
+const WEBHOOK_SELECT = {
+  id: true,
+  url: true,
+  format: true,
+  events: true,
+  filter: true,
+  enabled: true,
+  disabled_reason: true,
+  consecutive_failures: true,
+  last_delivery_at: true,
+  created_at: true,
+} as const;
+
+function isWebhookEvent(type: string): type is WebhookEvent {
+  return (WEBHOOK_EVENTS as readonly string[]).includes(type);
+}
+
+function parseEvents(events: unknown): WebhookEvent[] {
+  return Array.isArray(events) ? events.filter((e): e is WebhookEvent => typeof e === 'string' && isWebhookEvent(e)) : [];
+}
+
+function parseFilter(filter: unknown): WebhookFilter {
+  const result = WebhookFilterSchema.safeParse(filter ?? {});
+  return result.success ? result.data : { series_ids: [], library_statuses: [] };
+}
+
+/**
+ * Whether a webhook wants an event. Series and status filters only apply to
+ * new_chapter events.
+ */
+export function webhookMatches(
+  webhook: { events: unknown; filter: unknown },
+  event: WebhookEvent,
+  context: { series_id?: string; library_status?: string | null } = {}
+): boolean {
+  if (!parseEvents(webhook.events).includes(event)) return false;
+  if (event !== 'new_chapter') return true;
+
+  const filter = parseFilter(webhook.filter);
+  if (filter.series_ids.length > 0 && !(context.series_id && filter.series_ids.includes(context.series_id))) return false;
+  if (filter.library_statuses.length > 0 && !filter.library_statuses.some(s => s === context.library_status)) return false;
+  return true;
+}
+
+export async function listWebhooks(userId: string) {
+  return prisma.webhook.findMany({
+    where: { user_id: userId },
+    select: WEBHOOK_SELECT,
+    orderBy: { created_at: 'asc' },
+  });
+}
+
+/**
+ * Registers a webhook and returns it with its signing secret. The secret is
+ * not returned again.
+ */
+export async function createWebhook(userId: string, input: z.infer<typeof WebhookCreateSchema>) {
+  const count = await prisma.webhook.count({ where: { user_id: userId } });
+  if (count >= MAX_WEBHOOKS_PER_USER) {
+    throw new ApiError(`You can register up to ${MAX_WEBHOOKS_PER_USER} webhooks`, 400, ErrorCodes.BAD_REQUEST);
+  }
+
+  const secret = `whsec_${randomBytes(32).toString('base64url')}`;
+  const webhook = await prisma.webhook.create({
+    data: {
+      user_id: userId,
+      url: input.url,
+      format: input.format ?? detectWebhookFormat(input.url),
+      secret,
+      events: input.events,
+      filter: input.filter ?? WebhookFilterSchema.parse({}),
+    },
+    select: WEBHOOK_SELECT,
+  });
+
+  return { ...webhook, secret };
+}
+
+async function findOwnWebhook(userId: string, webhookId: string) {
+  const webhook = await prisma.webhook.findFirst({
+    where: { id: webhookId, user_id: userId },
+    select: { id: true },
+  });
+  if (!webhook) {
+    throw new ApiError('Webhook not found', 404, ErrorCodes.NOT_FOUND);
+  }
+  return webhook;
+}
+
+export async function updateWebhook(userId: string, webhookId: string, input: z.infer<typeof WebhookUpdateSchema>) {
+  await findOwnWebhook(userId, webhookId);
+
+  return prisma.webhook.update({
+    where: { id: webhookId },
+    data: {
+      ...(input.url !== undefined && { url: input.url, format: input.format ?? detectWebhookFormat(input.url) }),
+      ...(input.format !== undefined && { format: input.format }),
+      ...(input.events !== undefined && { events: input.events }),
+      ...(input.filter !== undefined && { filter: input.filter }),
+      ...(input.enabled !== undefined && { enabled: input.enabled }),
+      ...(input.enabled === true && { consecutive_failures: 0, disabled_reason: null }),
+    },
+    select: WEBHOOK_SELECT,
+  });
+}
+
+export async function deleteWebhook(userId: string, webhookId: string) {
+  await findOwnWebhook(userId, webhookId);
+  await prisma.webhook.delete({ where: { id: webhookId } });
+}
+
+export async function listWebhookDeliveries(userId: string, webhookId: string, limit = 50) {
+  await findOwnWebhook(userId, webhookId);
+
+  return prisma.webhookDelivery.findMany({
+    where: { webhook_id: webhookId },
+    select: {
+      id: true,
+      event: true,
+      payload: true,
+      status: true,
+      attempts: true,
+      response_status: true,
+      error: true,
+      duration_ms: true,
+      created_at: true,
+      delivered_at: true,
+    },
+    orderBy: { created_at: 'desc' },
+    take: limit,
+  });
+}
+
+/**
+ * Logs a delivery for every enabled webhook that wants one of the
+ * notifications and queues them for the webhook worker. Digests are skipped:
+ * webhooks already got their chapters as they came out.
+ */
+export async function enqueueWebhookDeliveries(deliveries: NotificationDelivery[]) {
+  const events = deliveries.filter(d => isWebhookEvent(d.type) && typeof d.metadata?.digest !== 'string');
+  if (events.length === 0) return;
+
+  const webhooks = await prisma.webhook.findMany({
+    where: { user_id: { in: Array.from(new Set(events.map(d => d.user_id))) }, enabled: true },
+    select: { id: true, user_id: true, events: true, filter: true },
+  });
+  if (webhooks.length === 0) return;
+
+  const seriesIds = Array.from(new Set(events.flatMap(d => (d.series_id ? [d.series_id] : []))));
+  const actorIds = Array.from(new Set(events.flatMap(d => (d.actor_user_id ? [d.actor_user_id] : []))));
+  const [series, actors, entries] = await Promise.all([
+    seriesIds.length > 0
+      ? prisma.series.findMany({ where: { id: { in: seriesIds } }, select: { id: true, title: true } })
+      : [],
+    actorIds.length > 0
+      ? prisma.user.findMany({ where: { id: { in: actorIds } }, select: { id: true, username: true } })
+      : [],
+    seriesIds.length > 0 && webhooks.some(w => parseFilter(w.filter).library_statuses.length > 0)
+      ? prisma.libraryEntry.findMany({
+          where: { user_id: { in: webhooks.map(w => w.user_id) }, series_id: { in: seriesIds } },
+          select: { user_id: true, series_id: true, status: true },
+        })
+      : [],
+  ]);
+  const seriesTitles = new Map(series.map(s => [s.id, s.title]));
+  const usernames = new Map(actors.map(a => [a.id, a.username]));
+  const statuses = new Map(entries.map(e => [`${e.user_id}:${e.series_id}`, e.status]));
+
+  const rows: { id: string; webhook_id: string; event: WebhookEvent; payload: object }[] = [];
+  const createdAt = new Date().toISOString();
+
+  for (const delivery of events) {
+    const event = delivery.type as WebhookEvent;
+    const context = {
+      series_id: delivery.series_id,
+      library_status: statuses.get(`${delivery.user_id}:${delivery.series_id}`) ?? null,
+    };
+
+    for (const webhook of webhooks) {
+      if (webhook.user_id !== delivery.user_id || !webhookMatches(webhook, event, context)) continue;
+
+      const id = randomUUID();
+      const metadata = delivery.metadata ?? {};
+      const chapterNumbers = Array.isArray(metadata.chapter_numbers)
+        ? metadata.chapter_numbers.filter((n): n is number => typeof n === 'number')
+        : [];
+      const seriesTitle = delivery.series_id ? seriesTitles.get(delivery.series_id) : undefined;
+      const username = delivery.actor_user_id ? usernames.get(delivery.actor_user_id) : undefined;
+
+      const payload: WebhookPayload = {
+        id,
+        event,
+        created_at: createdAt,
+        title: delivery.title,
+        message: delivery.message ?? null,
+        url: delivery.series_id
+          ? `${APP_URL}/series/${delivery.series_id}`
+          : username ? `${APP_URL}/users/${username}` : `${APP_URL}/notifications`,
+        ...(delivery.series_id && seriesTitle && {
+          series: {
+            id: delivery.series_id,
+            title: seriesTitle,
+            chapter_count: typeof metadata.chapter_count === 'number' ? metadata.chapter_count : chapterNumbers.length || 1,
+            chapter_numbers: chapterNumbers,
+          },
+        }),
+        ...(delivery.actor_user_id && username && { actor: { id: delivery.actor_user_id, username } }),
+      };
+      rows.push({ id, webhook_id: webhook.id, event, payload });
+    }
+  }
+  if (rows.length === 0) return;
+
+  await prisma.webhookDelivery.createMany({ data: rows });
+  await webhookQueue.addBulk(rows.map(row => ({
+    name: `webhook-${row.event}`,
+    data: { deliveryId: row.id },
+  })));
+}
@@ -0,0 +1,123 @@
+import http from 'http';
+import { redis } from '@/lib/redis';
+import { prisma } from '@/lib/prisma';
+import { QUEUE_DRIVER } from '@/lib/queue';
+import { SCHEDULER_TICK_INTERVAL } from './schedulers/master.scheduler';
+
+export type HealthCheck = () => Promise<void>;
+
+export interface HealthServerOptions {
+  /** Readiness checks by name; a check is healthy unless it throws. */
+  checks: Record<string, HealthCheck>;
+  /** Renders the Prometheus text exposition for GET /metrics. */
+  renderMetrics: () => Promise<string>;
+  checkTimeoutMs?: number;
+}
+
+const HEARTBEAT_KEY = 'scheduler:heartbeat';
+// Ticks run every SCHEDULER_TICK_INTERVAL on some worker; a few missed ticks means the scheduler is stuck
+const HEARTBEAT_MAX_AGE_MS = 3 * SCHEDULER_TICK_INTERVAL;
+const startedAt = Date.now();
+// With the in-memory queue driver every tick runs in this process
+let localHeartbeat: number | null = null;
+
+/**
+ * Marks a completed scheduler tick. Any worker may run a tick, so the
+ * heartbeat lives in Redis and every worker's readiness check reads it.
+ */
+export async function recordSchedulerHeartbeat(now: Date = new Date()) {
+  if (QUEUE_DRIVER === 'memory') {
+    localHeartbeat = now.getTime();
+    return;
+  }
+  await redis.set(HEARTBEAT_KEY, String(now.getTime()), 'PX', HEARTBEAT_MAX_AGE_MS * 2);
+}
+
+async function checkSchedulerHeartbeat() {
+  const value = QUEUE_DRIVER === 'memory' ? localHeartbeat : await redis.get(HEARTBEAT_KEY);
+  const age = value ? Date.now() - Number(value) : Infinity;
+
+  // A fresh cluster has not ticked yet
+  if (age > HEARTBEAT_MAX_AGE_MS && Date.now() - startedAt > HEARTBEAT_MAX_AGE_MS) {
+    throw new Error(value ? `Last scheduler tick ${Math.round(age / 1000)}s ago` : 'No scheduler tick recorded');
+  }
+}
+
+export const workerHealthChecks: Record<string, HealthCheck> = {
+  ...(QUEUE_DRIVER === 'bullmq' && {
+    redis: async () => {
+      await redis.ping();
+    },
+  }),
+  database: async () => {
+    await prisma.$queryRaw`SELECT 1`;
+  },
+  scheduler: checkSchedulerHeartbeat,
+};
+
+function withTimeout(check: HealthCheck, timeoutMs: number): Promise<void> {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`Timed out after ${timeoutMs}ms`)), timeoutMs);
+  });
+  return Promise.race([check(), timeout]).finally(() => clearTimeout(timer));
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * HTTP server for orchestrators and Prometheus:
+ * - GET /healthz: liveness, 200 while the process can serve requests
+ * - GET /readyz: readiness, 503 unless every check passes
+ * - GET /metrics: Prometheus text format
+ */
+export function createHealthServer(options: HealthServerOptions): http.Server {
+  const checkTimeoutMs = options.checkTimeoutMs ?? 2000;
+
+  return http.createServer(async (req, res) => {
+    if (req.method !== 'GET') {
+      sendJson(res, 405, { error: 'Method not allowed' });
+      return;
+    }
+
+    const path = (req.url ?? '/').split('?')[0];
+
+    try {
+      if (path === '/healthz') {
+        sendJson(res, 200, { status: 'ok', uptime: Math.round(process.uptime()) });
+        return;
+      }
+
+      if (path === '/readyz') {
+        const entries = Object.entries(options.checks);
+        const results = await Promise.allSettled(entries.map(([, check]) => withTimeout(check, checkTimeoutMs)));
+
+        const checks = Object.fromEntries(entries.map(([name], i) => {
+          const result = results[i];
+          return [name, result.status === 'fulfilled'
+            ? { status: 'ok' }
+            : { status: 'error', error: result.reason instanceof Error ? result.reason.message : String(result.reason) }];
+        }));
+        const ready = results.every(r => r.status === 'fulfilled');
+
+        sendJson(res, ready ? 200 : 503, { status: ready ? 'ok' : 'error', checks });
+        return;
+      }
+
+      if (path === '/metrics') {
+        const body = await options.renderMetrics();
+        res.writeHead(200, { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' });
+        res.end(body);
+        return;
+      }
+
+      sendJson(res, 404, { error: 'Not found' });
+    } catch (error) {
+      console.error('[Health] Request failed:', error);
+      sendJson(res, 500, { error: 'Internal error' });
+    }
+  });
+}
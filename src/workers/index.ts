@@ -1,74 +1,203 @@
-import { Worker } from 'bullmq';
-import { redis, disconnectRedis } from '@/lib/redis';
-import { CHECK_SOURCE_QUEUE, NOTIFICATION_QUEUE } from '@/lib/queues';
+import { disconnectRedis } from '@/lib/redis';
+import { QUEUE_DRIVER, queueDriver } from '@/lib/queue';
+import {
+  CHECK_SOURCE_QUEUE,
+  checkSourceDeadLetterQueue,
+  checkSourceQueue,
+  DIGEST_QUEUE,
+  digestQueue,
+  EMAIL_QUEUE,
+  emailQueue,
+  METADATA_QUEUE,
+  metadataQueue,
+  NOTIFICATION_QUEUE,
+  notificationQueue,
+  PUSH_QUEUE,
+  pushQueue,
+  SCHEDULER_QUEUE,
+  schedulerQueue,
+  SYNC_PRIORITY_QUEUE,
+  syncPriorityQueue,
+  TRUST_SCORE_QUEUE,
+  trustScoreQueue,
+  WEBHOOK_QUEUE,
+  webhookQueue,
+} from '@/lib/queues';
+import { metrics } from '@/lib/metrics';
+import { deadLetterCheckSource, hasExhaustedRetries } from '@/lib/dead-letter';
 import { processCheckSource } from './processors/check-source.processor';
 import { processNotification } from './processors/notification.processor';
-import { runMasterScheduler } from './schedulers/master.scheduler';
+import { processEmail } from './processors/email.processor';
+import { processPush } from './processors/push.processor';
+import { processWebhook } from './processors/webhook.processor';
+import { processDigests } from './processors/digest.processor';
+import { processRefreshMetadata } from './processors/refresh-metadata.processor';
+import { processTrustScores } from './processors/trust-score.processor';
+import { processSyncPriorities } from './processors/sync-priority.processor';
+import { processSchedulerTick } from './processors/scheduler-tick.processor';
+import { scheduleSchedulerTick } from './schedulers/master.scheduler';
+import { scheduleTrustScores } from './schedulers/trust-score.scheduler';
+import { scheduleSyncPriorities } from './schedulers/sync-priority.scheduler';
+import { scheduleDigests } from './schedulers/digest.scheduler';
+import { createHealthServer, workerHealthChecks } from './health';
+import { collectQueueMetrics, observeJobDuration } from './queue-metrics';
 
-console.log('[Workers] Starting...');
+console.log(`[Workers] Starting with the ${QUEUE_DRIVER} queue driver...`);
 
 // Check Source Worker
-const checkSourceWorker = new Worker(
+// Rate limiting is per source host (see HostBudget), not a global limiter
+// Metrics feed the throughput estimate the master scheduler sizes batches with
+const checkSourceWorker = queueDriver.createWorker(
   CHECK_SOURCE_QUEUE,
   processCheckSource,
-  { 
-    connection: redis,
+  {
     concurrency: 5,
-    limiter: {
-      max: 10,
-      duration: 1000,
-    },
+    metrics: true,
   }
 );
 
 // Notification Worker
-const notificationWorker = new Worker(
+const notificationWorker = queueDriver.createWorker(
   NOTIFICATION_QUEUE,
   processNotification,
-  { 
-    connection: redis,
+  {
+    concurrency: 10,
+  }
+);
+
+// Email Worker
+// One SMTP connection per message, so keep concurrency modest
+const emailWorker = queueDriver.createWorker(
+  EMAIL_QUEUE,
+  processEmail,
+  {
+    concurrency: 5,
+  }
+);
+
+// Push Worker
+const pushWorker = queueDriver.createWorker(
+  PUSH_QUEUE,
+  processPush,
+  {
+    concurrency: 10,
+  }
+);
+
+// Webhook Worker
+const webhookWorker = queueDriver.createWorker(
+  WEBHOOK_QUEUE,
+  processWebhook,
+  {
     concurrency: 10,
   }
 );
 
-// Scheduler interval
-const SCHEDULER_INTERVAL = 5 * 60 * 1000; // 5 minutes
-let schedulerInterval: NodeJS.Timeout | null = null;
+// Digest Worker
+const digestWorker = queueDriver.createWorker(
+  DIGEST_QUEUE,
+  processDigests,
+  {
+    concurrency: 1,
+  }
+);
+
+// Metadata Refresh Worker
+// Scrapes go through the same per-source HostBudget as chapter checks
+const metadataWorker = queueDriver.createWorker(
+  METADATA_QUEUE,
+  processRefreshMetadata,
+  {
+    concurrency: 2,
+  }
+);
+
+// Trust Score Worker
+const trustScoreWorker = queueDriver.createWorker(
+  TRUST_SCORE_QUEUE,
+  processTrustScores,
+  {
+    concurrency: 1,
+  }
+);
+
+// Sync Priority Worker
+const syncPriorityWorker = queueDriver.createWorker(
+  SYNC_PRIORITY_QUEUE,
+  processSyncPriorities,
+  {
+    concurrency: 1,
+  }
+);
+
+// Scheduler Worker
+// Ticks come from a queue job scheduler, so each runs in exactly one process
+const schedulerWorker = queueDriver.createWorker(
+  SCHEDULER_QUEUE,
+  processSchedulerTick,
+  {
+    concurrency: 1,
+  }
+);
+
+// Health and metrics server
+const HEALTH_PORT = Number(process.env.WORKER_HEALTH_PORT) || 9090;
+const healthServer = createHealthServer({
+  checks: workerHealthChecks,
+  renderMetrics: async () => {
+    await collectQueueMetrics([
+      checkSourceQueue,
+      notificationQueue,
+      emailQueue,
+      pushQueue,
+      webhookQueue,
+      digestQueue,
+      metadataQueue,
+      trustScoreQueue,
+      syncPriorityQueue,
+      schedulerQueue,
+      checkSourceDeadLetterQueue,
+    ]);
+    return metrics.render();
+  },
+});
+
+healthServer.listen(HEALTH_PORT, () => {
+  console.log(`[Health] Listening on port ${HEALTH_PORT}`);
+});
 
 async function startScheduler() {
-  // Run immediately on start
   try {
-    await runMasterScheduler();
+    await Promise.all([scheduleSchedulerTick(), scheduleTrustScores(), scheduleSyncPriorities(), scheduleDigests()]);
   } catch (error) {
-    console.error('[Scheduler] Initial run failed:', error);
+    console.error('[Scheduler] Failed to register recurring jobs:', error);
   }
-  
-  schedulerInterval = setInterval(async () => {
-    try {
-      await runMasterScheduler();
-    } catch (error) {
-      console.error('[Scheduler] Error in master scheduler:', error);
-    }
-  }, SCHEDULER_INTERVAL);
 }
 
 // Graceful shutdown
 async function shutdown(signal: string) {
   console.log(`[Workers] Received ${signal}, shutting down gracefully...`);
   
-  // Stop scheduler
-  if (schedulerInterval) {
-    clearInterval(schedulerInterval);
-  }
+  healthServer.close();
 
   // Close workers (waits for current jobs to finish)
   await Promise.all([
     checkSourceWorker.close(),
     notificationWorker.close(),
+    emailWorker.close(),
+    pushWorker.close(),
+    webhookWorker.close(),
+    digestWorker.close(),
+    metadataWorker.close(),
+    trustScoreWorker.close(),
+    syncPriorityWorker.close(),
+    schedulerWorker.close(),
   ]);
 
   // Disconnect Redis
-  await disconnectRedis();
+  if (QUEUE_DRIVER === 'bullmq') {
+    await disconnectRedis();
+  }
   
   console.log('[Workers] Shutdown complete');
   process.exit(0);
@@ -78,12 +207,23 @@ process.on('SIGTERM', () => shutdown('SIGTERM'));
 process.on('SIGINT', () => shutdown('SIGINT'));
 
 // Worker event handlers
+for (const worker of [checkSourceWorker, notificationWorker, emailWorker, pushWorker, webhookWorker, digestWorker, metadataWorker, trustScoreWorker, syncPriorityWorker, schedulerWorker]) {
+  worker.on('completed', (job) => observeJobDuration(worker.name, job, 'completed'));
+  worker.on('failed', (job) => observeJobDuration(worker.name, job, 'failed'));
+}
+
 checkSourceWorker.on('completed', (job) => {
   console.log(`[CheckSource] Job ${job.id} completed`);
 });
 
 checkSourceWorker.on('failed', (job, err) => {
   console.error(`[CheckSource] Job ${job?.id} failed:`, err.message);
+
+  if (job && hasExhaustedRetries(job)) {
+    deadLetterCheckSource(job, err).catch((error) => {
+      console.error(`[CheckSource] Failed to dead-letter job ${job.id}:`, error);
+    });
+  }
 });
 
 notificationWorker.on('completed', (job) => {
@@ -94,6 +234,38 @@ notificationWorker.on('failed', (job, err) => {
   console.error(`[Notification] Job ${job?.id} failed:`, err.message);
 });
 
+emailWorker.on('failed', (job, err) => {
+  console.error(`[Email] Job ${job?.id} failed:`, err.message);
+});
+
+pushWorker.on('failed', (job, err) => {
+  console.error(`[Push] Job ${job?.id} failed:`, err.message);
+});
+
+webhookWorker.on('failed', (job, err) => {
+  console.error(`[Webhook] Job ${job?.id} failed:`, err.message);
+});
+
+digestWorker.on('failed', (job, err) => {
+  console.error(`[Digest] Job ${job?.id} failed:`, err.message);
+});
+
+metadataWorker.on('failed', (job, err) => {
+  console.error(`[Metadata] Job ${job?.id} failed:`, err.message);
+});
+
+trustScoreWorker.on('failed', (job, err) => {
+  console.error(`[TrustScore] Job ${job?.id} failed:`, err.message);
+});
+
+syncPriorityWorker.on('failed', (job, err) => {
+  console.error(`[SyncPriority] Job ${job?.id} failed:`, err.message);
+});
+
+schedulerWorker.on('failed', (job, err) => {
+  console.error(`[Scheduler] Job ${job?.id} failed:`, err.message);
+});
+
 startScheduler().catch(console.error);
 
 console.log('[Workers] Active and listening for jobs');
@@ -1,11 +1,40 @@
-import { Job } from 'bullmq';
+import { DelayedError, QueueJob } from '@/lib/queue';
 import { prisma } from '@/lib/prisma';
-import { scrapers, ScraperError, validateSourceUrl } from '@/lib/scrapers';
+import { scraperRegistry, hasCapability, ScraperError, validateSourceUrl } from '@/lib/scrapers';
+import { hostBudget } from '@/lib/scrapers/politeness';
+import { metrics } from '@/lib/metrics';
+import { changeData, reconcileChapters } from '@/lib/sync/reconcile';
+import { chapterKey } from '@/lib/sync/chapter-selection';
+import { refreshReleaseForecasts } from '@/lib/release-forecast';
 import { notificationQueue } from '@/lib/queues';
+import { failureRecord } from '@/lib/dead-letter';
+import {
+  afterFailure,
+  AUTO_DISABLE_AFTER_DAYS,
+  beforeCheck,
+  circuitData,
+  CLOSED_CIRCUIT,
+  readCircuit,
+} from '@/lib/sync/circuit-breaker';
 import { Prisma } from '@prisma/client';
 import { z } from 'zod';
 
-const MAX_CONSECUTIVE_FAILURES = 5;
+const checksSkipped = metrics.counter(
+  'scraper_checks_skipped_total',
+  'Checks short-circuited because the source had not changed'
+);
+const bytesSaved = metrics.counter(
+  'scraper_bytes_saved_total',
+  'Estimated bytes not downloaded thanks to skipped checks'
+);
+const scrapeDuration = metrics.histogram(
+  'scraper_scrape_duration_seconds',
+  'Time taken to scrape a series from a source'
+);
+const chaptersDiscovered = metrics.counter(
+  'chapters_discovered_total',
+  'New chapters found by source checks'
+);
 
 const CheckSourceDataSchema = z.object({
   seriesSourceId: z.string().uuid(),
@@ -15,7 +44,17 @@ export interface CheckSourceData {
   seriesSourceId: string;
 }
 
-export async function processCheckSource(job: Job<CheckSourceData>) {
+/** Returned when the source was actually checked; skipped checks return nothing. */
+export interface CheckSourceResult {
+  newChapters: number;
+}
+
+export type CheckSourceStage = 'scraping' | 'saving';
+
+export async function processCheckSource(
+  job: QueueJob<CheckSourceData>,
+  token?: string
+): Promise<CheckSourceResult | undefined> {
   // Validate job payload
   const parseResult = CheckSourceDataSchema.safeParse(job.data);
   if (!parseResult.success) {
@@ -34,69 +73,158 @@ export async function processCheckSource(job: Job<CheckSourceData>) {
     return; // Don't retry, source was deleted
   }
 
-  // Circuit breaker: skip if too many consecutive failures
-  if (source.failure_count >= MAX_CONSECUTIVE_FAILURES) {
-    console.warn(`[Worker] Source ${seriesSourceId} circuit breaker open (${source.failure_count} failures)`);
-    
-    // Demote to COLD and extend next check
+  if (source.disabled_at) {
+    console.warn(`[Worker] Source ${seriesSourceId} is disabled, skipping`);
+    return;
+  }
+
+  // Circuit breaker: an open circuit waits out its cooldown, then lets one probe through
+  const circuit = readCircuit(source);
+  const decision = beforeCheck(circuit);
+  if (decision.action === 'skip') {
+    console.warn(`[Worker] Source ${seriesSourceId} circuit ${circuit.state} until ${decision.retryAt.toISOString()}`);
     await prisma.seriesSource.update({
       where: { id: source.id },
-      data: {
-        sync_priority: 'COLD',
-        next_check_at: new Date(Date.now() + 24 * 60 * 60 * 1000), // 24hr
-      }
+      data: { sync_priority: 'COLD', next_check_at: decision.retryAt },
     });
     return;
   }
+  const isProbe = decision.action === 'probe';
+
+  const recordFailure = async (error: unknown, isRetryable: boolean) => {
+    const { breaker, disable } = afterFailure(circuit);
 
-  // Validate source URL
-  if (!validateSourceUrl(source.source_url)) {
-    console.error(`[Worker] Invalid source URL for ${seriesSourceId}`);
     await prisma.seriesSource.update({
       where: { id: source.id },
       data: {
-        failure_count: { increment: 1 },
         last_checked_at: new Date(),
+        ...circuitData(breaker),
+        failures: { create: failureRecord(error, job, isRetryable) },
+        ...(breaker.state === 'open' && { sync_priority: 'COLD', next_check_at: breaker.retryAt }),
+        ...(disable && {
+          disabled_at: new Date(),
+          disabled_reason: `Automatically disabled after failing for ${AUTO_DISABLE_AFTER_DAYS} days`,
+        }),
       }
     });
+
+    if (disable) {
+      console.warn(`[Worker] Source ${source.id} disabled after failing for ${AUTO_DISABLE_AFTER_DAYS} days`);
+    } else if (breaker.state === 'open') {
+      console.warn(`[Worker] Source ${source.id} circuit open until ${breaker.retryAt?.toISOString()}`);
+    }
+
+    return breaker;
+  };
+
+  const plugin = scraperRegistry.get(source.source_name);
+  if (!plugin || !hasCapability(plugin, 'chapters')) {
+    console.error(`[Worker] No chapter scraper for source ${source.source_name}`);
+    return; // Don't retry, no scraper available
+  }
+
+  // Validate source URL belongs to the source's registered hosts
+  if (!validateSourceUrl(source.source_url, plugin.name)) {
+    console.error(`[Worker] Invalid source URL for ${seriesSourceId}`);
+    await recordFailure(new Error(`Invalid source URL: ${source.source_url}`), false);
     return; // Don't retry, URL is invalid
   }
 
-  const scraper = scrapers[source.source_name.toLowerCase()];
-  if (!scraper) {
-    console.error(`[Worker] No scraper for source ${source.source_name}`);
-    return; // Don't retry, no scraper available
+  // Per-source politeness: delay (not fail) the job when the host budget is spent
+  const budget = await hostBudget.acquire(plugin.name, plugin.rateLimit, job.id ?? seriesSourceId);
+  if (!budget.allowed) {
+    console.warn(
+      `[Worker] ${plugin.name} ${budget.reason} budget exhausted, delaying job ${job.id} by ${budget.retryAfterMs}ms`
+    );
+    await job.moveToDelayed(Date.now() + budget.retryAfterMs, token);
+    throw new DelayedError();
+  }
+
+  if (isProbe) {
+    // Claim the probe: only the worker that moves the circuit to half-open runs it
+    const claimed = await prisma.seriesSource.updateMany({
+      where: { id: source.id, circuit_state: circuit.state, circuit_retry_at: circuit.retryAt },
+      data: { circuit_state: 'half-open', circuit_retry_at: decision.leaseUntil },
+    });
+    if (claimed.count === 0) {
+      await budget.release();
+      console.log(`[Worker] Source ${seriesSourceId} is already being probed, skipping`);
+      return;
+    }
+    console.log(`[Worker] Probing source ${seriesSourceId} (circuit half-open)`);
   }
 
   try {
-    const scrapedData = await scraper.scrapeSeries(source.source_id);
-    
+    await job.updateProgress({ stage: 'scraping' satisfies CheckSourceStage });
+    const endScrape = scrapeDuration.startTimer({ source: plugin.name });
+    const scrapedData = await plugin.scraper.scrapeSeries(source.source_id, {
+      previous: {
+        etag: source.etag,
+        lastModified: source.last_modified,
+        contentHash: source.content_hash,
+      },
+    }).finally(() => endScrape());
+
+    if (scrapedData.unchanged) {
+      // Estimate against the size of the last full download
+      const saved = Math.max((source.last_response_bytes ?? 0) - (scrapedData.responseBytes ?? 0), 0);
+
+      await prisma.seriesSource.update({
+        where: { id: source.id },
+        data: {
+          last_checked_at: new Date(),
+          last_success_at: new Date(),
+          ...circuitData(CLOSED_CIRCUIT),
+          etag: scrapedData.fingerprint.etag ?? source.etag,
+          last_modified: scrapedData.fingerprint.lastModified ?? source.last_modified,
+          skipped_check_count: { increment: 1 },
+          bytes_saved: { increment: saved },
+        }
+      });
+
+      checksSkipped.inc({ source: plugin.name, reason: scrapedData.reason });
+      bytesSaved.inc({ source: plugin.name }, saved);
+      console.log(`[Worker] ${source.series.title} (${source.source_name}) unchanged (${scrapedData.reason}), skipped`);
+      return { newChapters: 0 };
+    }
+
+    const { fingerprint } = scrapedData;
+    await job.updateProgress({ stage: 'saving' satisfies CheckSourceStage });
+
     // Use transaction for atomicity
     const result = await prisma.$transaction(async (tx) => {
       // Get existing chapters within transaction to prevent race conditions
       const existingChapters = await tx.chapter.findMany({
         where: { series_source_id: source.id },
-        select: { chapter_number: true }
+        select: {
+          id: true,
+          chapter_number: true,
+          chapter_title: true,
+          chapter_url: true,
+          volume_number: true,
+          is_available: true,
+        }
       });
 
-      const existingNumbers = new Set(
-        existingChapters.map(c => c.chapter_number.toString())
-      );
-      
-      const newChaptersData: Prisma.ChapterCreateManyInput[] = [];
-
-      for (const chapter of scrapedData.chapters) {
-        const chapterKey = chapter.chapterNumber.toString();
-        if (!existingNumbers.has(chapterKey)) {
-          newChaptersData.push({
-            series_id: source.series_id,
-            series_source_id: source.id,
-            chapter_number: new Prisma.Decimal(chapter.chapterNumber),
-            chapter_title: chapter.chapterTitle || null,
-            chapter_url: chapter.chapterUrl,
-            published_at: chapter.publishedAt || null,
-          });
-        }
+      const plan = reconcileChapters(existingChapters, scrapedData.chapters, { partial: scrapedData.partial });
+
+      const newChaptersData: Prisma.ChapterCreateManyInput[] = plan.create.map(chapter => ({
+        series_id: source.series_id,
+        series_source_id: source.id,
+        chapter_number: new Prisma.Decimal(chapter.chapterNumber),
+        chapter_title: chapter.chapterTitle || null,
+        chapter_url: chapter.chapterUrl,
+        volume_number: chapter.volumeNumber ?? null,
+        is_available: chapter.isAvailable ?? true,
+        published_at: chapter.publishedAt || null,
+      }));
+
+      // Renumbers first: a new chapter may take a number one of them frees
+      for (const change of plan.changes) {
+        await tx.chapter.update({
+          where: { id: change.chapterId },
+          data: changeData(change),
+        });
       }
 
       let insertedCount = 0;
@@ -109,6 +237,21 @@ export async function processCheckSource(job: Job<CheckSourceData>) {
         insertedCount = inserted.count;
       }
 
+      if (plan.changes.length > 0) {
+        await tx.chapterChange.createMany({
+          data: plan.changes.map(change => ({
+            chapter_id: change.chapterId,
+            series_source_id: source.id,
+            change_type: change.type,
+            changes: change.fields as Prisma.InputJsonValue,
+          })),
+        });
+      }
+
+      if (plan.removalsSkipped) {
+        console.warn(`[Worker] Incomplete scrape for source ${source.id}, not marking missing chapters unavailable`);
+      }
+
       // Update source status atomically
       await tx.seriesSource.update({
         where: { id: source.id },
@@ -116,49 +259,75 @@ export async function processCheckSource(job: Job<CheckSourceData>) {
           last_checked_at: new Date(),
           last_success_at: new Date(),
           source_chapter_count: { increment: insertedCount },
-          failure_count: 0, // Reset on success
+          ...circuitData(CLOSED_CIRCUIT), // Reset on success
+          etag: fingerprint?.etag ?? null,
+          last_modified: fingerprint?.lastModified ?? null,
+          content_hash: fingerprint?.contentHash ?? null,
+          last_response_bytes: scrapedData.responseBytes ?? null,
+          // Keep the metadata snapshot fresh when the check fetched it anyway
+          ...(scrapedData.metadata && {
+            metadata: scrapedData.metadata as Prisma.InputJsonValue,
+            metadata_fetched_at: new Date(),
+          }),
         }
       });
 
-      return insertedCount;
+      if (plan.changes.length > 0) {
+        const counts = plan.changes.reduce<Record<string, number>>((acc, c) => {
+          acc[c.type] = (acc[c.type] ?? 0) + 1;
+          return acc;
+        }, {});
+        console.log(`[Worker] Reconciled ${source.series.title} (${source.source_name}):`, counts);
+      }
+
+      return { insertedCount, chapterNumbers: plan.create.map(c => chapterKey(c.chapterNumber)) };
     });
 
-    if (result > 0) {
-      // Queue notification with deduplication key
+    if (result.insertedCount > 0) {
+      chaptersDiscovered.inc({ source: plugin.name }, result.insertedCount);
+
+      // Queue notification with deduplication key; it only announces numbers no other source had
       const notificationJobId = `notify-${source.series_id}-${Date.now()}`;
       await notificationQueue.add(
         notificationJobId,
         {
           seriesId: source.series_id,
           sourceId: source.id,
-          newChapterCount: result,
+          newChapterCount: result.insertedCount,
+          chapterNumbers: result.chapterNumbers,
         },
         {
           jobId: notificationJobId, // Prevents duplicate jobs
         }
       );
 
-      console.log(`[Worker] Found ${result} new chapters for ${source.series.title} (${source.source_name})`);
+      console.log(`[Worker] Found ${result.insertedCount} new chapters for ${source.series.title} (${source.source_name})`);
+
+      // A new drop moves the expected next release; don't wait for the hourly job
+      try {
+        await refreshReleaseForecasts([source.series_id]);
+      } catch (error) {
+        console.warn(`[Worker] Failed to refresh release forecast for ${source.series_id}:`, error);
+      }
     } else {
       console.log(`[Worker] No new chapters for ${source.series.title} (${source.source_name})`);
     }
 
+    return { newChapters: result.insertedCount };
+
   } catch (error) {
     const isRetryable = error instanceof ScraperError ? error.isRetryable : true;
     
     console.error(`[Worker] Error checking source ${source.id}:`, error);
     
-    await prisma.seriesSource.update({
-      where: { id: source.id },
-      data: {
-        last_checked_at: new Date(),
-        failure_count: { increment: 1 },
-      }
-    });
+    const breaker = await recordFailure(error, isRetryable);
 
-    if (isRetryable) {
+    // A failed probe or a freshly opened circuit waits for its cooldown instead
+    if (isRetryable && breaker.state === 'closed') {
       throw error; // Let BullMQ retry
     }
     // Non-retryable errors are logged but don't cause retry
+  } finally {
+    await budget.release();
   }
 }
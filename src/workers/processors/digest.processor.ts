@@ -0,0 +1,42 @@
+import { QueueJob } from '@/lib/queue';
+import { prisma } from '@/lib/prisma';
+import { nextDigestAt, sendDigest } from '@/lib/notifications/digest';
+import { parseNotificationSettings } from '@/lib/notifications/settings';
+
+/**
+ * Sends the digest of every user whose oldest held entry has reached its
+ * digest time. Users who switched back to instant delivery get what is left
+ * right away. One user's failure does not hold up the others; their entries
+ * stay for the next tick.
+ */
+export async function processDigests(job: QueueJob) {
+  const now = new Date();
+
+  const pending = await prisma.digestItem.groupBy({
+    by: ['user_id'],
+    where: { created_at: { lte: now } },
+    _min: { created_at: true },
+  });
+  if (pending.length === 0) return { sent: 0 };
+
+  const users = await prisma.user.findMany({
+    where: { id: { in: pending.map(p => p.user_id) } },
+    select: { id: true, notification_settings: true },
+  });
+  const settingsByUser = new Map(users.map(u => [u.id, parseNotificationSettings(u.notification_settings)]));
+
+  let sent = 0;
+  for (const { user_id, _min } of pending) {
+    const settings = settingsByUser.get(user_id);
+    if (!settings || !_min.created_at || nextDigestAt(settings, _min.created_at) > now) continue;
+
+    try {
+      if (await sendDigest(user_id, settings, now) > 0) sent++;
+    } catch (error) {
+      console.error(`[Digest] Failed to send digest to ${user_id}:`, error);
+    }
+  }
+
+  console.log(`[Digest] Sent ${sent} of ${pending.length} pending digests (job ${job.id})`);
+  return { sent };
+}
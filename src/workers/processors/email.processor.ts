@@ -0,0 +1,156 @@
+import { QueueJob } from '@/lib/queue';
+import { prisma } from '@/lib/prisma';
+import { NotificationPayload, NotificationPayloadSchema } from '@/lib/notifications/dispatcher';
+import {
+  DIGEST_FREQUENCIES,
+  notificationChannels,
+  parseNotificationSettings,
+} from '@/lib/notifications/settings';
+import { SmtpError, SmtpTransport } from '@/lib/email/smtp';
+import { EmailTemplate, renderEmail } from '@/lib/email/templates';
+import { unsubscribeUrl } from '@/lib/email/unsubscribe';
+import { z } from 'zod';
+
+const EmailJobDataSchema = z.object({
+  userId: z.string().uuid(),
+  notification: NotificationPayloadSchema,
+});
+
+export interface EmailJobData {
+  userId: string;
+  notification: NotificationPayload;
+}
+
+const DigestMetadataSchema = z.object({
+  digest: z.enum(DIGEST_FREQUENCIES),
+  series: z.array(z.object({
+    series_id: z.string(),
+    title: z.string(),
+    chapter_count: z.number(),
+    chapter_numbers: z.array(z.number()),
+  })),
+});
+
+const EMAIL_FROM = process.env.EMAIL_FROM || 'Kenmei <notifications@localhost>';
+
+// Created on first use so SMTP_* settings are read at send time
+let transport: SmtpTransport | null = null;
+
+/**
+ * Builds the typed template input for a notification, or null when the
+ * notification has no email or what it refers to is gone.
+ */
+async function emailTemplate(notification: z.infer<typeof NotificationPayloadSchema>): Promise<EmailTemplate | null> {
+  const metadata = notification.metadata ?? {};
+
+  switch (notification.type) {
+    case 'new_chapter': {
+      const digest = DigestMetadataSchema.safeParse(metadata);
+      if (digest.success) {
+        return {
+          type: 'chapter_digest',
+          frequency: digest.data.digest,
+          series: digest.data.series.map(s => ({
+            seriesId: s.series_id,
+            seriesTitle: s.title,
+            chapterCount: s.chapter_count,
+            chapterNumbers: s.chapter_numbers,
+          })),
+        };
+      }
+
+      if (!notification.series_id) return null;
+      const series = await prisma.series.findUnique({
+        where: { id: notification.series_id },
+        select: { title: true },
+      });
+      if (!series) return null;
+
+      const chapterNumbers = Array.isArray(metadata.chapter_numbers)
+        ? metadata.chapter_numbers.filter((n): n is number => typeof n === 'number')
+        : undefined;
+      return {
+        type: 'new_chapter',
+        seriesId: notification.series_id,
+        seriesTitle: series.title,
+        chapterCount: typeof metadata.chapter_count === 'number' ? metadata.chapter_count : chapterNumbers?.length ?? 1,
+        chapterNumbers,
+      };
+    }
+    case 'new_follower': {
+      if (!notification.actor_user_id) return null;
+      const actor = await prisma.user.findUnique({
+        where: { id: notification.actor_user_id },
+        select: { username: true },
+      });
+      return actor ? { type: 'new_follower', followerUsername: actor.username } : null;
+    }
+    case 'achievement':
+      return {
+        type: 'achievement',
+        achievementName: typeof metadata.achievement_name === 'string' ? metadata.achievement_name : notification.title,
+        description: notification.message,
+      };
+    case 'system':
+      return null;
+  }
+}
+
+export async function processEmail(job: QueueJob<EmailJobData>) {
+  const parseResult = EmailJobDataSchema.safeParse(job.data);
+  if (!parseResult.success) {
+    console.error(`[Email] Invalid payload: ${parseResult.error.message}`);
+    return; // Don't retry invalid payloads
+  }
+
+  const { userId, notification } = parseResult.data;
+
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { email: true, username: true, notification_settings: true, email_bounced_at: true },
+  });
+  if (!user) return;
+
+  if (user.email_bounced_at) {
+    console.log(`[Email] Skipping ${notification.type} for ${userId}: address bounced`);
+    return;
+  }
+
+  // Settings may have changed since the notification was dispatched
+  const settings = parseNotificationSettings(user.notification_settings);
+  if (!notificationChannels(settings, notification.type, { digest: false }).includes('email')) return;
+
+  const template = await emailTemplate(notification);
+  if (!template) return;
+
+  const unsubscribe = unsubscribeUrl(userId, notification.type);
+  const { subject, text, html } = renderEmail(template, { username: user.username, unsubscribeUrl: unsubscribe });
+
+  transport ??= new SmtpTransport();
+  try {
+    const messageId = await transport.send({
+      from: EMAIL_FROM,
+      to: user.email,
+      subject,
+      text,
+      html,
+      // One-click unsubscribe (RFC 8058)
+      headers: unsubscribe
+        ? { 'List-Unsubscribe': `<${unsubscribe}>`, 'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click' }
+        : {},
+    });
+    console.log(`[Email] Sent ${notification.type} to ${userId} (${messageId})`);
+  } catch (error) {
+    if (error instanceof SmtpError && error.isBounce) {
+      // Stop emailing the address; retrying would only bounce again. Bounces a
+      // relay reports later by DSN email are not tracked.
+      await prisma.user.update({
+        where: { id: userId },
+        data: { email_bounced_at: new Date(), email_bounce_reason: error.message.slice(0, 500) },
+      });
+      console.warn(`[Email] ${user.email} bounced: ${error.message}`);
+      return;
+    }
+    throw error;
+  }
+}
@@ -1,20 +1,43 @@
-import { Job } from 'bullmq';
+import { QueueJob } from '@/lib/queue';
 import { prisma } from '@/lib/prisma';
+import { firstSeenChapterNumbers } from '@/lib/sync/chapter-selection';
+import { dispatchNotification } from '@/lib/notifications/dispatcher';
+import { Prisma } from '@prisma/client';
 import { z } from 'zod';
 
 const NotificationJobDataSchema = z.object({
   seriesId: z.string().uuid(),
   sourceId: z.string().uuid(),
   newChapterCount: z.number().int().positive(),
+  chapterNumbers: z.array(z.string()).optional(),
 });
 
 export interface NotificationJobData {
   seriesId: string;
   sourceId: string;
   newChapterCount: number;
+  /** Numbers the source just added; jobs queued before this field existed omit it. */
+  chapterNumbers?: string[];
 }
 
-export async function processNotification(job: Job<NotificationJobData>) {
+/**
+ * Narrows the numbers a source added to those it was the first to list, so a
+ * chapter mirrored by several sources is announced once.
+ */
+async function unannouncedChapterNumbers(seriesId: string, sourceId: string, chapterNumbers: string[]) {
+  const copies = await prisma.chapter.findMany({
+    where: {
+      series_id: seriesId,
+      chapter_number: { in: chapterNumbers.map(n => new Prisma.Decimal(n)) },
+    },
+    orderBy: [{ discovered_at: 'asc' }, { id: 'asc' }],
+    select: { chapter_number: true, series_source_id: true },
+  });
+
+  return firstSeenChapterNumbers(copies, sourceId);
+}
+
+export async function processNotification(job: QueueJob<NotificationJobData>) {
   // Validate payload
   const parseResult = NotificationJobDataSchema.safeParse(job.data);
   if (!parseResult.success) {
@@ -22,7 +45,8 @@ export async function processNotification(job: Job<NotificationJobData>) {
     return; // Don't retry invalid payloads
   }
 
-  const { seriesId, sourceId, newChapterCount } = parseResult.data;
+  const { seriesId, sourceId, chapterNumbers } = parseResult.data;
+  let { newChapterCount } = parseResult.data;
 
   const series = await prisma.series.findUnique({
     where: { id: seriesId },
@@ -34,6 +58,16 @@ export async function processNotification(job: Job<NotificationJobData>) {
     return;
   }
 
+  let announced = chapterNumbers;
+  if (chapterNumbers) {
+    announced = await unannouncedChapterNumbers(seriesId, sourceId, chapterNumbers);
+    if (announced.length === 0) {
+      console.log(`[Notification] Chapters of ${series.title} were already announced through another source`);
+      return;
+    }
+    newChapterCount = announced.length;
+  }
+
   // Find subscribers
   const subscribers = await prisma.libraryEntry.findMany({
     where: {
@@ -56,7 +90,7 @@ export async function processNotification(job: Job<NotificationJobData>) {
   const existingNotifications = await prisma.notification.findMany({
     where: {
       series_id: seriesId,
-      type: 'NEW_CHAPTER',
+      type: 'new_chapter',
       created_at: { gte: idempotencyWindow },
     },
     select: { user_id: true }
@@ -64,29 +98,27 @@ export async function processNotification(job: Job<NotificationJobData>) {
 
   const alreadyNotifiedUsers = new Set(existingNotifications.map(n => n.user_id));
   
-  const notificationsToCreate = subscribers
-    .filter(sub => !alreadyNotifiedUsers.has(sub.user_id))
-    .map(sub => ({
-      user_id: sub.user_id,
-      type: 'NEW_CHAPTER',
-      title: 'New Chapter Available',
-      message: `${newChapterCount} new chapter${newChapterCount > 1 ? 's' : ''} for "${series.title}"!`,
-      series_id: seriesId,
-      metadata: {
-        source_id: sourceId,
-        chapter_count: newChapterCount,
-        job_id: job.id,
-      }
-    }));
-
-  if (notificationsToCreate.length === 0) {
+  const recipients = subscribers
+    .map(sub => sub.user_id)
+    .filter(userId => !alreadyNotifiedUsers.has(userId));
+
+  if (recipients.length === 0) {
     console.log(`[Notification] All subscribers already notified for ${series.title}`);
     return;
   }
 
-  await prisma.notification.createMany({
-    data: notificationsToCreate,
+  const delivered = await dispatchNotification(recipients, {
+    type: 'new_chapter',
+    title: 'New Chapter Available',
+    message: `${newChapterCount} new chapter${newChapterCount > 1 ? 's' : ''} for "${series.title}"!`,
+    series_id: seriesId,
+    metadata: {
+      source_id: sourceId,
+      chapter_count: newChapterCount,
+      ...(announced && { chapter_numbers: announced.map(Number) }),
+      job_id: job.id ?? null,
+    },
   });
 
-  console.log(`[Notification] Created ${notificationsToCreate.length} notifications for ${series.title}`);
+  console.log(`[Notification] Notified ${delivered.in_app} subscribers of ${series.title}`);
 }
@@ -0,0 +1,98 @@
+import { QueueJob } from '@/lib/queue';
+import { prisma } from '@/lib/prisma';
+import { NotificationPayload, NotificationPayloadSchema } from '@/lib/notifications/dispatcher';
+import { notificationChannels, parseNotificationSettings } from '@/lib/notifications/settings';
+import { vapidConfigFromEnv } from '@/lib/push/vapid';
+import { PushError, WebPushClient } from '@/lib/push/web-push';
+import { z } from 'zod';
+
+const PushJobDataSchema = z.object({
+  userId: z.string().uuid(),
+  notification: NotificationPayloadSchema,
+});
+
+export interface PushJobData {
+  userId: string;
+  notification: NotificationPayload;
+}
+
+/** What the service worker (public/sw.js) receives. */
+export interface PushMessage {
+  title: string;
+  body?: string;
+  url: string;
+  tag: string;
+}
+
+export function pushMessage(notification: z.infer<typeof NotificationPayloadSchema>): PushMessage {
+  const isDigest = typeof notification.metadata?.digest === 'string';
+  return {
+    title: notification.title,
+    body: notification.message?.slice(0, 500),
+    url: notification.series_id ? `/series/${notification.series_id}` : isDigest ? '/library' : '/notifications',
+    // Newer pushes about the same thing replace older ones on the device
+    tag: notification.series_id ? `${notification.type}-${notification.series_id}` : notification.type,
+  };
+}
+
+// Created on first use so VAPID_* settings are read at send time
+let client: WebPushClient | null = null;
+
+export async function processPush(job: QueueJob<PushJobData>) {
+  const parseResult = PushJobDataSchema.safeParse(job.data);
+  if (!parseResult.success) {
+    console.error(`[Push] Invalid payload: ${parseResult.error.message}`);
+    return; // Don't retry invalid payloads
+  }
+
+  const vapid = vapidConfigFromEnv();
+  if (!vapid) {
+    console.warn('[Push] VAPID keys are not configured, skipping');
+    return;
+  }
+  client ??= new WebPushClient(vapid);
+
+  const { userId, notification } = parseResult.data;
+
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { notification_settings: true, push_subscriptions: { select: { id: true, endpoint: true, p256dh: true, auth: true } } },
+  });
+  if (!user || user.push_subscriptions.length === 0) return;
+
+  // Settings may have changed since the notification was dispatched
+  const settings = parseNotificationSettings(user.notification_settings);
+  if (!notificationChannels(settings, notification.type, { digest: false }).includes('push')) return;
+
+  const payload = JSON.stringify(pushMessage(notification));
+  const delivered: string[] = [];
+  const expired: string[] = [];
+  const failures: PushError[] = [];
+
+  await Promise.all(user.push_subscriptions.map(async subscription => {
+    try {
+      await client!.send(subscription, payload, { urgency: notification.type === 'new_chapter' ? 'normal' : 'low' });
+      delivered.push(subscription.id);
+    } catch (error) {
+      if (error instanceof PushError && error.isExpired) {
+        expired.push(subscription.id);
+      } else {
+        failures.push(error instanceof PushError ? error : new PushError(String(error), null));
+      }
+    }
+  }));
+
+  if (expired.length > 0) {
+    await prisma.pushSubscription.deleteMany({ where: { id: { in: expired } } });
+    console.log(`[Push] Removed ${expired.length} expired subscriptions of ${userId}`);
+  }
+  if (delivered.length > 0) {
+    await prisma.pushSubscription.updateMany({ where: { id: { in: delivered } }, data: { last_used_at: new Date() } });
+  }
+
+  if (failures.length > 0) {
+    // Retrying would repeat the push on devices that already got it
+    if (delivered.length === 0) throw failures[0];
+    console.warn(`[Push] ${failures.length} of ${user.push_subscriptions.length} devices of ${userId} failed: ${failures[0].message}`);
+  }
+}
@@ -0,0 +1,142 @@
+import { QueueJob } from '@/lib/queue';
+import { prisma } from '@/lib/prisma';
+import { scraperRegistry, hasCapability, ScrapedSeriesMetadata, validateSourceUrl } from '@/lib/scrapers';
+import { hostBudget } from '@/lib/scrapers/politeness';
+import { mergeSeriesMetadata, SourceMetadata } from '@/lib/sync/metadata-merge';
+import { lockSeriesRow } from '@/lib/series-metadata';
+import { Prisma } from '@prisma/client';
+import { z } from 'zod';
+
+// Source snapshots younger than this are reused instead of scraped again
+const SNAPSHOT_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+const RefreshMetadataDataSchema = z.object({
+  seriesId: z.string().uuid(),
+  force: z.boolean().optional(),
+});
+
+export interface RefreshMetadataData {
+  seriesId: string;
+  /** Re-scrape every source even if its snapshot is fresh. */
+  force?: boolean;
+}
+
+export async function processRefreshMetadata(job: QueueJob<RefreshMetadataData>) {
+  const parseResult = RefreshMetadataDataSchema.safeParse(job.data);
+  if (!parseResult.success) {
+    throw new Error(`Invalid job payload: ${parseResult.error.message}`);
+  }
+
+  const { seriesId, force } = parseResult.data;
+
+  const series = await prisma.series.findUnique({
+    where: { id: seriesId },
+    include: { sources: { where: { disabled_at: null } } },
+  });
+
+  if (!series) {
+    console.warn(`[Metadata] Series ${seriesId} not found, skipping`);
+    return;
+  }
+
+  const snapshots: SourceMetadata[] = [];
+
+  for (const source of series.sources) {
+    let metadata = source.metadata as ScrapedSeriesMetadata | null;
+    const isStale = force
+      || !source.metadata_fetched_at
+      || Date.now() - source.metadata_fetched_at.getTime() > SNAPSHOT_MAX_AGE_MS;
+
+    const plugin = scraperRegistry.get(source.source_name);
+    if (isStale && plugin?.scraper.scrapeMetadata && hasCapability(plugin, 'metadata')
+      && validateSourceUrl(source.source_url, plugin.name)) {
+      const budget = await hostBudget.acquire(plugin.name, plugin.rateLimit, `metadata-${source.id}`);
+
+      if (budget.allowed) {
+        try {
+          metadata = await plugin.scraper.scrapeMetadata(source.source_id);
+          await prisma.seriesSource.update({
+            where: { id: source.id },
+            data: {
+              metadata: metadata as Prisma.InputJsonValue,
+              metadata_fetched_at: new Date(),
+            },
+          });
+        } catch (error) {
+          // One broken source should not block the others; fall back to its last snapshot
+          console.warn(`[Metadata] Failed to scrape ${source.source_name} for ${series.title}:`, error);
+        } finally {
+          await budget.release();
+        }
+      } else {
+        console.warn(`[Metadata] ${plugin.name} ${budget.reason} budget exhausted, using stored snapshot`);
+      }
+    }
+
+    if (metadata) {
+      snapshots.push({
+        sourceName: source.source_name,
+        trustScore: Number(source.trust_score),
+        metadata,
+      });
+    }
+  }
+
+  // Scraping can take a while; an admin may have edited or locked fields
+  // meanwhile, so merge against the series as it is now, under its row lock
+  const updates = await prisma.$transaction(async (tx) => {
+    if (!await lockSeriesRow(tx, series.id)) return null;
+    const current = await tx.series.findUniqueOrThrow({
+      where: { id: series.id },
+      select: {
+        title: true,
+        alternative_titles: true,
+        description: true,
+        cover_url: true,
+        status: true,
+        genres: true,
+        tags: true,
+        content_rating: true,
+        locked_fields: true,
+      },
+    });
+
+    const merged = mergeSeriesMetadata(
+      {
+        title: current.title,
+        alternative_titles: Array.isArray(current.alternative_titles)
+          ? current.alternative_titles.filter((t): t is string => typeof t === 'string')
+          : [],
+        description: current.description,
+        cover_url: current.cover_url,
+        status: current.status,
+        genres: current.genres,
+        tags: current.tags,
+        content_rating: current.content_rating,
+      },
+      snapshots,
+      current.locked_fields
+    );
+
+    await tx.series.update({
+      where: { id: series.id },
+      data: {
+        ...merged,
+        metadata_refreshed_at: new Date(),
+      },
+    });
+    return merged;
+  });
+
+  if (!updates) {
+    console.warn(`[Metadata] Series ${seriesId} was deleted during the refresh`);
+    return;
+  }
+
+  const changed = Object.keys(updates);
+  if (changed.length > 0) {
+    console.log(`[Metadata] Updated ${changed.join(', ')} for ${series.title} from ${snapshots.length} sources`);
+  } else {
+    console.log(`[Metadata] No metadata changes for ${series.title}`);
+  }
+}
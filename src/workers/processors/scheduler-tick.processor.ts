@@ -0,0 +1,23 @@
+import { runMasterScheduler } from '../schedulers/master.scheduler';
+import { runMetadataScheduler } from '../schedulers/metadata.scheduler';
+import { recordSchedulerHeartbeat } from '../health';
+
+/**
+ * One scheduler tick: queues due source checks and metadata refreshes.
+ * A failing scheduler does not stop the other from running.
+ */
+export async function processSchedulerTick() {
+  try {
+    await runMasterScheduler();
+  } catch (error) {
+    console.error('[Scheduler] Error in master scheduler:', error);
+  }
+
+  try {
+    await runMetadataScheduler();
+  } catch (error) {
+    console.error('[Scheduler] Error in metadata scheduler:', error);
+  }
+
+  await recordSchedulerHeartbeat();
+}
@@ -0,0 +1,91 @@
+import { QueueJob } from '@/lib/queue';
+import { prisma } from '@/lib/prisma';
+import { computeSyncPriority, ReaderSignal, SYNC_INTERVALS } from '@/lib/sync/sync-priority';
+import { loadReleaseDates, refreshReleaseForecasts, RELEASE_HISTORY_MS } from '@/lib/release-forecast';
+
+const SERIES_BATCH_SIZE = 100;
+
+/**
+ * Recalculates SeriesSource.sync_priority from reader demand and release
+ * activity, and each series' release forecast, a batch of series at a time.
+ */
+export async function processSyncPriorities(job: QueueJob) {
+  const now = new Date();
+  const historyStart = new Date(now.getTime() - RELEASE_HISTORY_MS);
+  let cursor: string | undefined;
+  let seriesCount = 0;
+  const changes: Record<string, number> = {};
+
+  while (true) {
+    const series = await prisma.series.findMany({
+      where: { sources: { some: {} } },
+      select: { id: true },
+      orderBy: { id: 'asc' },
+      take: SERIES_BATCH_SIZE,
+      ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+    });
+
+    if (series.length === 0) break;
+    cursor = series[series.length - 1].id;
+    seriesCount += series.length;
+
+    const seriesIds = series.map(s => s.id);
+    const [sources, readers, latestChapters, releaseDates] = await Promise.all([
+      prisma.seriesSource.findMany({
+        where: { series_id: { in: seriesIds } },
+        select: { id: true, series_id: true, sync_priority: true, failure_count: true, next_check_at: true, created_at: true },
+      }),
+      prisma.libraryEntry.findMany({
+        where: { series_id: { in: seriesIds }, status: 'reading' },
+        select: { series_id: true, sync_priority: true, last_read_at: true },
+      }),
+      prisma.chapter.groupBy({
+        by: ['series_source_id'],
+        where: { series_id: { in: seriesIds } },
+        _max: { discovered_at: true },
+      }),
+      loadReleaseDates(seriesIds, historyStart),
+    ]);
+
+    await refreshReleaseForecasts(seriesIds, releaseDates, now);
+
+    const readersBySeries = new Map<string, ReaderSignal[]>();
+    for (const reader of readers) {
+      const list = readersBySeries.get(reader.series_id) ?? [];
+      list.push({ syncPriority: reader.sync_priority, lastReadAt: reader.last_read_at });
+      readersBySeries.set(reader.series_id, list);
+    }
+
+    const lastChapterBySource = new Map(latestChapters.map(c => [c.series_source_id, c._max.discovered_at]));
+
+    for (const source of sources) {
+      const priority = computeSyncPriority({
+        readers: readersBySeries.get(source.series_id) ?? [],
+        releaseDates: releaseDates.get(source.series_id) ?? [],
+        lastChapterAt: lastChapterBySource.get(source.id) ?? source.created_at,
+        failureCount: source.failure_count,
+      }, now);
+
+      if (priority === source.sync_priority) continue;
+
+      // Promotions take effect now; demotions wait for the already scheduled check
+      const nextCheck = new Date(now.getTime() + SYNC_INTERVALS[priority]);
+      const pullForward = !source.next_check_at || source.next_check_at > nextCheck;
+
+      await prisma.seriesSource.update({
+        where: { id: source.id },
+        data: {
+          sync_priority: priority,
+          ...(pullForward && { next_check_at: nextCheck }),
+        },
+      });
+
+      const transition = `${source.sync_priority}->${priority}`;
+      changes[transition] = (changes[transition] ?? 0) + 1;
+    }
+
+    await job.updateProgress({ seriesCount });
+  }
+
+  console.log(`[SyncPriority] Recalculated priorities for ${seriesCount} series:`, changes);
+}
@@ -0,0 +1,105 @@
+import { QueueJob } from '@/lib/queue';
+import { prisma } from '@/lib/prisma';
+import { computeTrustScores, SourceObservation } from '@/lib/sync/trust-score';
+import { Prisma } from '@prisma/client';
+
+const SERIES_BATCH_SIZE = 50;
+// Takedowns older than this no longer count against a source
+const RETRACTION_LOOKBACK_MS = 90 * 24 * 60 * 60 * 1000;
+
+/**
+ * Recomputes SeriesSource.trust_score for every series with sources, a batch
+ * of series at a time. Sources of one series are always scored together
+ * because timeliness and completeness compare them with each other.
+ */
+export async function processTrustScores(job: QueueJob) {
+  const now = new Date();
+  const retractionCutoff = new Date(now.getTime() - RETRACTION_LOOKBACK_MS);
+  let cursor: string | undefined;
+  let seriesCount = 0;
+  let updatedCount = 0;
+
+  while (true) {
+    const series = await prisma.series.findMany({
+      where: { sources: { some: {} } },
+      select: { id: true },
+      orderBy: { id: 'asc' },
+      take: SERIES_BATCH_SIZE,
+      ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+    });
+
+    if (series.length === 0) break;
+    cursor = series[series.length - 1].id;
+    seriesCount += series.length;
+
+    const seriesIds = series.map(s => s.id);
+    const [sources, chapters, retractions] = await Promise.all([
+      prisma.seriesSource.findMany({
+        where: { series_id: { in: seriesIds } },
+        select: { id: true, series_id: true, failure_count: true, last_success_at: true, trust_score: true },
+      }),
+      prisma.chapter.findMany({
+        where: { series_id: { in: seriesIds }, is_available: true },
+        select: { series_source_id: true, chapter_number: true, published_at: true, discovered_at: true },
+      }),
+      prisma.chapterChange.groupBy({
+        by: ['series_source_id'],
+        where: {
+          change_type: 'removed',
+          created_at: { gte: retractionCutoff },
+          chapter: { series_id: { in: seriesIds } },
+        },
+        _count: { _all: true },
+      }),
+    ]);
+
+    const retractedBySource = new Map(retractions.map(r => [r.series_source_id, r._count._all]));
+    const chaptersBySource = new Map<string, SourceObservation['chapters']>();
+    for (const chapter of chapters) {
+      const list = chaptersBySource.get(chapter.series_source_id) ?? [];
+      list.push({
+        chapterNumber: Number(chapter.chapter_number),
+        // Prefer the source's own date; fall back to when we first saw it
+        releasedAt: chapter.published_at ?? chapter.discovered_at,
+      });
+      chaptersBySource.set(chapter.series_source_id, list);
+    }
+
+    const sourcesBySeries = new Map<string, typeof sources>();
+    for (const source of sources) {
+      const list = sourcesBySeries.get(source.series_id) ?? [];
+      list.push(source);
+      sourcesBySeries.set(source.series_id, list);
+    }
+
+    const updates: Prisma.PrismaPromise<unknown>[] = [];
+    for (const seriesSources of sourcesBySeries.values()) {
+      const scores = computeTrustScores(seriesSources.map(source => ({
+        id: source.id,
+        failureCount: source.failure_count,
+        lastSuccessAt: source.last_success_at,
+        chapters: chaptersBySource.get(source.id) ?? [],
+        retractedCount: retractedBySource.get(source.id) ?? 0,
+      })), now);
+
+      for (const { sourceId, score } of scores) {
+        const previous = seriesSources.find(s => s.id === sourceId)!.trust_score;
+        if (Number(previous) === score) continue;
+
+        updates.push(prisma.seriesSource.update({
+          where: { id: sourceId },
+          data: { trust_score: new Prisma.Decimal(score) },
+        }));
+      }
+    }
+
+    if (updates.length > 0) {
+      await prisma.$transaction(updates);
+      updatedCount += updates.length;
+    }
+
+    await job.updateProgress({ seriesCount, updatedCount });
+  }
+
+  console.log(`[TrustScore] Scored sources of ${seriesCount} series, ${updatedCount} scores changed`);
+}
@@ -0,0 +1,111 @@
+import { QueueJob } from '@/lib/queue';
+import { prisma } from '@/lib/prisma';
+import { sendWebhook, WebhookError } from '@/lib/webhooks/delivery';
+import { WEBHOOK_FORMATS, WebhookFormat, WebhookPayload } from '@/lib/webhooks/formatters';
+import { MAX_CONSECUTIVE_FAILURES } from '@/lib/webhooks/webhooks';
+import { z } from 'zod';
+
+const WebhookJobDataSchema = z.object({
+  deliveryId: z.string().uuid(),
+});
+
+export interface WebhookJobData {
+  deliveryId: string;
+}
+
+/**
+ * Counts a delivery that failed for good against its webhook and turns the
+ * webhook off once too many fail in a row.
+ */
+async function recordFailure(webhookId: string, error: WebhookError) {
+  const { consecutive_failures } = await prisma.webhook.update({
+    where: { id: webhookId },
+    data: { consecutive_failures: { increment: 1 } },
+    select: { consecutive_failures: true },
+  });
+
+  if (consecutive_failures >= MAX_CONSECUTIVE_FAILURES) {
+    await prisma.webhook.update({
+      where: { id: webhookId },
+      data: {
+        enabled: false,
+        disabled_reason: `Turned off after ${consecutive_failures} failed deliveries in a row. Last error: ${error.message}`.slice(0, 500),
+      },
+    });
+    console.warn(`[Webhook] Disabled ${webhookId} after ${consecutive_failures} failed deliveries`);
+  }
+}
+
+export async function processWebhook(job: QueueJob<WebhookJobData>) {
+  const parseResult = WebhookJobDataSchema.safeParse(job.data);
+  if (!parseResult.success) {
+    console.error(`[Webhook] Invalid payload: ${parseResult.error.message}`);
+    return; // Don't retry invalid payloads
+  }
+
+  const { deliveryId } = parseResult.data;
+
+  const delivery = await prisma.webhookDelivery.findUnique({
+    where: { id: deliveryId },
+    select: {
+      status: true,
+      payload: true,
+      webhook: { select: { id: true, url: true, secret: true, format: true, enabled: true } },
+    },
+  });
+  if (!delivery || delivery.status !== 'pending') return;
+
+  const { webhook } = delivery;
+  if (!webhook.enabled) {
+    await prisma.webhookDelivery.update({
+      where: { id: deliveryId },
+      data: { status: 'skipped', error: 'Webhook is disabled' },
+    });
+    return;
+  }
+
+  const attempt = job.attemptsMade + 1;
+  const format = (WEBHOOK_FORMATS as readonly string[]).includes(webhook.format) ? webhook.format as WebhookFormat : 'json';
+
+  try {
+    const response = await sendWebhook(
+      { url: webhook.url, secret: webhook.secret, format },
+      delivery.payload as unknown as WebhookPayload
+    );
+
+    const deliveredAt = new Date();
+    await prisma.webhookDelivery.update({
+      where: { id: deliveryId },
+      data: {
+        status: 'success',
+        attempts: attempt,
+        response_status: response.statusCode,
+        duration_ms: response.durationMs,
+        error: null,
+        delivered_at: deliveredAt,
+      },
+    });
+    await prisma.webhook.update({
+      where: { id: webhook.id },
+      data: { consecutive_failures: 0, last_delivery_at: deliveredAt },
+    });
+  } catch (error) {
+    const failure = error instanceof WebhookError ? error : new WebhookError(String(error), null, true);
+    const final = !failure.retryable || attempt >= (job.opts.attempts ?? 1);
+
+    await prisma.webhookDelivery.update({
+      where: { id: deliveryId },
+      data: {
+        status: final ? 'failed' : 'pending',
+        attempts: attempt,
+        response_status: failure.statusCode,
+        error: failure.message.slice(0, 500),
+      },
+    });
+
+    if (!final) throw failure; // Retried with backoff
+
+    console.warn(`[Webhook] Delivery ${deliveryId} to ${webhook.id} failed: ${failure.message}`);
+    await recordFailure(webhook.id, failure);
+  }
+}
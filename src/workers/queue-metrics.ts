@@ -0,0 +1,31 @@
+import { JobQueue, QueueJob } from '@/lib/queue';
+import { metrics } from '@/lib/metrics';
+
+const QUEUE_STATES = ['waiting', 'active', 'failed', 'delayed'] as const;
+
+const queueJobs = metrics.gauge('bullmq_queue_jobs', 'Jobs per queue and state');
+const jobDuration = metrics.histogram(
+  'bullmq_job_duration_seconds',
+  'Time from a worker picking a job up to it completing or failing'
+);
+
+/**
+ * Refreshes the per-queue job counts; called on every /metrics scrape so the
+ * gauges are current.
+ */
+export async function collectQueueMetrics(queues: JobQueue[]) {
+  await Promise.all(queues.map(async (queue) => {
+    const counts = await queue.getJobCounts(...QUEUE_STATES, 'prioritized');
+    for (const state of QUEUE_STATES) {
+      // Prioritized jobs are waiting too; BullMQ just keeps them in their own set
+      const value = state === 'waiting' ? (counts.waiting ?? 0) + (counts.prioritized ?? 0) : counts[state] ?? 0;
+      queueJobs.set({ queue: queue.name, state }, value);
+    }
+  }));
+}
+
+export function observeJobDuration(queue: string, job: QueueJob | undefined, status: 'completed' | 'failed') {
+  if (!job?.processedOn) return;
+  // Attempts that will be retried have no finishedOn yet
+  jobDuration.observe({ queue, status }, ((job.finishedOn ?? Date.now()) - job.processedOn) / 1000);
+}
@@ -0,0 +1,16 @@
+import { digestQueue } from '@/lib/queues';
+
+// Digests go out within this long of their due time
+export const DIGEST_INTERVAL = 5 * 60 * 1000; // 5 minutes
+
+/**
+ * Registers the recurring digest job (one schedule per id, so safe to call
+ * from every worker process).
+ */
+export async function scheduleDigests() {
+  await digestQueue.upsertJobScheduler(
+    'digest',
+    { every: DIGEST_INTERVAL },
+    { name: 'send-due-digests' }
+  );
+}
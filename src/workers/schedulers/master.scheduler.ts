@@ -1,83 +1,192 @@
 import { prisma } from '@/lib/prisma';
-import { checkSourceQueue } from '@/lib/queues';
+import { checkSourceQueue, schedulerQueue } from '@/lib/queues';
+import { SYNC_INTERVALS, toSyncPriority } from '@/lib/sync/sync-priority';
+import { nextCheckAt } from '@/lib/sync/release-cadence';
+import { computeBatchSize, perMinuteRate } from '@/lib/sync/batch-sizing';
+import { metrics } from '@/lib/metrics';
+import { Prisma } from '@prisma/client';
 
-export const SYNC_INTERVALS = {
-  HOT: 15 * 60 * 1000,      // 15 mins
-  WARM: 2 * 60 * 60 * 1000,  // 2 hours
-  COLD: 24 * 60 * 60 * 1000, // 24 hours
-} as const;
+export { SYNC_INTERVALS };
 
-type SyncPriority = keyof typeof SYNC_INTERVALS;
+// Minutes of BullMQ worker metrics averaged into the throughput estimate
+const THROUGHPUT_WINDOW_MINUTES = 15;
+
+const dueSources = metrics.gauge('scheduler_due_sources', 'Sources whose next check is due');
+const backlogAge = metrics.gauge(
+  'scheduler_backlog_age_seconds',
+  'How long the most overdue source has been waiting for its check'
+);
+const batchSize = metrics.gauge('scheduler_batch_size', 'Sources queued by the last scheduler tick');
+const queueDepth = metrics.gauge('check_source_queue_depth', 'check-source jobs queued but not started');
+
+export const SCHEDULER_TICK_INTERVAL = 5 * 60 * 1000; // 5 minutes
+
+interface DueSource {
+  id: string;
+  sync_priority: string;
+  next_check_at: Date | null;
+  next_release_at: Date | null;
+  release_confidence: Prisma.Decimal | null;
+}
+
+/**
+ * Registers the recurring scheduler tick. BullMQ keeps a single schedule per
+ * id and hands each tick to one worker, so the master scheduler runs once
+ * cluster-wide however many worker processes call this.
+ */
+export async function scheduleSchedulerTick() {
+  await schedulerQueue.upsertJobScheduler(
+    'scheduler-tick',
+    { every: SCHEDULER_TICK_INTERVAL },
+    { name: 'run-schedulers' }
+  );
+}
+
+/**
+ * Due sources, queued check-source jobs and recent worker throughput, which
+ * together decide how much to queue. Also publishes the backlog metrics.
+ */
+async function measureBacklog(now: Date) {
+  const due: Prisma.SeriesSourceWhereInput = {
+    disabled_at: null,
+    OR: [
+      { next_check_at: { lte: now } },
+      { next_check_at: null },
+    ],
+  };
+
+  const [dueCount, oldest, counts, completed, failed] = await Promise.all([
+    prisma.seriesSource.count({ where: due }),
+    prisma.seriesSource.aggregate({ where: due, _min: { next_check_at: true } }),
+    checkSourceQueue.getJobCounts('waiting', 'prioritized', 'delayed'),
+    checkSourceQueue.getMetrics('completed', 0, THROUGHPUT_WINDOW_MINUTES - 1),
+    checkSourceQueue.getMetrics('failed', 0, THROUGHPUT_WINDOW_MINUTES - 1),
+  ]);
+
+  const depth = (counts.waiting ?? 0) + (counts.prioritized ?? 0) + (counts.delayed ?? 0);
+  const oldestDueAt = oldest._min.next_check_at;
+  const ageSeconds = dueCount > 0 && oldestDueAt ? Math.max(now.getTime() - oldestDueAt.getTime(), 0) / 1000 : 0;
+
+  dueSources.set({}, dueCount);
+  backlogAge.set({}, Math.round(ageSeconds));
+  queueDepth.set({}, depth);
+
+  return {
+    dueCount,
+    queueDepth: depth,
+    throughputPerMinute: perMinuteRate(completed.data) + perMinuteRate(failed.data),
+    ageSeconds,
+  };
+}
+
+/**
+ * Makes claimed sources due again after their jobs could not be queued, so
+ * the next tick claims them with the same job ids. Jobs that did get queued
+ * are then not added twice.
+ */
+async function releaseClaim(sources: DueSource[]) {
+  const byPreviousCheck = new Map<number | null, string[]>();
+  for (const source of sources) {
+    const previous = source.next_check_at?.getTime() ?? null;
+    byPreviousCheck.set(previous, [...(byPreviousCheck.get(previous) ?? []), source.id]);
+  }
+
+  await Promise.all(Array.from(byPreviousCheck, ([previous, ids]) =>
+    prisma.seriesSource.updateMany({
+      where: { id: { in: ids } },
+      data: { next_check_at: previous === null ? null : new Date(previous) },
+    })
+  ));
+}
 
 export async function runMasterScheduler() {
   console.log('[Scheduler] Running master scheduler...');
 
   const now = new Date();
 
-  // Find sources due for check
-  const sourcesToUpdate = await prisma.seriesSource.findMany({
-    where: {
-      OR: [
-        { next_check_at: { lte: now } },
-        { next_check_at: null }
-      ]
-    },
-    select: {
-      id: true,
-      sync_priority: true,
-    },
-    take: 50, // Batch limit
-  });
-
-  if (sourcesToUpdate.length === 0) {
-    console.log('[Scheduler] No sources due for sync.');
+  const backlog = await measureBacklog(now);
+  const limit = computeBatchSize(backlog, SCHEDULER_TICK_INTERVAL);
+  batchSize.set({}, limit);
+
+  if (limit === 0) {
+    console.log(backlog.dueCount === 0
+      ? '[Scheduler] No sources due for sync.'
+      : `[Scheduler] ${backlog.dueCount} sources due but ${backlog.queueDepth} jobs still queued, skipping tick.`);
     return;
   }
 
-  console.log(`[Scheduler] Queuing ${sourcesToUpdate.length} sources for sync.`);
+  const claim = await prisma.$transaction(async (tx) => {
+    // Claim the most overdue sources, measured in multiples of their priority's interval so a
+    // HOT source an hour late beats a COLD one a few hours late. SKIP LOCKED leaves rows another
+    // scheduler run has claimed; they are no longer due once it commits.
+    const sources = await tx.$queryRaw<DueSource[]>`
+      SELECT ss.id, ss.sync_priority, ss.next_check_at, s.next_release_at, s.release_confidence
+      FROM series_sources ss
+      JOIN series s ON s.id = ss.series_id
+      WHERE ss.disabled_at IS NULL
+        AND (ss.next_check_at IS NULL OR ss.next_check_at <= ${now})
+      ORDER BY
+        ss.next_check_at IS NOT NULL,
+        EXTRACT(EPOCH FROM (${now}::timestamptz - ss.next_check_at)) * 1000 / CASE ss.sync_priority
+          WHEN 'HOT' THEN ${SYNC_INTERVALS.HOT}
+          WHEN 'WARM' THEN ${SYNC_INTERVALS.WARM}
+          ELSE ${SYNC_INTERVALS.COLD}
+        END DESC,
+        CASE ss.sync_priority WHEN 'HOT' THEN 0 WHEN 'WARM' THEN 1 ELSE 2 END
+      LIMIT ${limit}
+      FOR UPDATE OF ss SKIP LOCKED
+    `;
 
-  // Group sources by priority for batch updates
-  const updatesByPriority: Record<string, string[]> = {
-    HOT: [],
-    WARM: [],
-    COLD: [],
-  };
+    // Group sources by next check time for batch updates; the release forecast moves checks around expected drops
+    const updatesByNextCheck = new Map<number, string[]>();
 
-  const jobs = sourcesToUpdate.map(source => {
-    const priority = source.sync_priority as SyncPriority;
-    if (updatesByPriority[priority]) {
-      updatesByPriority[priority].push(source.id);
-    } else {
-      updatesByPriority.COLD.push(source.id); // Default to COLD
-    }
-
-    return {
-      name: `check-${source.id}`,
-      data: { seriesSourceId: source.id },
-      opts: {
-        jobId: `check-${source.id}-${now.getTime()}`,
-        priority: priority === 'HOT' ? 1 : priority === 'WARM' ? 2 : 3,
-      }
-    };
-  });
-
-  // Bulk add jobs to queue
-  await checkSourceQueue.addBulk(jobs);
-
-  // Batch update next_check_at by priority (eliminates N+1)
-  const updatePromises = Object.entries(updatesByPriority)
-    .filter(([_, ids]) => ids.length > 0)
-    .map(([priority, ids]) => {
-      const interval = SYNC_INTERVALS[priority as SyncPriority] || SYNC_INTERVALS.COLD;
-      const nextCheck = new Date(now.getTime() + interval);
-
-      return prisma.seriesSource.updateMany({
-        where: { id: { in: ids } },
-        data: { next_check_at: nextCheck }
-      });
+    const jobs = sources.map(source => {
+      const priority = toSyncPriority(source.sync_priority);
+      const nextCheck = nextCheckAt(priority, {
+        nextReleaseAt: source.next_release_at,
+        confidence: Number(source.release_confidence ?? 0),
+      }, now).getTime();
+      updatesByNextCheck.set(nextCheck, [...(updatesByNextCheck.get(nextCheck) ?? []), source.id]);
+
+      return {
+        name: `check-${source.id}`,
+        data: { seriesSourceId: source.id },
+        opts: {
+          // The check a source was due for: claiming it again (after a failed enqueue) gives the same id
+          jobId: `check-${source.id}-${source.next_check_at?.getTime() ?? 'new'}`,
+          priority: priority === 'HOT' ? 1 : priority === 'WARM' ? 2 : 3,
+        }
+      };
     });
 
-  await Promise.all(updatePromises);
+    // Batch update next_check_at (eliminates N+1)
+    await Promise.all(Array.from(updatesByNextCheck, ([nextCheck, ids]) =>
+      tx.seriesSource.updateMany({
+        where: { id: { in: ids } },
+        data: { next_check_at: new Date(nextCheck) }
+      })
+    ));
+
+    return { sources, jobs };
+  }, { timeout: 30000 });
+
+  if (claim.jobs.length === 0) {
+    console.log('[Scheduler] No sources due for sync.');
+    return;
+  }
+
+  // Queued only once the claim has committed, so a failed commit cannot leave
+  // jobs behind for sources that are still due
+  try {
+    await checkSourceQueue.addBulk(claim.jobs);
+  } catch (error) {
+    await releaseClaim(claim.sources);
+    throw error;
+  }
 
-  console.log(`[Scheduler] Queued ${jobs.length} jobs, updated next_check_at`);
+  console.log(
+    `[Scheduler] Queued ${claim.jobs.length} of ${backlog.dueCount} due sources ` +
+    `(queue depth ${backlog.queueDepth}, ${backlog.throughputPerMinute.toFixed(1)} checks/min, ` +
+    `oldest overdue ${Math.round(backlog.ageSeconds / 60)} min)`
+  );
 }
@@ -0,0 +1,34 @@
+import { prisma } from '@/lib/prisma';
+import { metadataQueue } from '@/lib/queues';
+
+export const METADATA_REFRESH_INTERVAL = 7 * 24 * 60 * 60 * 1000; // 7 days
+
+export async function runMetadataScheduler() {
+  const cutoff = new Date(Date.now() - METADATA_REFRESH_INTERVAL);
+
+  const seriesToRefresh = await prisma.series.findMany({
+    where: {
+      sources: { some: { disabled_at: null } },
+      OR: [
+        { metadata_refreshed_at: null },
+        { metadata_refreshed_at: { lte: cutoff } },
+      ],
+    },
+    select: { id: true },
+    orderBy: { metadata_refreshed_at: { sort: 'asc', nulls: 'first' } },
+    take: 25, // Batch limit
+  });
+
+  if (seriesToRefresh.length === 0) {
+    return;
+  }
+
+  // One job per series at a time: the jobId dedupes while a refresh is queued or running
+  await metadataQueue.addBulk(seriesToRefresh.map(series => ({
+    name: `metadata-${series.id}`,
+    data: { seriesId: series.id },
+    opts: { jobId: `metadata-${series.id}` },
+  })));
+
+  console.log(`[Scheduler] Queued metadata refresh for ${seriesToRefresh.length} series`);
+}
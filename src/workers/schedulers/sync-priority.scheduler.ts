@@ -0,0 +1,15 @@
+import { syncPriorityQueue } from '@/lib/queues';
+
+export const SYNC_PRIORITY_INTERVAL = 60 * 60 * 1000; // 1 hour
+
+/**
+ * Registers the recurring sync priority job (one schedule per id, so safe to
+ * call from every worker process).
+ */
+export async function scheduleSyncPriorities() {
+  await syncPriorityQueue.upsertJobScheduler(
+    'sync-priority',
+    { every: SYNC_PRIORITY_INTERVAL },
+    { name: 'recalculate-sync-priorities' }
+  );
+}
@@ -0,0 +1,15 @@
+import { trustScoreQueue } from '@/lib/queues';
+
+export const TRUST_SCORE_INTERVAL = 6 * 60 * 60 * 1000; // 6 hours
+
+/**
+ * Registers the recurring trust score job. BullMQ keeps a single schedule per
+ * id, so every worker process can call this on startup.
+ */
+export async function scheduleTrustScores() {
+  await trustScoreQueue.upsertJobScheduler(
+    'trust-score',
+    { every: TRUST_SCORE_INTERVAL },
+    { name: 'recompute-trust-scores' }
+  );
+}